@@ -1,21 +1,149 @@
+import * as path from 'node:path';
+import { InvocationContext } from '@azure/functions';
 import { YahooFinanceService } from '../services/yahooFinanceService';
 import { ExchangeRateService } from '../services/exchangeRateService';
 import { AlphaVantageService } from '../services/alphaVantageService';
-import type { CacheService } from '../services/cacheService';
-import { cacheService } from '../services/cacheService';
+import { CurrencyConversionService } from '../services/currencyConversionService';
+import { CacheService } from '../services/cacheService';
+import type { CachePolicies } from '../services/cache/cachePolicy';
+import { loadCachePolicies } from '../services/cache/cachePolicy';
+import { restoreSnapshot, saveSnapshot } from '../services/cache/cacheSnapshot';
+import type { CacheStore } from '../services/cache/cacheStore';
+import { FileCacheStore } from '../services/cache/fileCacheStore';
+import { MemoryCacheStore } from '../services/cache/memoryCacheStore';
+import type { CacheNamespace } from '../services/cache/namespaces';
+import { CACHE_NAMESPACES } from '../services/cache/namespaces';
+import { RedisCacheStore } from '../services/cache/redisCacheStore';
+import { RespClient } from '../services/cache/respClient';
+import { TieredCacheStore } from '../services/cache/tieredCacheStore';
 
 export interface ServiceContainer {
   yahooFinanceService: YahooFinanceService;
   exchangeRateService: ExchangeRateService;
   alphaVantageService: AlphaVantageService;
+  currencyConversionService: CurrencyConversionService;
   cacheService: CacheService;
+  cachePolicies: CachePolicies;
 }
 
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+// CACHE_NAMESPACE_QUOTAS caps each namespace at a percentage of CACHE_MAX_BYTES, e.g. `hist=40,quotes=10`;
+// namespaces not listed get half of the budget
+function parseNamespaceQuotas(value: string | undefined, maxBytes: number): Partial<Record<CacheNamespace, number>> {
+  const percentages: Partial<Record<CacheNamespace, number>> = {};
+  for (const namespace of CACHE_NAMESPACES) {
+    percentages[namespace] = 50;
+  }
+  for (const pair of (value ?? '').split(',')) {
+    const [name, percentage] = pair.split('=').map((part) => part.trim());
+    if ((CACHE_NAMESPACES as readonly string[]).includes(name)) {
+      percentages[name as CacheNamespace] = parsePositiveInt(percentage, 50);
+    }
+  }
+
+  const quotas: Partial<Record<CacheNamespace, number>> = {};
+  for (const [namespace, percentage] of Object.entries(percentages)) {
+    quotas[namespace as CacheNamespace] = Math.floor((maxBytes * Math.min(percentage, 100)) / 100);
+  }
+  return quotas;
+}
+
+function createMemoryStore(env: NodeJS.ProcessEnv): MemoryCacheStore {
+  const maxBytes = parsePositiveInt(env.CACHE_MAX_BYTES, 64 * 1024 * 1024);
+  return new MemoryCacheStore({
+    maxEntries: parsePositiveInt(env.CACHE_MAX_ENTRIES, 1000),
+    maxBytes,
+    namespaceQuotas: parseNamespaceQuotas(env.CACHE_NAMESPACE_QUOTAS, maxBytes),
+  });
+}
+
+// CACHE_STORE selects the backend; without it the legacy CACHE_PERSISTENCE_ENABLED flag picks file or memory
+function createBackingStore(env: NodeJS.ProcessEnv): CacheStore {
+  const kind = env.CACHE_STORE ?? (env.CACHE_PERSISTENCE_ENABLED === 'true' ? 'file' : 'memory');
+
+  switch (kind) {
+    case 'memory':
+      return createMemoryStore(env);
+    case 'file':
+      return new FileCacheStore({
+        cacheDir: env.CACHE_DIR ?? path.join(process.cwd(), '.cache'),
+        maxEntries: parsePositiveInt(env.CACHE_MAX_DISK_ENTRIES, 5000),
+      });
+    case 'redis':
+      return new RedisCacheStore(
+        new RespClient(env.REDIS_URL ?? 'redis://localhost:6379', {
+          timeoutMs: parsePositiveInt(env.REDIS_TIMEOUT_MS, 2000),
+        }),
+        env.REDIS_KEY_PREFIX ?? 'stockquotes:',
+      );
+    default:
+      throw new Error(`Unknown CACHE_STORE "${kind}". Expected memory, file or redis.`);
+  }
+}
+
+// File and Redis stores get an in-memory L1 in front of them unless CACHE_L1_TTL_SECONDS is 0
+export function createCacheStore(env: NodeJS.ProcessEnv = process.env): CacheStore {
+  const store = createBackingStore(env);
+  const l1TtlSeconds = Number.parseInt(env.CACHE_L1_TTL_SECONDS ?? '30', 10);
+  if (store instanceof MemoryCacheStore || Number.isNaN(l1TtlSeconds) || l1TtlSeconds <= 0) {
+    return store;
+  }
+
+  return new TieredCacheStore(createMemoryStore(env), store, { l1TtlMs: l1TtlSeconds * 1000 });
+}
+
+// CACHE_SNAPSHOT_FILE seeds a cold instance from the previous one's cache. With
+// CACHE_SNAPSHOT_INTERVAL_SECONDS the file is rewritten periodically, starting once the import is done.
+// This runs outside any invocation, so it logs through a context of its own rather than the console.
+function startCacheSnapshots(
+  cacheService: CacheService,
+  context: InvocationContext,
+  env: NodeJS.ProcessEnv = process.env,
+): void {
+  const file = env.CACHE_SNAPSHOT_FILE;
+  if (!file) {
+    return;
+  }
+
+  const intervalSeconds = Number.parseInt(env.CACHE_SNAPSHOT_INTERVAL_SECONDS ?? '0', 10);
+  void restoreSnapshot(cacheService, file)
+    .then((result) => {
+      if (result) {
+        context.log(`Imported cache snapshot ${file}: ${result.imported} entries, ${result.skipped} expired`);
+      }
+    })
+    .catch((error: unknown) => context.warn(`Failed to import cache snapshot ${file}`, error))
+    .finally(() => {
+      if (Number.isNaN(intervalSeconds) || intervalSeconds <= 0) {
+        return;
+      }
+      const timer = setInterval(
+        () =>
+          void saveSnapshot(cacheService, file).catch((error: unknown) =>
+            context.warn(`Failed to export cache snapshot ${file}`, error),
+          ),
+        intervalSeconds * 1000,
+      );
+      timer.unref();
+    });
+}
+
+const cachePolicies = loadCachePolicies();
+const cacheService = new CacheService(createCacheStore(), cachePolicies);
+startCacheSnapshots(cacheService, new InvocationContext({ functionName: 'cache-snapshots' }));
+const exchangeRateService = new ExchangeRateService(cacheService);
+
 const container: ServiceContainer = {
   yahooFinanceService: new YahooFinanceService(),
-  exchangeRateService: new ExchangeRateService(cacheService),
+  exchangeRateService,
   alphaVantageService: new AlphaVantageService(cacheService),
+  currencyConversionService: new CurrencyConversionService(exchangeRateService),
   cacheService: cacheService,
+  cachePolicies,
 };
 
 export function getServiceContainer(): ServiceContainer {
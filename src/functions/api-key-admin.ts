@@ -0,0 +1,45 @@
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getApiKeyRegistry } from '../services/apiKeys';
+import { getRateLimiter } from '../services/rateLimiter';
+import { NotFoundError } from '../utils/errors';
+import { withAdminAuth } from '../middleware/adminAuth';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withMiddleware } from '../middleware/pipeline';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
+
+// sample calls:
+//   http://localhost:7071/api/v1/manage/api-keys/usage
+//   http://localhost:7071/api/v1/manage/api-keys/usage?name=react-frontend
+async function getApiKeyUsage(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger ApiKeyUsage launched');
+
+  const name = request.query.get('name') ?? undefined;
+  const keys = await getApiKeyRegistry().getUsage(name);
+  if (name !== undefined && keys.length === 0) {
+    throw new NotFoundError(`Unknown API key: ${name}`);
+  }
+
+  return {
+    jsonBody: { keys },
+    headers: {
+      'Cache-Control': 'no-store',
+      'Content-Type': 'application/json',
+    },
+  };
+}
+
+export const apiKeyUsageHandler = withMiddleware(
+  getApiKeyUsage,
+  withCorrelationId(),
+  withRateLimit(getRateLimiter('api-key-admin')),
+  withErrorMapping('apiKeyUsageHandler'),
+  withAdminAuth(),
+);
+
+registerVersionedRoute('api-key-usage', {
+  route: 'manage/api-keys/usage',
+  methods: ['GET'],
+  handlers: { v1: apiKeyUsageHandler },
+});
@@ -0,0 +1,177 @@
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getServiceContainer } from '../di/container';
+import type { CacheSnapshot } from '../services/cache/cacheSnapshot';
+import { decodeSnapshot, encodeSnapshot, SnapshotFormatError } from '../services/cache/cacheSnapshot';
+import type { CacheNamespace } from '../services/cache/namespaces';
+import { CACHE_NAMESPACES } from '../services/cache/namespaces';
+import { getRateLimiter } from '../services/rateLimiter';
+import { ValidationError } from '../utils/errors';
+import { withAdminAuth } from '../middleware/adminAuth';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withMiddleware } from '../middleware/pipeline';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
+
+const MAX_LIST_LIMIT = 1000;
+
+const headers = {
+  'Cache-Control': 'no-store',
+  'Content-Type': 'application/json',
+};
+
+function parseLimit(value: string | null): number {
+  if (value === null) {
+    return 100;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new ValidationError(`limit must be an integer between 1 and ${MAX_LIST_LIMIT}`);
+  }
+  return limit;
+}
+
+function isNamespace(value: string): value is CacheNamespace {
+  return value === 'other' || (CACHE_NAMESPACES as readonly string[]).includes(value);
+}
+
+// sample call: http://localhost:7071/api/v1/manage/cache/stats
+async function getCacheStats(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger CacheStats launched');
+
+  const { cacheService } = getServiceContainer();
+  return { jsonBody: await cacheService.getStats(), headers };
+}
+
+// sample call: http://localhost:7071/api/v1/manage/cache/keys?prefix=quotes:&limit=50
+async function listCacheKeys(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger CacheKeys launched');
+
+  const prefix = request.query.get('prefix') ?? '';
+  const limit = parseLimit(request.query.get('limit'));
+
+  const { cacheService } = getServiceContainer();
+  return { jsonBody: { keys: await cacheService.listKeys(prefix, limit) }, headers };
+}
+
+// sample calls (DELETE):
+//   http://localhost:7071/api/v1/manage/cache/keys?key=quotes:AAPL:all
+//   http://localhost:7071/api/v1/manage/cache/keys?prefix=hist:*:1d:
+//   http://localhost:7071/api/v1/manage/cache/keys?namespace=hist
+async function purgeCache(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger CachePurge launched');
+
+  const key = request.query.get('key');
+  const prefix = request.query.get('prefix');
+  const namespace = request.query.get('namespace');
+
+  const selectors = [key, prefix, namespace].filter((value) => value !== null && value !== '');
+  if (selectors.length !== 1) {
+    throw new ValidationError('Exactly one of key, prefix or namespace is required');
+  }
+
+  const { cacheService } = getServiceContainer();
+  let purged: number;
+  if (key) {
+    purged = (await cacheService.delete(key)) ? 1 : 0;
+  } else if (prefix) {
+    purged = await cacheService.deleteByPrefix(prefix);
+  } else if (isNamespace(namespace!)) {
+    purged = await cacheService.deleteNamespace(namespace);
+  } else {
+    throw new ValidationError(
+      `Unknown namespace: ${namespace}. Expected one of ${[...CACHE_NAMESPACES, 'other'].join(', ')}`,
+    );
+  }
+
+  context.log(`Purged ${purged} cache entries`);
+  return { jsonBody: { purged }, headers };
+}
+
+// sample call: http://localhost:7071/api/v1/manage/cache/snapshot (save the gzip body to a file)
+async function exportCacheSnapshot(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger CacheSnapshotExport launched');
+
+  const { cacheService } = getServiceContainer();
+  const snapshot = await cacheService.exportSnapshot();
+  context.log(`Exported ${snapshot.entries.length} cache entries`);
+
+  return {
+    body: await encodeSnapshot(snapshot),
+    headers: {
+      'Cache-Control': 'no-store',
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="cache-snapshot-${snapshot.createdAt.slice(0, 10)}.json.gz"`,
+    },
+  };
+}
+
+// sample call (POST, body = snapshot file): http://localhost:7071/api/v1/manage/cache/snapshot
+async function importCacheSnapshot(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger CacheSnapshotImport launched');
+
+  let snapshot: CacheSnapshot;
+  try {
+    snapshot = await decodeSnapshot(Buffer.from(await request.arrayBuffer()));
+  } catch (error) {
+    if (error instanceof SnapshotFormatError) {
+      throw new ValidationError(error.message);
+    }
+    throw error;
+  }
+
+  const { cacheService } = getServiceContainer();
+  const result = await cacheService.importSnapshot(snapshot);
+  context.log(`Imported ${result.imported} cache entries, skipped ${result.skipped}`);
+  return { jsonBody: result, headers };
+}
+
+const adminMiddleware = (handlerName: string) => [
+  withCorrelationId(),
+  withRateLimit(getRateLimiter('cache-admin')),
+  withErrorMapping(handlerName),
+  withAdminAuth(),
+];
+
+export const cacheStatsHandler = withMiddleware(getCacheStats, ...adminMiddleware('cacheStatsHandler'));
+export const cacheKeysHandler = withMiddleware(listCacheKeys, ...adminMiddleware('cacheKeysHandler'));
+export const cachePurgeHandler = withMiddleware(purgeCache, ...adminMiddleware('cachePurgeHandler'));
+export const cacheSnapshotExportHandler = withMiddleware(
+  exportCacheSnapshot,
+  ...adminMiddleware('cacheSnapshotExportHandler'),
+);
+export const cacheSnapshotImportHandler = withMiddleware(
+  importCacheSnapshot,
+  ...adminMiddleware('cacheSnapshotImportHandler'),
+);
+
+// Azure Functions reserves the "admin" route prefix, so operator routes live under "manage"
+registerVersionedRoute('cache-stats', {
+  route: 'manage/cache/stats',
+  methods: ['GET'],
+  handlers: { v1: cacheStatsHandler },
+});
+
+registerVersionedRoute('cache-keys', {
+  route: 'manage/cache/keys',
+  methods: ['GET'],
+  handlers: { v1: cacheKeysHandler },
+});
+
+registerVersionedRoute('cache-purge', {
+  route: 'manage/cache/keys',
+  methods: ['DELETE'],
+  handlers: { v1: cachePurgeHandler },
+});
+
+registerVersionedRoute('cache-snapshot-export', {
+  route: 'manage/cache/snapshot',
+  methods: ['GET'],
+  handlers: { v1: cacheSnapshotExportHandler },
+});
+
+registerVersionedRoute('cache-snapshot-import', {
+  route: 'manage/cache/snapshot',
+  methods: ['POST'],
+  handlers: { v1: cacheSnapshotImportHandler },
+});
@@ -1,104 +1,134 @@
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { app } from '@azure/functions';
 import { getServiceContainer } from '../di/container';
-import { apiRateLimiter } from '../services/rateLimiter';
+import { getRateLimiter } from '../services/rateLimiter';
+import { negotiateMediaType } from '../utils/contentNegotiation';
+import { rateHistoryQuery } from '../schemas/requests';
+import { withAuthentication } from '../middleware/authentication';
+import { withCompression } from '../middleware/compression';
+import { withCors } from '../middleware/cors';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withETag } from '../middleware/etag';
+import { withMiddleware } from '../middleware/pipeline';
+import { withQuota } from '../middleware/quota';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
 
-const { exchangeRateService } = getServiceContainer();
+// XML stays the default so existing clients that send no Accept header keep the ECB passthrough
+const SUPPORTED_MEDIA_TYPES = ['application/xml', 'text/xml', 'application/json'];
 
-export async function exchangeRateEcbHandler(
-  request: HttpRequest,
-  context: InvocationContext,
-): Promise<HttpResponseInit> {
+async function getLatestRatesJson(context: InvocationContext): Promise<HttpResponseInit> {
+  const { exchangeRateService, cachePolicies } = getServiceContainer();
+  const rates = await exchangeRateService.getDailyReferenceRates(context);
+
+  return {
+    status: 200,
+    jsonBody: rates,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': cachePolicies.resolve('ecb').cacheControl,
+    },
+  };
+}
+
+async function getExchangeRates(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   context.log('HTTP trigger GetExchangeRates launched');
+  const { exchangeRateService, cachePolicies } = getServiceContainer();
 
-  try {
-    // Extract client IP for rate limiting
-    const clientIp = request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown';
-
-    // Apply rate limiting
-    const rateLimitResult = apiRateLimiter.isAllowed(clientIp);
-
-    if (!rateLimitResult.allowed) {
-      return {
-        status: 429,
-        jsonBody: {
-          error: 'Too many requests',
-          message: 'Rate limit exceeded. Please try again later.',
-          retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000),
-        },
-        headers: {
-          'X-RateLimit-Limit': apiRateLimiter.getMaxRequests().toString(),
-          'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-          'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
-          'Retry-After': Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000).toString(),
-        },
-      };
-    }
-
-    // Validate request using service
-    const validation = exchangeRateService.validateRequest();
-    if (!validation.isValid) {
-      return {
-        status: 400,
-        jsonBody: { error: validation.error },
-      };
-    }
-
-    const response = await exchangeRateService.getDailyRates(context);
-
-    return {
-      status: 200,
-      body: response.data,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Content-Type': response.contentType,
-        'Cache-Control': 'max-age=3600',
-        'X-RateLimit-Limit': apiRateLimiter.getMaxRequests().toString(),
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
-      },
-    };
-  } catch (error: unknown) {
-    context.error('Error in exchangeRateEcbHandler:', error);
-
-    // Handle different error types
-    if (error && typeof error === 'object' && 'response' in error) {
-      const axiosError = error as { response?: { status?: number; statusText?: string } };
-      // External API error
-      return {
-        status: axiosError.response?.status ?? 502,
-        jsonBody: {
-          error: 'External API error',
-          message: axiosError.response?.statusText ?? 'Failed to fetch exchange rates',
-          status: axiosError.response?.status,
-        },
-      };
-    } else if (error && typeof error === 'object' && 'code' in error) {
-      const nodeError = error as { code?: string };
-      if (nodeError.code === 'ECONNABORTED' || nodeError.code === 'ETIMEDOUT') {
-        // Timeout error
-        return {
-          status: 408,
-          jsonBody: { error: 'Request timeout', message: 'ECB service is not responding' },
-        };
-      }
-    }
-
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unexpected error occurred while fetching exchange rates';
-    // Internal server error
-    return {
-      status: 500,
-      jsonBody: {
-        error: 'Internal server error',
-        message: errorMessage,
-      },
-    };
+  if (negotiateMediaType(request.headers.get('Accept'), SUPPORTED_MEDIA_TYPES) === 'application/json') {
+    const response = await getLatestRatesJson(context);
+    return { ...response, headers: { ...response.headers, Vary: 'Accept' } };
   }
+
+  const response = await exchangeRateService.getDailyRates(context);
+
+  return {
+    status: 200,
+    body: response.data,
+    headers: {
+      'Content-Type': response.contentType,
+      'Cache-Control': cachePolicies.resolve('ecb').cacheControl,
+      Vary: 'Accept',
+    },
+  };
 }
 
-app.http('exchange-rate-ecb', {
-  methods: ['GET', 'POST'],
-  authLevel: 'anonymous',
-  handler: exchangeRateEcbHandler,
+// sample call: http://localhost:7071/api/v1/exchange-rate-ecb/latest
+async function getLatestExchangeRates(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger GetLatestExchangeRates launched');
+  return getLatestRatesJson(context);
+}
+
+// sample call: http://localhost:7071/api/v1/exchange-rate-ecb/history?currency=USD&from=2024-01-01&to=2024-01-31
+async function getExchangeRateHistory(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger GetExchangeRateHistory launched');
+
+  const { currency, from, to } = rateHistoryQuery.parse(request.query);
+  const { exchangeRateService, cachePolicies } = getServiceContainer();
+
+  const rates = await exchangeRateService.getRateSeries(currency, from, to, context);
+
+  return {
+    status: 200,
+    jsonBody: { base: 'EUR', currency, from, to, rates },
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': cachePolicies.resolve('ecb').cacheControl,
+    },
+  };
+}
+
+export const exchangeRateEcbHandler = withMiddleware(
+  getExchangeRates,
+  withCors(),
+  withCorrelationId(),
+  withAuthentication('exchange-rate-ecb'),
+  withRateLimit(getRateLimiter('exchange-rate-ecb')),
+  withQuota(),
+  withErrorMapping('exchangeRateEcbHandler'),
+  withCompression(),
+  withETag(),
+);
+
+export const exchangeRateEcbLatestHandler = withMiddleware(
+  getLatestExchangeRates,
+  withCors(),
+  withCorrelationId(),
+  withAuthentication('exchange-rate-ecb'),
+  withRateLimit(getRateLimiter('exchange-rate-ecb')),
+  withQuota(),
+  withErrorMapping('exchangeRateEcbLatestHandler'),
+  withCompression(),
+  withETag(),
+);
+
+export const exchangeRateEcbHistoryHandler = withMiddleware(
+  getExchangeRateHistory,
+  withCors(),
+  withCorrelationId(),
+  withAuthentication('exchange-rate-ecb'),
+  withRateLimit(getRateLimiter('exchange-rate-ecb')),
+  withQuota(),
+  withErrorMapping('exchangeRateEcbHistoryHandler'),
+  withCompression(),
+  withETag(),
+);
+
+registerVersionedRoute('exchange-rate-ecb', {
+  route: 'exchange-rate-ecb',
+  methods: ['GET', 'POST', 'OPTIONS'],
+  handlers: { v1: exchangeRateEcbHandler },
+  legacy: true,
+});
+
+registerVersionedRoute('exchange-rate-ecb-latest', {
+  route: 'exchange-rate-ecb/latest',
+  methods: ['GET', 'OPTIONS'],
+  handlers: { v1: exchangeRateEcbLatestHandler },
+});
+
+registerVersionedRoute('exchange-rate-ecb-history', {
+  route: 'exchange-rate-ecb/history',
+  methods: ['GET', 'OPTIONS'],
+  handlers: { v1: exchangeRateEcbHistoryHandler },
 });
@@ -0,0 +1,52 @@
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getServiceContainer } from '../di/container';
+import { getRateLimiter } from '../services/rateLimiter';
+import { conversionQuery } from '../schemas/requests';
+import { withAuthentication } from '../middleware/authentication';
+import { withCompression } from '../middleware/compression';
+import { withCors } from '../middleware/cors';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withETag } from '../middleware/etag';
+import { withMiddleware } from '../middleware/pipeline';
+import { withQuota } from '../middleware/quota';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
+
+// sample call: http://localhost:7071/api/v1/exchange-rate?from=USD&to=CHF&date=2024-03-15&amount=1000
+async function convertCurrency(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger ExchangeRate launched');
+
+  const { from, to, date, amount } = conversionQuery.parse(request.query);
+  const { exchangeRateService, cachePolicies } = getServiceContainer();
+
+  const conversion = await exchangeRateService.convert(from, to, amount, date, context);
+
+  return {
+    status: 200,
+    jsonBody: conversion,
+    headers: {
+      'Content-Type': 'application/json',
+      // Conversions are computed from the cached ECB rates and share their policy
+      'Cache-Control': cachePolicies.resolve('ecb').cacheControl,
+    },
+  };
+}
+
+export const exchangeRateHandler = withMiddleware(
+  convertCurrency,
+  withCors(),
+  withCorrelationId(),
+  withAuthentication('exchange-rate'),
+  withRateLimit(getRateLimiter('exchange-rate')),
+  withQuota(),
+  withErrorMapping('exchangeRateHandler'),
+  withCompression(),
+  withETag(),
+);
+
+registerVersionedRoute('exchange-rate', {
+  route: 'exchange-rate',
+  methods: ['GET', 'OPTIONS'],
+  handlers: { v1: exchangeRateHandler },
+});
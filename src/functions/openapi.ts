@@ -0,0 +1,45 @@
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { buildOpenApiDocument } from '../schemas/openapi';
+import { getRateLimiter } from '../services/rateLimiter';
+import { withCompression } from '../middleware/compression';
+import { withCors } from '../middleware/cors';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withETag } from '../middleware/etag';
+import { withMiddleware } from '../middleware/pipeline';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
+
+// The document only changes with a deployment
+const document = buildOpenApiDocument();
+
+// sample call: http://localhost:7071/api/v1/openapi.json
+async function getOpenApiDocument(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  context.log('HTTP trigger OpenApi launched');
+
+  return {
+    status: 200,
+    jsonBody: document,
+    headers: {
+      'Cache-Control': 'public, max-age=3600',
+      'Content-Type': 'application/json',
+    },
+  };
+}
+
+// Served without authentication so client generators can fetch it
+export const openApiHandler = withMiddleware(
+  getOpenApiDocument,
+  withCors(),
+  withCorrelationId(),
+  withRateLimit(getRateLimiter('openapi')),
+  withErrorMapping('openApiHandler'),
+  withCompression(),
+  withETag(),
+);
+
+registerVersionedRoute('openapi', {
+  route: 'openapi.json',
+  methods: ['GET', 'OPTIONS'],
+  handlers: { v1: openApiHandler },
+});
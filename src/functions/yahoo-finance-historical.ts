@@ -1,154 +1,75 @@
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { app } from '@azure/functions';
 import { getServiceContainer } from '../di/container';
-import { strictRateLimiter } from '../services/rateLimiter';
-import { cacheService } from '../services/cacheService';
-import { computeETag, matchesETag } from '../utils/etag';
-
-interface RateLimitResult {
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
-}
-
-function buildHeaders(rateLimit: RateLimitResult, etag: string, cacheStatus?: 'HIT' | 'MISS') {
-  const headers: Record<string, string> = {
-    'Access-Control-Allow-Origin': '*',
-    'Cache-Control': 'max-age=3600',
-    ETag: etag,
-    'X-RateLimit-Limit': strictRateLimiter.getMaxRequests().toString(),
-    'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-    'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
-  };
-
-  if (cacheStatus) {
-    headers['X-Cache'] = cacheStatus;
-    headers['Content-Type'] = 'application/json';
-  }
-
-  return headers;
-}
-
-function handleHistoricalError(error: unknown, context: InvocationContext): HttpResponseInit {
-  context.error('Error in yahooFinanceHistoricalHandler:', error);
-
-  if (error && typeof error === 'object') {
-    const errObj = error as Record<string, unknown>;
-    if (errObj.response && typeof errObj.response === 'object') {
-      const response = errObj.response as Record<string, unknown>;
-      return {
-        status: (response.status as number) ?? 502,
-        jsonBody: {
-          error: 'External API error',
-          message: (response.statusText as string) ?? 'Unknown error',
-          status: response.status,
-        },
-      };
-    }
-    if (errObj.code === 'ECONNABORTED' || errObj.code === 'ETIMEDOUT') {
-      return {
-        status: 408,
-        jsonBody: { error: 'Request timeout', message: 'External service is not responding' },
-      };
-    }
-    if (errObj.code === 429) {
-      return {
-        status: 429,
-        jsonBody: { error: 'Too Many Requests', message: 'Yahoo Finance rate limit exceeded. Please try again later.' },
-      };
-    }
-  }
-
+import type { CacheStatus } from '../services/cacheService';
+import { getRateLimiter } from '../services/rateLimiter';
+import { resolveHistoricalPrecision } from '../services/yahooFinanceService';
+import { historicalQuery } from '../schemas/requests';
+import { withAuthentication } from '../middleware/authentication';
+import { withCompression } from '../middleware/compression';
+import { withCors } from '../middleware/cors';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withETag } from '../middleware/etag';
+import { withMiddleware } from '../middleware/pipeline';
+import { withQuota } from '../middleware/quota';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
+
+function buildHeaders(cacheStatus: CacheStatus, cacheControl: string) {
   return {
-    status: 500,
-    jsonBody: {
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'An unexpected error occurred',
-    },
+    'Cache-Control': cacheControl,
+    'Content-Type': 'application/json',
+    'X-Cache': cacheStatus,
   };
 }
 
-export async function yahooFinanceHistoricalHandler(
-  request: HttpRequest,
-  context: InvocationContext,
-): Promise<HttpResponseInit> {
+async function getHistoricalData(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   context.log('HTTP trigger YahooFinanceHistorical launched');
 
-  try {
-    const clientIp = request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown';
-    const rateLimit = strictRateLimiter.isAllowed(clientIp);
+  const { ticker, from, to, interval, fields, events, precision, baseCurrency } = historicalQuery.parse(request.query);
+  const { yahooFinanceService, currencyConversionService, cacheService, cachePolicies } = getServiceContainer();
+
+  // Converted prices are rounded like the unconverted ones, with the precision resolved for the chart
+  const toBaseCurrency = async (data: { meta?: { priceHint?: unknown; instrumentType?: unknown } }) =>
+    baseCurrency
+      ? currencyConversionService.convertHistorical(
+          data,
+          baseCurrency,
+          resolveHistoricalPrecision(precision, data?.meta),
+          context,
+        )
+      : data;
+
+  const sortedFields = fields ? [...fields].sort((a, b) => a.localeCompare(b)).join(',') : 'all';
+  const sortedEvents = events ? [...new Set(events)].sort((a, b) => a.localeCompare(b)).join(',') : 'none';
+  const cacheKey = `hist:${ticker}:${from}:${to}:${interval}:${sortedFields}:${sortedEvents}:p${precision}`;
+
+  const { data, status } = await cacheService.getOrLoad(cacheKey, () =>
+    yahooFinanceService.getHistoricalData({ ticker, from, to, interval, fields, events, precision }, context),
+  );
+  context.log(`Cache ${status} for ${cacheKey}`);
 
-    if (!rateLimit.allowed) {
-      return {
-        status: 429,
-        jsonBody: {
-          error: 'Too many requests',
-          message: 'Rate limit exceeded. Please try again later.',
-          retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
-        },
-        headers: {
-          'X-RateLimit-Limit': strictRateLimiter.getMaxRequests().toString(),
-          'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-          'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
-          'Retry-After': Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
-        },
-      };
-    }
-
-    const ticker = request.query.get('ticker');
-    const from = request.query.get('from');
-    const to = request.query.get('to');
-    const interval = request.query.get('interval') ?? undefined;
-    const fieldsParam = request.query.get('fields');
-    const fields = fieldsParam ? fieldsParam.split(/[|,]/).filter((f) => f.length > 0) : undefined;
-
-    if (!ticker) {
-      return { status: 400, jsonBody: { error: 'Missing required parameter: ticker' } };
-    }
-
-    const { yahooFinanceService } = getServiceContainer();
-    const validation = yahooFinanceService.validateHistoricalRequest(ticker, from ?? '', to ?? '', interval, fields);
-    if (!validation.isValid) {
-      return { status: 400, jsonBody: { error: validation.error } };
-    }
-
-    const today = new Date().toISOString().split('T')[0];
-    const sortedFields = fields ? [...fields].sort((a, b) => a.localeCompare(b)).join(',') : 'all';
-    const cacheKey = `hist:${today}:${ticker}:${from}:${to}:${interval ?? '1d'}:${sortedFields}`;
-    const incomingEtag = request.headers.get('If-None-Match');
-
-    const cached = cacheService.get<unknown>(cacheKey);
-    if (cached) {
-      const etag = computeETag(cached);
-      if (matchesETag(incomingEtag, cached)) {
-        context.log(`ETag match for ${cacheKey}, returning 304`);
-        return { status: 304, headers: buildHeaders(rateLimit, etag) };
-      }
-      context.log(`Cache hit for ${cacheKey}`);
-      return { jsonBody: cached, headers: buildHeaders(rateLimit, etag, 'HIT') };
-    }
-
-    const data = await yahooFinanceService.getHistoricalData(
-      { ticker, from: from!, to: to!, interval, fields },
-      context,
-    );
-    cacheService.set(cacheKey, data);
-    context.log(`Cache stored for ${cacheKey}`);
-
-    const etag = computeETag(data);
-    if (matchesETag(incomingEtag, data)) {
-      context.log(`ETag match for ${cacheKey}, returning 304`);
-      return { status: 304, headers: buildHeaders(rateLimit, etag) };
-    }
-
-    return { jsonBody: data, headers: buildHeaders(rateLimit, etag, 'MISS') };
-  } catch (error: unknown) {
-    return handleHistoricalError(error, context);
-  }
+  return {
+    jsonBody: await toBaseCurrency(data),
+    headers: buildHeaders(status, cachePolicies.resolve('hist').cacheControl),
+  };
 }
 
-app.http('yahoo-finance-historical', {
-  methods: ['GET'],
-  authLevel: 'anonymous',
-  handler: yahooFinanceHistoricalHandler,
+export const yahooFinanceHistoricalHandler = withMiddleware(
+  getHistoricalData,
+  withCors(),
+  withCorrelationId(),
+  withAuthentication('yahoo-finance-historical'),
+  withRateLimit(getRateLimiter('yahoo-finance-historical')),
+  withQuota(),
+  withErrorMapping('yahooFinanceHistoricalHandler'),
+  withCompression(),
+  withETag(),
+);
+
+registerVersionedRoute('yahoo-finance-historical', {
+  route: 'yahoo-finance-historical',
+  methods: ['GET', 'OPTIONS'],
+  handlers: { v1: yahooFinanceHistoricalHandler },
+  legacy: true,
 });
@@ -1,191 +1,65 @@
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { app } from '@azure/functions';
 import { getServiceContainer } from '../di/container';
-import { apiRateLimiter } from '../services/rateLimiter';
-import { cacheService } from '../services/cacheService';
-import { computeETag, matchesETag } from '../utils/etag';
-
-interface RateLimitResult {
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
-}
-
-function buildHeaders(rateLimit: RateLimitResult, etag: string, cacheStatus?: 'HIT' | 'MISS') {
-  const headers: Record<string, string> = {
-    'Access-Control-Allow-Origin': '*',
-    'Cache-Control': 'max-age=300',
-    ETag: etag,
-    'X-RateLimit-Limit': apiRateLimiter.getMaxRequests().toString(),
-    'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-    'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
-  };
-
-  if (cacheStatus) {
-    headers['X-Cache'] = cacheStatus;
-    headers['Content-Type'] = 'application/json';
-  }
-
-  return headers;
-}
-
-function handleOptionsError(error: unknown, context: InvocationContext): HttpResponseInit {
-  context.error('Error in yahooFinanceOptionsHandler:', error);
-
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Content-Type': 'application/json',
-  };
-
-  if (error && typeof error === 'object') {
-    const errObj = error as Record<string, unknown>;
-    if (errObj.response && typeof errObj.response === 'object') {
-      const response = errObj.response as Record<string, unknown>;
-      return {
-        status: (response.status as number) ?? 502,
-        jsonBody: {
-          error: 'External API error',
-          message: (response.statusText as string) ?? 'Unknown error',
-          status: response.status,
-        },
-        headers: corsHeaders,
-      };
-    }
-    if (errObj.code === 'ECONNABORTED' || errObj.code === 'ETIMEDOUT') {
-      return {
-        status: 408,
-        jsonBody: { error: 'Request timeout', message: 'External service is not responding' },
-        headers: corsHeaders,
-      };
-    }
-    if (errObj.code === 429) {
-      return {
-        status: 429,
-        jsonBody: { error: 'Too Many Requests', message: 'Yahoo Finance rate limit exceeded. Please try again later.' },
-        headers: corsHeaders,
-      };
-    }
-  }
-
+import type { CacheStatus } from '../services/cacheService';
+import { getRateLimiter } from '../services/rateLimiter';
+import { optionsQuery } from '../schemas/requests';
+import { withAuthentication } from '../middleware/authentication';
+import { withCompression } from '../middleware/compression';
+import { withCors } from '../middleware/cors';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withETag } from '../middleware/etag';
+import { withMiddleware } from '../middleware/pipeline';
+import { withQuota } from '../middleware/quota';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
+
+function buildHeaders(cacheStatus: CacheStatus, cacheControl: string) {
   return {
-    status: 500,
-    jsonBody: {
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'An unexpected error occurred',
-    },
-    headers: corsHeaders,
+    'Cache-Control': cacheControl,
+    'Content-Type': 'application/json',
+    'X-Cache': cacheStatus,
   };
 }
 
-export async function yahooFinanceOptionsHandler(
-  request: HttpRequest,
-  context: InvocationContext,
-): Promise<HttpResponseInit> {
+async function getOptions(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   context.log('HTTP trigger YahooFinanceOptions launched');
 
-  try {
-    const clientIp = request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown';
-    const rateLimit = apiRateLimiter.isAllowed(clientIp);
-
-    if (!rateLimit.allowed) {
-      return {
-        status: 429,
-        jsonBody: {
-          error: 'Too many requests',
-          message: 'Rate limit exceeded. Please try again later.',
-          retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
-        },
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Content-Type': 'application/json',
-          'X-RateLimit-Limit': apiRateLimiter.getMaxRequests().toString(),
-          'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-          'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
-          'Retry-After': Math.ceil((rateLimit.resetTime - Date.now()) / 1000).toString(),
-        },
-      };
-    }
-
-    const ticker = request.query.get('ticker');
-    const expirationDate = request.query.get('expirationDate') ?? undefined;
-    const expirationDatesCountParam = request.query.get('expirationDatesCount');
-    const expirationDatesCount = expirationDatesCountParam ? Number.parseInt(expirationDatesCountParam, 10) : undefined;
-    const filterParam = request.query.get('filter');
-    const filter = filterParam
-      ? filterParam
-          .split(',')
-          .map((f) => f.trim())
-          .filter((f) => f.length > 0)
-      : undefined;
-    const limitParam = request.query.get('limit');
-    const limit = limitParam ? Number.parseInt(limitParam, 10) : undefined;
+  const { ticker, expirationDate, expirationDatesCount, filter, limit } = optionsQuery.parse(request.query);
+  const { yahooFinanceService, cacheService, cachePolicies } = getServiceContainer();
 
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Content-Type': 'application/json',
-    };
+  const sortedFilter = filter ? [...filter].sort((a, b) => a.localeCompare(b)).join(',') : 'all';
+  const cacheKey = `options:${ticker}:${expirationDate ?? 'all'}:${expirationDatesCount ?? 'all'}:${sortedFilter}:${limit ?? 'all'}`;
 
-    if (!ticker) {
-      return {
-        status: 400,
-        jsonBody: { error: 'Missing required parameter: ticker' },
-        headers: corsHeaders,
-      };
-    }
+  const { data, status } = await cacheService.getOrLoad(cacheKey, () =>
+    yahooFinanceService.getOptions({ ticker, expirationDate, expirationDatesCount, filter, limit }, context),
+  );
+  context.log(`Cache ${status} for ${cacheKey}`);
 
-    const { yahooFinanceService } = getServiceContainer();
-    const validation = yahooFinanceService.validateOptionsRequest(
-      ticker,
-      expirationDate,
-      expirationDatesCount,
-      filter,
-      limit,
-    );
-    if (!validation.isValid) {
-      return {
-        status: 400,
-        jsonBody: { error: validation.error },
-        headers: corsHeaders,
-      };
-    }
-
-    const today = new Date().toISOString().split('T')[0];
-    const sortedFilter = filter ? [...filter].sort((a, b) => a.localeCompare(b)).join(',') : 'all';
-    const cacheKey = `options:${today}:${ticker}:${expirationDate ?? 'all'}:${expirationDatesCount ?? 'all'}:${sortedFilter}:${limit ?? 'all'}`;
-    const incomingEtag = request.headers.get('If-None-Match');
-
-    const cached = cacheService.get<unknown>(cacheKey);
-    if (cached) {
-      const etag = computeETag(cached);
-      if (matchesETag(incomingEtag, cached)) {
-        context.log(`ETag match for ${cacheKey}, returning 304`);
-        return { status: 304, headers: buildHeaders(rateLimit, etag) };
-      }
-      context.log(`Cache hit for ${cacheKey}`);
-      return { jsonBody: cached, headers: buildHeaders(rateLimit, etag, 'HIT') };
-    }
-
-    const data = await yahooFinanceService.getOptions(
-      { ticker, expirationDate, expirationDatesCount, filter: filter as Array<'calls' | 'puts'>, limit },
-      context,
-    );
-    cacheService.set(cacheKey, data);
-    context.log(`Cache stored for ${cacheKey}`);
-
-    const etag = computeETag(data);
-    if (matchesETag(incomingEtag, data)) {
-      context.log(`ETag match for ${cacheKey}, returning 304`);
-      return { status: 304, headers: buildHeaders(rateLimit, etag) };
-    }
+  return { jsonBody: data, headers: buildHeaders(status, cachePolicies.resolve('options').cacheControl) };
+}
 
-    return { jsonBody: data, headers: buildHeaders(rateLimit, etag, 'MISS') };
-  } catch (error: unknown) {
-    return handleOptionsError(error, context);
-  }
+// Every expiration date is a separate upstream call
+function optionsCost(request: HttpRequest): number {
+  const count = Number.parseInt(request.query.get('expirationDatesCount') ?? '', 10);
+  return Number.isNaN(count) || count < 1 ? 1 : count;
 }
 
-app.http('yahoo-finance-stock-options', {
-  methods: ['GET'],
-  authLevel: 'anonymous',
-  handler: yahooFinanceOptionsHandler,
+export const yahooFinanceOptionsHandler = withMiddleware(
+  getOptions,
+  withCors(),
+  withCorrelationId(),
+  withAuthentication('yahoo-finance-stock-options'),
+  withRateLimit(getRateLimiter('yahoo-finance-stock-options'), optionsCost),
+  withQuota(),
+  withErrorMapping('yahooFinanceOptionsHandler'),
+  withCompression(),
+  withETag(),
+);
+
+registerVersionedRoute('yahoo-finance-stock-options', {
+  route: 'yahoo-finance-stock-options',
+  methods: ['GET', 'OPTIONS'],
+  handlers: { v1: yahooFinanceOptionsHandler },
+  legacy: true,
 });
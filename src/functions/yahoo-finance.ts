@@ -1,174 +1,82 @@
 import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { app } from '@azure/functions';
 import { getServiceContainer } from '../di/container';
-import { strictRateLimiter } from '../services/rateLimiter';
-
-import { cacheService } from '../services/cacheService';
-import { computeETag, matchesETag } from '../utils/etag';
-
-const { yahooFinanceService } = getServiceContainer();
-
-function mapYahooFinanceError(error: unknown): HttpResponseInit {
-  if (error && typeof error === 'object' && 'response' in error) {
-    const axiosError = error as { response?: { status?: number; statusText?: string } };
-    // External API error
-    return {
-      status: axiosError.response?.status ?? 502,
-      jsonBody: {
-        error: 'External API error',
-        message: axiosError.response?.statusText ?? 'Unknown error',
-        status: axiosError.response?.status,
-      },
-    };
-  }
-
-  if (error && typeof error === 'object' && 'code' in error) {
-    const nodeError = error as { code?: string | number };
-    if (nodeError.code === 'ECONNABORTED' || nodeError.code === 'ETIMEDOUT') {
-      // Timeout error
-      return {
-        status: 408,
-        jsonBody: { error: 'Request timeout', message: 'External service is not responding' },
-      };
-    }
-    if (nodeError.code === 429) {
-      return {
-        status: 429,
-        jsonBody: {
-          error: 'Too Many Requests',
-          message: 'Yahoo Finance rate limit exceeded. Please try again later.',
-        },
-      };
-    }
-  }
-
-  const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-  // Internal server error
+import { getRateLimiter } from '../services/rateLimiter';
+import type { CacheStatus } from '../services/cacheService';
+import type { YahooFinanceResponse } from '../services/yahooFinanceService';
+
+import { quoteQuery } from '../schemas/requests';
+import { withAuthentication } from '../middleware/authentication';
+import { withCompression } from '../middleware/compression';
+import { withCors } from '../middleware/cors';
+import { withCorrelationId } from '../middleware/correlation';
+import { withErrorMapping } from '../middleware/errorMapping';
+import { withETag } from '../middleware/etag';
+import { withMiddleware } from '../middleware/pipeline';
+import { withQuota } from '../middleware/quota';
+import { withRateLimit } from '../middleware/rateLimit';
+import { registerVersionedRoute } from '../routing/versions';
+
+function buildHeaders(cacheStatus: CacheStatus, cacheControl: string) {
   return {
-    status: 500,
-    jsonBody: {
-      error: 'Internal server error',
-      message: errorMessage,
-    },
+    'Cache-Control': cacheControl,
+    'Content-Type': 'application/json',
+    'X-Cache': cacheStatus,
   };
 }
 
-// sample call: http://localhost:7071/api/yahoo-finance?symbols=MSFT&fields=regularMarketPrice
-export async function yahooFinanceHandler(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+// sample call: http://localhost:7071/api/v1/yahoo-finance?symbols=MSFT&fields=regularMarketPrice&baseCurrency=EUR
+async function getQuotes(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   context.log('HTTP trigger YahooFinance launched');
 
-  try {
-    // Extract client IP for rate limiting
-    const clientIp = request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? 'unknown';
-
-    // Apply rate limiting
-    const rateLimitResult = strictRateLimiter.isAllowed(clientIp);
-
-    if (!rateLimitResult.allowed) {
-      return {
-        status: 429,
-        jsonBody: {
-          error: 'Too many requests',
-          message: 'Rate limit exceeded. Please try again later.',
-          retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000),
-        },
-        headers: {
-          'X-RateLimit-Limit': strictRateLimiter.getMaxRequests().toString(),
-          'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-          'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
-          'Retry-After': Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000).toString(),
-        },
-      };
-    }
-
-    // Validate input parameters
-    const symbolsParam = request.query.get('symbols');
-    const fieldsParam = request.query.get('fields');
+  const { symbols: querySymbols, fields: queryFields, baseCurrency } = quoteQuery.parse(request.query);
+  const { yahooFinanceService, currencyConversionService, cacheService, cachePolicies } = getServiceContainer();
 
-    if (!symbolsParam) {
-      return {
-        status: 400,
-        jsonBody: { error: 'Missing required parameter: symbols' },
-      };
-    }
-
-    const querySymbols = symbolsParam
-      .split(',')
-      .map((s) => s.trim())
-      .filter((s) => s.length > 0);
-    const queryFields = fieldsParam
-      ? fieldsParam
-          .split(',')
-          .map((f) => f.trim())
-          .filter((f) => f.length > 0)
-      : undefined;
-
-    // Validate request using service
-    const validation = yahooFinanceService.validateQuoteRequest(querySymbols, queryFields);
-    if (!validation.isValid) {
-      return {
-        status: 400,
-        jsonBody: { error: validation.error },
-      };
-    }
-
-    // Build cache key
-    const sortedSymbols = [...querySymbols].sort((a, b) => a.localeCompare(b)).join(',');
-    const sortedFields = queryFields ? [...queryFields].sort((a, b) => a.localeCompare(b)).join(',') : 'all';
-    const cacheKey = `quotes:${sortedSymbols}:${sortedFields}`;
-    const incomingEtag = request.headers.get('If-None-Match');
-
-    const buildHeaders = (etag: string, cacheStatus?: 'HIT' | 'MISS') => ({
-      'Access-Control-Allow-Origin': '*',
-      ETag: etag,
-      'X-RateLimit-Limit': strictRateLimiter.getMaxRequests().toString(),
-      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-      'X-RateLimit-Reset': new Date(rateLimitResult.resetTime).toISOString(),
-      ...(cacheStatus
-        ? {
-            'Cache-Control': 'max-age=60',
-            'Content-Type': 'application/json',
-            'X-Cache': cacheStatus,
-          }
-        : {}),
-    });
+  // The listing currency is needed to convert the requested fields
+  if (baseCurrency && queryFields && !queryFields.includes('currency')) {
+    queryFields.push('currency');
+  }
 
-    // Check Server Cache (60 seconds short timer)
-    const cached = cacheService.get<unknown>(cacheKey);
-    if (cached) {
-      const etag = computeETag(cached);
-      if (matchesETag(incomingEtag, cached)) {
-        context.log(`ETag match for ${cacheKey}, returning 304`);
-        return { status: 304, headers: buildHeaders(etag) };
-      }
-      context.log(`Cache hit for ${cacheKey}`);
-      return { jsonBody: cached, headers: buildHeaders(etag, 'HIT') };
-    }
+  const toBaseCurrency = async (quotes: YahooFinanceResponse | YahooFinanceResponse[]) =>
+    baseCurrency ? currencyConversionService.convertQuotes(quotes, baseCurrency, context) : quotes;
 
-    const responseMessage = await yahooFinanceService.getQuotes(
-      { symbols: querySymbols, fields: queryFields },
-      context,
-    );
+  // Build cache key
+  const sortedSymbols = [...querySymbols].sort((a, b) => a.localeCompare(b)).join(',');
+  const sortedFields = queryFields ? [...queryFields].sort((a, b) => a.localeCompare(b)).join(',') : 'all';
+  const cacheKey = `quotes:${sortedSymbols}:${sortedFields}`;
 
-    // Save in cache with a short TTL (60 seconds)
-    cacheService.set(cacheKey, responseMessage, 60 * 1000);
-    context.log(`Cache stored for ${cacheKey}`);
+  // Short-lived server cache (see the quotes cache policy); stale quotes are served while they are refreshed
+  const { data, status } = await cacheService.getOrLoad(cacheKey, () =>
+    yahooFinanceService.getQuotes({ symbols: querySymbols, fields: queryFields }, context),
+  );
+  context.log(`Cache ${status} for ${cacheKey}`);
 
-    const etag = computeETag(responseMessage);
-    if (matchesETag(incomingEtag, responseMessage)) {
-      context.log(`ETag match for ${cacheKey}, returning 304`);
-      return { status: 304, headers: buildHeaders(etag) };
-    }
+  return {
+    jsonBody: await toBaseCurrency(data),
+    headers: buildHeaders(status, cachePolicies.resolve('quotes').cacheControl),
+  };
+}
 
-    return { jsonBody: responseMessage, headers: buildHeaders(etag, 'MISS') };
-  } catch (error: unknown) {
-    context.error('Error in yahooFinanceHandler:', error);
-    return mapYahooFinanceError(error);
-  }
+// One token per started block of 10 symbols, so a 50-symbol request costs 5
+function quoteCost(request: HttpRequest): number {
+  const symbols = (request.query.get('symbols') ?? '').split(',').filter((s) => s.trim().length > 0);
+  return Math.max(1, Math.ceil(symbols.length / 10));
 }
 
-app.http('yahoo-finance', {
-  methods: ['GET', 'POST'],
-  authLevel: 'anonymous',
-  handler: yahooFinanceHandler,
+export const yahooFinanceHandler = withMiddleware(
+  getQuotes,
+  withCors(),
+  withCorrelationId(),
+  withAuthentication('yahoo-finance'),
+  withRateLimit(getRateLimiter('yahoo-finance'), quoteCost),
+  withQuota(),
+  withErrorMapping('yahooFinanceHandler'),
+  withCompression(),
+  withETag(),
+);
+
+registerVersionedRoute('yahoo-finance', {
+  route: 'yahoo-finance',
+  methods: ['GET', 'POST', 'OPTIONS'],
+  handlers: { v1: yahooFinanceHandler },
+  legacy: true,
 });
@@ -0,0 +1,26 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { ConfigurationError, UnauthorizedError } from '../utils/errors';
+import type { HttpMiddleware } from './pipeline';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// Guards operator-only routes with the shared secret in ADMIN_API_KEY, sent as X-Admin-Key.
+// Both sides are hashed first so the comparison is constant-time regardless of length.
+// Must run inside withErrorMapping so the thrown errors become problem responses.
+export function withAdminAuth(env?: NodeJS.ProcessEnv): HttpMiddleware {
+  return (next) => async (request, context) => {
+    const expected = (env ?? process.env).ADMIN_API_KEY;
+    if (!expected) {
+      throw new ConfigurationError('ADMIN_API_KEY is not configured');
+    }
+
+    const provided = request.headers.get('x-admin-key');
+    if (!provided || !timingSafeEqual(digest(provided), digest(expected))) {
+      throw new UnauthorizedError('A valid X-Admin-Key header is required');
+    }
+
+    return next(request, context);
+  };
+}
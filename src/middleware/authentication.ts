@@ -0,0 +1,131 @@
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import type { ApiKeyRegistry } from '../services/apiKeys';
+import { getApiKeyRegistry } from '../services/apiKeys';
+import type { JwtVerifier } from '../services/jwt/jwtVerifier';
+import { getJwtVerifier, JwtVerificationError } from '../services/jwt/jwtVerifier';
+import type { RateLimiter } from '../services/rateLimiter';
+import { getRateLimiter } from '../services/rateLimiter';
+import { ApiError, ForbiddenError, RateLimitExceeded, toUpstreamError, UnauthorizedError } from '../utils/errors';
+import { toProblemResponse } from './errorMapping';
+import type { HttpMiddleware } from './pipeline';
+import { withDefaultHeaders } from './pipeline';
+import type { Principal } from './principal';
+import { setPrincipal } from './principal';
+import { getClientIdentity, UNIDENTIFIED_CLIENT } from './rateLimit';
+
+export interface Authenticators {
+  apiKeys: ApiKeyRegistry;
+  // Set when JWT_ISSUER enables bearer tokens
+  jwt?: JwtVerifier;
+  // Charged one token per rejected X-API-Key, per client address
+  failures?: RateLimiter;
+}
+
+// Quotas are charged later by withQuota, once the rate limiter has let the request through
+function authenticateApiKey(registry: ApiKeyRegistry, route: string, value: string): Principal {
+  const key = registry.authenticate(value);
+  if (!key) {
+    throw new UnauthorizedError('A valid X-API-Key header is required');
+  }
+  if (!registry.isRouteAllowed(key, route)) {
+    throw new ForbiddenError(`API key ${key.name} may not call ${route}`, 'This API key may not call this route');
+  }
+  return { type: 'apiKey', id: key.name, rateLimit: key.rateLimit };
+}
+
+// Runs before withRateLimit, so guessing keys is throttled here. A client that has used up its
+// failure budget is turned away before its key is even checked, so a right guess cannot be told
+// apart from a wrong one until the budget refills.
+async function throttleKeyGuessing(
+  failures: RateLimiter,
+  request: HttpRequest,
+  context: InvocationContext,
+  authenticate: () => Principal,
+): Promise<Principal> {
+  const client = getClientIdentity(request, context) ?? UNIDENTIFIED_CLIENT;
+  const budget = await failures.peek(client, context);
+  if (!budget.allowed) {
+    throw new RateLimitExceeded(Math.ceil(budget.retryAfterMs / 1000));
+  }
+  try {
+    return authenticate();
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      context.warn(`Rejected X-API-Key from ${client}`);
+      await failures.isAllowed(client, context);
+    }
+    throw error;
+  }
+}
+
+async function authenticateBearer(
+  verifier: JwtVerifier,
+  token: string,
+  context: InvocationContext,
+): Promise<Principal> {
+  try {
+    const { subject, name, scopes } = await verifier.verify(token, context);
+    return { type: 'user', id: subject, name, scopes };
+  } catch (error) {
+    if (error instanceof JwtVerificationError) {
+      context.warn(`Rejected bearer token: ${error.message}`);
+      throw new UnauthorizedError('The bearer token is invalid or has expired');
+    }
+    // The signing keys could not be loaded: the identity provider is at fault, not the caller
+    throw toUpstreamError(error, 'Identity provider');
+  }
+}
+
+function missingCredentials({ apiKeys, jwt }: Authenticators): UnauthorizedError {
+  const accepted = [apiKeys.enabled && 'an X-API-Key header', jwt && 'a bearer token'].filter(Boolean);
+  return new UnauthorizedError(`Authentication required: send ${accepted.join(' or ')}`);
+}
+
+// Identifies the caller by an API key (X-API-Key, once API_KEYS or API_KEYS_FILE is set) or an
+// OIDC bearer token (once JWT_ISSUER is set) and stores the principal for withRateLimit, withQuota
+// and the handler. With neither configured the route stays anonymous. Runs before withRateLimit, so like
+// that middleware it renders its own problem responses, and it throttles failed X-API-Key attempts itself.
+export function withAuthentication(
+  route: string,
+  authenticators: Authenticators = {
+    apiKeys: getApiKeyRegistry(),
+    jwt: getJwtVerifier(),
+    failures: getRateLimiter('auth-failures'),
+  },
+): HttpMiddleware {
+  const { apiKeys, jwt, failures } = authenticators;
+
+  return (next) => async (request: HttpRequest, context: InvocationContext) => {
+    if (!apiKeys.enabled && !jwt) {
+      return next(request, context);
+    }
+
+    const bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') ?? '')?.[1];
+    const apiKey = request.headers.get('x-api-key');
+    let principal: Principal;
+    try {
+      if (jwt && bearer) {
+        principal = await authenticateBearer(jwt, bearer, context);
+      } else if (apiKeys.enabled && apiKey) {
+        const authenticate = () => authenticateApiKey(apiKeys, route, apiKey);
+        principal = failures ? await throttleKeyGuessing(failures, request, context, authenticate) : authenticate();
+      } else {
+        throw missingCredentials(authenticators);
+      }
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        throw error;
+      }
+      const response: HttpResponseInit = toProblemResponse(error, context);
+      if (!jwt || !(error instanceof UnauthorizedError)) {
+        return response;
+      }
+      // RFC 6750: tell clients whether to sign in or to refresh their token
+      return withDefaultHeaders(response, { 'WWW-Authenticate': bearer ? 'Bearer error="invalid_token"' : 'Bearer' });
+    }
+
+    setPrincipal(context, principal);
+    context.log(`Authenticated ${principal.type} ${principal.id}`);
+    return next(request, context);
+  };
+}
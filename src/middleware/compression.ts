@@ -0,0 +1,127 @@
+import type { HttpResponseInit } from '@azure/functions';
+import { promisify } from 'node:util';
+import { brotliCompress, constants, gzip } from 'node:zlib';
+import { CompressedBodyCache } from '../services/cache/compressedBodyCache';
+import { negotiateEncoding } from '../utils/contentNegotiation';
+import { computeETag, parseETags, withEncodingSuffix } from '../utils/etag';
+import type { HttpMiddleware } from './pipeline';
+import { getHeaders, withVary } from './pipeline';
+
+const brotliAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+// Server preference order: brotli is smaller for JSON at a similar cost
+const CODINGS = ['br', 'gzip'];
+
+export interface CompressionOptions {
+  // Bodies smaller than this are sent as they are; compressing them gains less than the headers cost
+  minBytes: number;
+  // Budget of the compressed body cache; 0 disables it
+  cacheMaxBytes: number;
+}
+
+const DEFAULT_COMPRESSION_OPTIONS: CompressionOptions = {
+  minBytes: 1024,
+  cacheMaxBytes: 16 * 1024 * 1024,
+};
+
+function parseNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+// COMPRESSION_MIN_BYTES sets the size threshold, COMPRESSION_CACHE_MAX_BYTES the compressed body cache
+export function loadCompressionOptions(env: NodeJS.ProcessEnv = process.env): CompressionOptions {
+  return {
+    minBytes: parseNonNegativeInt(env.COMPRESSION_MIN_BYTES, DEFAULT_COMPRESSION_OPTIONS.minBytes),
+    cacheMaxBytes: parseNonNegativeInt(env.COMPRESSION_CACHE_MAX_BYTES, DEFAULT_COMPRESSION_OPTIONS.cacheMaxBytes),
+  };
+}
+
+function compress(coding: string, text: string): Promise<Buffer> {
+  if (coding === 'br') {
+    // The default quality (11) is meant for static assets and is far too slow per request
+    return brotliAsync(text, {
+      params: {
+        [constants.BROTLI_PARAM_QUALITY]: 5,
+        [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+        [constants.BROTLI_PARAM_SIZE_HINT]: Buffer.byteLength(text),
+      },
+    });
+  }
+  return gzipAsync(text);
+}
+
+// The text a JSON or string response would be sent as; other bodies (streams, buffers such as
+// gzipped snapshots) are left alone
+function serializeBody(response: HttpResponseInit): { text: string; contentType?: string } | undefined {
+  if (response.jsonBody !== undefined) {
+    return { text: JSON.stringify(response.jsonBody), contentType: 'application/json' };
+  }
+  return typeof response.body === 'string' ? { text: response.body } : undefined;
+}
+
+// The ETag of the representation a 304 confirms. A body too small to compress keeps the payload
+// ETag, and the 304 cannot tell its size, so a tag the client sent wins over the negotiated coding;
+// with `*` or no such tag the negotiated representation is named.
+function notModifiedETag(etag: string, headers: { get(name: string): string | null }): string {
+  const coding = negotiateEncoding(headers.get('accept-encoding'), CODINGS);
+  const encoded = coding === 'identity' ? etag : withEncodingSuffix(etag, coding);
+  const sent = parseETags(headers.get('if-none-match'));
+  return sent.includes(encoded) || !sent.includes(etag) ? encoded : etag;
+}
+
+const compressionOptions = loadCompressionOptions();
+const compressedBodies = new CompressedBodyCache(compressionOptions.cacheMaxBytes);
+
+// Compresses successful JSON and text responses with the coding negotiated from Accept-Encoding.
+// Every 200 and 304 varies on Accept-Encoding, compressed or not, so shared caches keep the
+// representations apart; a compressed body gets its own ETag. Goes right outside withETag.
+export function withCompression(options: CompressionOptions = compressionOptions): HttpMiddleware {
+  // Handlers share one cache; other options get their own
+  const cache = options === compressionOptions ? compressedBodies : new CompressedBodyCache(options.cacheMaxBytes);
+
+  return (next) => async (request, context) => {
+    const response = await next(request, context);
+
+    if (response.status === 304) {
+      const headers = getHeaders(response);
+      const notModified = headers.ETag
+        ? { ...response, headers: { ...headers, ETag: notModifiedETag(headers.ETag, request.headers) } }
+        : response;
+      return withVary(notModified, 'Accept-Encoding');
+    }
+    const serialized = response.status === undefined || response.status === 200 ? serializeBody(response) : undefined;
+    if (!serialized) {
+      return response;
+    }
+
+    const varied = withVary(response, 'Accept-Encoding');
+    const coding = negotiateEncoding(request.headers.get('accept-encoding'), CODINGS);
+    const headers = getHeaders(varied);
+    if (coding === 'identity' || headers['Content-Encoding'] || Buffer.byteLength(serialized.text) < options.minBytes) {
+      return varied;
+    }
+
+    const etag = headers.ETag ?? computeETag(response.jsonBody ?? response.body);
+    let body = cache.get(coding, etag);
+    if (body) {
+      context.log(`Serving cached ${coding} body for ${etag}`);
+    } else {
+      body = await compress(coding, serialized.text);
+      cache.set(coding, etag, body);
+    }
+
+    const { jsonBody: _jsonBody, ...rest } = varied;
+    return {
+      ...rest,
+      body,
+      headers: {
+        ...(serialized.contentType && { 'Content-Type': serialized.contentType }),
+        ...headers,
+        'Content-Encoding': coding,
+        ...(headers.ETag && { ETag: withEncodingSuffix(headers.ETag, coding) }),
+      },
+    };
+  };
+}
@@ -0,0 +1,41 @@
+import { randomUUID } from 'node:crypto';
+import type { InvocationContext } from '@azure/functions';
+import type { HttpMiddleware } from './pipeline';
+import { withDefaultHeaders } from './pipeline';
+
+const LOG_METHODS = ['log', 'trace', 'debug', 'info', 'warn', 'error'] as const;
+
+const correlationIds = new WeakMap<InvocationContext, string>();
+
+export function getCorrelationId(context: InvocationContext): string | undefined {
+  return correlationIds.get(context);
+}
+
+// Returns a context whose log methods prefix every line with the correlation id
+function withCorrelatedLogs(context: InvocationContext, correlationId: string): InvocationContext {
+  const correlated = Object.create(context) as InvocationContext;
+  const prefix = `[${correlationId}]`;
+
+  for (const method of LOG_METHODS) {
+    correlated[method] = (...args: unknown[]) => {
+      const [first, ...rest] = args;
+      if (typeof first === 'string') {
+        context[method](`${prefix} ${first}`, ...rest);
+      } else {
+        context[method](prefix, ...args);
+      }
+    };
+  }
+
+  correlationIds.set(correlated, correlationId);
+  return correlated;
+}
+
+// Generates a correlation id per request, returned in X-Correlation-Id and in every log line
+export function withCorrelationId(): HttpMiddleware {
+  return (next) => async (request, context) => {
+    const correlationId = randomUUID();
+    const response = await next(request, withCorrelatedLogs(context, correlationId));
+    return withDefaultHeaders(response, { 'X-Correlation-Id': correlationId });
+  };
+}
@@ -0,0 +1,154 @@
+import type { HttpRequest, HttpResponseInit } from '@azure/functions';
+import type { HttpMiddleware } from './pipeline';
+import { withDefaultHeaders, withVary } from './pipeline';
+
+export interface CorsOptions {
+  // Exact origins (`https://app.example.com`), wildcard subdomains (`https://*.example.com`) or `*`
+  origins: string[];
+  methods: string[];
+  // Request headers browsers may send
+  allowedHeaders: string[];
+  // Response headers scripts may read
+  exposedHeaders: string[];
+  maxAgeSeconds: number;
+  credentials: boolean;
+}
+
+const DEFAULT_CORS_OPTIONS: CorsOptions = {
+  origins: ['*'],
+  methods: ['GET', 'POST'],
+  allowedHeaders: ['Accept', 'Authorization', 'Content-Type', 'If-None-Match', 'X-API-Key'],
+  exposedHeaders: [
+    'Deprecation',
+    'ETag',
+    'Link',
+    'Retry-After',
+    'Sunset',
+    'X-Cache',
+    'X-Correlation-Id',
+    'X-RateLimit-Limit',
+    'X-RateLimit-Remaining',
+    'X-RateLimit-Reset',
+  ],
+  maxAgeSeconds: 600,
+  credentials: false,
+};
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function assertOrigin(origin: string): void {
+  if (origin === '*') {
+    return;
+  }
+  // A wildcard is only allowed as the left-most label of the host
+  const concrete = origin.replace('://*.', '://wildcard.');
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(concrete);
+  } catch {
+    parsed = undefined;
+  }
+  if (parsed?.origin !== concrete.toLowerCase() || concrete.includes('*')) {
+    throw new Error(`Invalid CORS origin "${origin}". Expected e.g. https://app.example.com or https://*.example.com`);
+  }
+}
+
+// CORS_ALLOWED_ORIGINS is a comma-separated allowlist; without it every origin is allowed, as before.
+// CORS_ALLOW_CREDENTIALS=true lets browsers send cookies and Authorization with credentialed requests.
+export function loadCorsOptions(env: NodeJS.ProcessEnv = process.env): CorsOptions {
+  const origins = parseList(env.CORS_ALLOWED_ORIGINS) ?? DEFAULT_CORS_OPTIONS.origins;
+  origins.forEach(assertOrigin);
+  const maxAge = Number.parseInt(env.CORS_MAX_AGE_SECONDS ?? '', 10);
+
+  return {
+    ...DEFAULT_CORS_OPTIONS,
+    origins,
+    allowedHeaders: parseList(env.CORS_ALLOWED_HEADERS) ?? DEFAULT_CORS_OPTIONS.allowedHeaders,
+    maxAgeSeconds: Number.isNaN(maxAge) || maxAge < 0 ? DEFAULT_CORS_OPTIONS.maxAgeSeconds : maxAge,
+    credentials: env.CORS_ALLOW_CREDENTIALS === 'true',
+  };
+}
+
+function toMatcher(origin: string): (candidate: string) => boolean {
+  if (origin === '*') {
+    return () => true;
+  }
+  const [scheme, host] = origin.toLowerCase().split('://');
+  if (!host.startsWith('*.')) {
+    return (candidate) => candidate === origin.toLowerCase();
+  }
+  // `https://*.example.com` matches any depth of subdomain, but not example.com itself
+  const suffix = host.slice(1);
+  return (candidate) => {
+    const [candidateScheme, candidateHost = ''] = candidate.split('://');
+    return (
+      candidateScheme === scheme &&
+      candidateHost.endsWith(suffix) &&
+      /^[a-z\d-]+(\.[a-z\d-]+)*$/.test(candidateHost.slice(0, -suffix.length))
+    );
+  };
+}
+
+const corsOptions = loadCorsOptions();
+
+// Applies the origin allowlist to every response the handler produces, including problem
+// responses and 304s, and answers preflight requests itself so they never reach authentication
+// or rate limiting. Must be the outermost middleware.
+export function withCors(options: CorsOptions = corsOptions): HttpMiddleware {
+  const matchers = options.origins.map(toMatcher);
+  const allowsAny = options.origins.includes('*');
+  // With credentials the spec forbids `*`, so the origin is always echoed
+  const echoesOrigin = !allowsAny || options.credentials;
+
+  const corsHeaders = (request: HttpRequest): Record<string, string> => {
+    const origin = request.headers.get('origin');
+    if (!echoesOrigin) {
+      return { 'Access-Control-Allow-Origin': '*' };
+    }
+    if (!origin || !matchers.some((matches) => matches(origin.toLowerCase()))) {
+      return {};
+    }
+    return {
+      'Access-Control-Allow-Origin': origin,
+      ...(options.credentials ? { 'Access-Control-Allow-Credentials': 'true' } : {}),
+    };
+  };
+
+  const finish = (response: HttpResponseInit, headers: Record<string, string>, vary: string[]) => {
+    const withCorsHeaders = withDefaultHeaders(response, headers);
+    return echoesOrigin ? withVary(withCorsHeaders, ...vary) : withCorsHeaders;
+  };
+
+  return (next) => async (request, context) => {
+    const headers = corsHeaders(request);
+
+    if (request.method === 'OPTIONS' && request.headers.get('access-control-request-method')) {
+      const preflight: Record<string, string> = headers['Access-Control-Allow-Origin']
+        ? {
+            ...headers,
+            'Access-Control-Allow-Methods': options.methods.join(', '),
+            'Access-Control-Allow-Headers': options.allowedHeaders.join(', '),
+            'Access-Control-Max-Age': options.maxAgeSeconds.toString(),
+          }
+        : {};
+      return finish({ status: 204 }, preflight, [
+        'Origin',
+        'Access-Control-Request-Method',
+        'Access-Control-Request-Headers',
+      ]);
+    }
+
+    const response = await next(request, context);
+    const exposed =
+      headers['Access-Control-Allow-Origin'] && request.headers.get('origin')
+        ? { ...headers, 'Access-Control-Expose-Headers': options.exposedHeaders.join(', ') }
+        : headers;
+    return finish(response, exposed, ['Origin']);
+  };
+}
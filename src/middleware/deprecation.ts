@@ -0,0 +1,52 @@
+import type { HttpMiddleware } from './pipeline';
+import { getHeaders } from './pipeline';
+
+export interface DeprecationOptions {
+  // When the route was deprecated and when it stops being served, as UTC days (yyyy-MM-dd)
+  deprecatedAt: string;
+  sunsetAt: string;
+}
+
+// The unversioned routes were deprecated when /api/v1 was introduced
+const DEFAULT_DEPRECATION_OPTIONS: DeprecationOptions = {
+  deprecatedAt: '2026-10-18',
+  sunsetAt: '2027-04-30',
+};
+
+function parseDay(value: string, variable: string): number {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(value) : Number.NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${variable} "${value}". Expected a date such as 2027-04-30`);
+  }
+  return time;
+}
+
+// LEGACY_ROUTES_SUNSET moves the announced removal of the unversioned routes
+export function loadDeprecationOptions(env: NodeJS.ProcessEnv = process.env): DeprecationOptions {
+  const options = {
+    ...DEFAULT_DEPRECATION_OPTIONS,
+    sunsetAt: env.LEGACY_ROUTES_SUNSET ?? DEFAULT_DEPRECATION_OPTIONS.sunsetAt,
+  };
+  if (parseDay(options.sunsetAt, 'LEGACY_ROUTES_SUNSET') < parseDay(options.deprecatedAt, 'deprecation date')) {
+    throw new Error(`LEGACY_ROUTES_SUNSET must not be before ${options.deprecatedAt}`);
+  }
+  return options;
+}
+
+const deprecationOptions = loadDeprecationOptions();
+
+// Marks every response of a legacy route as deprecated (RFC 9745) with its sunset date (RFC 8594)
+// and links the route that replaces it. Must wrap the whole pipeline so problem responses,
+// preflights and 304s carry the headers too.
+export function withDeprecation(successor: string, options: DeprecationOptions = deprecationOptions): HttpMiddleware {
+  const deprecationHeaders = {
+    Deprecation: `@${parseDay(options.deprecatedAt, 'deprecation date') / 1000}`,
+    Sunset: new Date(parseDay(options.sunsetAt, 'sunset date')).toUTCString(),
+    Link: `<${successor}>; rel="successor-version"`,
+  };
+
+  return (next) => async (request, context) => {
+    const response = await next(request, context);
+    return { ...response, headers: { ...getHeaders(response), ...deprecationHeaders } };
+  };
+}
@@ -0,0 +1,51 @@
+import type { HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ApiError, QuotaExceeded, RateLimitExceeded } from '../utils/errors';
+import { getCorrelationId } from './correlation';
+import type { HttpMiddleware } from './pipeline';
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  correlationId?: string;
+}
+
+// Render an error as an RFC 9457 application/problem+json response. Errors that are not
+// ApiError instances are reported as a generic 500 so internal messages never reach clients.
+export function toProblemResponse(error: unknown, context: InvocationContext): HttpResponseInit {
+  const correlationId = getCorrelationId(context);
+  const problem: ProblemDetails =
+    error instanceof ApiError
+      ? { type: error.type, title: error.title, status: error.status, detail: error.detail }
+      : {
+          type: 'about:blank',
+          title: 'Internal server error',
+          status: 500,
+          detail: 'An unexpected error occurred',
+        };
+
+  if (correlationId) {
+    problem.instance = `urn:uuid:${correlationId}`;
+    problem.correlationId = correlationId;
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/problem+json' };
+  if (error instanceof RateLimitExceeded || error instanceof QuotaExceeded) {
+    headers['Retry-After'] = error.retryAfter.toString();
+  }
+
+  return { status: problem.status, jsonBody: problem, headers };
+}
+
+export function withErrorMapping(handlerName: string): HttpMiddleware {
+  return (next) => async (request, context) => {
+    try {
+      return await next(request, context);
+    } catch (error: unknown) {
+      context.error(`Error in ${handlerName}:`, error);
+      return toProblemResponse(error, context);
+    }
+  };
+}
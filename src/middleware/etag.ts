@@ -0,0 +1,27 @@
+import { computeETag, matchesETag } from '../utils/etag';
+import type { HttpMiddleware } from './pipeline';
+import { getHeaders } from './pipeline';
+
+// Adds an ETag to successful responses and answers 304 when If-None-Match matches the payload
+export function withETag(): HttpMiddleware {
+  return (next) => async (request, context) => {
+    const response = await next(request, context);
+
+    const isSuccess = response.status === undefined || response.status === 200;
+    const payload = response.jsonBody ?? (typeof response.body === 'string' ? response.body : undefined);
+    if (!isSuccess || payload === undefined) {
+      return response;
+    }
+
+    const headers = getHeaders(response);
+    const etag = computeETag(payload);
+
+    if (matchesETag(request.headers.get('If-None-Match'), payload)) {
+      context.log('ETag match, returning 304');
+      const { 'Content-Type': _contentType, 'X-Cache': _cacheStatus, ...notModifiedHeaders } = headers;
+      return { status: 304, headers: { ...notModifiedHeaders, ETag: etag } };
+    }
+
+    return { ...response, headers: { ...headers, ETag: etag } };
+  };
+}
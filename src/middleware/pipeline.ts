@@ -0,0 +1,42 @@
+import type { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+
+export type HttpHandler = (request: HttpRequest, context: InvocationContext) => Promise<HttpResponseInit>;
+
+export type HttpMiddleware = (next: HttpHandler) => HttpHandler;
+
+// Compose middlewares around a handler. The first middleware is the outermost one,
+// so withMiddleware(handler, a, b) runs a -> b -> handler -> b -> a.
+export function withMiddleware(handler: HttpHandler, ...middlewares: HttpMiddleware[]): HttpHandler {
+  return middlewares.reduceRight<HttpHandler>((next, middleware) => middleware(next), handler);
+}
+
+export function getHeaders(response: HttpResponseInit): Record<string, string> {
+  const { headers } = response;
+  if (!headers) {
+    return {};
+  }
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    return Object.fromEntries(headers);
+  }
+  return { ...headers };
+}
+
+// Add headers to a response without overriding the ones the handler already set
+export function withDefaultHeaders(response: HttpResponseInit, headers: Record<string, string>): HttpResponseInit {
+  return { ...response, headers: { ...headers, ...getHeaders(response) } };
+}
+
+// Add fields to the Vary header, keeping the ones the response already varies on
+export function withVary(response: HttpResponseInit, ...fields: string[]): HttpResponseInit {
+  const headers = getHeaders(response);
+  const vary = (headers.Vary ?? '')
+    .split(',')
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+  for (const field of fields) {
+    if (!vary.some((existing) => existing.toLowerCase() === field.toLowerCase())) {
+      vary.push(field);
+    }
+  }
+  return { ...response, headers: { ...headers, Vary: vary.join(', ') } };
+}
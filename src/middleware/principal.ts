@@ -0,0 +1,25 @@
+import type { InvocationContext } from '@azure/functions';
+import type { RateLimitPolicy } from '../services/rateLimiter';
+
+// The authenticated caller of a request, set by the authentication middlewares
+export interface Principal {
+  type: 'apiKey' | 'user';
+  // Stable identifier: the API key name or the token subject
+  id: string;
+  // Display name of a user, for logs
+  name?: string;
+  // OAuth scopes granted to a user token
+  scopes?: string[];
+  // Replaces fields of the route's rate limit policy for this caller
+  rateLimit?: Partial<RateLimitPolicy>;
+}
+
+const principals = new WeakMap<InvocationContext, Principal>();
+
+export function setPrincipal(context: InvocationContext, principal: Principal): void {
+  principals.set(context, principal);
+}
+
+export function getPrincipal(context: InvocationContext): Principal | undefined {
+  return principals.get(context);
+}
@@ -0,0 +1,37 @@
+import type { ApiKeyRegistry } from '../services/apiKeys';
+import { getApiKeyRegistry } from '../services/apiKeys';
+import { ApiError } from '../utils/errors';
+import { toProblemResponse } from './errorMapping';
+import type { HttpMiddleware } from './pipeline';
+import { getPrincipal } from './principal';
+
+// Counts requests of API key principals against their daily and monthly quotas. Goes right after
+// withRateLimit, so requests the rate limiter turns away never use up quota; like that middleware
+// it renders its own problem responses. The request is charged before the handler runs, so that
+// concurrent requests cannot overrun the quota, and refunded when the handler answers with a 4xx
+// such as an invalid query.
+export function withQuota(apiKeys: ApiKeyRegistry = getApiKeyRegistry()): HttpMiddleware {
+  return (next) => async (request, context) => {
+    const principal = getPrincipal(context);
+    const key = principal?.type === 'apiKey' ? apiKeys.findByName(principal.id) : undefined;
+    if (!key) {
+      return next(request, context);
+    }
+
+    const now = Date.now();
+    try {
+      await apiKeys.consume(key, context, now);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return toProblemResponse(error, context);
+      }
+      throw error;
+    }
+
+    const response = await next(request, context);
+    if (response.status !== undefined && response.status >= 400 && response.status < 500) {
+      apiKeys.refund(key, context, now);
+    }
+    return response;
+  };
+}
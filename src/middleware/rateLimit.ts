@@ -0,0 +1,105 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import type { BlockList } from 'node:net';
+import { isIP } from 'node:net';
+import type { RateLimiter, RateLimitPolicy, RateLimitResult } from '../services/rateLimiter';
+import { getUnidentifiedClientPolicy } from '../services/rateLimiter';
+import { ApiError, RateLimitExceeded } from '../utils/errors';
+import { createTrustedProxyList, isTrusted, parseAddress, toIpv6Prefix64 } from '../utils/ipAddress';
+import { toProblemResponse } from './errorMapping';
+import type { HttpMiddleware } from './pipeline';
+import { withDefaultHeaders } from './pipeline';
+import { getPrincipal } from './principal';
+
+// Number of tokens a request consumes; expensive requests (many symbols, many upstream calls) cost more
+export type RequestCost = (request: HttpRequest) => number;
+
+// Proxies in front of the app (e.g. a reverse proxy on the NAS) whose hops are skipped
+const trustedProxies = createTrustedProxyList(process.env.TRUSTED_PROXIES);
+
+// Bucket shared by anonymous callers whose address is unknown
+export const UNIDENTIFIED_CLIENT = 'unidentified';
+
+// Every proxy appends the address it received the request from, so only the right end of
+// X-Forwarded-For can be believed: walk it from the right, skip trusted proxies and take the first
+// untrusted hop. Anything to the left of that hop is client-supplied and may be spoofed, and so is
+// a hop that is not an address at all, which is why it yields null instead of a key. X-Real-IP is
+// only believed when every hop is a trusted proxy, since a direct caller can send anything in it.
+// Returns null when the client address is unknown.
+export function getClientIp(request: HttpRequest, trusted: BlockList = trustedProxies): string | null {
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter((hop) => hop.length > 0);
+
+  for (let index = hops.length - 1; index >= 0; index--) {
+    const address = parseAddress(hops[index]);
+    if (!address || !isTrusted(trusted, address)) {
+      return address;
+    }
+    if (index === 0) {
+      const realIp = request.headers.get('x-real-ip');
+      return (realIp ? parseAddress(realIp) : null) ?? address;
+    }
+  }
+
+  return null;
+}
+
+// Rate limit key: the authenticated principal when there is one, otherwise the client address,
+// with IPv6 clients grouped by /64. Null when neither is known.
+export function getClientIdentity(
+  request: HttpRequest,
+  context: InvocationContext,
+  trusted: BlockList = trustedProxies,
+): string | null {
+  const principal = getPrincipal(context);
+  if (principal) {
+    return `${principal.type}:${principal.id}`;
+  }
+
+  const ip = getClientIp(request, trusted);
+  if (!ip) {
+    return null;
+  }
+  return `ip:${isIP(ip) === 6 ? toIpv6Prefix64(ip) : ip}`;
+}
+
+// Callers the limiter cannot identify are limited together in the `unidentified` bucket under
+// their own fallback policy, rather than with the budget of a single client.
+export function withRateLimit(
+  limiter: RateLimiter,
+  cost: RequestCost = () => 1,
+  unidentifiedPolicy: RateLimitPolicy = getUnidentifiedClientPolicy(),
+): HttpMiddleware {
+  return (next) => async (request, context) => {
+    const identity = getClientIdentity(request, context);
+    const policy = identity ? getPrincipal(context)?.rateLimit : unidentifiedPolicy;
+    const effective = policy ? limiter.withPolicy(policy) : limiter;
+
+    let rateLimit: RateLimitResult;
+    try {
+      rateLimit = await effective.isAllowed(identity ?? UNIDENTIFIED_CLIENT, context, cost(request));
+    } catch (error) {
+      // Failing closed: this middleware runs outside the error mapping, so it renders the problem itself
+      if (error instanceof ApiError) {
+        context.error('Rate limiting unavailable:', error);
+        return toProblemResponse(error, context);
+      }
+      throw error;
+    }
+
+    const rateLimitHeaders: Record<string, string> = {
+      'X-RateLimit-Limit': effective.getLimit().toString(),
+      'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+      'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
+    };
+
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.ceil(rateLimit.retryAfterMs / 1000);
+      return withDefaultHeaders(toProblemResponse(new RateLimitExceeded(retryAfter), context), rateLimitHeaders);
+    }
+
+    const response = await next(request, context);
+    return withDefaultHeaders(response, rateLimitHeaders);
+  };
+}
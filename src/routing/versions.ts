@@ -0,0 +1,43 @@
+import type { HttpMethod } from '@azure/functions';
+import { app } from '@azure/functions';
+import { withDeprecation } from '../middleware/deprecation';
+import type { HttpHandler } from '../middleware/pipeline';
+
+// Versions of the API, oldest first. Each one is served under /api/<version>/.
+export const API_VERSIONS = ['v1'] as const;
+
+export type ApiVersion = (typeof API_VERSIONS)[number];
+
+// The version the unversioned routes keep serving until their sunset
+export const LEGACY_VERSION: ApiVersion = 'v1';
+
+export interface VersionedRoute {
+  // Route below the version prefix, e.g. `exchange-rate-ecb/history`
+  route: string;
+  methods: HttpMethod[];
+  // A version without its own handler serves the one of the version before it, so a new version
+  // only needs handlers for the routes whose behaviour or response shape changes
+  handlers: { v1: HttpHandler } & Partial<Record<ApiVersion, HttpHandler>>;
+  // Only routes that were served before versioning keep their unversioned path
+  legacy?: boolean;
+}
+
+// Registers `<version>/<route>` as `<name>-<version>` for every API version and, for legacy routes,
+// the unversioned route under its original function name as a deprecated alias of the legacy version
+export function registerVersionedRoute(name: string, { route, methods, handlers, legacy }: VersionedRoute): void {
+  let handler: HttpHandler = handlers.v1;
+  for (const version of API_VERSIONS) {
+    handler = handlers[version] ?? handler;
+    app.http(`${name}-${version}`, { methods, authLevel: 'anonymous', route: `${version}/${route}`, handler });
+  }
+  if (!legacy) {
+    return;
+  }
+
+  app.http(name, {
+    methods,
+    authLevel: 'anonymous',
+    route,
+    handler: withDeprecation(`/api/${LEGACY_VERSION}/${route}`)(handlers[LEGACY_VERSION] ?? handlers.v1),
+  });
+}
@@ -0,0 +1,167 @@
+// Builds the OpenAPI 3.1 document served at /api/v1/openapi.json from the request and response schemas
+import type { OpenApiParameter } from './schema';
+import {
+  conversionQuery,
+  historicalQuery,
+  optionsQuery,
+  quoteQuery,
+  rateHistoryQuery,
+  statementsQuery,
+  summaryQuery,
+} from './requests';
+import { RESPONSE_SCHEMAS } from './responses';
+
+export type OpenApiDocument = Record<string, unknown>;
+
+interface ApiOperation {
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  query?: { toOpenApi(): OpenApiParameter[] };
+  // When the route answers 404
+  notFound?: string;
+  // Media type to response schema of a 200 response
+  content: Record<string, Record<string, unknown>>;
+}
+
+const json = (schema: string) => ({ 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } });
+
+const OPERATIONS: ApiOperation[] = [
+  {
+    path: '/yahoo-finance',
+    operationId: 'getQuotes',
+    tag: 'Yahoo Finance',
+    summary: 'Latest quotes of up to 50 symbols',
+    query: quoteQuery,
+    content: {
+      'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Quote' } } },
+    },
+  },
+  {
+    path: '/yahoo-finance-historical',
+    operationId: 'getHistoricalData',
+    tag: 'Yahoo Finance',
+    summary: 'OHLC bars and corporate actions of one symbol',
+    query: historicalQuery,
+    content: json('HistoricalData'),
+  },
+  {
+    path: '/yahoo-finance-stock-options',
+    operationId: 'getOptions',
+    tag: 'Yahoo Finance',
+    summary: 'Options chain of one underlying',
+    query: optionsQuery,
+    content: json('OptionsChain'),
+  },
+  {
+    path: '/yahoo-finance-summary',
+    operationId: 'getQuoteSummary',
+    tag: 'Yahoo Finance',
+    summary: 'quoteSummary modules of one symbol',
+    query: summaryQuery,
+    content: json('QuoteSummary'),
+  },
+  {
+    path: '/statements',
+    operationId: 'getStatements',
+    tag: 'Alpha Vantage',
+    summary: 'Merged financial statements and EPS per fiscal period',
+    query: statementsQuery,
+    content: json('FinancialStatements'),
+  },
+  {
+    path: '/exchange-rate',
+    operationId: 'convertCurrency',
+    tag: 'Exchange rates',
+    summary: 'Convert an amount between two ECB currencies',
+    query: conversionQuery,
+    notFound: 'The ECB publishes no rate for one of the currencies',
+    content: json('CurrencyConversion'),
+  },
+  {
+    path: '/exchange-rate-ecb',
+    operationId: 'getExchangeRates',
+    tag: 'Exchange rates',
+    summary: 'Daily ECB reference rates, as the ECB XML document unless JSON is accepted',
+    content: {
+      'application/xml': { schema: { type: 'string' } },
+      ...json('ReferenceRates'),
+    },
+  },
+  {
+    path: '/exchange-rate-ecb/latest',
+    operationId: 'getLatestExchangeRates',
+    tag: 'Exchange rates',
+    summary: 'Daily ECB reference rates',
+    content: json('ReferenceRates'),
+  },
+  {
+    path: '/exchange-rate-ecb/history',
+    operationId: 'getExchangeRateHistory',
+    tag: 'Exchange rates',
+    summary: 'Daily EUR reference rate of one currency over a range',
+    query: rateHistoryQuery,
+    notFound: 'The ECB publishes no rates for the currency in the range',
+    content: json('RateHistory'),
+  },
+];
+
+const problem = (description: string) => ({
+  description,
+  content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } },
+});
+
+function toPathItem(operation: ApiOperation): Record<string, unknown> {
+  const responses: Record<string, unknown> = {
+    '200': { description: 'OK', content: operation.content },
+    '304': { description: 'Not modified; the If-None-Match header matched the ETag' },
+  };
+  if (operation.query) {
+    responses['400'] = problem('Invalid query parameters');
+  }
+  if (operation.notFound) {
+    responses['404'] = problem(operation.notFound);
+  }
+  Object.assign(responses, {
+    '401': problem('Authentication is configured and the request has no valid API key or bearer token'),
+    '403': problem('The API key may not call this route'),
+    '429': problem('Rate limit or API key quota exceeded, or the upstream API is rate limited'),
+    '502': problem('The upstream API failed'),
+    '503': problem('Rate limiting is unavailable'),
+    '504': problem('The upstream API timed out'),
+  });
+
+  return {
+    get: {
+      operationId: operation.operationId,
+      tags: [operation.tag],
+      summary: operation.summary,
+      parameters: operation.query?.toOpenApi() ?? [],
+      responses,
+    },
+  };
+}
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Stock Ticker API',
+      version: '1.0.0',
+      description: 'Quotes, history, options and fundamentals from Yahoo Finance and Alpha Vantage, and ECB rates',
+    },
+    // The unversioned paths are deprecated aliases of v1 and left out
+    servers: [{ url: '/api/v1' }],
+    // Authentication is only enforced once API keys or an identity provider are configured
+    security: [{}, { apiKey: [] }, { bearerToken: [] }],
+    paths: Object.fromEntries(OPERATIONS.map((operation) => [operation.path, toPathItem(operation)])),
+    components: {
+      schemas: RESPONSE_SCHEMAS,
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearerToken: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+}
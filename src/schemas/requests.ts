@@ -0,0 +1,149 @@
+// Query schemas of the public routes. Handlers parse their query with these, and the OpenAPI
+// document describes the same objects.
+import {
+  DEFAULT_HISTORICAL_PRECISION,
+  HISTORICAL_EVENTS,
+  HISTORICAL_INTERVALS,
+  MAX_HISTORICAL_PRECISION,
+  SUMMARY_MODULES,
+} from '../services/yahooFinanceService';
+import type { QueryRule } from './schema';
+import { anyOf, currencyCode, date, enumeration, integer, list, number, param, querySchema, string } from './schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INTRADAY_INTERVALS = new Set(['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1h']);
+
+const baseCurrency = param(currencyCode()).describe(
+  'Convert monetary values into this currency using ECB reference rates',
+  'EUR',
+);
+
+function dateOrder<Q extends { from: string; to: string }>(): QueryRule<Q> {
+  return ({ from, to }) => (from > to ? 'From date must be before or equal to to date' : undefined);
+}
+
+// Yahoo Finance only serves intraday bars for recent days, and long daily ranges are costly
+function historicalRangeLimit(interval: string): { maxRangeDays: number; intervalName: string } {
+  if (INTRADAY_INTERVALS.has(interval)) {
+    return { maxRangeDays: 7, intervalName: 'intraday' };
+  }
+  switch (interval) {
+    case '1w':
+    case '1wk':
+      return { maxRangeDays: 365 * 50, intervalName: 'weekly' };
+    case '1d':
+      return { maxRangeDays: 365 * 5, intervalName: 'daily' };
+    default:
+      return { maxRangeDays: 365 * 50, intervalName: 'monthly' };
+  }
+}
+
+const historicalRange: QueryRule<{ from: string; to: string; interval: string }> = ({ from, to, interval }) => {
+  const rangeDays = (Date.parse(to) - Date.parse(from)) / DAY_MS;
+  const { maxRangeDays, intervalName } = historicalRangeLimit(interval);
+  if (rangeDays <= maxRangeDays) {
+    return undefined;
+  }
+  if (intervalName === 'intraday') {
+    return `Date range exceeds maximum of 7 days for intraday interval "${interval}"`;
+  }
+  return `Date range exceeds maximum of ${Math.round(maxRangeDays / 365)} years for ${intervalName} interval`;
+};
+
+export const quoteQuery = querySchema({
+  symbols: list(string(), { maxItems: 50 }).required().describe('Ticker symbols', 'MSFT,AAPL'),
+  fields: list(string(), { maxItems: 20 }).describe(
+    'Quote fields to return; `symbol` is always included',
+    'regularMarketPrice,currency',
+  ),
+  baseCurrency,
+});
+
+export const historicalQuery = querySchema(
+  {
+    ticker: param(string()).required().describe('Ticker symbol', 'AAPL'),
+    from: param(date()).required().describe('First day of the range', '2024-01-01'),
+    to: param(date()).required().describe('Last day of the range, inclusive', '2024-01-31'),
+    interval: param(enumeration(HISTORICAL_INTERVALS))
+      .default('1d')
+      .describe('Bar interval; `1w` is an alias of `1wk`. Intraday ranges are limited to 7 days, daily to 5 years'),
+    fields: list(string(), { separators: ',|', maxItems: 20 }).describe(
+      'Bar fields to return, separated by commas or pipes; `date` is always included and `adjclose` only when listed',
+      'close,volume',
+    ),
+    events: list(enumeration(HISTORICAL_EVENTS), { separators: ',|' }).describe(
+      'Corporate actions to include alongside the bars',
+      'dividends,splits',
+    ),
+    precision: param(
+      anyOf(enumeration(['raw', 'auto'] as const), integer({ minimum: 0, maximum: MAX_HISTORICAL_PRECISION })),
+    )
+      .default(DEFAULT_HISTORICAL_PRECISION)
+      .describe(
+        'Decimals to round prices to; `raw` leaves them untouched and `auto` uses the price hint of the instrument',
+      ),
+    baseCurrency,
+  },
+  dateOrder(),
+  historicalRange,
+);
+
+export const optionsQuery = querySchema(
+  {
+    ticker: param(string()).required().describe('Ticker symbol of the underlying', 'AAPL'),
+    expirationDate: param(date()).describe('Only the chain expiring on this day'),
+    expirationDatesCount: param(integer({ minimum: 1, maximum: 24 })).describe(
+      'Number of upcoming expiration dates to return; each one costs a rate limit token',
+    ),
+    filter: list(enumeration(['calls', 'puts'] as const)).describe('Contract types to return', 'calls'),
+    limit: param(integer({ minimum: 1, maximum: 50 })).describe(
+      'Contracts per side nearest to the money: calls above and puts below the market price',
+    ),
+  },
+  ({ expirationDate, expirationDatesCount }) =>
+    expirationDate && expirationDatesCount ? 'Cannot specify both expirationDate and expirationDatesCount' : undefined,
+);
+
+export const summaryQuery = querySchema({
+  ticker: param(string()).required().describe('Ticker symbol', 'AAPL'),
+  modules: list(enumeration(SUMMARY_MODULES), { maxItems: 20 }).describe(
+    'quoteSummary modules; defaults to financialData, defaultKeyStatistics and recommendationTrend',
+    'price,summaryDetail',
+  ),
+  baseCurrency,
+});
+
+export const statementsQuery = querySchema({
+  ticker: param(string({ pattern: /^[A-Za-z0-9.]{1,10}$/, expected: '1-10 letters, digits or dots' }))
+    .required()
+    .describe('Ticker symbol', 'IBM'),
+  period: param(enumeration(['yearly', 'quarterly'] as const)).describe(
+    'Only annual or only quarterly reports; both when omitted',
+  ),
+  limitStatements: param(integer({ minimum: 1, maximum: 100 })).describe('Most recent reports to return per period'),
+  fields: list(string(), { separators: '|' }).describe(
+    'Statement fields to return, separated by pipes',
+    'totalRevenue|netIncome',
+  ),
+});
+
+export const conversionQuery = querySchema({
+  from: param(currencyCode()).required().describe('Currency to convert from', 'USD'),
+  to: param(currencyCode()).required().describe('Currency to convert to', 'CHF'),
+  date: param(date({ notInFuture: true })).describe('Use the rates in force on this day instead of the latest'),
+  amount: param(number({ minimum: 0 }))
+    .default(1)
+    .describe('Amount to convert', 1000),
+});
+
+export const rateHistoryQuery = querySchema(
+  {
+    currency: param(currencyCode()).required().describe('Currency quoted against EUR', 'USD'),
+    from: param(date()).required().describe('First day of the range', '2024-01-01'),
+    to: param(date({ notInFuture: true }))
+      .required()
+      .describe('Last day of the range, inclusive', '2024-01-31'),
+  },
+  dateOrder(),
+);
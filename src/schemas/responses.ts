@@ -0,0 +1,233 @@
+// JSON Schemas of the response bodies, published as OpenAPI components. Yahoo Finance objects
+// are passed through, so their schemas name the fields this API relies on and allow the rest.
+import type { JsonSchema } from './schema';
+
+const nullable = (type: string): JsonSchema => ({ type: [type, 'null'] });
+
+// Added by `baseCurrency` conversions
+const fxAnnotation: Record<string, JsonSchema> = {
+  currency: { ...nullable('string'), description: 'Currency of the values, the base currency once converted' },
+  originalCurrency: { ...nullable('string'), description: 'Listing currency before the conversion' },
+  fxRate: { ...nullable('number'), description: 'Multiplier applied to the original values; null without an ECB rate' },
+};
+
+export const RESPONSE_SCHEMAS: Record<string, JsonSchema> = {
+  Problem: {
+    type: 'object',
+    description: 'RFC 9457 problem details',
+    required: ['type', 'title', 'status', 'detail'],
+    properties: {
+      type: { type: 'string', examples: ['urn:stockquotes:problem:validation-error'] },
+      title: { type: 'string' },
+      status: { type: 'integer' },
+      detail: { type: 'string' },
+      instance: { type: 'string', description: '`urn:uuid:` of the correlation id' },
+      correlationId: { type: 'string' },
+    },
+  },
+  Quote: {
+    type: 'object',
+    description: 'A Yahoo Finance quote, reduced to `symbol` and the requested fields when `fields` is set',
+    required: ['symbol'],
+    properties: {
+      symbol: { type: 'string' },
+      shortName: { type: 'string' },
+      longName: { type: 'string' },
+      quoteType: { type: 'string' },
+      exchange: { type: 'string' },
+      marketState: { type: 'string' },
+      regularMarketPrice: { type: 'number' },
+      regularMarketChange: { type: 'number' },
+      regularMarketChangePercent: { type: 'number' },
+      regularMarketTime: { type: 'string', format: 'date-time' },
+      ...fxAnnotation,
+    },
+    additionalProperties: true,
+  },
+  HistoricalBar: {
+    type: 'object',
+    description: 'One bar; prices are rounded as requested by `precision`',
+    required: ['date'],
+    properties: {
+      date: { type: 'string', format: 'date-time' },
+      open: nullable('number'),
+      high: nullable('number'),
+      low: nullable('number'),
+      close: nullable('number'),
+      adjclose: { ...nullable('number'), description: 'Only when listed in `fields`' },
+      volume: nullable('integer'),
+      fxRate: { ...nullable('number'), description: 'ECB rate of the bar date, with `baseCurrency`' },
+    },
+  },
+  Dividend: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', format: 'date-time' },
+      amount: { type: 'number' },
+      fxRate: { ...nullable('number'), description: 'With `baseCurrency`' },
+    },
+  },
+  Split: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', format: 'date-time' },
+      numerator: { type: 'number' },
+      denominator: { type: 'number' },
+      splitRatio: { type: 'string', examples: ['4:1'] },
+    },
+  },
+  HistoricalData: {
+    type: 'object',
+    required: ['meta', 'quotes'],
+    properties: {
+      meta: {
+        type: 'object',
+        description: 'Chart metadata from Yahoo Finance',
+        properties: {
+          currency: { type: 'string' },
+          symbol: { type: 'string' },
+          instrumentType: { type: 'string' },
+          priceHint: { type: 'integer' },
+        },
+        additionalProperties: true,
+      },
+      quotes: { type: 'array', items: { $ref: '#/components/schemas/HistoricalBar' } },
+      dividends: { type: 'array', items: { $ref: '#/components/schemas/Dividend' } },
+      splits: { type: 'array', items: { $ref: '#/components/schemas/Split' } },
+      currency: {
+        ...nullable('string'),
+        description: 'With `baseCurrency`: the base currency, or the listing currency when no ECB rate applied',
+      },
+      originalCurrency: { ...nullable('string'), description: 'Listing currency, with `baseCurrency`' },
+    },
+  },
+  OptionContract: {
+    type: 'object',
+    properties: {
+      contractSymbol: { type: 'string' },
+      strike: { type: 'number' },
+      currency: { type: 'string' },
+      lastPrice: { type: 'number' },
+      change: { type: 'number' },
+      percentChange: { type: 'number' },
+      volume: { type: 'integer' },
+      openInterest: { type: 'integer' },
+      bid: { type: 'number' },
+      ask: { type: 'number' },
+      contractSize: { type: 'string' },
+      expiration: { type: 'string', format: 'date-time' },
+      lastTradeDate: { type: 'string', format: 'date-time' },
+      impliedVolatility: { type: 'number' },
+      inTheMoney: { type: 'boolean' },
+    },
+    additionalProperties: true,
+  },
+  OptionsChain: {
+    type: 'object',
+    required: ['underlyingSymbol', 'expirationDates', 'options'],
+    properties: {
+      underlyingSymbol: { type: 'string' },
+      expirationDates: { type: 'array', items: { type: 'string', format: 'date-time' } },
+      strikes: { type: 'array', items: { type: 'number' } },
+      hasMiniOptions: { type: 'boolean' },
+      quote: { $ref: '#/components/schemas/Quote' },
+      options: {
+        type: 'array',
+        description: 'One entry per expiration date, with only the contract types selected by `filter`',
+        items: {
+          type: 'object',
+          properties: {
+            expirationDate: { type: 'string', format: 'date-time' },
+            calls: { type: 'array', items: { $ref: '#/components/schemas/OptionContract' } },
+            puts: { type: 'array', items: { $ref: '#/components/schemas/OptionContract' } },
+          },
+        },
+      },
+    },
+  },
+  QuoteSummary: {
+    type: 'object',
+    description: 'The requested quoteSummary modules, keyed by module name',
+    properties: {
+      ...fxAnnotation,
+      originalFinancialCurrency: { ...nullable('string'), description: 'With `baseCurrency`' },
+      financialFxRate: { ...nullable('number'), description: 'With `baseCurrency`' },
+    },
+    additionalProperties: { type: 'object' },
+  },
+  StatementReport: {
+    type: 'object',
+    description: 'Income statement, balance sheet, cash flow and EPS of one fiscal period',
+    required: ['fiscalDateEnding'],
+    properties: {
+      fiscalDateEnding: { type: 'string', format: 'date' },
+      incomeStatement: { type: ['object', 'null'], additionalProperties: true },
+      balanceSheet: { type: ['object', 'null'], additionalProperties: true },
+      cashFlow: { type: ['object', 'null'], additionalProperties: true },
+      ratio: {
+        type: ['object', 'null'],
+        properties: { fiscalDateEnding: { type: 'string', format: 'date' }, reportedEPS: nullable('string') },
+      },
+    },
+  },
+  FinancialStatements: {
+    type: 'object',
+    description: 'Periods without reports are omitted',
+    required: ['symbol'],
+    properties: {
+      symbol: { type: 'string' },
+      annualReports: { type: 'array', items: { $ref: '#/components/schemas/StatementReport' } },
+      quarterlyReports: { type: 'array', items: { $ref: '#/components/schemas/StatementReport' } },
+    },
+  },
+  CurrencyConversion: {
+    type: 'object',
+    required: ['from', 'to', 'amount', 'rate', 'inverseRate', 'convertedAmount', 'date', 'rateDate', 'carriedForward'],
+    properties: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      amount: { type: 'number' },
+      rate: { type: 'number' },
+      inverseRate: { type: 'number' },
+      convertedAmount: { type: 'number' },
+      date: { type: 'string', format: 'date', description: 'Requested date, or the latest reference date' },
+      rateDate: { type: 'string', format: 'date', description: 'ECB reference date of the rates' },
+      carriedForward: { type: 'boolean', description: 'The date is not an ECB business day' },
+    },
+  },
+  ReferenceRates: {
+    type: 'object',
+    description: 'ECB euro foreign exchange reference rates of one day',
+    required: ['date', 'base', 'rates'],
+    properties: {
+      date: { type: 'string', format: 'date' },
+      base: { const: 'EUR' },
+      rates: { type: 'object', additionalProperties: { type: 'number' }, examples: [{ USD: 1.0823, CHF: 0.9412 }] },
+    },
+  },
+  RateHistory: {
+    type: 'object',
+    required: ['base', 'currency', 'from', 'to', 'rates'],
+    properties: {
+      base: { const: 'EUR' },
+      currency: { type: 'string' },
+      from: { type: 'string', format: 'date' },
+      to: { type: 'string', format: 'date' },
+      rates: {
+        type: 'array',
+        description: 'One entry per calendar day',
+        items: {
+          type: 'object',
+          required: ['date', 'rateDate', 'currency', 'rate', 'carriedForward'],
+          properties: {
+            date: { type: 'string', format: 'date' },
+            rateDate: { type: 'string', format: 'date' },
+            currency: { type: 'string' },
+            rate: { type: 'number' },
+            carriedForward: { type: 'boolean' },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,276 @@
+// Declarative query string schemas. A schema both parses a request's query into typed values and
+// describes its parameters as OpenAPI 3.1 parameter objects, so the published document and the
+// handlers' parsing cannot drift apart.
+import { ValidationError } from '../utils/errors';
+
+// A JSON Schema (draft 2020-12), the schema dialect of OpenAPI 3.1
+export type JsonSchema = Record<string, unknown>;
+
+// The type of a single value as sent in the query string
+export interface ValueType<T> {
+  readonly schema: JsonSchema;
+  // Completes "must be ..." in error messages
+  readonly expected: string;
+  // The value, or undefined when the text is not one
+  parse(text: string): T | undefined;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+  style?: 'form' | 'pipeDelimited';
+  explode?: boolean;
+  example?: unknown;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isoToday(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function string(options: { pattern?: RegExp; expected?: string; maxLength?: number } = {}): ValueType<string> {
+  const { pattern, maxLength } = options;
+  return {
+    schema: { type: 'string', minLength: 1, maxLength, pattern: pattern?.source },
+    expected: options.expected ?? 'a non-empty string',
+    parse: (text) =>
+      (pattern && !pattern.test(text)) || (maxLength !== undefined && text.length > maxLength) ? undefined : text,
+  };
+}
+
+export function integer(options: { minimum: number; maximum: number }): ValueType<number> {
+  const { minimum, maximum } = options;
+  return {
+    schema: { type: 'integer', minimum, maximum },
+    expected: `an integer between ${minimum} and ${maximum}`,
+    parse: (text) => {
+      const value = /^-?\d+$/.test(text) ? Number(text) : Number.NaN;
+      return value >= minimum && value <= maximum ? value : undefined;
+    },
+  };
+}
+
+export function number(options: { minimum: number }): ValueType<number> {
+  const { minimum } = options;
+  return {
+    schema: { type: 'number', minimum },
+    expected: `a number of at least ${minimum}`,
+    parse: (text) => {
+      const value = text.trim() === '' ? Number.NaN : Number(text);
+      return Number.isFinite(value) && value >= minimum ? value : undefined;
+    },
+  };
+}
+
+// A calendar day as yyyy-MM-dd; `notInFuture` rejects days after today (UTC)
+export function date(options: { notInFuture?: boolean } = {}): ValueType<string> {
+  const { notInFuture = false } = options;
+  return {
+    schema: { type: 'string', format: 'date' },
+    expected: notInFuture ? 'a date in yyyy-MM-dd format, not in the future' : 'a date in yyyy-MM-dd format',
+    parse: (text) => {
+      // Round-tripping rejects days like 2024-02-30 that Date would silently roll over
+      const time = DATE_PATTERN.test(text) ? Date.parse(text) : Number.NaN;
+      if (Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== text) {
+        return undefined;
+      }
+      return notInFuture && text > isoToday() ? undefined : text;
+    },
+  };
+}
+
+export function enumeration<T extends string>(values: readonly T[]): ValueType<T> {
+  return {
+    schema: { type: 'string', enum: [...values] },
+    expected: `one of: ${values.join(', ')}`,
+    parse: (text) => (values.includes(text as T) ? (text as T) : undefined),
+  };
+}
+
+// ISO 4217 codes are accepted in any case and returned in upper case
+export function currencyCode(): ValueType<string> {
+  return {
+    schema: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+    expected: 'a 3-letter ISO 4217 currency code',
+    parse: (text) => (/^[A-Za-z]{3}$/.test(text) ? text.toUpperCase() : undefined),
+  };
+}
+
+// The first type that accepts the text wins
+export function anyOf<T extends unknown[]>(...types: { [K in keyof T]: ValueType<T[K]> }): ValueType<T[number]> {
+  return {
+    schema: { anyOf: types.map((type) => type.schema) },
+    expected: types.map((type) => type.expected).join(' or '),
+    parse: (text) => {
+      for (const type of types) {
+        const value = type.parse(text);
+        if (value !== undefined) {
+          return value;
+        }
+      }
+      return undefined;
+    },
+  };
+}
+
+interface ParameterDefinition<T> {
+  schema: JsonSchema;
+  // Converts the raw text, throwing a ValidationError naming the parameter
+  convert(name: string, text: string): T | undefined;
+  required: boolean;
+  fallback?: T;
+  description?: string;
+  example?: unknown;
+  style?: 'form' | 'pipeDelimited';
+}
+
+// One query parameter. `Out` is what parsing yields: undefined is only possible for optional
+// parameters without a default.
+export class Parameter<T, Out = T | undefined> {
+  private readonly definition: ParameterDefinition<T>;
+
+  constructor(definition: ParameterDefinition<T>) {
+    this.definition = definition;
+  }
+
+  required(): Parameter<T, T> {
+    return new Parameter<T, T>({ ...this.definition, required: true });
+  }
+
+  default(value: T): Parameter<T, T> {
+    return new Parameter<T, T>({ ...this.definition, fallback: value });
+  }
+
+  describe(description: string, example?: unknown): Parameter<T, Out> {
+    return new Parameter<T, Out>({ ...this.definition, description, example });
+  }
+
+  // An empty value counts as a missing one, as it always has for these routes
+  parse(name: string, text: string | null): Out {
+    const value = text ? this.definition.convert(name, text) : undefined;
+    if (value !== undefined) {
+      return value as Out;
+    }
+    if (this.definition.required) {
+      throw new ValidationError(`Missing required parameter: ${name}`);
+    }
+    return this.definition.fallback as Out;
+  }
+
+  toOpenApi(name: string): OpenApiParameter {
+    const { schema, required, fallback, description, example, style } = this.definition;
+    return {
+      name,
+      in: 'query',
+      required,
+      description,
+      schema: fallback === undefined ? schema : { ...schema, default: fallback },
+      ...(style && { style, explode: false }),
+      example,
+    };
+  }
+}
+
+export function param<T>(type: ValueType<T>): Parameter<T> {
+  return new Parameter<T>({
+    schema: type.schema,
+    required: false,
+    convert: (name, text) => {
+      const value = type.parse(text);
+      if (value === undefined) {
+        throw new ValidationError(`Invalid parameter: ${name} must be ${type.expected}`);
+      }
+      return value;
+    },
+  });
+}
+
+export interface ListOptions {
+  // Characters separating the values; the first one is the documented style
+  separators?: ',' | '|' | ',|';
+  maxItems?: number;
+}
+
+// A delimited list such as `symbols=MSFT,AAPL`. Values are trimmed and empty ones dropped, as the
+// handlers always did before splitting moved here: `MSFT,,AAPL` is MSFT and AAPL, and a list with
+// nothing in it counts as missing.
+export function list<T>(type: ValueType<T>, options: ListOptions = {}): Parameter<T[]> {
+  const { separators = ',', maxItems } = options;
+  const splitter = new RegExp(`[${separators.replace('|', '\\|')}]`);
+  return new Parameter<T[]>({
+    schema: { type: 'array', items: type.schema, maxItems },
+    required: false,
+    style: separators.startsWith('|') ? 'pipeDelimited' : 'form',
+    convert: (name, text) => {
+      const items = text
+        .split(splitter)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+      if (items.length === 0) {
+        return undefined;
+      }
+      if (maxItems !== undefined && items.length > maxItems) {
+        throw new ValidationError(`Invalid parameter: ${name} allows at most ${maxItems} values`);
+      }
+      return items.map((item) => {
+        const value = type.parse(item);
+        if (value === undefined) {
+          throw new ValidationError(
+            `Invalid parameter: ${name} contains "${item}"; each value must be ${type.expected}`,
+          );
+        }
+        return value;
+      });
+    },
+  });
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type QueryParameters = Record<string, Parameter<any, any>>;
+
+export type Query<P extends QueryParameters> = {
+  [K in keyof P]: P[K] extends Parameter<infer _T, infer Out> ? Out : never;
+};
+
+// A check across parameters; returns the problem, or undefined when the query passes
+export type QueryRule<Q> = (query: Q) => string | undefined;
+
+export class QuerySchema<P extends QueryParameters> {
+  readonly parameters: P;
+  private readonly rules: Array<QueryRule<Query<P>>>;
+
+  constructor(parameters: P, rules: Array<QueryRule<Query<P>>> = []) {
+    this.parameters = parameters;
+    this.rules = rules;
+  }
+
+  // Parameters are checked in declaration order, then the rules; the first problem is reported
+  parse(query: { get(name: string): string | null }): Query<P> {
+    const parsed: Record<string, unknown> = {};
+    for (const [name, parameter] of Object.entries(this.parameters)) {
+      parsed[name] = parameter.parse(name, query.get(name));
+    }
+    for (const rule of this.rules) {
+      const problem = rule(parsed as Query<P>);
+      if (problem) {
+        throw new ValidationError(problem);
+      }
+    }
+    return parsed as Query<P>;
+  }
+
+  toOpenApi(): OpenApiParameter[] {
+    return Object.entries(this.parameters).map(([name, parameter]) => parameter.toOpenApi(name));
+  }
+}
+
+export function querySchema<P extends QueryParameters>(
+  parameters: P,
+  ...rules: Array<QueryRule<Query<P>>>
+): QuerySchema<P> {
+  return new QuerySchema(parameters, rules);
+}
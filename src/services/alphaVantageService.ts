@@ -1,7 +1,16 @@
 import axios from 'axios';
 import type { InvocationContext } from '@azure/functions';
-import type { CacheService } from './cacheService';
+import type { CacheService, CacheStatus } from './cacheService';
 import { cacheService } from './cacheService';
+import {
+  ConfigurationError,
+  UpstreamError,
+  UpstreamRateLimited,
+  UpstreamTimeout,
+  toUpstreamError,
+} from '../utils/errors';
+
+const ALPHA_VANTAGE = 'Alpha Vantage';
 
 // Alpha Vantage API response interfaces
 interface AlphaVantageStatementResponse {
@@ -46,7 +55,7 @@ export interface FinancialStatementsResponse {
   symbol: string;
   annualReports: MergedStatementReport[];
   quarterlyReports: MergedStatementReport[];
-  cacheStatus: 'HIT' | 'MISS';
+  cacheStatus: CacheStatus;
 }
 
 export class AlphaVantageService {
@@ -71,32 +80,18 @@ export class AlphaVantageService {
     // Normalize ticker
     const normalizedTicker = ticker.toUpperCase().trim();
 
-    // Validate ticker
-    const validation = this.validateTicker(normalizedTicker);
-    if (!validation.isValid) {
-      throw new Error(validation.error);
-    }
-
-    // Build cache key for this ticker and date
-    const date = new Date().toISOString().split('T')[0];
-    const cacheKey = `statements-${date}-${normalizedTicker}`;
-
-    // Try to get data from cache
-    let fullData = this.cache.get<Omit<FinancialStatementsResponse, 'cacheStatus'>>(cacheKey);
-    let cacheStatus: 'HIT' | 'MISS' = 'HIT';
+    // Full data is cached once per ticker for the statements namespace TTL; a stale copy is served while it is refreshed
+    const cacheKey = `statements-${normalizedTicker}`;
 
-    if (fullData) {
-      context.log(`Cache hit for ${normalizedTicker}, applying filters`);
-    } else {
+    const { data: fullData, status: cacheStatus } = await this.cache.getOrLoad(cacheKey, () => {
       const periodInfo = period ? ` (${period})` : '';
       const limitInfo = limitStatements ? ` (limit:${limitStatements})` : '';
       const fieldsInfo = fields ? ` (fields:${fields.length})` : '';
       context.log(`Cache miss for ${normalizedTicker}${periodInfo}${limitInfo}${fieldsInfo}, fetching from API`);
-
-      // Fetch from API and store full data in cache
-      fullData = await this.fetchFromApi(normalizedTicker, context);
-      this.cache.set(cacheKey, fullData);
-      cacheStatus = 'MISS';
+      return this.fetchFromApi(normalizedTicker, context);
+    });
+    if (cacheStatus !== 'MISS') {
+      context.log(`Cache ${cacheStatus.toLowerCase()} for ${normalizedTicker}, applying filters`);
     }
 
     // Apply filters to the cached data
@@ -218,7 +213,7 @@ export class AlphaVantageService {
     context.log(`Fetching financial statements for ${ticker} from Alpha Vantage`);
 
     if (!this.apiKey) {
-      throw new Error('ALPHAVANTAGE_API_KEY environment variable is not set');
+      throw new ConfigurationError('ALPHAVANTAGE_API_KEY environment variable is not set');
     }
 
     try {
@@ -240,13 +235,13 @@ export class AlphaVantageService {
 
       // Validate responses
       if (!this.isValidResponse(incomeResponse)) {
-        throw new Error('Invalid income statement response from Alpha Vantage');
+        throw new UpstreamError(ALPHA_VANTAGE, 'Invalid income statement response from Alpha Vantage');
       }
       if (!this.isValidResponse(balanceResponse)) {
-        throw new Error('Invalid balance sheet response from Alpha Vantage');
+        throw new UpstreamError(ALPHA_VANTAGE, 'Invalid balance sheet response from Alpha Vantage');
       }
       if (!this.isValidResponse(cashFlowResponse)) {
-        throw new Error('Invalid cash flow response from Alpha Vantage');
+        throw new UpstreamError(ALPHA_VANTAGE, 'Invalid cash flow response from Alpha Vantage');
       }
 
       // Merge reports
@@ -273,7 +268,7 @@ export class AlphaVantageService {
       };
     } catch (error: unknown) {
       context.error(`Error fetching financial statements for ${ticker}:`, error);
-      throw error;
+      throw toUpstreamError(error, ALPHA_VANTAGE);
     }
   }
 
@@ -296,22 +291,27 @@ export class AlphaVantageService {
 
       // Check for API limit reached or other errors
       if (response.data && 'Note' in response.data) {
-        throw new Error('Alpha Vantage API rate limit reached');
+        throw new UpstreamRateLimited(ALPHA_VANTAGE, 'Alpha Vantage API rate limit reached');
       }
 
       if (response.data && 'Information' in response.data) {
-        throw new Error(`Alpha Vantage API error: ${(response.data as Record<string, string>).Information}`);
+        throw new UpstreamError(
+          ALPHA_VANTAGE,
+          `Alpha Vantage API error: ${(response.data as Record<string, string>).Information}`,
+        );
       }
 
       return response.data;
     } catch (error: unknown) {
       if (axios.isAxiosError(error)) {
         if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-          throw new Error(`Timeout fetching ${function_name} for ${ticker}`);
+          throw new UpstreamTimeout(ALPHA_VANTAGE, `Timeout fetching ${function_name} for ${ticker}`, { cause: error });
         }
         if (error.response) {
-          throw new Error(
+          throw new UpstreamError(
+            ALPHA_VANTAGE,
             `Alpha Vantage API error for ${function_name}: ${error.response.status} - ${error.response.statusText}`,
+            { cause: error },
           );
         }
       }
@@ -342,22 +342,27 @@ export class AlphaVantageService {
 
       // Check for API limit reached or other errors
       if (response.data && 'Note' in response.data) {
-        throw new Error('Alpha Vantage API rate limit reached');
+        throw new UpstreamRateLimited(ALPHA_VANTAGE, 'Alpha Vantage API rate limit reached');
       }
 
       if (response.data && 'Information' in response.data) {
-        throw new Error(`Alpha Vantage API error: ${(response.data as Record<string, string>).Information}`);
+        throw new UpstreamError(
+          ALPHA_VANTAGE,
+          `Alpha Vantage API error: ${(response.data as Record<string, string>).Information}`,
+        );
       }
 
       return response.data;
     } catch (error: unknown) {
       if (axios.isAxiosError(error)) {
         if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-          throw new Error(`Timeout fetching EARNINGS for ${ticker}`);
+          throw new UpstreamTimeout(ALPHA_VANTAGE, `Timeout fetching EARNINGS for ${ticker}`, { cause: error });
         }
         if (error.response) {
-          throw new Error(
+          throw new UpstreamError(
+            ALPHA_VANTAGE,
             `Alpha Vantage API error for EARNINGS: ${error.response.status} - ${error.response.statusText}`,
+            { cause: error },
           );
         }
       }
@@ -434,23 +439,6 @@ export class AlphaVantageService {
         report.ratio !== null,
     );
   }
-
-  validateTicker(ticker: string): { isValid: boolean; error?: string } {
-    if (!ticker || ticker.trim().length === 0) {
-      return { isValid: false, error: 'Ticker symbol is required' };
-    }
-
-    // Basic ticker validation (1-10 alphanumeric characters, may contain dots for some exchanges)
-    const tickerRegex = /^[A-Z0-9.]{1,10}$/;
-    if (!tickerRegex.test(ticker.toUpperCase())) {
-      return {
-        isValid: false,
-        error: 'Invalid ticker symbol format. Must be 1-10 alphanumeric characters (may contain dots)',
-      };
-    }
-
-    return { isValid: true };
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,246 @@
+import type { InvocationContext } from '@azure/functions';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { RateLimitStore } from './rateLimit/rateLimitStore';
+import type { RateLimitFailureMode, RateLimitPolicy } from './rateLimiter';
+import { assertRateLimitPolicy, getRateLimitStore, loadRateLimitFailureMode } from './rateLimiter';
+import { QuotaExceeded, RateLimitUnavailable } from '../utils/errors';
+
+export interface ApiKeyQuota {
+  // Requests per UTC day and per UTC month; omitted means unlimited
+  daily?: number;
+  monthly?: number;
+}
+
+// One entry of API_KEYS / API_KEYS_FILE. Only the SHA-256 of the key is configured, so the
+// configuration never holds a usable secret.
+export interface ApiKey {
+  name: string;
+  // Hex SHA-256 of the key sent in X-API-Key
+  sha256: string;
+  // Route names the key may call (e.g. `statements`), `*` for all; defaults to all
+  routes: string[];
+  // Replaces fields of each route's rate limit policy for this key
+  rateLimit?: Partial<RateLimitPolicy>;
+  quota: ApiKeyQuota;
+}
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface PeriodUsage {
+  // `2024-01-15` or `2024-01`
+  period: string;
+  used: number;
+  // null when the key has no quota for this period
+  limit: number | null;
+  resetAt: string;
+}
+
+export interface ApiKeyUsage {
+  name: string;
+  routes: string[];
+  rateLimit?: Partial<RateLimitPolicy>;
+  usage: Record<QuotaPeriod, PeriodUsage>;
+}
+
+interface PeriodWindow {
+  period: QuotaPeriod;
+  label: string;
+  resetAt: number;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function assertQuota(name: string, quota: unknown): void {
+  if (quota === undefined) {
+    return;
+  }
+  if (typeof quota !== 'object' || quota === null) {
+    throw new Error(`Invalid API key configuration: ${name}.quota must be an object`);
+  }
+  for (const period of ['daily', 'monthly'] as const) {
+    const value = (quota as ApiKeyQuota)[period];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      throw new Error(`Invalid API key configuration: ${name}.quota.${period} must be a positive integer`);
+    }
+  }
+}
+
+// Validate the parsed configuration so a typo fails at startup instead of locking callers out
+export function parseApiKeys(config: unknown): ApiKey[] {
+  if (!Array.isArray(config)) {
+    throw new Error('Invalid API key configuration: expected an array of keys');
+  }
+
+  const names = new Set<string>();
+  return config.map((entry: Partial<ApiKey>, index) => {
+    const name = entry?.name;
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new Error(`Invalid API key configuration: key ${index} has no name`);
+    }
+    if (names.has(name)) {
+      throw new Error(`Invalid API key configuration: duplicate key name "${name}"`);
+    }
+    names.add(name);
+
+    if (typeof entry.sha256 !== 'string' || !/^[\da-f]{64}$/i.test(entry.sha256)) {
+      throw new Error(`Invalid API key configuration: ${name}.sha256 must be a hex SHA-256 digest`);
+    }
+    if (
+      entry.routes !== undefined &&
+      !(Array.isArray(entry.routes) && entry.routes.every((r) => typeof r === 'string'))
+    ) {
+      throw new Error(`Invalid API key configuration: ${name}.routes must be an array of route names`);
+    }
+    if (entry.rateLimit !== undefined) {
+      assertRateLimitPolicy(name, entry.rateLimit);
+    }
+    assertQuota(name, entry.quota);
+
+    return {
+      name,
+      sha256: entry.sha256.toLowerCase(),
+      routes: entry.routes ?? ['*'],
+      rateLimit: entry.rateLimit,
+      quota: entry.quota ?? {},
+    };
+  });
+}
+
+// API_KEYS_FILE points at a JSON file of keys; API_KEYS holds the same JSON inline
+export function loadApiKeys(env: NodeJS.ProcessEnv = process.env): ApiKey[] {
+  let json = env.API_KEYS;
+  if (env.API_KEYS_FILE) {
+    json = readFileSync(env.API_KEYS_FILE, 'utf8');
+  }
+  if (!json) {
+    return [];
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(json);
+  } catch (error) {
+    throw new Error('Invalid API key configuration: not valid JSON', { cause: error });
+  }
+  return parseApiKeys(config);
+}
+
+function isoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// Authenticates API keys and counts their requests per UTC day and month. The counters live in
+// the rate limit store, so quotas hold across instances when that store is shared.
+export class ApiKeyRegistry {
+  private readonly keys: Map<string, ApiKey>;
+  private readonly store: RateLimitStore;
+  private readonly failureMode: RateLimitFailureMode;
+
+  constructor(keys: ApiKey[], store: RateLimitStore, failureMode: RateLimitFailureMode = 'open') {
+    this.keys = new Map(keys.map((key) => [key.sha256, key]));
+    this.store = store;
+    this.failureMode = failureMode;
+  }
+
+  // Without configured keys the API stays open to anonymous callers
+  get enabled(): boolean {
+    return this.keys.size > 0;
+  }
+
+  // Keys are looked up by digest, so the lookup time says nothing about the secret itself
+  authenticate(key: string | null): ApiKey | undefined {
+    return key ? this.keys.get(hashApiKey(key)) : undefined;
+  }
+
+  findByName(name: string): ApiKey | undefined {
+    return [...this.keys.values()].find((key) => key.name === name);
+  }
+
+  isRouteAllowed(key: ApiKey, route: string): boolean {
+    return key.routes.includes('*') || key.routes.includes(route);
+  }
+
+  // Count a request against both periods. Like the rate limiter, the count is added first and
+  // taken back when a quota is exceeded, so concurrent instances never overshoot together.
+  async consume(key: ApiKey, context: InvocationContext, now: number = Date.now()): Promise<void> {
+    const windows = this.windows(now);
+
+    let counts: number[];
+    try {
+      counts = await Promise.all(
+        windows.map((window) => this.store.increment(this.counterKey(key, window), 1, window.resetAt - now)),
+      );
+    } catch (error) {
+      if (this.failureMode === 'closed') {
+        throw new RateLimitUnavailable(`Quota store failed for API key ${key.name}`, { cause: error });
+      }
+      context.warn(`Quota store failed for API key ${key.name}, allowing request`, error);
+      return;
+    }
+
+    const exceeded = windows.find((window, index) => counts[index] > (key.quota[window.period] ?? Infinity));
+    if (exceeded) {
+      this.refund(key, context, now);
+      throw new QuotaExceeded(exceeded.period, Math.ceil((exceeded.resetAt - now) / 1000));
+    }
+  }
+
+  // Gives back a request charged by consume at `now`, e.g. one the handler rejected. Best effort:
+  // a refund that cannot be stored only leaves the key charged.
+  refund(key: ApiKey, context: InvocationContext, now: number = Date.now()): void {
+    for (const window of this.windows(now)) {
+      this.store
+        .increment(this.counterKey(key, window), -1, window.resetAt - now)
+        .catch((error: unknown) => context.warn(`Quota refund failed for API key ${key.name}`, error));
+    }
+  }
+
+  // Usage of every key, or of the named key; an unknown name returns an empty list
+  async getUsage(name?: string, now: number = Date.now()): Promise<ApiKeyUsage[]> {
+    const keys = [...this.keys.values()].filter((key) => name === undefined || key.name === name);
+    const windows = this.windows(now);
+
+    return Promise.all(
+      keys.map(async (key) => {
+        const used = await Promise.all(windows.map((window) => this.store.get(this.counterKey(key, window))));
+        const usage = Object.fromEntries(
+          windows.map((window, index) => [
+            window.period,
+            {
+              period: window.label,
+              used: used[index],
+              limit: key.quota[window.period] ?? null,
+              resetAt: new Date(window.resetAt).toISOString(),
+            },
+          ]),
+        ) as Record<QuotaPeriod, PeriodUsage>;
+        return { name: key.name, routes: key.routes, rateLimit: key.rateLimit, usage };
+      }),
+    );
+  }
+
+  private windows(now: number): PeriodWindow[] {
+    const date = new Date(now);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    return [
+      { period: 'daily', label: isoDate(now), resetAt: Date.UTC(year, month, day + 1) },
+      { period: 'monthly', label: isoDate(now).slice(0, 7), resetAt: Date.UTC(year, month + 1, 1) },
+    ];
+  }
+
+  private counterKey(key: ApiKey, window: PeriodWindow): string {
+    return `usage:${key.name}:${window.label}`;
+  }
+}
+
+let registry: ApiKeyRegistry | undefined;
+
+export function getApiKeyRegistry(): ApiKeyRegistry {
+  registry ??= new ApiKeyRegistry(loadApiKeys(), getRateLimitStore(), loadRateLimitFailureMode());
+  return registry;
+}
@@ -0,0 +1,191 @@
+import { readFileSync } from 'node:fs';
+import type { CacheNamespace } from './namespaces';
+import { CACHE_NAMESPACES, getNamespace } from './namespaces';
+
+export interface CachePolicy {
+  // How long an entry is served as fresh (X-Cache: HIT)
+  ttlSeconds: number;
+  // How long after that it may still be served as STALE while it is refreshed
+  staleSeconds: number;
+  // Cache-Control sent to clients for responses from this namespace
+  cacheControl: string;
+  // Replaces the fields above outside market hours, e.g. a longer quote TTL on weekends
+  marketClosed?: Partial<Omit<CachePolicy, 'marketClosed'>>;
+}
+
+export type CachePolicyTable = Record<CacheNamespace, CachePolicy>;
+
+export interface MarketHours {
+  // IANA time zone of the exchange
+  timeZone: string;
+  // Local opening and closing time, `HH:MM`
+  open: string;
+  close: string;
+  // Trading days, 0 = Sunday
+  days: number[];
+}
+
+// Shape of CACHE_POLICIES / CACHE_POLICY_FILE; anything omitted keeps its default
+export interface CachePolicyConfig {
+  marketHours?: Partial<MarketHours>;
+  namespaces?: Partial<Record<CacheNamespace, Partial<CachePolicy>>>;
+}
+
+export interface ResolvedCachePolicy {
+  ttlMs: number;
+  staleMs: number;
+  cacheControl: string;
+}
+
+export const DEFAULT_MARKET_HOURS: MarketHours = {
+  timeZone: 'America/New_York',
+  open: '09:30',
+  close: '16:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function parseSeconds(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+// The defaults reproduce the TTLs the handlers used to hard-code. Namespaces without a specific
+// TTL follow CACHE_TTL_SECONDS, and every namespace shares the CACHE_STALE_SECONDS window.
+export function createDefaultPolicyTable(env: NodeJS.ProcessEnv = process.env): CachePolicyTable {
+  const ttlSeconds = parseSeconds(env.CACHE_TTL_SECONDS, 86400);
+  const staleSeconds = parseSeconds(env.CACHE_STALE_SECONDS, 86400);
+
+  return {
+    quotes: { ttlSeconds: 60, staleSeconds, cacheControl: 'max-age=60' },
+    summary: { ttlSeconds: 300, staleSeconds, cacheControl: 'max-age=300' },
+    hist: { ttlSeconds, staleSeconds, cacheControl: 'max-age=3600' },
+    options: { ttlSeconds, staleSeconds, cacheControl: 'max-age=300' },
+    statements: { ttlSeconds, staleSeconds, cacheControl: 'max-age=86400' },
+    ecb: { ttlSeconds, staleSeconds, cacheControl: 'max-age=3600' },
+    other: { ttlSeconds, staleSeconds, cacheControl: 'no-cache' },
+  };
+}
+
+function assertSeconds(value: unknown, field: string): void {
+  if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+    throw new Error(`Invalid cache policy: ${field} must be a non-negative integer`);
+  }
+}
+
+function assertPolicy(policy: Partial<CachePolicy>, path: string): void {
+  assertSeconds(policy.ttlSeconds, `${path}.ttlSeconds`);
+  assertSeconds(policy.staleSeconds, `${path}.staleSeconds`);
+  if (policy.cacheControl !== undefined && typeof policy.cacheControl !== 'string') {
+    throw new Error(`Invalid cache policy: ${path}.cacheControl must be a string`);
+  }
+}
+
+function assertMarketHours(hours: MarketHours): void {
+  if (!TIME_PATTERN.test(hours.open) || !TIME_PATTERN.test(hours.close)) {
+    throw new Error('Invalid cache policy: marketHours.open and marketHours.close must use HH:MM');
+  }
+  if (!hours.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    throw new Error('Invalid cache policy: marketHours.days must contain weekday numbers between 0 and 6');
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: hours.timeZone });
+  } catch {
+    throw new Error(`Invalid cache policy: unknown time zone "${hours.timeZone}"`);
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Per-namespace TTL, stale window and client Cache-Control, with optional overrides while the
+// market is closed. Exchange holidays are not modelled: they are treated as trading days.
+export class CachePolicies {
+  private readonly table: CachePolicyTable;
+  private readonly marketHours: MarketHours;
+  private readonly clock: () => Date;
+  private readonly formatter: Intl.DateTimeFormat;
+
+  constructor(
+    table: CachePolicyTable = createDefaultPolicyTable(),
+    marketHours: MarketHours = DEFAULT_MARKET_HOURS,
+    clock: () => Date = () => new Date(),
+  ) {
+    this.table = table;
+    this.marketHours = marketHours;
+    this.clock = clock;
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: marketHours.timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+
+  resolve(namespace: CacheNamespace): ResolvedCachePolicy {
+    const { marketClosed, ...policy } = this.table[namespace];
+    const effective = marketClosed && !this.isMarketOpen() ? { ...policy, ...marketClosed } : policy;
+    return {
+      ttlMs: effective.ttlSeconds * 1000,
+      staleMs: effective.staleSeconds * 1000,
+      cacheControl: effective.cacheControl,
+    };
+  }
+
+  resolveKey(key: string): ResolvedCachePolicy {
+    return this.resolve(getNamespace(key));
+  }
+
+  isMarketOpen(now: Date = this.clock()): boolean {
+    const parts = Object.fromEntries(this.formatter.formatToParts(now).map(({ type, value }) => [type, value]));
+    if (!this.marketHours.days.includes(WEEKDAYS.indexOf(parts.weekday))) {
+      return false;
+    }
+    const minutes = Number(parts.hour) * 60 + Number(parts.minute);
+    return minutes >= toMinutes(this.marketHours.open) && minutes < toMinutes(this.marketHours.close);
+  }
+}
+
+// Overlay a policy configuration onto the defaults. Unknown namespaces and malformed values are
+// rejected so a typo in the configuration fails at startup instead of silently using defaults.
+export function createCachePolicies(config: CachePolicyConfig, env: NodeJS.ProcessEnv = process.env): CachePolicies {
+  const table = createDefaultPolicyTable(env);
+  for (const [namespace, overrides] of Object.entries(config.namespaces ?? {})) {
+    if (namespace !== 'other' && !(CACHE_NAMESPACES as readonly string[]).includes(namespace)) {
+      throw new Error(`Invalid cache policy: unknown namespace "${namespace}"`);
+    }
+    assertPolicy(overrides, namespace);
+    if (overrides.marketClosed) {
+      assertPolicy(overrides.marketClosed, `${namespace}.marketClosed`);
+    }
+    table[namespace as CacheNamespace] = { ...table[namespace as CacheNamespace], ...overrides };
+  }
+
+  const marketHours = { ...DEFAULT_MARKET_HOURS, ...config.marketHours };
+  assertMarketHours(marketHours);
+  return new CachePolicies(table, marketHours);
+}
+
+// CACHE_POLICY_FILE points at a JSON policy file; CACHE_POLICIES holds the same JSON inline
+export function loadCachePolicies(env: NodeJS.ProcessEnv = process.env): CachePolicies {
+  let json = env.CACHE_POLICIES;
+  if (env.CACHE_POLICY_FILE) {
+    json = readFileSync(env.CACHE_POLICY_FILE, 'utf8');
+  }
+  if (!json) {
+    return new CachePolicies(createDefaultPolicyTable(env));
+  }
+
+  let config: CachePolicyConfig;
+  try {
+    config = JSON.parse(json) as CachePolicyConfig;
+  } catch (error) {
+    throw new Error('Invalid cache policy: configuration is not valid JSON', { cause: error });
+  }
+  return createCachePolicies(config, env);
+}
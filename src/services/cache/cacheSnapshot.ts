@@ -0,0 +1,104 @@
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import type { CacheService } from '../cacheService';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const SNAPSHOT_FORMAT = 'stockquotes-cache-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotEntry {
+  key: string;
+  data: unknown;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export interface CacheSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  entries: SnapshotEntry[];
+}
+
+export interface SnapshotImportResult {
+  imported: number;
+  skipped: number;
+}
+
+export class SnapshotFormatError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SnapshotFormatError';
+  }
+}
+
+// Snapshots are gzipped JSON: cache payloads are repetitive JSON, so they compress well
+export async function encodeSnapshot(snapshot: CacheSnapshot): Promise<Buffer> {
+  return gzipAsync(JSON.stringify(snapshot));
+}
+
+export async function decodeSnapshot(buffer: Buffer): Promise<CacheSnapshot> {
+  let snapshot: Partial<CacheSnapshot>;
+  try {
+    snapshot = JSON.parse((await gunzipAsync(buffer)).toString('utf8')) as Partial<CacheSnapshot>;
+  } catch (error) {
+    throw new SnapshotFormatError('Cache snapshot is not gzipped JSON', { cause: error });
+  }
+
+  if (snapshot?.format !== SNAPSHOT_FORMAT) {
+    throw new SnapshotFormatError('Not a cache snapshot');
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotFormatError(
+      `Unsupported cache snapshot version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`,
+    );
+  }
+  if (!Array.isArray(snapshot.entries)) {
+    throw new SnapshotFormatError('Cache snapshot has no entries');
+  }
+  return snapshot as CacheSnapshot;
+}
+
+// Written to a temp file and renamed, so a crash mid-export never leaves a truncated snapshot
+export async function writeSnapshotFile(filePath: string, snapshot: CacheSnapshot): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.writeFile(tempPath, await encodeSnapshot(snapshot));
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export async function readSnapshotFile(filePath: string): Promise<CacheSnapshot> {
+  return decodeSnapshot(await fs.readFile(filePath));
+}
+
+// Import a snapshot file into the cache; a missing file is not an error, since the first
+// deployment has nothing to restore. Returns null in that case.
+export async function restoreSnapshot(cache: CacheService, filePath: string): Promise<SnapshotImportResult | null> {
+  let snapshot: CacheSnapshot;
+  try {
+    snapshot = await readSnapshotFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  return cache.importSnapshot(snapshot);
+}
+
+// Returns the number of exported entries
+export async function saveSnapshot(cache: CacheService, filePath: string): Promise<number> {
+  const snapshot = await cache.exportSnapshot();
+  await writeSnapshotFile(filePath, snapshot);
+  return snapshot.entries.length;
+}
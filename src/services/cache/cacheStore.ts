@@ -0,0 +1,29 @@
+// Storage backend behind CacheService. Stores enforce expiry themselves; values written to the
+// file and Redis stores must survive a JSON round trip (Dates come back as ISO strings).
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>;
+  // Like get, but leaves recency and tiers alone; for listings and exports that must not look like use
+  peek<T>(key: string): Promise<T | null>;
+  set<T>(key: string, data: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  has(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  // Live keys starting with prefix, with their store expiry and approximate size in bytes
+  keys(prefix?: string): Promise<CacheKeyInfo[]>;
+}
+
+export interface CacheKeyInfo {
+  key: string;
+  expiry: number;
+  size: number;
+}
+
+export interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  expiry: number;
+}
+
+export function isEntryExpired(entry: CacheEntry<unknown>): boolean {
+  return Date.now() > entry.expiry;
+}
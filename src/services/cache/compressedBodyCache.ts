@@ -0,0 +1,53 @@
+// Compressed response bodies keyed by content coding and payload digest, kept next to the JSON
+// cache so a hot entry is compressed once per coding rather than on every hit. In-process LRU
+// bounded by the total size of the compressed bodies.
+export class CompressedBodyCache {
+  // Keys in recency order: the first key is the least recently used
+  private readonly entries = new Map<string, Buffer>();
+  private readonly maxBytes: number;
+  private totalBytes = 0;
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  get(coding: string, digest: string): Buffer | undefined {
+    const key = `${coding}:${digest}`;
+    const body = this.entries.get(key);
+    if (body) {
+      this.entries.delete(key);
+      this.entries.set(key, body);
+    }
+    return body;
+  }
+
+  set(coding: string, digest: string, body: Buffer): void {
+    // A body that can never fit would only flush everything else before being evicted itself
+    if (body.length > this.maxBytes) {
+      return;
+    }
+    const key = `${coding}:${digest}`;
+    this.remove(key);
+    this.entries.set(key, body);
+    this.totalBytes += body.length;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.totalBytes;
+  }
+
+  private remove(key: string): void {
+    const body = this.entries.get(key);
+    if (body) {
+      this.entries.delete(key);
+      this.totalBytes -= body.length;
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import { createHash, randomUUID } from 'node:crypto';
+import type { Dirent } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { CacheEntry, CacheKeyInfo, CacheStore } from './cacheStore';
+import { isEntryExpired } from './cacheStore';
+
+export interface FileCacheStoreOptions {
+  cacheDir: string;
+  maxEntries?: number;
+  // Delay before index changes are written to disk, so a burst of writes costs a single flush
+  indexFlushMs?: number;
+}
+
+// Entries carry their own key: filenames are hashes, and the index can be rebuilt from the files
+export interface FileCacheEntry<T> extends CacheEntry<T> {
+  key: string;
+}
+
+interface IndexEntry {
+  expiry: number;
+  size: number;
+}
+
+interface PersistedIndex {
+  version: number;
+  entries: Array<[string, IndexEntry]>;
+}
+
+const INDEX_FILE = 'index.json';
+const INDEX_VERSION = 1;
+const SHARD_PATTERN = /^[0-9a-f]{2}$/;
+const FLAT_LAYOUT_PATTERN = /^[\w.-]+\.json$/;
+
+// One JSON file per key at <cacheDir>/<2 hex chars>/<sha256>.json. Survives restarts and can be
+// shared through a mounted volume. Eviction is driven by a persisted index in write order, so it
+// never has to scan or stat the directory; reads go straight to the hashed path and work for
+// entries written by other instances even if this instance's index does not know them yet.
+export class FileCacheStore implements CacheStore {
+  private readonly cacheDir: string;
+  private readonly maxEntries: number;
+  private readonly indexFlushMs: number;
+  // Keys in write order: the first key is always the next one to evict
+  private readonly index = new Map<string, IndexEntry>();
+  private readonly ready: Promise<void>;
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  constructor(options: FileCacheStoreOptions) {
+    this.cacheDir = options.cacheDir;
+    this.maxEntries = options.maxEntries ?? 5000;
+    this.indexFlushMs = options.indexFlushMs ?? 1000;
+
+    this.ready = this.loadIndex();
+
+    // Clean up expired entries every hour
+    const cleanupInterval = setInterval(() => void this.cleanup(), 3600000);
+    cleanupInterval.unref();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    await this.ready;
+    const entry = await this.readEntry<T>(key);
+    if (!entry) {
+      return null;
+    }
+    if (isEntryExpired(entry)) {
+      await this.delete(key);
+      return null;
+    }
+    return entry.data;
+  }
+
+  async peek<T>(key: string): Promise<T | null> {
+    await this.ready;
+    const entry = await this.readEntry<T>(key);
+    return entry && !isEntryExpired(entry) ? entry.data : null;
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+    const entry: FileCacheEntry<T> = { key, data, timestamp: now, expiry: now + ttlMs };
+    const json = JSON.stringify(entry);
+    const filePath = this.getCacheFilePath(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await this.writeAtomic(filePath, json);
+
+    this.index.delete(key);
+    this.index.set(key, { expiry: entry.expiry, size: Buffer.byteLength(json) });
+    await this.enforceLimit();
+    this.scheduleFlush();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready;
+    this.index.delete(key);
+    await this.removeFile(key);
+    this.scheduleFlush();
+  }
+
+  async has(key: string): Promise<boolean> {
+    await this.ready;
+    const entry = await this.readEntry(key);
+    return !!entry && !isEntryExpired(entry);
+  }
+
+  // Served from the index, so entries written by other instances since startup are not listed
+  async keys(prefix = ''): Promise<CacheKeyInfo[]> {
+    await this.ready;
+    const now = Date.now();
+    const keys: CacheKeyInfo[] = [];
+    for (const [key, entry] of this.index) {
+      if (key.startsWith(prefix) && now <= entry.expiry) {
+        keys.push({ key, expiry: entry.expiry, size: entry.size });
+      }
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    this.index.clear();
+    for (const dirent of await this.readDir(this.cacheDir)) {
+      if ((dirent.isDirectory() && SHARD_PATTERN.test(dirent.name)) || dirent.name === INDEX_FILE) {
+        await fs.rm(path.join(this.cacheDir, dirent.name), { recursive: true, force: true });
+      }
+    }
+  }
+
+  // Write pending index changes now (also used on shutdown and in tests)
+  async flush(): Promise<void> {
+    await this.ready;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    const persisted: PersistedIndex = { version: INDEX_VERSION, entries: [...this.index] };
+    try {
+      await this.writeAtomic(path.join(this.cacheDir, INDEX_FILE), JSON.stringify(persisted));
+    } catch (error) {
+      console.error(`Failed to write cache index in ${this.cacheDir}`, error);
+    }
+  }
+
+  private getCacheFilePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.cacheDir, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  private async readEntry<T>(key: string): Promise<FileCacheEntry<T> | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.getCacheFilePath(key), 'utf8')) as FileCacheEntry<T>;
+      // Guards against hash collisions and files written by an older layout
+      return entry.key === key ? entry : null;
+    } catch {
+      // Missing or unreadable files are a miss
+      return null;
+    }
+  }
+
+  // Readers never see a half-written file: write to a unique temp file, then rename over the target
+  private async writeAtomic(filePath: string, contents: string): Promise<void> {
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, contents, 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async removeFile(key: string): Promise<void> {
+    try {
+      await fs.rm(this.getCacheFilePath(key), { force: true });
+    } catch {
+      // Ignore delete errors
+    }
+  }
+
+  private async enforceLimit(): Promise<void> {
+    while (this.index.size > this.maxEntries) {
+      const oldestKey = this.index.keys().next().value!;
+      this.index.delete(oldestKey);
+      await this.removeFile(oldestKey);
+    }
+  }
+
+  private async cleanup(): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+    for (const [key, entry] of this.index) {
+      if (now > entry.expiry) {
+        this.index.delete(key);
+        await this.removeFile(key);
+      }
+    }
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => void this.flush(), this.indexFlushMs);
+    this.flushTimer.unref();
+  }
+
+  private async loadIndex(): Promise<void> {
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+    } catch (error) {
+      console.error(`Failed to create cache directory: ${this.cacheDir}`, error);
+      return;
+    }
+
+    try {
+      const persisted = JSON.parse(await fs.readFile(path.join(this.cacheDir, INDEX_FILE), 'utf8')) as PersistedIndex;
+      if (persisted.version === INDEX_VERSION && Array.isArray(persisted.entries)) {
+        for (const [key, entry] of persisted.entries) {
+          this.index.set(key, entry);
+        }
+        return;
+      }
+    } catch {
+      // Missing or corrupt index, rebuilt below
+    }
+
+    await this.rebuildIndex();
+  }
+
+  // Slow path for a missing or outdated index: one pass over the shards. Files from the previous
+  // flat layout (<cacheDir>/<sanitized key>.json) cannot be addressed any more and are removed;
+  // other files in the directory, such as a cache snapshot, are left alone.
+  private async rebuildIndex(): Promise<void> {
+    const found: Array<{ key: string; timestamp: number; entry: IndexEntry }> = [];
+
+    for (const dirent of await this.readDir(this.cacheDir)) {
+      const direntPath = path.join(this.cacheDir, dirent.name);
+      if (dirent.isFile() && (await this.isFlatLayoutEntry(dirent.name, direntPath))) {
+        await fs.rm(direntPath, { force: true });
+        continue;
+      }
+      if (!dirent.isDirectory() || !SHARD_PATTERN.test(dirent.name)) {
+        continue;
+      }
+
+      for (const file of await this.readDir(direntPath)) {
+        if (!file.name.endsWith('.json')) {
+          continue;
+        }
+        try {
+          const json = await fs.readFile(path.join(direntPath, file.name), 'utf8');
+          const entry = JSON.parse(json) as FileCacheEntry<unknown>;
+          found.push({
+            key: entry.key,
+            timestamp: entry.timestamp,
+            entry: { expiry: entry.expiry, size: Buffer.byteLength(json) },
+          });
+        } catch {
+          // Skip unreadable files
+        }
+      }
+    }
+
+    found.sort((a, b) => a.timestamp - b.timestamp);
+    for (const { key, entry } of found) {
+      this.index.set(key, entry);
+    }
+    if (found.length > 0) {
+      this.scheduleFlush();
+    }
+  }
+
+  // The flat layout named files after the sanitized key and stored a bare { data, timestamp, expiry }
+  private async isFlatLayoutEntry(name: string, filePath: string): Promise<boolean> {
+    if (name === INDEX_FILE || !FLAT_LAYOUT_PATTERN.test(name)) {
+      return false;
+    }
+    try {
+      const entry = JSON.parse(await fs.readFile(filePath, 'utf8')) as Record<string, unknown>;
+      return 'data' in entry && typeof entry.timestamp === 'number' && !('key' in entry);
+    } catch {
+      return false;
+    }
+  }
+
+  private async readDir(dir: string): Promise<Dirent[]> {
+    try {
+      return await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+  }
+}
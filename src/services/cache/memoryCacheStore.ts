@@ -0,0 +1,164 @@
+import type { CacheEntry, CacheKeyInfo, CacheStore } from './cacheStore';
+import { isEntryExpired } from './cacheStore';
+import type { CacheNamespace } from './namespaces';
+import { getNamespace } from './namespaces';
+
+export interface MemoryCacheStoreOptions {
+  maxEntries?: number;
+  // Budget for the estimated size of all payloads
+  maxBytes?: number;
+  // Per-namespace byte budgets, so a burst of one kind of request cannot flush the others
+  namespaceQuotas?: Partial<Record<CacheNamespace, number>>;
+}
+
+interface SizedEntry<T> extends CacheEntry<T> {
+  namespace: CacheNamespace;
+  size: number;
+}
+
+// Serialized length is a stable proxy for the retained size; the heap footprint is a small multiple of it
+function estimateSize(data: unknown): number {
+  try {
+    return Buffer.byteLength(JSON.stringify(data) ?? '');
+  } catch {
+    return 0;
+  }
+}
+
+// In-process LRU store; every Functions instance has its own copy. Reads refresh recency and
+// eviction is bounded by entry count, total estimated bytes and per-namespace byte quotas.
+export class MemoryCacheStore implements CacheStore {
+  // Keys in recency order: the first key is the least recently used
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private readonly cache = new Map<string, SizedEntry<any>>();
+  // Same order, per namespace, so a namespace over quota evicts its own LRU entry in O(1)
+  private readonly namespaceKeys = new Map<CacheNamespace, Set<string>>();
+  private readonly namespaceBytes = new Map<CacheNamespace, number>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly namespaceQuotas: Partial<Record<CacheNamespace, number>>;
+  private totalBytes = 0;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxBytes = options.maxBytes ?? Number.POSITIVE_INFINITY;
+    this.namespaceQuotas = options.namespaceQuotas ?? {};
+
+    // Clean up expired entries every hour
+    const cleanupInterval = setInterval(() => this.cleanup(), 3600000);
+    cleanupInterval.unref();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (isEntryExpired(entry)) {
+      this.remove(key);
+      return null;
+    }
+    this.touch(key, entry);
+    return entry.data as T;
+  }
+
+  async peek<T>(key: string): Promise<T | null> {
+    const entry = this.cache.get(key);
+    return entry && !isEntryExpired(entry) ? (entry.data as T) : null;
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    this.remove(key);
+
+    const now = Date.now();
+    const namespace = getNamespace(key);
+    const size = estimateSize(data);
+    // A payload that can never fit would only flush everything else before being evicted itself
+    if (size > this.maxBytes || size > (this.namespaceQuotas[namespace] ?? Number.POSITIVE_INFINITY)) {
+      return;
+    }
+
+    this.cache.set(key, { data, timestamp: now, expiry: now + ttlMs, namespace, size });
+    this.getNamespaceKeys(namespace).add(key);
+    this.namespaceBytes.set(namespace, (this.namespaceBytes.get(namespace) ?? 0) + size);
+    this.totalBytes += size;
+    this.enforceLimits(namespace);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async has(key: string): Promise<boolean> {
+    const entry = this.cache.get(key);
+    return !!entry && !isEntryExpired(entry);
+  }
+
+  async keys(prefix = ''): Promise<CacheKeyInfo[]> {
+    const keys: CacheKeyInfo[] = [];
+    for (const [key, entry] of this.cache) {
+      if (key.startsWith(prefix) && !isEntryExpired(entry)) {
+        keys.push({ key, expiry: entry.expiry, size: entry.size });
+      }
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+    this.namespaceKeys.clear();
+    this.namespaceBytes.clear();
+    this.totalBytes = 0;
+  }
+
+  // Move to the most recently used position in both orders
+  private touch(key: string, entry: SizedEntry<unknown>): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    const keys = this.getNamespaceKeys(entry.namespace);
+    keys.delete(key);
+    keys.add(key);
+  }
+
+  private remove(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return;
+    }
+    this.cache.delete(key);
+    this.namespaceKeys.get(entry.namespace)?.delete(key);
+    this.namespaceBytes.set(entry.namespace, (this.namespaceBytes.get(entry.namespace) ?? 0) - entry.size);
+    this.totalBytes -= entry.size;
+  }
+
+  private enforceLimits(namespace: CacheNamespace): void {
+    const quota = this.namespaceQuotas[namespace];
+    if (quota !== undefined) {
+      const keys = this.getNamespaceKeys(namespace);
+      while ((this.namespaceBytes.get(namespace) ?? 0) > quota && keys.size > 0) {
+        this.remove(keys.values().next().value!);
+      }
+    }
+
+    while (this.cache.size > 0 && (this.cache.size > this.maxEntries || this.totalBytes > this.maxBytes)) {
+      this.remove(this.cache.keys().next().value!);
+    }
+  }
+
+  private getNamespaceKeys(namespace: CacheNamespace): Set<string> {
+    let keys = this.namespaceKeys.get(namespace);
+    if (!keys) {
+      keys = new Set();
+      this.namespaceKeys.set(namespace, keys);
+    }
+    return keys;
+  }
+
+  private cleanup(): void {
+    for (const [key, entry] of this.cache.entries()) {
+      if (isEntryExpired(entry)) {
+        this.remove(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,9 @@
+// Cache keys start with their namespace: `quotes:...`, `hist:...`, `statements-<ticker>`, `ecb-daily-rates`
+export const CACHE_NAMESPACES = ['quotes', 'hist', 'options', 'summary', 'statements', 'ecb'] as const;
+
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number] | 'other';
+
+export function getNamespace(key: string): CacheNamespace {
+  const prefix = /^[a-z]+/.exec(key)?.[0];
+  return CACHE_NAMESPACES.find((namespace) => namespace === prefix) ?? 'other';
+}
@@ -0,0 +1,91 @@
+import type { CacheKeyInfo, CacheStore } from './cacheStore';
+import type { RespClient } from './respClient';
+
+// Shared store for scaled-out instances. Expiry is delegated to the server (SET ... PX), and all
+// keys live under a prefix so clear() never touches data owned by other applications.
+export class RedisCacheStore implements CacheStore {
+  private readonly client: RespClient;
+  private readonly keyPrefix: string;
+
+  constructor(client: RespClient, keyPrefix = 'stockquotes:') {
+    this.client = client;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.client.command(['GET', this.keyPrefix + key]);
+    if (typeof value !== 'string') {
+      return null;
+    }
+    return JSON.parse(value) as T;
+  }
+
+  // Eviction is left to the server, so reads have no recency to leave alone here
+  async peek<T>(key: string): Promise<T | null> {
+    return this.get<T>(key);
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    // PX rejects non-positive values, and such an entry would be expired on arrival anyway
+    if (ttlMs <= 0) {
+      await this.delete(key);
+      return;
+    }
+    await this.client.command(['SET', this.keyPrefix + key, JSON.stringify(data) ?? 'null', 'PX', Math.ceil(ttlMs)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command(['DEL', this.keyPrefix + key]);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.client.command(['EXISTS', this.keyPrefix + key])) === 1;
+  }
+
+  async keys(prefix = ''): Promise<CacheKeyInfo[]> {
+    const now = Date.now();
+    const keys: CacheKeyInfo[] = [];
+    for await (const batch of this.scan(prefix)) {
+      // Commands are pipelined over the single connection, so a batch costs one round trip
+      const details = await Promise.all(
+        batch.map((key) => Promise.all([this.client.command(['PTTL', key]), this.client.command(['STRLEN', key])])),
+      );
+      batch.forEach((key, index) => {
+        const [ttl, size] = details[index] as [number, number];
+        // -2: expired between SCAN and PTTL
+        if (ttl !== -2) {
+          keys.push({
+            key: key.slice(this.keyPrefix.length),
+            expiry: ttl === -1 ? Number.POSITIVE_INFINITY : now + ttl,
+            size,
+          });
+        }
+      });
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    for await (const batch of this.scan('')) {
+      await this.client.command(['DEL', ...batch]);
+    }
+  }
+
+  // SCAN instead of KEYS so a large keyspace does not block the server
+  private async *scan(prefix: string): AsyncGenerator<string[]> {
+    const pattern = `${this.escapePattern(this.keyPrefix + prefix)}*`;
+    let cursor = '0';
+    do {
+      const reply = await this.client.command(['SCAN', cursor, 'MATCH', pattern, 'COUNT', 500]);
+      const [nextCursor, keys] = reply as [string, string[]];
+      if (keys.length > 0) {
+        yield keys;
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+
+  private escapePattern(value: string): string {
+    return value.replaceAll(/[*?[\]\\]/g, String.raw`\$&`);
+  }
+}
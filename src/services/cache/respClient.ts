@@ -0,0 +1,224 @@
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+
+export type RespValue = string | number | null | RespValue[];
+
+// Error reply (`-ERR ...`) returned by the server
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+export interface RespClientOptions {
+  // Milliseconds to wait for a reply before the connection is dropped
+  timeoutMs?: number;
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const CRLF = '\r\n';
+
+export function encodeCommand(args: Array<string | number>): string {
+  let command = `*${args.length}${CRLF}`;
+  for (const arg of args) {
+    const value = String(arg);
+    command += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+  }
+  return command;
+}
+
+// Parse one RESP2 reply starting at offset; undefined when the buffer does not hold a complete reply yet
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue | RespError; offset: number } | undefined {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCodePoint(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RespValue[] = [];
+      // An error element (e.g. a failed command inside EXEC) fails the whole reply, but the remaining
+      // elements are still consumed so the next reply starts at the right offset
+      let error: RespError | undefined;
+      let position = next;
+      for (let index = 0; index < count; index++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return undefined;
+        }
+        if (item.value instanceof RespError) {
+          error ??= item.value;
+        } else {
+          items.push(item.value);
+        }
+        position = item.offset;
+      }
+      return { value: error ?? items, offset: position };
+    }
+    default:
+      throw new RespError(`Unexpected RESP reply type "${type}"`);
+  }
+}
+
+// Minimal pipelined client for the Redis serialization protocol (RESP2), enough for the cache
+// and compatible with Redis, Azure Cache for Redis, Valkey and KeyDB. Connects lazily and
+// reconnects on the next command after a failure.
+export class RespClient {
+  private readonly url: URL;
+  private readonly timeoutMs: number;
+  private socket: net.Socket | undefined;
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly pending: PendingReply[] = [];
+
+  constructor(url: string, options: RespClientOptions = {}) {
+    this.url = new URL(url);
+    this.timeoutMs = options.timeoutMs ?? 2000;
+  }
+
+  async command(args: Array<string | number>): Promise<RespValue> {
+    if (!this.socket) {
+      this.connect();
+    }
+    return this.send(args);
+  }
+
+  // Run commands atomically with MULTI/EXEC and return their replies. The whole batch is written
+  // without yielding, so commands from other callers on this connection cannot land inside it.
+  async transaction(commands: Array<Array<string | number>>): Promise<RespValue[]> {
+    if (!this.socket) {
+      this.connect();
+    }
+    const replies = await Promise.all([
+      this.send(['MULTI']),
+      ...commands.map((args) => this.send(args)),
+      this.send(['EXEC']),
+    ]);
+    const results = replies.at(-1);
+    if (!Array.isArray(results)) {
+      throw new RespError('Transaction aborted');
+    }
+    return results;
+  }
+
+  async close(): Promise<void> {
+    if (this.socket) {
+      this.disconnect(this.socket, new RespError('Connection closed'));
+    }
+  }
+
+  private connect(): void {
+    const host = this.url.hostname || 'localhost';
+    const secure = this.url.protocol === 'rediss:';
+    const port = Number(this.url.port) || (secure ? 6380 : 6379);
+
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.createConnection({ host, port });
+    socket.setNoDelay(true);
+    socket.on('data', (chunk: Buffer) => this.onData(socket, chunk));
+    socket.on('error', (error) => this.disconnect(socket, error));
+    socket.on('close', () => this.disconnect(socket, new RespError('Connection closed')));
+    this.socket = socket;
+
+    // Commands are queued by the socket until it connects, so the handshake always goes first
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      this.send(username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => undefined);
+    }
+    const database = this.url.pathname.slice(1);
+    if (database) {
+      this.send(['SELECT', database]).catch(() => undefined);
+    }
+  }
+
+  private send(args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new RespError('Connection closed'));
+    }
+
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a late reply would be handed to the wrong caller
+        this.disconnect(socket, new RespError(`Command ${args[0]} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      timer.unref();
+
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    try {
+      for (;;) {
+        const reply = parseReply(this.buffer, offset);
+        if (!reply) {
+          break;
+        }
+        offset = reply.offset;
+
+        const pending = this.pending.shift();
+        if (pending) {
+          clearTimeout(pending.timer);
+          if (reply.value instanceof RespError) {
+            pending.reject(reply.value);
+          } else {
+            pending.resolve(reply.value);
+          }
+        }
+      }
+    } catch (error) {
+      this.disconnect(socket, error as Error);
+      return;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  // Events from a socket that has already been replaced are ignored
+  private disconnect(socket: net.Socket, error: Error): void {
+    socket.destroy();
+    if (this.socket !== socket) {
+      return;
+    }
+    this.socket = undefined;
+    this.buffer = Buffer.alloc(0);
+    for (const pending of this.pending.splice(0)) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+  }
+}
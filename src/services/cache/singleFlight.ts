@@ -0,0 +1,37 @@
+export interface SingleFlightMetrics {
+  // Keys with an upstream call currently running
+  inFlight: number;
+  // Calls that actually ran the task
+  executions: number;
+  // Calls that joined a task already running for the same key
+  coalesced: number;
+}
+
+// Registry of in-flight tasks keyed by cache key: concurrent callers for the same key share one
+// promise, so an expiring popular entry triggers a single upstream call. A failure rejects every
+// waiter and is forgotten as soon as it settles, so the next call retries.
+export class SingleFlight {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private executions = 0;
+  private coalesced = 0;
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) {
+      this.coalesced++;
+      return running as Promise<T>;
+    }
+
+    this.executions++;
+    // The task starts in a microtask so the registry entry exists before it can settle
+    const promise = Promise.resolve()
+      .then(task)
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  getMetrics(): SingleFlightMetrics {
+    return { inFlight: this.inFlight.size, executions: this.executions, coalesced: this.coalesced };
+  }
+}
@@ -0,0 +1,61 @@
+import type { CacheKeyInfo, CacheStore } from './cacheStore';
+
+export interface TieredCacheStoreOptions {
+  // Upper bound for how long a value stays in L1, so other instances' writes to L2 are picked up
+  l1TtlMs: number;
+}
+
+// Short-lived in-process L1 in front of a durable or shared L2 (file or Redis). Reads fall through
+// to L2 and repopulate L1; writes and deletes go to both tiers.
+export class TieredCacheStore implements CacheStore {
+  private readonly l1: CacheStore;
+  private readonly l2: CacheStore;
+  private readonly l1TtlMs: number;
+
+  constructor(l1: CacheStore, l2: CacheStore, options: TieredCacheStoreOptions) {
+    this.l1 = l1;
+    this.l2 = l2;
+    this.l1TtlMs = options.l1TtlMs;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const local = await this.l1.get<T>(key);
+    if (local !== null) {
+      return local;
+    }
+
+    const shared = await this.l2.get<T>(key);
+    if (shared !== null) {
+      // The remaining L2 lifetime is unknown here; CacheService re-checks the entry's own expiry
+      await this.l1.set(key, shared, this.l1TtlMs);
+    }
+    return shared;
+  }
+
+  // Reads L2 without repopulating L1
+  async peek<T>(key: string): Promise<T | null> {
+    return (await this.l1.peek<T>(key)) ?? this.l2.peek<T>(key);
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    await this.l1.set(key, data, Math.min(ttlMs, this.l1TtlMs));
+    await this.l2.set(key, data, ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all([this.l1.delete(key), this.l2.delete(key)]);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.l1.has(key)) || this.l2.has(key);
+  }
+
+  // L2 is authoritative; L1 only ever holds a subset of it
+  async keys(prefix?: string): Promise<CacheKeyInfo[]> {
+    return this.l2.keys(prefix);
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([this.l1.clear(), this.l2.clear()]);
+  }
+}
@@ -1,280 +1,298 @@
-import * as fs from 'node:fs';
-import * as path from 'node:path';
+import { CachePolicies } from './cache/cachePolicy';
+import type { CacheSnapshot, SnapshotImportResult } from './cache/cacheSnapshot';
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from './cache/cacheSnapshot';
+import type { CacheStore } from './cache/cacheStore';
+import { MemoryCacheStore } from './cache/memoryCacheStore';
+import type { CacheNamespace } from './cache/namespaces';
+import { CACHE_NAMESPACES, getNamespace } from './cache/namespaces';
+import type { SingleFlightMetrics } from './cache/singleFlight';
+import { SingleFlight } from './cache/singleFlight';
+
+// Envelope written to the store. Between freshUntil and staleUntil the value is still served
+// (marked STALE) while a refresh runs in the background, or when the upstream is failing.
+export interface CachedValue<T> {
+  data: T;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
 
-// In-memory cache service with TTL support and optional disk persistence
-interface CacheEntry<T> {
+export interface CacheResult<T> {
   data: T;
-  timestamp: number;
-  expiry?: number;
+  status: CacheStatus;
 }
 
-export class CacheService {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private readonly cache: Map<string, CacheEntry<any>>;
-  private readonly ttlMs: number;
-  private readonly enabled: boolean;
-  private readonly persistenceEnabled: boolean;
-  private readonly cacheDir: string;
-  private readonly maxEntries: number;
-  private readonly maxDiskEntries: number;
-
-  constructor() {
-    this.cache = new Map();
-    const ttlSeconds = Number.parseInt(process.env.CACHE_TTL_SECONDS ?? '86400', 10);
-    this.ttlMs = ttlSeconds * 1000;
-    this.enabled = process.env.CACHE_ENABLED !== 'false';
-    this.persistenceEnabled = process.env.CACHE_PERSISTENCE_ENABLED === 'true';
-    this.cacheDir = process.env.CACHE_DIR ?? path.join(process.cwd(), '.cache');
-    this.maxEntries = this.parsePositiveInt(process.env.CACHE_MAX_ENTRIES, 1000);
-    this.maxDiskEntries = this.parsePositiveInt(process.env.CACHE_MAX_DISK_ENTRIES, 5000);
+// Overrides for the namespace policy of the key
+export interface CacheLoadOptions {
+  ttlMs?: number;
+  staleMs?: number;
+}
 
-    if (this.enabled && this.persistenceEnabled) {
-      this.ensureCacheDir();
-    }
+export interface NamespaceStats {
+  hits: number;
+  misses: number;
+  stale: number;
+  entries: number;
+  bytes: number;
+}
 
-    // Clean up expired entries every hour
-    if (this.enabled) {
-      const cleanupInterval = setInterval(() => this.cleanup(), 3600000);
-      cleanupInterval.unref();
-    }
-  }
+export interface CacheStats {
+  namespaces: Record<CacheNamespace, NamespaceStats>;
+  inFlight: SingleFlightMetrics;
+}
 
-  private parsePositiveInt(value: string | undefined, fallback: number): number {
-    if (!value) {
-      return fallback;
-    }
+export interface CacheKeyDetails {
+  key: string;
+  namespace: CacheNamespace;
+  size: number;
+  freshUntil: string;
+  staleUntil: string;
+}
 
-    const parsed = Number.parseInt(value, 10);
-    if (Number.isNaN(parsed) || parsed < 1) {
-      return fallback;
-    }
+type Counter = 'hits' | 'misses' | 'stale';
 
-    return parsed;
-  }
+function escapeRegExp(value: string): string {
+  return value.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+}
 
-  private ensureCacheDir(): void {
-    try {
-      if (!fs.existsSync(this.cacheDir)) {
-        fs.mkdirSync(this.cacheDir, { recursive: true });
-      }
-    } catch (error) {
-      console.error(`Failed to create cache directory: ${this.cacheDir}`, error);
-    }
+function isCachedValue(value: unknown): value is CachedValue<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as CachedValue<unknown>).freshUntil === 'number' &&
+    typeof (value as CachedValue<unknown>).staleUntil === 'number'
+  );
+}
+
+// Cache facade with TTL and stale-while-revalidate support over a pluggable store (memory, file,
+// Redis or a memory L1 in front of one of those, see di/container). TTLs and stale windows come
+// from the policy of the key's namespace unless the caller overrides them.
+// Store failures are logged and treated as a miss so a broken backend never fails a request.
+export class CacheService {
+  private readonly store: CacheStore;
+  private readonly policies: CachePolicies;
+  private readonly enabled: boolean;
+  private readonly flights = new SingleFlight();
+  private readonly counters = new Map<CacheNamespace, Record<Counter, number>>();
+
+  constructor(store: CacheStore = new MemoryCacheStore(), policies: CachePolicies = new CachePolicies()) {
+    this.store = store;
+    this.policies = policies;
+    this.enabled = process.env.CACHE_ENABLED !== 'false';
   }
 
-  private getCacheFilePath(key: string): string {
-    const sanitizedKey = key.replaceAll(/[:|]/g, '-').replaceAll(/[^a-zA-Z0-9._-]/g, '_');
-    return path.join(this.cacheDir, `${sanitizedKey}.json`);
+  // Fresh value or null; stale values are only returned through getOrLoad
+  async get<T>(key: string): Promise<T | null> {
+    const cached = await this.lookup<T>(key);
+    const fresh = !!cached && !cached.stale;
+    this.count(key, fresh ? 'hits' : 'misses');
+    return fresh ? cached.data : null;
   }
 
-  private loadFromDisk<T>(key: string): CacheEntry<T> | null {
-    if (!this.persistenceEnabled) {
-      return null;
+  async set<T>(key: string, data: T, customTtlMs?: number, customStaleMs?: number): Promise<void> {
+    if (!this.enabled) {
+      return;
     }
-    const filePath = this.getCacheFilePath(key);
+
+    const policy = this.policies.resolveKey(key);
+    const now = Date.now();
+    const ttlMs = customTtlMs ?? policy.ttlMs;
+    const staleMs = customStaleMs ?? policy.staleMs;
+    const value: CachedValue<T> = { data, freshUntil: now + ttlMs, staleUntil: now + ttlMs + staleMs };
     try {
-      if (fs.existsSync(filePath)) {
-        const fileData = fs.readFileSync(filePath, 'utf8');
-        const entry = JSON.parse(fileData) as CacheEntry<T>;
-        if (entry && !this.isEntryExpired(entry)) {
-          this.setInMemory(key, entry);
-          return entry;
-        }
-        this.deleteDiskEntry(key);
-      }
-    } catch {
-      // Ignore read errors
+      await this.store.set(key, value, ttlMs + staleMs);
+    } catch (error) {
+      console.error(`Cache write failed for ${key}`, error);
     }
-    return null;
   }
 
-  private isEntryExpired(entry: CacheEntry<unknown>): boolean {
-    if (entry.expiry !== undefined) {
-      return Date.now() > entry.expiry;
+  // Fresh values are returned as HIT. Stale values are returned immediately as STALE while the
+  // loader refreshes the entry in the background; if that refresh fails the stale value keeps
+  // being served until staleUntil. Only a miss waits for the loader (and fails with it).
+  // Concurrent misses and refreshes for the same key share a single loader call.
+  async getOrLoad<T>(key: string, loader: () => Promise<T>, options: CacheLoadOptions = {}): Promise<CacheResult<T>> {
+    const cached = await this.lookup<T>(key);
+    if (cached && !cached.stale) {
+      this.count(key, 'hits');
+      return { data: cached.data, status: 'HIT' };
     }
-    return Date.now() > entry.timestamp + this.ttlMs;
-  }
-
-  get<T>(key: string): T | null {
-    if (!this.enabled) {
-      return null;
+    if (cached) {
+      this.count(key, 'stale');
+      this.load(key, loader, options).catch((error: unknown) =>
+        console.warn(`Background refresh failed for ${key}, serving stale value`, error),
+      );
+      return { data: cached.data, status: 'STALE' };
     }
 
-    const entry = this.cache.get(key) ?? this.loadFromDisk<T>(key);
-
-    if (!entry || this.isEntryExpired(entry)) {
-      if (entry) {
-        this.delete(key);
-      }
-      return null;
-    }
+    this.count(key, 'misses');
+    const data = await this.load(key, loader, options);
+    return { data, status: 'MISS' };
+  }
 
-    return entry.data as T;
+  getInFlightMetrics(): SingleFlightMetrics {
+    return this.flights.getMetrics();
   }
 
-  set<T>(key: string, data: T, customTtlMs?: number): void {
-    if (!this.enabled) {
-      return;
+  // Returns whether an entry was removed
+  async delete(key: string): Promise<boolean> {
+    try {
+      const existed = await this.store.has(key);
+      await this.store.delete(key);
+      return existed;
+    } catch (error) {
+      console.error(`Cache delete failed for ${key}`, error);
+      return false;
     }
+  }
 
-    const entry: CacheEntry<T> = {
-      data,
-      timestamp: Date.now(),
-    };
-
-    if (customTtlMs !== undefined) {
-      entry.expiry = Date.now() + customTtlMs;
-    }
+  // `*` matches any run of characters, so `hist:*:1d:` purges every daily history.
+  // Returns the number of entries removed.
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = new RegExp(`^${prefix.split('*').map(escapeRegExp).join('.*')}`);
+    return this.deleteWhere(prefix.split('*')[0], (key) => pattern.test(key));
+  }
 
-    this.setInMemory(key, entry);
+  async deleteNamespace(namespace: CacheNamespace): Promise<number> {
+    // Every namespace except 'other' is also the literal start of its keys
+    return this.deleteWhere(namespace === 'other' ? '' : namespace, (key) => getNamespace(key) === namespace);
+  }
 
-    // Persist to disk if enabled
-    if (this.persistenceEnabled) {
-      try {
-        const filePath = this.getCacheFilePath(key);
-        fs.writeFileSync(filePath, JSON.stringify(entry), 'utf8');
-        this.enforceDiskLimit();
-      } catch {
-        // Ignore write errors
+  async listKeys(prefix = '', limit = 100): Promise<CacheKeyDetails[]> {
+    const keys = (await this.store.keys(prefix)).sort((a, b) => a.key.localeCompare(b.key)).slice(0, limit);
+    const details: CacheKeyDetails[] = [];
+    for (const { key, size } of keys) {
+      const value = await this.store.peek<CachedValue<unknown>>(key);
+      if (isCachedValue(value)) {
+        details.push({
+          key,
+          namespace: getNamespace(key),
+          size,
+          freshUntil: new Date(value.freshUntil).toISOString(),
+          staleUntil: new Date(value.staleUntil).toISOString(),
+        });
       }
     }
+    return details;
   }
 
-  private setInMemory<T>(key: string, entry: CacheEntry<T>): void {
-    if (this.cache.has(key)) {
-      this.cache.delete(key);
+  async getStats(): Promise<CacheStats> {
+    const namespaces = {} as Record<CacheNamespace, NamespaceStats>;
+    for (const namespace of [...CACHE_NAMESPACES, 'other' as const]) {
+      namespaces[namespace] = { hits: 0, misses: 0, stale: 0, ...this.counters.get(namespace), entries: 0, bytes: 0 };
+    }
+    for (const { key, size } of await this.store.keys()) {
+      const stats = namespaces[getNamespace(key)];
+      stats.entries++;
+      stats.bytes += size;
     }
-    this.cache.set(key, entry);
-    this.enforceMemoryLimit();
+    return { namespaces, inFlight: this.flights.getMetrics() };
   }
 
-  private enforceMemoryLimit(): void {
-    while (this.cache.size > this.maxEntries) {
-      const oldestKey = this.cache.keys().next().value;
-      if (!oldestKey) {
-        break;
-      }
-      this.cache.delete(oldestKey);
-    }
+  async has(key: string): Promise<boolean> {
+    const cached = await this.lookup(key);
+    return !!cached && !cached.stale;
   }
 
-  private enforceDiskLimit(): void {
-    if (!this.persistenceEnabled || !fs.existsSync(this.cacheDir)) {
-      return;
-    }
+  async isExpired(key: string): Promise<boolean> {
+    return !(await this.has(key));
+  }
 
+  async clear(): Promise<void> {
     try {
-      const files = fs
-        .readdirSync(this.cacheDir)
-        .filter((file) => file.endsWith('.json'))
-        .map((file) => {
-          const filePath = path.join(this.cacheDir, file);
-          const stats = fs.statSync(filePath);
-          return { filePath, mtimeMs: stats.mtimeMs };
-        })
-        .sort((a, b) => a.mtimeMs - b.mtimeMs);
-
-      const overflowCount = files.length - this.maxDiskEntries;
-      if (overflowCount <= 0) {
-        return;
-      }
-
-      for (let index = 0; index < overflowCount; index++) {
-        fs.unlinkSync(files[index].filePath);
-      }
-    } catch {
-      // Ignore disk limit enforcement errors
+      await this.store.clear();
+    } catch (error) {
+      console.error('Cache clear failed', error);
     }
   }
 
-  clear(): void {
-    this.cache.clear();
-    if (this.persistenceEnabled && fs.existsSync(this.cacheDir)) {
-      try {
-        const files = fs.readdirSync(this.cacheDir);
-        for (const file of files) {
-          if (file.endsWith('.json')) {
-            fs.unlinkSync(path.join(this.cacheDir, file));
-          }
-        }
-      } catch {
-        // Ignore clear errors
+  // Every entry still inside its stale window, with its freshness metadata
+  async exportSnapshot(): Promise<CacheSnapshot> {
+    const now = Date.now();
+    const entries: CacheSnapshot['entries'] = [];
+    for (const { key } of await this.store.keys()) {
+      const value = await this.store.peek<CachedValue<unknown>>(key);
+      if (isCachedValue(value) && now <= value.staleUntil) {
+        entries.push({ key, ...value });
       }
     }
+    return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, createdAt: new Date(now).toISOString(), entries };
   }
 
-  has(key: string): boolean {
+  // Entries keep their original freshness: an entry that went stale since the export is imported
+  // as stale and refreshed on first use, and one past its stale window is skipped
+  async importSnapshot(snapshot: CacheSnapshot): Promise<SnapshotImportResult> {
+    const result: SnapshotImportResult = { imported: 0, skipped: 0 };
     if (!this.enabled) {
-      return false;
+      result.skipped = snapshot.entries.length;
+      return result;
     }
 
-    const entry = this.cache.get(key) ?? this.loadFromDisk(key);
-    return !!entry && !this.isEntryExpired(entry);
+    const now = Date.now();
+    for (const entry of snapshot.entries) {
+      const { key, ...value } = entry;
+      if (typeof key !== 'string' || !isCachedValue(value) || now >= value.staleUntil) {
+        result.skipped++;
+        continue;
+      }
+      await this.store.set(key, value, value.staleUntil - now);
+      result.imported++;
+    }
+    return result;
   }
 
-  isExpired(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) {
-      // If not in memory, we don't check disk here (has() or get() should have loaded it)
-      return true;
+  private async deleteWhere(prefix: string, matches: (key: string) => boolean): Promise<number> {
+    let removed = 0;
+    for (const { key } of await this.store.keys(prefix)) {
+      if (matches(key)) {
+        await this.store.delete(key);
+        removed++;
+      }
     }
-
-    return this.isEntryExpired(entry);
+    return removed;
   }
 
-  private delete(key: string): void {
-    this.cache.delete(key);
-    this.deleteDiskEntry(key);
+  private count(key: string, counter: Counter): void {
+    const namespace = getNamespace(key);
+    let counters = this.counters.get(namespace);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, stale: 0 };
+      this.counters.set(namespace, counters);
+    }
+    counters[counter]++;
   }
 
-  private deleteDiskEntry(key: string): void {
-    if (this.persistenceEnabled) {
-      const filePath = this.getCacheFilePath(key);
-      try {
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
-      } catch {
-        // Ignore delete errors
-      }
+  private async lookup<T>(key: string): Promise<{ data: T; stale: boolean } | null> {
+    if (!this.enabled) {
+      return null;
     }
-  }
 
-  private cleanupDisk(now: number): void {
+    let value: unknown;
     try {
-      if (!fs.existsSync(this.cacheDir)) {
-        return;
-      }
-      const files = fs.readdirSync(this.cacheDir);
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.cacheDir, file);
-          const stats = fs.statSync(filePath);
-          if (now > stats.mtimeMs + this.ttlMs) {
-            fs.unlinkSync(filePath);
-          }
-        }
-      }
-    } catch {
-      // Ignore disk cleanup errors
+      value = await this.store.get<CachedValue<T>>(key);
+    } catch (error) {
+      console.error(`Cache read failed for ${key}`, error);
+      return null;
     }
-  }
 
-  private cleanup(): void {
+    // Entries written before the envelope was introduced are treated as a miss
     const now = Date.now();
-
-    // Cleanup memory
-    for (const [key, entry] of this.cache.entries()) {
-      if (this.isEntryExpired(entry)) {
-        this.delete(key);
-      }
+    if (!isCachedValue(value) || now > value.staleUntil) {
+      return null;
     }
+    return { data: value.data as T, stale: now > value.freshUntil };
+  }
 
-    // Cleanup disk (optional, could be expensive if many files)
-    if (this.persistenceEnabled) {
-      this.cleanupDisk(now);
-    }
+  // Joiners get the result of whichever caller started the flight (including its log context);
+  // a failed load is never written to the store
+  private load<T>(key: string, loader: () => Promise<T>, options: CacheLoadOptions): Promise<T> {
+    return this.flights.run(key, async () => {
+      const data = await loader();
+      await this.set(key, data, options.ttlMs, options.staleMs);
+      return data;
+    });
   }
 }
+
 // Export singleton instance
 export const cacheService = new CacheService();
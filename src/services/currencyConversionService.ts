@@ -0,0 +1,316 @@
+import type { InvocationContext } from '@azure/functions';
+import { ValidationError } from '../utils/errors';
+import { roundDecimals, roundSignificant } from '../utils/number';
+import type { EcbRateHistory } from './ecbRateHistory';
+import { lookupRate } from './ecbRateHistory';
+import type { ExchangeRateService } from './exchangeRateService';
+import { exchangeRateService } from './exchangeRateService';
+import type { YahooFinanceResponse } from './yahooFinanceService';
+
+// Yahoo quotes some listings in minor units (LSE in pence, JSE in cents, TASE in agorot)
+const MINOR_UNITS: Record<string, { currency: string; divisor: number }> = {
+  GBp: { currency: 'GBP', divisor: 100 },
+  GBX: { currency: 'GBP', divisor: 100 },
+  ZAc: { currency: 'ZAR', divisor: 100 },
+  ILA: { currency: 'ILS', divisor: 100 },
+};
+
+const QUOTE_MONETARY_FIELDS = [
+  'regularMarketPrice',
+  'regularMarketOpen',
+  'regularMarketDayHigh',
+  'regularMarketDayLow',
+  'regularMarketPreviousClose',
+  'regularMarketChange',
+  'preMarketPrice',
+  'preMarketChange',
+  'postMarketPrice',
+  'postMarketChange',
+  'bid',
+  'ask',
+  'fiftyTwoWeekLow',
+  'fiftyTwoWeekHigh',
+  'fiftyTwoWeekLowChange',
+  'fiftyTwoWeekHighChange',
+  'fiftyDayAverage',
+  'fiftyDayAverageChange',
+  'twoHundredDayAverage',
+  'twoHundredDayAverageChange',
+  'marketCap',
+];
+
+const HISTORICAL_MONETARY_FIELDS = ['open', 'high', 'low', 'close', 'adjclose'];
+
+// Summary modules mix values in the listing currency with values from the financial statements,
+// which Yahoo reports in the issuer's financialCurrency
+const SUMMARY_MONETARY_FIELDS: Record<string, { quote?: string[]; financial?: string[] }> = {
+  price: {
+    quote: [
+      'regularMarketPrice',
+      'regularMarketOpen',
+      'regularMarketDayHigh',
+      'regularMarketDayLow',
+      'regularMarketPreviousClose',
+      'regularMarketChange',
+      'preMarketPrice',
+      'preMarketChange',
+      'postMarketPrice',
+      'postMarketChange',
+      'marketCap',
+    ],
+  },
+  summaryDetail: {
+    quote: [
+      'previousClose',
+      'open',
+      'dayLow',
+      'dayHigh',
+      'regularMarketPreviousClose',
+      'regularMarketOpen',
+      'regularMarketDayLow',
+      'regularMarketDayHigh',
+      'bid',
+      'ask',
+      'marketCap',
+      'fiftyTwoWeekLow',
+      'fiftyTwoWeekHigh',
+      'fiftyDayAverage',
+      'twoHundredDayAverage',
+      'dividendRate',
+      'trailingAnnualDividendRate',
+    ],
+  },
+  financialData: {
+    quote: ['currentPrice', 'targetHighPrice', 'targetLowPrice', 'targetMeanPrice', 'targetMedianPrice'],
+    financial: [
+      'totalCash',
+      'totalCashPerShare',
+      'ebitda',
+      'totalDebt',
+      'totalRevenue',
+      'revenuePerShare',
+      'grossProfits',
+      'freeCashflow',
+      'operatingCashflow',
+    ],
+  },
+  defaultKeyStatistics: {
+    quote: ['enterpriseValue'],
+    financial: ['bookValue', 'trailingEps', 'forwardEps', 'netIncomeToCommon'],
+  },
+};
+
+// EUR reference rate for a currency, or undefined when the ECB does not publish it
+type EurRate = (currency: string) => number | undefined;
+
+export interface FxAnnotation {
+  currency: string | null;
+  originalCurrency: string | null;
+  // Multiplier applied to the original values; null when no ECB rate is available
+  fxRate: number | null;
+}
+
+export class CurrencyConversionService {
+  private readonly exchangeRates: ExchangeRateService;
+
+  constructor(exchangeRates: ExchangeRateService = exchangeRateService) {
+    this.exchangeRates = exchangeRates;
+  }
+
+  async convertQuotes(
+    response: YahooFinanceResponse | YahooFinanceResponse[],
+    baseCurrency: string,
+    context: InvocationContext,
+  ): Promise<YahooFinanceResponse | YahooFinanceResponse[]> {
+    const quotes = Array.isArray(response) ? response : [response];
+    const eurRate = await this.getLatestEurRates(
+      quotes.map((quote) => quote.currency as string | undefined),
+      baseCurrency,
+      context,
+    );
+
+    const converted = quotes.map((quote) => {
+      const fxRate = this.getFxRate(quote.currency as string | undefined, baseCurrency, eurRate);
+      return {
+        ...this.convertFields(quote, QUOTE_MONETARY_FIELDS, fxRate),
+        ...this.annotate(quote.currency, baseCurrency, fxRate),
+      };
+    });
+
+    return Array.isArray(response) ? converted : converted[0];
+  }
+
+  // Each bar is converted with the ECB rate in force on its date. Converted prices are rounded to
+  // `decimals`, the resolved `precision` of the request (undefined for `raw`), like unconverted ones.
+  async convertHistorical(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    response: any,
+    baseCurrency: string,
+    decimals: number | undefined,
+    context: InvocationContext,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<any> {
+    const currency: string | undefined = response?.meta?.currency;
+    const bars: Array<Record<string, unknown>> = Array.isArray(response?.quotes) ? response.quotes : [];
+    const dividends: Array<Record<string, unknown>> | undefined = Array.isArray(response?.dividends)
+      ? response.dividends
+      : undefined;
+    const dayOf = (row: Record<string, unknown>) => new Date(row.date as string | Date).toISOString().slice(0, 10);
+    const dates = [...bars, ...(dividends ?? [])].map(dayOf);
+
+    let history: EcbRateHistory | undefined;
+    if (dates.length > 0 && this.needsRates([currency], baseCurrency)) {
+      const loaded = await this.exchangeRates.getRateHistory(
+        dates.reduce((a, b) => (a < b ? a : b)),
+        context,
+      );
+      this.assertPublished(baseCurrency, (code) => loaded.dates.some((date) => loaded.rates[date][code] !== undefined));
+      history = loaded;
+    }
+
+    const convertRow = (row: Record<string, unknown>, fields: string[], round: (value: number) => number) => {
+      const day = dayOf(row);
+      const eurRate: EurRate = (code) => (history ? lookupRate(history, code, day)?.rate : undefined);
+      const fxRate = this.getFxRate(currency, baseCurrency, eurRate);
+      return { ...this.convertFields(row, fields, fxRate, round), fxRate };
+    };
+
+    let quotes = bars.map((bar) =>
+      convertRow(bar, HISTORICAL_MONETARY_FIELDS, (value) => roundDecimals(value, decimals)),
+    );
+    let convertedDividends = dividends?.map((dividend) => convertRow(dividend, ['amount'], roundSignificant));
+    // As for quotes, the values only move to the base currency when a rate was applied. Rows left
+    // unconverted in a converted series (days before the ECB published a rate) name their own currency.
+    const applied = [...quotes, ...(convertedDividends ?? [])].some((row) => row.fxRate !== null);
+    if (applied) {
+      const labelUnconverted = <R extends { fxRate: number | null }>(row: R): R =>
+        row.fxRate === null ? { ...row, currency: currency ?? null } : row;
+      quotes = quotes.map(labelUnconverted);
+      convertedDividends = convertedDividends?.map(labelUnconverted);
+    }
+
+    const converted = {
+      ...response,
+      quotes,
+      currency: applied ? baseCurrency : (currency ?? null),
+      originalCurrency: currency ?? null,
+    };
+    if (convertedDividends) {
+      converted.dividends = convertedDividends;
+    }
+    return converted;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async convertSummary(summary: any, baseCurrency: string, context: InvocationContext): Promise<any> {
+    const quoteCurrency: string | undefined = summary?.price?.currency ?? summary?.summaryDetail?.currency;
+    // Statements are never reported in minor units, so a GBp listing without financialData is assumed to report in GBP
+    const financialCurrency: string | undefined =
+      summary?.financialData?.financialCurrency ??
+      (quoteCurrency ? (MINOR_UNITS[quoteCurrency]?.currency ?? quoteCurrency) : undefined);
+    const eurRate = await this.getLatestEurRates([quoteCurrency, financialCurrency], baseCurrency, context);
+
+    const quoteFxRate = this.getFxRate(quoteCurrency, baseCurrency, eurRate);
+    const financialFxRate = this.getFxRate(financialCurrency, baseCurrency, eurRate);
+
+    const converted: Record<string, unknown> = { ...summary };
+    for (const [module, fields] of Object.entries(SUMMARY_MONETARY_FIELDS)) {
+      if (!summary?.[module]) {
+        continue;
+      }
+      let values = this.convertFields(summary[module], fields.quote ?? [], quoteFxRate);
+      values = this.convertFields(values, fields.financial ?? [], financialFxRate);
+      if ('currency' in values && quoteFxRate !== null) {
+        values.currency = baseCurrency;
+      }
+      if ('financialCurrency' in values && financialFxRate !== null) {
+        values.financialCurrency = baseCurrency;
+      }
+      converted[module] = values;
+    }
+
+    return {
+      ...converted,
+      ...this.annotate(quoteCurrency, baseCurrency, quoteFxRate),
+      originalFinancialCurrency: financialCurrency ?? null,
+      financialFxRate,
+    };
+  }
+
+  private needsRates(currencies: Array<string | undefined>, baseCurrency: string): boolean {
+    return currencies.some((currency) => currency && (MINOR_UNITS[currency]?.currency ?? currency) !== baseCurrency);
+  }
+
+  // Only hits the ECB when at least one value is not already in the base currency
+  private async getLatestEurRates(
+    currencies: Array<string | undefined>,
+    baseCurrency: string,
+    context: InvocationContext,
+  ): Promise<EurRate> {
+    if (!this.needsRates(currencies, baseCurrency)) {
+      return () => undefined;
+    }
+    const latest = await this.exchangeRates.getDailyReferenceRates(context);
+    this.assertPublished(baseCurrency, (code) => latest.rates[code] !== undefined);
+    return (currency) => latest.rates[currency];
+  }
+
+  // A well-formed code the ECB has no rates for would otherwise leave every value unconverted
+  private assertPublished(baseCurrency: string, published: (currency: string) => boolean): void {
+    if (baseCurrency !== 'EUR' && !published(baseCurrency)) {
+      throw new ValidationError(
+        `Invalid parameter: baseCurrency must be a currency with ECB reference rates, got ${baseCurrency}`,
+      );
+    }
+  }
+
+  private getFxRate(currency: string | undefined, baseCurrency: string, eurRate: EurRate): number | null {
+    if (!currency) {
+      return null;
+    }
+
+    const minorUnit = MINOR_UNITS[currency];
+    const majorCurrency = minorUnit?.currency ?? currency;
+    const divisor = minorUnit?.divisor ?? 1;
+
+    if (majorCurrency === baseCurrency) {
+      return 1 / divisor;
+    }
+
+    const fromRate = majorCurrency === 'EUR' ? 1 : eurRate(majorCurrency);
+    const toRate = baseCurrency === 'EUR' ? 1 : eurRate(baseCurrency);
+    if (fromRate === undefined || toRate === undefined) {
+      return null;
+    }
+
+    return roundSignificant(toRate / fromRate / divisor);
+  }
+
+  // Values without an ECB rate are left untouched and flagged with fxRate: null
+  private convertFields(
+    values: Record<string, unknown>,
+    fields: string[],
+    fxRate: number | null,
+    round: (value: number) => number = roundSignificant,
+  ): Record<string, unknown> {
+    const converted = { ...values };
+    if (fxRate === null) {
+      return converted;
+    }
+    for (const field of fields) {
+      const value = converted[field];
+      if (typeof value === 'number') {
+        converted[field] = round(value * fxRate);
+      }
+    }
+    return converted;
+  }
+
+  private annotate(originalCurrency: unknown, baseCurrency: string, fxRate: number | null): FxAnnotation {
+    const original = typeof originalCurrency === 'string' ? originalCurrency : null;
+    return { currency: fxRate === null ? original : baseCurrency, originalCurrency: original, fxRate };
+  }
+}
+
+// Export singleton instance
+export const currencyConversionService = new CurrencyConversionService();
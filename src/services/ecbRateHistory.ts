@@ -0,0 +1,85 @@
+import type { EcbReferenceRates } from './ecbXmlParser';
+
+// Date-indexed series of ECB reference rates, as stored in the cache
+export interface EcbRateHistory {
+  base: 'EUR';
+  // ECB business days in ascending order
+  dates: string[];
+  rates: Record<string, Record<string, number>>;
+}
+
+export interface EcbRateLookup {
+  // Requested calendar day
+  date: string;
+  // ECB reference date the rate was published for
+  rateDate: string;
+  currency: string;
+  rate: number;
+  // True when the requested day is not an ECB business day and the last known rate is used
+  carriedForward: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toRateHistory(days: EcbReferenceRates[]): EcbRateHistory {
+  const history: EcbRateHistory = { base: 'EUR', dates: [], rates: {} };
+  for (const day of [...days].sort((a, b) => a.date.localeCompare(b.date))) {
+    history.dates.push(day.date);
+    history.rates[day.date] = day.rates;
+  }
+  return history;
+}
+
+// Binary search for the last ECB business day on or before the given date
+function findRateDate(history: EcbRateHistory, date: string): string | undefined {
+  let low = 0;
+  let high = history.dates.length - 1;
+  let found: string | undefined;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (history.dates[mid] <= date) {
+      found = history.dates[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+export function lookupRate(history: EcbRateHistory, currency: string, date: string): EcbRateLookup | undefined {
+  const rateDate = findRateDate(history, date);
+  if (!rateDate) {
+    return undefined;
+  }
+
+  const rate = currency === history.base ? 1 : history.rates[rateDate][currency];
+  if (rate === undefined) {
+    return undefined;
+  }
+
+  return { date, rateDate, currency, rate, carriedForward: rateDate !== date };
+}
+
+// One entry per calendar day between from and to (inclusive); days without a known rate are skipped.
+// The walk starts at the first day of the history, so an early `from` such as 0001-01-01 costs no
+// more than the ECB series start (1999-01-04).
+export function lookupRateSeries(history: EcbRateHistory, currency: string, from: string, to: string): EcbRateLookup[] {
+  const series: EcbRateLookup[] = [];
+  const first = history.dates[0];
+  if (first === undefined) {
+    return series;
+  }
+  const end = Date.parse(to);
+
+  for (let time = Date.parse(from < first ? first : from); time <= end; time += DAY_MS) {
+    const lookup = lookupRate(history, currency, new Date(time).toISOString().slice(0, 10));
+    if (lookup) {
+      series.push(lookup);
+    }
+  }
+
+  return series;
+}
@@ -0,0 +1,111 @@
+import { UpstreamError } from '../utils/errors';
+
+export interface EcbReferenceRates {
+  date: string;
+  base: 'EUR';
+  rates: Record<string, number>;
+}
+
+const CUBE_TAG_REGEX = /<(\/?)Cube\b([^>]*?)(\/?)>/g;
+const ATTRIBUTE_REGEX = /([A-Za-z_][\w.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function malformed(reason: string): UpstreamError {
+  return new UpstreamError('ECB', `Malformed ECB reference rates document: ${reason}`);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+function parseDate(value: string | undefined): string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(new Date(value).getTime())) {
+    throw malformed(`invalid time attribute "${value ?? ''}"`);
+  }
+  return value;
+}
+
+function parseRate(currency: string | undefined, rate: string | undefined): [string, number] {
+  if (!currency || !/^[A-Z]{3}$/.test(currency)) {
+    throw malformed(`invalid currency attribute "${currency ?? ''}"`);
+  }
+  const value = rate !== undefined && /^\d+(\.\d+)?$/.test(rate.trim()) ? Number(rate) : Number.NaN;
+  if (!Number.isFinite(value) || value <= 0) {
+    throw malformed(`invalid rate "${rate ?? ''}" for ${currency}`);
+  }
+  return [currency, value];
+}
+
+// Parse the Cube structure shared by eurofxref-daily.xml and the eurofxref-hist*.xml files:
+// <Cube><Cube time="yyyy-MM-dd"><Cube currency="USD" rate="1.0851"/>...</Cube>...</Cube>
+// Any deviation (truncated document, unbalanced tags, bad values, empty days) is rejected so
+// that partial downloads are never cached. Days are returned in document order.
+export function parseEcbXml(xml: string): EcbReferenceRates[] {
+  if (typeof xml !== 'string' || !/<gesmes:Envelope\b/.test(xml) || !/<\/gesmes:Envelope>\s*$/.test(xml)) {
+    throw malformed('missing or unterminated gesmes:Envelope');
+  }
+
+  const days: EcbReferenceRates[] = [];
+  const seenDates = new Set<string>();
+  let depth = 0;
+  let rootClosed = false;
+  let current: EcbReferenceRates | undefined;
+
+  for (const match of xml.matchAll(CUBE_TAG_REGEX)) {
+    const [, closing, attributeSource, selfClosing] = match;
+
+    if (closing) {
+      if (depth === 2 && current) {
+        if (Object.keys(current.rates).length === 0) {
+          throw malformed(`no rates for ${current.date}`);
+        }
+        days.push(current);
+        current = undefined;
+      } else if (depth === 1) {
+        rootClosed = true;
+      } else {
+        throw malformed('unbalanced Cube elements');
+      }
+      depth--;
+      continue;
+    }
+
+    if (rootClosed) {
+      throw malformed('unexpected Cube element after the root Cube');
+    }
+
+    const attributes = parseAttributes(attributeSource);
+
+    if (depth === 0 && !selfClosing) {
+      depth = 1;
+    } else if (depth === 1 && !selfClosing) {
+      const date = parseDate(attributes.time);
+      if (seenDates.has(date)) {
+        throw malformed(`duplicate day ${date}`);
+      }
+      seenDates.add(date);
+      current = { date, base: 'EUR', rates: {} };
+      depth = 2;
+    } else if (depth === 2 && selfClosing && current) {
+      const [currency, rate] = parseRate(attributes.currency, attributes.rate);
+      if (currency in current.rates) {
+        throw malformed(`duplicate currency ${currency} for ${current.date}`);
+      }
+      current.rates[currency] = rate;
+    } else {
+      throw malformed('unexpected Cube nesting');
+    }
+  }
+
+  if (!rootClosed || depth !== 0) {
+    throw malformed('unterminated Cube elements');
+  }
+  if (days.length === 0) {
+    throw malformed('no reference rates found');
+  }
+
+  return days;
+}
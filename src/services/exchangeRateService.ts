@@ -2,14 +2,42 @@ import axios from 'axios';
 import type { InvocationContext } from '@azure/functions';
 import type { CacheService } from './cacheService';
 import { cacheService } from './cacheService';
+import { NotFoundError, toUpstreamError } from '../utils/errors';
+import { roundSignificant } from '../utils/number';
+import type { EcbReferenceRates } from './ecbXmlParser';
+import { parseEcbXml } from './ecbXmlParser';
+import type { EcbRateHistory, EcbRateLookup } from './ecbRateHistory';
+import { lookupRate, lookupRateSeries, toRateHistory } from './ecbRateHistory';
 
 export interface ExchangeRateResponse {
   data: string;
   contentType: string;
 }
 
+export interface ExchangeRateConversion {
+  from: string;
+  to: string;
+  amount: number;
+  rate: number;
+  inverseRate: number;
+  convertedAmount: number;
+  // Requested date, or the latest reference date when none was requested
+  date: string;
+  // ECB reference date the rates were published for
+  rateDate: string;
+  carriedForward: boolean;
+}
+
+type HistoryFile = 'hist-90d' | 'hist';
+
+const RECENT_HISTORY_DAYS = 90;
+
 export class ExchangeRateService {
   private readonly ecbUrl = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+  private readonly ecbHistoryUrls: Record<HistoryFile, string> = {
+    'hist-90d': 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist-90d.xml',
+    hist: 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.xml',
+  };
   private readonly cache: CacheService;
 
   constructor(cache: CacheService = cacheService) {
@@ -20,7 +48,7 @@ export class ExchangeRateService {
     const cacheKey = 'ecb-daily-rates';
 
     // Check if daily rates are already in the cache
-    const cached = this.cache.get<ExchangeRateResponse>(cacheKey);
+    const cached = await this.cache.get<ExchangeRateResponse>(cacheKey);
     if (cached) {
       context.log('Successfully retrieved ECB exchange rates from cache');
       return cached;
@@ -29,16 +57,13 @@ export class ExchangeRateService {
     try {
       context.log('Fetching daily exchange rates from ECB');
 
-      const response = await axios.get<string>(this.ecbUrl, {
-        timeout: 10000, // 10 second timeout
-        headers: {
-          'User-Agent': 'Azure-Function/1.0',
-          Accept: 'application/xml,text/xml',
-        },
-      });
+      const response = await this.fetchXml(this.ecbUrl, 10000); // 10 second timeout
 
       context.log(`Successfully retrieved exchange rates. Status: ${response.status}`);
 
+      // Reject malformed or truncated documents before they reach the cache
+      this.parseDailyRates(response.data);
+
       const contentTypeHeader = response.headers['content-type'];
       const contentType = typeof contentTypeHeader === 'string' ? contentTypeHeader : 'application/xml';
 
@@ -48,20 +73,149 @@ export class ExchangeRateService {
       };
 
       // Store daily exchange rates in the cache
-      this.cache.set(cacheKey, result);
+      await this.cache.set(cacheKey, result);
 
       return result;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       context.error(`Error fetching exchange rates from ECB: ${errorMessage}`, error);
-      throw error;
+      throw toUpstreamError(error, 'ECB');
+    }
+  }
+
+  async getDailyReferenceRates(context: InvocationContext): Promise<EcbReferenceRates> {
+    const { data } = await this.getDailyRates(context);
+    return this.parseDailyRates(data);
+  }
+
+  // Rates for a past date, carrying the last known rate forward over weekends and TARGET holidays
+  async getRateOnDate(currency: string, date: string, context: InvocationContext): Promise<EcbRateLookup> {
+    const history = await this.getRateHistory(date, context);
+    const lookup = lookupRate(history, currency, date);
+    if (!lookup) {
+      throw new NotFoundError(`No ECB reference rate for ${currency} on or before ${date}`);
     }
+    return lookup;
+  }
+
+  async getRateSeries(
+    currency: string,
+    from: string,
+    to: string,
+    context: InvocationContext,
+  ): Promise<EcbRateLookup[]> {
+    const history = await this.getRateHistory(from, context);
+    const series = lookupRateSeries(history, currency, from, to);
+    if (series.length === 0) {
+      throw new NotFoundError(`No ECB reference rates for ${currency} between ${from} and ${to}`);
+    }
+    return series;
+  }
+
+  // Convert between any two ECB currencies by triangulating through EUR. Without a date the
+  // latest daily rates are used, otherwise the rates in force on that date.
+  async convert(
+    from: string,
+    to: string,
+    amount: number,
+    date: string | undefined,
+    context: InvocationContext,
+  ): Promise<ExchangeRateConversion> {
+    let fromRate: number;
+    let toRate: number;
+    let rateDate: string;
+    let carriedForward = false;
+
+    if (date) {
+      const [fromLookup, toLookup] = await Promise.all([
+        this.getRateOnDate(from, date, context),
+        this.getRateOnDate(to, date, context),
+      ]);
+      fromRate = fromLookup.rate;
+      toRate = toLookup.rate;
+      rateDate = fromLookup.rateDate;
+      carriedForward = fromLookup.carriedForward;
+    } else {
+      const latest = await this.getDailyReferenceRates(context);
+      const rateFor = (currency: string): number => {
+        const rate = currency === latest.base ? 1 : latest.rates[currency];
+        if (rate === undefined) {
+          throw new NotFoundError(`No ECB reference rate for ${currency} on ${latest.date}`);
+        }
+        return rate;
+      };
+      fromRate = rateFor(from);
+      toRate = rateFor(to);
+      rateDate = latest.date;
+    }
+
+    const rate = toRate / fromRate;
+
+    return {
+      from,
+      to,
+      amount,
+      rate: roundSignificant(rate),
+      inverseRate: roundSignificant(fromRate / toRate),
+      convertedAmount: roundSignificant(amount * rate),
+      date: date ?? rateDate,
+      rateDate,
+      carriedForward,
+    };
+  }
+
+  // The 90-day file is preferred when it covers the requested start date; the full history
+  // (every business day since 1999) is only downloaded for older dates
+  async getRateHistory(from: string, context: InvocationContext): Promise<EcbRateHistory> {
+    const recentCutoff = new Date(Date.now() - RECENT_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    if (from >= recentCutoff) {
+      const recent = await this.loadRateHistory('hist-90d', context);
+      if (recent.dates.length > 0 && recent.dates[0] <= from) {
+        return recent;
+      }
+    }
+    return this.loadRateHistory('hist', context);
+  }
+
+  private async loadRateHistory(file: HistoryFile, context: InvocationContext): Promise<EcbRateHistory> {
+    const cacheKey = `ecb-${file}-rates`;
+
+    const cached = await this.cache.get<EcbRateHistory>(cacheKey);
+    if (cached) {
+      context.log(`Successfully retrieved ECB ${file} rates from cache`);
+      return cached;
+    }
+
+    try {
+      context.log(`Fetching ${file} exchange rates from ECB`);
+
+      const response = await this.fetchXml(this.ecbHistoryUrls[file], 30000);
+      const history = toRateHistory(parseEcbXml(response.data));
+
+      context.log(`Successfully retrieved ${history.dates.length} days of exchange rates from ECB ${file}`);
+
+      await this.cache.set(cacheKey, history);
+      return history;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      context.error(`Error fetching ${file} exchange rates from ECB: ${errorMessage}`, error);
+      throw toUpstreamError(error, 'ECB');
+    }
+  }
+
+  private fetchXml(url: string, timeout: number) {
+    return axios.get<string>(url, {
+      timeout,
+      headers: {
+        'User-Agent': 'Azure-Function/1.0',
+        Accept: 'application/xml,text/xml',
+      },
+    });
   }
 
-  validateRequest(): { isValid: boolean; error?: string } {
-    // For now, the ECB endpoint doesn't require specific validation
-    // This can be extended if we add parameters later
-    return { isValid: true };
+  private parseDailyRates(xml: string): EcbReferenceRates {
+    const [latest] = parseEcbXml(xml);
+    return latest;
   }
 }
 
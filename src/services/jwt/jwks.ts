@@ -0,0 +1,99 @@
+import type { InvocationContext } from '@azure/functions';
+import axios from 'axios';
+import type { KeyObject } from 'node:crypto';
+import { createPublicKey } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+export interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface JwksDocument {
+  keys: Jwk[];
+}
+
+export interface JwksKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+export interface JwksKeySetOptions {
+  // How long fetched keys are used before the set is reloaded
+  maxAgeMs?: number;
+  // Minimum delay between reloads triggered by an unknown kid, so forged kids cannot hammer the provider
+  cooldownMs?: number;
+}
+
+export function loadJwksFromUrl(url: string, timeoutMs = 5000): () => Promise<JwksDocument> {
+  return async () => (await axios.get<JwksDocument>(url, { timeout: timeoutMs })).data;
+}
+
+// A local JWKS file, e.g. for tests and offline development
+export function loadJwksFromFile(filePath: string): () => Promise<JwksDocument> {
+  return async () => JSON.parse(await readFile(filePath, 'utf8')) as JwksDocument;
+}
+
+// Signing keys of the identity provider. Keys are reloaded when they are older than maxAgeMs or
+// when a token names a kid the set does not know yet, which is how providers roll keys over.
+export class JwksKeySet {
+  private readonly load: () => Promise<JwksDocument>;
+  private readonly maxAgeMs: number;
+  private readonly cooldownMs: number;
+  private keys: JwksKey[] = [];
+  private loadedAt = Number.NEGATIVE_INFINITY;
+  // Why the last load failed while no keys were known; rethrown until the cooldown is over
+  private loadError: unknown;
+  private loading: Promise<void> | undefined;
+
+  constructor(load: () => Promise<JwksDocument>, options: JwksKeySetOptions = {}) {
+    this.load = load;
+    this.maxAgeMs = options.maxAgeMs ?? 3600000;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+  }
+
+  // Keys a token with this kid may be signed with; a token without a kid may use any key
+  async getKeys(kid: string | undefined, context: InvocationContext): Promise<JwksKey[]> {
+    const age = Date.now() - this.loadedAt;
+    if (age > this.maxAgeMs || (this.find(kid).length === 0 && age > this.cooldownMs)) {
+      await this.refresh(context);
+    } else if (this.loadError !== undefined) {
+      throw this.loadError;
+    }
+    return this.find(kid);
+  }
+
+  private find(kid: string | undefined): JwksKey[] {
+    return kid === undefined ? this.keys : this.keys.filter((key) => key.kid === kid);
+  }
+
+  // Concurrent requests share one reload. A failed reload keeps the previous keys, so a provider
+  // outage does not lock out tokens signed with keys we already have. Without previous keys the
+  // failure is remembered, so tokens keep failing as an upstream error rather than as unknown keys.
+  private async refresh(context: InvocationContext): Promise<void> {
+    this.loading ??= this.load()
+      .then((document) => {
+        if (!Array.isArray(document?.keys)) {
+          throw new TypeError('JWKS document has no keys array');
+        }
+        this.keys = document.keys
+          .filter((jwk) => jwk.use === undefined || jwk.use === 'sig')
+          .map((jwk) => ({ kid: jwk.kid, alg: jwk.alg, key: createPublicKey({ key: jwk, format: 'jwk' }) }));
+        this.loadError = undefined;
+      })
+      .catch((error: unknown) => {
+        if (this.keys.length === 0) {
+          this.loadError = error;
+          throw error;
+        }
+        context.warn('Failed to reload JWKS, keeping the previous keys', error);
+      })
+      .finally(() => {
+        this.loadedAt = Date.now();
+        this.loading = undefined;
+      });
+    return this.loading;
+  }
+}
@@ -0,0 +1,242 @@
+import type { InvocationContext } from '@azure/functions';
+import type { KeyObject } from 'node:crypto';
+import { constants, verify } from 'node:crypto';
+import { JwksKeySet, loadJwksFromFile, loadJwksFromUrl } from './jwks';
+
+export type JwtClaims = Record<string, unknown>;
+
+// The token is malformed, badly signed, expired or meant for someone else. The message says which,
+// for the logs; clients only learn that the token was rejected.
+export class JwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtVerificationError';
+  }
+}
+
+export interface JwtVerifierOptions {
+  // Expected `iss`, e.g. `https://login.example.com/`
+  issuer: string;
+  // Accepted `aud` values; the token must name at least one of them
+  audiences: string[];
+  // Signature algorithms accepted from the token header
+  algorithms?: string[];
+  // Leeway for exp and nbf against clock skew between us and the provider
+  clockToleranceSeconds?: number;
+  // Claim holding the stable user id
+  subjectClaim?: string;
+}
+
+export interface VerifiedToken {
+  subject: string;
+  // Display name from the `name` or `email` claim
+  name?: string;
+  // From `scope` (space-separated) or `scp`
+  scopes: string[];
+  claims: JwtClaims;
+}
+
+interface Algorithm {
+  hash: string | null;
+  keyTypes: string[];
+  curve?: string;
+  pss?: boolean;
+}
+
+const ALGORITHMS: Record<string, Algorithm> = {
+  RS256: { hash: 'sha256', keyTypes: ['rsa'] },
+  RS384: { hash: 'sha384', keyTypes: ['rsa'] },
+  RS512: { hash: 'sha512', keyTypes: ['rsa'] },
+  PS256: { hash: 'sha256', keyTypes: ['rsa', 'rsa-pss'], pss: true },
+  PS384: { hash: 'sha384', keyTypes: ['rsa', 'rsa-pss'], pss: true },
+  PS512: { hash: 'sha512', keyTypes: ['rsa', 'rsa-pss'], pss: true },
+  ES256: { hash: 'sha256', keyTypes: ['ec'], curve: 'prime256v1' },
+  ES384: { hash: 'sha384', keyTypes: ['ec'], curve: 'secp384r1' },
+  ES512: { hash: 'sha512', keyTypes: ['ec'], curve: 'secp521r1' },
+  EdDSA: { hash: null, keyTypes: ['ed25519', 'ed448'] },
+};
+
+function decodeSegment(segment: string, part: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new JwtVerificationError(`Token ${part} is not a JSON object`);
+}
+
+function isSignatureValid(algorithm: Algorithm, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  if (!algorithm.keyTypes.includes(key.asymmetricKeyType ?? '')) {
+    return false;
+  }
+  if (algorithm.curve && key.asymmetricKeyDetails?.namedCurve !== algorithm.curve) {
+    return false;
+  }
+  try {
+    return verifySignature(algorithm, key, data, signature);
+  } catch {
+    // e.g. an ECDSA signature of the wrong length
+    return false;
+  }
+}
+
+function verifySignature(algorithm: Algorithm, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  if (algorithm.pss) {
+    return verify(
+      algorithm.hash,
+      data,
+      { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+      signature,
+    );
+  }
+  if (algorithm.curve) {
+    return verify(algorithm.hash, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  }
+  return verify(algorithm.hash, data, key, signature);
+}
+
+// Verifies compact JWS access and ID tokens from an OIDC provider against its JWKS. Only
+// asymmetric algorithms are accepted, so `none` and HMAC tokens signed with a public key fail.
+export class JwtVerifier {
+  private readonly keySet: JwksKeySet;
+  private readonly issuer: string;
+  private readonly audiences: string[];
+  private readonly algorithms: string[];
+  private readonly clockToleranceSeconds: number;
+  private readonly subjectClaim: string;
+
+  constructor(keySet: JwksKeySet, options: JwtVerifierOptions) {
+    this.keySet = keySet;
+    this.issuer = options.issuer;
+    this.audiences = options.audiences;
+    this.algorithms = (options.algorithms ?? Object.keys(ALGORITHMS)).filter((name) => Object.hasOwn(ALGORITHMS, name));
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 60;
+    this.subjectClaim = options.subjectClaim ?? 'sub';
+  }
+
+  async verify(token: string, context: InvocationContext): Promise<VerifiedToken> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new JwtVerificationError('Token is not a compact JWS');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = decodeSegment(encodedHeader, 'header');
+    const claims = decodeSegment(encodedPayload, 'payload');
+
+    const alg = String(header.alg);
+    if (!this.algorithms.includes(alg)) {
+      throw new JwtVerificationError(`Token algorithm ${alg} is not accepted`);
+    }
+    const kid = typeof header.kid === 'string' ? header.kid : undefined;
+    const candidates = (await this.keySet.getKeys(kid, context)).filter(
+      (key) => key.alg === undefined || key.alg === alg,
+    );
+    if (candidates.length === 0) {
+      throw new JwtVerificationError(`No signing key found for kid ${kid ?? '(none)'}`);
+    }
+
+    const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (!candidates.some(({ key }) => isSignatureValid(ALGORITHMS[alg], key, data, signature))) {
+      throw new JwtVerificationError('Token signature is invalid');
+    }
+
+    this.checkClaims(claims);
+    return this.toVerifiedToken(claims);
+  }
+
+  private checkClaims(claims: JwtClaims): void {
+    const now = Date.now() / 1000;
+    if (claims.iss !== this.issuer) {
+      throw new JwtVerificationError(`Token issuer ${String(claims.iss)} is not ${this.issuer}`);
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.some((audience) => this.audiences.includes(audience as string))) {
+      throw new JwtVerificationError(`Token audience ${JSON.stringify(claims.aud)} is not accepted`);
+    }
+
+    if (typeof claims.exp !== 'number') {
+      throw new JwtVerificationError('Token has no expiry');
+    }
+    if (claims.exp + this.clockToleranceSeconds <= now) {
+      throw new JwtVerificationError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - this.clockToleranceSeconds > now) {
+      throw new JwtVerificationError('Token is not valid yet');
+    }
+  }
+
+  private toVerifiedToken(claims: JwtClaims): VerifiedToken {
+    const subject = claims[this.subjectClaim];
+    if (typeof subject !== 'string' || subject.length === 0) {
+      throw new JwtVerificationError(`Token has no ${this.subjectClaim} claim`);
+    }
+
+    const name = [claims.name, claims.email].find((value): value is string => typeof value === 'string');
+    let scopes: string[] = [];
+    if (typeof claims.scope === 'string') {
+      scopes = claims.scope.split(' ').filter((scope) => scope.length > 0);
+    } else if (Array.isArray(claims.scp)) {
+      scopes = claims.scp.filter((scope): scope is string => typeof scope === 'string');
+    }
+
+    return { subject, name, scopes, claims };
+  }
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+// Bearer authentication is enabled by JWT_ISSUER, and then needs JWT_AUDIENCE and one of
+// JWT_JWKS_URL or JWT_JWKS_FILE. Returns undefined when it is not enabled.
+export function createJwtVerifier(env: NodeJS.ProcessEnv = process.env): JwtVerifier | undefined {
+  const issuer = env.JWT_ISSUER;
+  if (!issuer) {
+    return undefined;
+  }
+
+  const audiences = parseList(env.JWT_AUDIENCE);
+  if (audiences.length === 0) {
+    throw new Error('Invalid JWT configuration: JWT_AUDIENCE is required with JWT_ISSUER');
+  }
+  let load;
+  if (env.JWT_JWKS_FILE) {
+    load = loadJwksFromFile(env.JWT_JWKS_FILE);
+  } else if (env.JWT_JWKS_URL) {
+    load = loadJwksFromUrl(env.JWT_JWKS_URL);
+  } else {
+    throw new Error('Invalid JWT configuration: JWT_JWKS_URL or JWT_JWKS_FILE is required with JWT_ISSUER');
+  }
+
+  const algorithms = parseList(env.JWT_ALGORITHMS);
+  const unknown = algorithms.filter((name) => !Object.hasOwn(ALGORITHMS, name));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid JWT configuration: unsupported algorithms ${unknown.join(', ')}`);
+  }
+  const tolerance = Number.parseInt(env.JWT_CLOCK_TOLERANCE_SECONDS ?? '', 10);
+
+  return new JwtVerifier(new JwksKeySet(load), {
+    issuer,
+    audiences,
+    algorithms: algorithms.length > 0 ? algorithms : undefined,
+    clockToleranceSeconds: Number.isNaN(tolerance) || tolerance < 0 ? undefined : tolerance,
+    subjectClaim: env.JWT_SUBJECT_CLAIM,
+  });
+}
+
+let verifier: JwtVerifier | undefined | null = null;
+
+export function getJwtVerifier(): JwtVerifier | undefined {
+  if (verifier === null) {
+    verifier = createJwtVerifier();
+  }
+  return verifier;
+}
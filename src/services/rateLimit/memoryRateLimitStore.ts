@@ -0,0 +1,52 @@
+import type { RateLimitStore } from './rateLimitStore';
+
+interface Counter {
+  value: number;
+  expiresAt: number;
+}
+
+// Per-instance values. Node runs one operation at a time, so a plain Map is atomic here.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters: Map<string, Counter> = new Map();
+
+  constructor() {
+    // Clean up expired values every minute
+    const cleanupInterval = setInterval(() => this.cleanup(), 60000);
+    cleanupInterval.unref();
+  }
+
+  async get(key: string): Promise<number> {
+    return this.live(key, Date.now())?.value ?? 0;
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    const counter = this.live(key, now) ?? { value: 0, expiresAt: now + ttlMs };
+    counter.value += amount;
+    this.counters.set(key, counter);
+    return counter.value;
+  }
+
+  async compareAndSet(key: string, expected: number, value: number, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    if ((this.live(key, now)?.value ?? 0) !== expected) {
+      return false;
+    }
+    this.counters.set(key, { value, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  private live(key: string, now: number): Counter | undefined {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > now ? counter : undefined;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters.entries()) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,14 @@
+// Storage behind RateLimiter (one GCRA TAT per client) and the API key quotas (one counter per key
+// and period). Instances that share a store share their clients' budgets, so every write must be
+// atomic: concurrent increments from several instances all count, and of two requests racing to
+// move the same TAT only one succeeds.
+export interface RateLimitStore {
+  // Current value, 0 when it does not exist or has expired
+  get(key: string): Promise<number>;
+  // Add amount (which may be negative) and return the new value. A missing counter starts at 0
+  // and expires ttlMs later; further increments keep that expiry.
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  // Replace the value with `value`, expiring ttlMs later, only if it still equals `expected`
+  // (0 matching a missing value). Returns whether the value was written.
+  compareAndSet(key: string, expected: number, value: number, ttlMs: number): Promise<boolean>;
+}
@@ -0,0 +1,53 @@
+import type { RespClient } from '../cache/respClient';
+import type { RateLimitStore } from './rateLimitStore';
+
+// Compares as strings: values are written from JS numbers, which print back to the same string
+export const COMPARE_AND_SET_SCRIPT = `local current = redis.call('GET', KEYS[1]) or '0'
+if current ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1`;
+
+// Values shared by every instance through Redis (or any RESP server with MULTI/EXEC and Lua
+// scripting), under a prefix of their own so they never mix with cache entries.
+export class RedisRateLimitStore implements RateLimitStore {
+  private readonly client: RespClient;
+  private readonly keyPrefix: string;
+
+  constructor(client: RespClient, keyPrefix = 'stockquotes:ratelimit:') {
+    this.client = client;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.client.command(['GET', this.keyPrefix + key]);
+    return typeof value === 'string' ? Number(value) : 0;
+  }
+
+  // SET NX creates the counter together with its expiry and INCRBYFLOAT adds to it. Running both in
+  // one transaction means no instance can ever observe, or leave behind, a counter without a TTL.
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const prefixed = this.keyPrefix + key;
+    const replies = await this.client.transaction([
+      ['SET', prefixed, 0, 'PX', Math.max(1, Math.ceil(ttlMs)), 'NX'],
+      ['INCRBYFLOAT', prefixed, amount],
+    ]);
+    return Number(replies[1]);
+  }
+
+  // The client pipelines every caller over one connection, where WATCH cannot tell callers apart,
+  // so the comparison runs server-side in a script
+  async compareAndSet(key: string, expected: number, value: number, ttlMs: number): Promise<boolean> {
+    const reply = await this.client.command([
+      'EVAL',
+      COMPARE_AND_SET_SCRIPT,
+      1,
+      this.keyPrefix + key,
+      expected,
+      value,
+      Math.max(1, Math.ceil(ttlMs)),
+    ]);
+    return reply === 1;
+  }
+}
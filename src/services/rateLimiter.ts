@@ -1,74 +1,252 @@
-// Simple in-memory rate limiter for Azure Functions
-interface RateLimitEntry {
-  count: number;
+// Rate limiting for Azure Functions using GCRA, the generic cell rate algorithm. GCRA behaves like
+// a token bucket holding `burst` tokens that refills at `refillPerSecond`, but only stores one
+// timestamp per client: the theoretical arrival time (TAT) at which the bucket would be full again.
+// Unlike a fixed window it cannot be gamed with bursts at window edges. TATs live in a
+// RateLimitStore, so instances sharing a Redis store enforce one bucket per client instead of one
+// bucket per instance.
+import type { InvocationContext } from '@azure/functions';
+import { RespClient } from './cache/respClient';
+import { MemoryRateLimitStore } from './rateLimit/memoryRateLimitStore';
+import type { RateLimitStore } from './rateLimit/rateLimitStore';
+import { RedisRateLimitStore } from './rateLimit/redisRateLimitStore';
+import { RateLimitUnavailable } from '../utils/errors';
+
+export interface RateLimitPolicy {
+  // Bucket size: the cost a client can spend at once
+  burst: number;
+  // Tokens added back per second, i.e. the sustained rate
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Epoch ms at which the bucket is full again
   resetTime: number;
+  // Ms until the denied request would be allowed; 0 when allowed
+  retryAfterMs: number;
+}
+
+// What happens when the store cannot be reached: `open` lets requests through unlimited,
+// `closed` rejects them with 503
+export type RateLimitFailureMode = 'open' | 'closed';
+
+export interface RateLimiterOptions {
+  store?: RateLimitStore;
+  // Keeps the buckets of limiters sharing a store apart
+  name?: string;
+  failureMode?: RateLimitFailureMode;
 }
 
-class RateLimiter {
-  private readonly requests: Map<string, RateLimitEntry> = new Map();
-  private readonly windowMs: number;
-  private readonly maxRequests: number;
+// Concurrent requests from one client race to move its TAT; the losers re-read and try again
+const MAX_TAT_UPDATE_ATTEMPTS = 5;
 
-  constructor(windowMs: number = 5000, maxRequests: number = 100) {
-    this.windowMs = windowMs;
-    this.maxRequests = maxRequests;
+export class RateLimiter {
+  private readonly policy: RateLimitPolicy;
+  private readonly burst: number;
+  private readonly emissionIntervalMs: number;
+  private readonly toleranceMs: number;
+  private readonly store: RateLimitStore;
+  private readonly name: string;
+  private readonly failureMode: RateLimitFailureMode;
 
-    // Clean up expired entries every minute
-    const cleanupInterval = setInterval(() => this.cleanup(), 60000);
-    cleanupInterval.unref();
+  constructor(policy: RateLimitPolicy, options: RateLimiterOptions = {}) {
+    this.policy = policy;
+    this.burst = policy.burst;
+    this.emissionIntervalMs = 1000 / policy.refillPerSecond;
+    this.toleranceMs = this.emissionIntervalMs * policy.burst;
+    this.store = options.store ?? new MemoryRateLimitStore();
+    this.name = options.name ?? 'default';
+    this.failureMode = options.failureMode ?? 'open';
   }
 
-  getMaxRequests(): number {
-    return this.maxRequests;
+  getLimit(): number {
+    return this.burst;
+  }
+
+  // A limiter over the same buckets with some policy fields replaced, for callers with a policy of their own
+  withPolicy(overrides: Partial<RateLimitPolicy>): RateLimiter {
+    return new RateLimiter(
+      { ...this.policy, ...overrides },
+      { store: this.store, name: this.name, failureMode: this.failureMode },
+    );
+  }
+
+  // A request costing more than the burst is charged the full burst, so it needs a full bucket
+  // instead of being rejected forever. The new TAT is only written if no other request moved it
+  // since it was read, so concurrent requests on several instances are all charged.
+  async isAllowed(identifier: string, context: InvocationContext, cost: number = 1): Promise<RateLimitResult> {
+    const key = this.key(identifier);
+    const increment = Math.min(Math.max(cost, 0), this.burst) * this.emissionIntervalMs;
+    let tat = Date.now();
+
+    try {
+      for (let attempt = 0; attempt < MAX_TAT_UPDATE_ATTEMPTS; attempt++) {
+        const now = Date.now();
+        // A missing TAT reads as 0: the bucket is full
+        const stored = await this.store.get(key);
+        tat = Math.max(stored, now);
+        const newTat = tat + increment;
+        const allowAt = newTat - this.toleranceMs;
+
+        if (now < allowAt) {
+          return { allowed: false, remaining: this.remaining(tat, now), resetTime: tat, retryAfterMs: allowAt - now };
+        }
+        // Once the bucket is full again the TAT carries no information, so it expires then
+        if (await this.store.compareAndSet(key, stored, newTat, newTat - now)) {
+          return { allowed: true, remaining: this.remaining(newTat, now), resetTime: newTat, retryAfterMs: 0 };
+        }
+      }
+    } catch (error) {
+      return this.storeFailed(error, context);
+    }
+
+    // Still contended after every attempt: the client is sending faster than it can be served
+    return { allowed: false, remaining: 0, resetTime: tat, retryAfterMs: this.emissionIntervalMs };
   }
 
-  isAllowed(identifier: string): { allowed: boolean; remaining: number; resetTime: number } {
-    const now = Date.now();
-    const entry = this.requests.get(identifier);
-
-    if (!entry || now > entry.resetTime) {
-      // New entry or expired window
-      const newEntry: RateLimitEntry = {
-        count: 1,
-        resetTime: now + this.windowMs,
-      };
-      this.requests.set(identifier, newEntry);
-
-      return {
-        allowed: true,
-        remaining: this.maxRequests - 1,
-        resetTime: newEntry.resetTime,
-      };
+  // What isAllowed would answer for this cost right now, without charging anything
+  async peek(identifier: string, context: InvocationContext, cost: number = 1): Promise<RateLimitResult> {
+    const increment = Math.min(Math.max(cost, 0), this.burst) * this.emissionIntervalMs;
+    try {
+      const now = Date.now();
+      const tat = Math.max(await this.store.get(this.key(identifier)), now);
+      const allowAt = tat + increment - this.toleranceMs;
+      return now < allowAt
+        ? { allowed: false, remaining: this.remaining(tat, now), resetTime: tat, retryAfterMs: allowAt - now }
+        : { allowed: true, remaining: this.remaining(tat, now), resetTime: tat, retryAfterMs: 0 };
+    } catch (error) {
+      return this.storeFailed(error, context);
     }
+  }
 
-    // Existing entry within window
-    if (entry.count >= this.maxRequests) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetTime: entry.resetTime,
-      };
+  private storeFailed(error: unknown, context: InvocationContext): RateLimitResult {
+    if (this.failureMode === 'closed') {
+      throw new RateLimitUnavailable(`Rate limit store failed for ${this.name}`, { cause: error });
     }
+    context.warn(`Rate limit store failed for ${this.name}, allowing request`, error);
+    return { allowed: true, remaining: this.burst, resetTime: Date.now(), retryAfterMs: 0 };
+  }
 
-    // Increment count
-    entry.count++;
-    return {
-      allowed: true,
-      remaining: this.maxRequests - entry.count,
-      resetTime: entry.resetTime,
-    };
+  private remaining(tat: number, now: number): number {
+    return Math.max(0, Math.floor((this.toleranceMs - (tat - now)) / this.emissionIntervalMs));
   }
 
-  private cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.requests.entries()) {
-      if (now > entry.resetTime) {
-        this.requests.delete(key);
-      }
+  private key(identifier: string): string {
+    return `${this.name}:${identifier}`;
+  }
+}
+
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = { burst: 10, refillPerSecond: 10 };
+
+// Anonymous callers without a usable client address cannot be told apart, so they all share one
+// bucket per route; it is kept small so that hiding the address does not buy a bigger budget
+export const UNIDENTIFIED_CLIENT_POLICY: RateLimitPolicy = { burst: 5, refillPerSecond: 1 };
+
+// Budget of failed X-API-Key attempts per client: a few typos, then one guess a minute
+export const AUTH_FAILURE_POLICY: RateLimitPolicy = { burst: 5, refillPerSecond: 1 / 60 };
+
+// Routes that reach Yahoo Finance with heavier or weighted requests get their own defaults
+export const DEFAULT_ROUTE_POLICIES: Record<string, RateLimitPolicy> = {
+  'yahoo-finance': { burst: 10, refillPerSecond: 4 },
+  'yahoo-finance-historical': { burst: 4, refillPerSecond: 4 },
+  'yahoo-finance-stock-options': { burst: 24, refillPerSecond: 10 },
+};
+
+export function assertRateLimitPolicy(route: string, policy: Partial<RateLimitPolicy>): void {
+  for (const field of ['burst', 'refillPerSecond'] as const) {
+    const value = policy[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+      throw new Error(`Invalid rate limit policy: ${route}.${field} must be a positive number`);
     }
   }
 }
 
-// Export singleton instances with different limits
-export const apiRateLimiter = new RateLimiter(1000, 10); // 10 requests per second
-export const strictRateLimiter = new RateLimiter(1000, 4); // 4 requests per second for heavy endpoints
+// RATE_LIMIT_POLICIES overrides policies per route name as JSON, e.g.
+// `{"yahoo-finance":{"burst":20,"refillPerSecond":5},"default":{"burst":30}}`. The `unidentified`
+// entry is the policy of callers without a usable client address, `auth-failures` the budget of
+// failed X-API-Key attempts.
+export function loadRateLimitPolicies(env: NodeJS.ProcessEnv = process.env): Record<string, RateLimitPolicy> {
+  const policies: Record<string, RateLimitPolicy> = {
+    default: DEFAULT_RATE_LIMIT_POLICY,
+    unidentified: UNIDENTIFIED_CLIENT_POLICY,
+    'auth-failures': AUTH_FAILURE_POLICY,
+    ...DEFAULT_ROUTE_POLICIES,
+  };
+  if (!env.RATE_LIMIT_POLICIES) {
+    return policies;
+  }
+
+  let overrides: Record<string, Partial<RateLimitPolicy>>;
+  try {
+    overrides = JSON.parse(env.RATE_LIMIT_POLICIES) as Record<string, Partial<RateLimitPolicy>>;
+  } catch (error) {
+    throw new Error('Invalid rate limit policy: RATE_LIMIT_POLICIES is not valid JSON', { cause: error });
+  }
+  // The default is applied first so routes without their own defaults inherit the override
+  const { default: defaultOverride, ...routes } = overrides;
+  for (const [route, policy] of Object.entries({ default: defaultOverride ?? {}, ...routes })) {
+    assertRateLimitPolicy(route, policy);
+    policies[route] = { ...(policies[route] ?? policies.default), ...policy };
+  }
+  return policies;
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+// RATE_LIMIT_STORE selects where TATs and quota counters live. The Redis store uses
+// RATE_LIMIT_REDIS_URL, falling back to the cache's REDIS_URL, with a short timeout since every
+// request waits for it.
+export function createRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  const kind = env.RATE_LIMIT_STORE ?? 'memory';
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'redis':
+      return new RedisRateLimitStore(
+        new RespClient(env.RATE_LIMIT_REDIS_URL ?? env.REDIS_URL ?? 'redis://localhost:6379', {
+          timeoutMs: parsePositiveInt(env.RATE_LIMIT_TIMEOUT_MS, 500),
+        }),
+        env.RATE_LIMIT_KEY_PREFIX ?? 'stockquotes:ratelimit:',
+      );
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}". Expected memory or redis.`);
+  }
+}
+
+export function loadRateLimitFailureMode(env: NodeJS.ProcessEnv = process.env): RateLimitFailureMode {
+  const mode = env.RATE_LIMIT_FAILURE_MODE ?? 'open';
+  if (mode !== 'open' && mode !== 'closed') {
+    throw new Error(`Unknown RATE_LIMIT_FAILURE_MODE "${mode}". Expected open or closed.`);
+  }
+  return mode;
+}
+
+const policies = loadRateLimitPolicies();
+const store = createRateLimitStore();
+const failureMode = loadRateLimitFailureMode();
+const limiters = new Map<string, RateLimiter>();
+
+// Shared with the API key usage counters
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export function getUnidentifiedClientPolicy(): RateLimitPolicy {
+  return policies.unidentified;
+}
+
+// One limiter per route, so each route has its own budget per client
+export function getRateLimiter(route: string): RateLimiter {
+  let limiter = limiters.get(route);
+  if (!limiter) {
+    limiter = new RateLimiter(policies[route] ?? policies.default, { store, name: route, failureMode });
+    limiters.set(route, limiter);
+  }
+  return limiter;
+}
@@ -1,7 +1,9 @@
 import type { InvocationContext } from '@azure/functions';
 import YahooFinance from 'yahoo-finance2';
+import { toUpstreamError } from '../utils/errors';
+import { roundDecimals } from '../utils/number';
 
-const SUMMARY_MODULES = [
+export const SUMMARY_MODULES = [
   'assetProfile',
   'balanceSheetHistory',
   'balanceSheetHistoryQuarterly',
@@ -37,21 +39,79 @@ const SUMMARY_MODULES = [
   'upgradeDowngradeHistory',
 ] as const;
 
-const DEFAULT_SUMMARY_MODULES = ['financialData', 'defaultKeyStatistics', 'recommendationTrend'];
+export const DEFAULT_SUMMARY_MODULES = ['financialData', 'defaultKeyStatistics', 'recommendationTrend'];
 
 export interface YahooFinanceQuoteRequest {
   symbols: string[];
   fields?: string[];
 }
 
+// `1w` is accepted as an alias of `1wk`
+export const HISTORICAL_INTERVALS = [
+  '1m',
+  '2m',
+  '5m',
+  '15m',
+  '30m',
+  '60m',
+  '90m',
+  '1h',
+  '1d',
+  '1w',
+  '1wk',
+  '1mo',
+  '3mo',
+] as const;
+
+export type HistoricalEvent = 'dividends' | 'splits';
+
+export const HISTORICAL_EVENTS: readonly HistoricalEvent[] = ['dividends', 'splits'];
+
+// `raw` leaves prices untouched, a number rounds to that many decimals and `auto` uses the
+// instrument's price hint (FX pairs, crypto and penny stocks quote more than two decimals)
+export type HistoricalPrecision = 'raw' | 'auto' | number;
+
+export const DEFAULT_HISTORICAL_PRECISION = 2;
+
+export const MAX_HISTORICAL_PRECISION = 10;
+
+// Decimals used by `auto` when the chart meta carries no priceHint
+const AUTO_PRECISION_BY_INSTRUMENT: Record<string, number> = {
+  CURRENCY: 4,
+  CRYPTOCURRENCY: 8,
+};
+
+// Number of decimals to round prices to, or undefined to leave them untouched
+export function resolveHistoricalPrecision(
+  precision: HistoricalPrecision,
+  meta?: { priceHint?: unknown; instrumentType?: unknown },
+): number | undefined {
+  if (precision === 'raw') {
+    return undefined;
+  }
+  if (precision !== 'auto') {
+    return precision;
+  }
+  if (typeof meta?.priceHint === 'number' && Number.isInteger(meta.priceHint) && meta.priceHint >= 0) {
+    return Math.min(meta.priceHint, MAX_HISTORICAL_PRECISION);
+  }
+  const instrumentType = typeof meta?.instrumentType === 'string' ? meta.instrumentType : '';
+  return AUTO_PRECISION_BY_INSTRUMENT[instrumentType] ?? DEFAULT_HISTORICAL_PRECISION;
+}
+
 export interface YahooFinanceHistoricalRequest {
   ticker: string;
   from: string;
   to: string;
   interval?: string;
   fields?: string[];
+  events?: HistoricalEvent[];
+  precision?: HistoricalPrecision;
 }
 
+// Event types as named by the chart() `events` option
+const CHART_EVENT_NAMES: Record<HistoricalEvent, string> = { dividends: 'div', splits: 'split' };
+
 export interface YahooFinanceOptionsRequest {
   ticker: string;
   expirationDate?: string;
@@ -170,7 +230,7 @@ export class YahooFinanceService {
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         context.error(`Error fetching quotes from Yahoo Finance: ${errorMessage}`, error);
-        throw error;
+        throw toUpstreamError(error, 'Yahoo Finance');
       }
     });
   }
@@ -189,16 +249,25 @@ export class YahooFinanceService {
         toDate.setDate(toDate.getDate() + 1);
         const period2 = toDate.toISOString().split('T')[0];
 
-        const response = await this.yahooFinance.chart(request.ticker, {
+        const chartOptions: { period1: string; period2: string; interval: string; events?: string } = {
           period1: request.from,
           period2,
           interval,
-        });
+        };
+        if (request.events && request.events.length > 0) {
+          chartOptions.events = request.events.map((event) => CHART_EVENT_NAMES[event]).join('|');
+        }
+
+        const response = await this.yahooFinance.chart(request.ticker, chartOptions);
+
+        // adjclose is only returned when explicitly selected through `fields`
+        const includeAdjclose = request.fields?.includes('adjclose') ?? false;
+        const decimals = resolveHistoricalPrecision(request.precision ?? DEFAULT_HISTORICAL_PRECISION, response?.meta);
+        const roundPrice = (value: unknown) => (typeof value === 'number' ? roundDecimals(value, decimals) : value);
 
         if (response?.quotes && Array.isArray(response.quotes)) {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           response.quotes = response.quotes.map((quote: any) => {
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
             const { adjclose, ...rest } = quote;
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const processedQuote: any = {
@@ -207,13 +276,13 @@ export class YahooFinanceService {
 
             const priceFields = ['open', 'high', 'low', 'close'];
             priceFields.forEach((field) => {
-              if (typeof rest[field] === 'number') {
-                processedQuote[field] = Math.round(rest[field] * 100) / 100;
-              } else {
-                processedQuote[field] = rest[field];
-              }
+              processedQuote[field] = roundPrice(rest[field]);
             });
 
+            if (includeAdjclose) {
+              processedQuote.adjclose = roundPrice(adjclose);
+            }
+
             if (Object.hasOwn(rest, 'volume')) {
               processedQuote.volume = rest.volume;
             }
@@ -235,15 +304,52 @@ export class YahooFinanceService {
         }
 
         context.log(`Successfully retrieved historical data for ${request.ticker}`);
-        return response;
+        return response ? this.applyHistoricalEvents(response, request.events) : response;
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         context.error(`Error fetching historical data from Yahoo Finance: ${errorMessage}`, error);
-        throw error;
+        throw toUpstreamError(error, 'Yahoo Finance');
       }
     });
   }
 
+  // Replace the raw chart() events block with the requested dividends/splits arrays
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private applyHistoricalEvents(response: any, requested?: HistoricalEvent[]): any {
+    const { events, ...result } = response;
+    if (requested?.includes('dividends')) {
+      result.dividends = this.normalizeDividends(events?.dividends);
+    }
+    if (requested?.includes('splits')) {
+      result.splits = this.normalizeSplits(events?.splits);
+    }
+    return result;
+  }
+
+  // chart() returns events either as arrays or as objects keyed by timestamp depending on the `return` option
+  private eventList(events: unknown): Array<Record<string, unknown>> {
+    if (!events || typeof events !== 'object') {
+      return [];
+    }
+    const list = (Array.isArray(events) ? events : Object.values(events)) as Array<Record<string, unknown>>;
+    return list.sort((a, b) => new Date(a.date as string).getTime() - new Date(b.date as string).getTime());
+  }
+
+  private normalizeDividends(events: unknown): Array<{ date: unknown; amount: unknown }> {
+    return this.eventList(events).map((event) => ({ date: event.date, amount: event.amount }));
+  }
+
+  private normalizeSplits(
+    events: unknown,
+  ): Array<{ date: unknown; numerator: unknown; denominator: unknown; splitRatio: unknown }> {
+    return this.eventList(events).map((event) => ({
+      date: event.date,
+      numerator: event.numerator,
+      denominator: event.denominator,
+      splitRatio: event.splitRatio,
+    }));
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async getQuoteSummary(request: YahooFinanceSummaryRequest, context: InvocationContext): Promise<any> {
     return this.enqueue(async () => {
@@ -258,146 +364,11 @@ export class YahooFinanceService {
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         context.error(`Error fetching quote summary from Yahoo Finance: ${errorMessage}`, error);
-        throw error;
+        throw toUpstreamError(error, 'Yahoo Finance');
       }
     });
   }
 
-  validateQuoteRequest(symbols: string[], fields?: string[]): { isValid: boolean; error?: string } {
-    if (!symbols || symbols.length === 0) {
-      return { isValid: false, error: 'At least one symbol must be provided' };
-    }
-
-    const validSymbols = symbols.filter((s) => s && s.trim().length > 0);
-
-    if (validSymbols.length !== symbols.length) {
-      return { isValid: false, error: 'Invalid symbols provided' };
-    }
-
-    if (validSymbols.length > 50) {
-      return { isValid: false, error: 'Maximum 50 symbols allowed per request' };
-    }
-
-    if (fields && fields.length > 0) {
-      const validFields = fields.filter((f) => f && f.trim().length > 0);
-      if (validFields.length !== fields.length) {
-        return { isValid: false, error: 'Invalid fields provided' };
-      }
-      if (validFields.length > 20) {
-        return { isValid: false, error: 'Maximum 20 fields allowed per request' };
-      }
-    }
-
-    return { isValid: true };
-  }
-
-  private getIntervalLimit(interval: string): { maxRangeDays: number; intervalName: string } {
-    const intradayIntervals = ['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1h'];
-    const isIntraday = intradayIntervals.includes(interval);
-
-    if (isIntraday) {
-      return { maxRangeDays: 7, intervalName: 'intraday' };
-    }
-
-    switch (interval) {
-      case '1wk':
-        return { maxRangeDays: 365 * 50, intervalName: 'weekly' };
-      case '1d':
-        return { maxRangeDays: 365 * 5, intervalName: 'daily' };
-      case '1mo':
-      case '3mo':
-        return { maxRangeDays: 365 * 50, intervalName: 'monthly' };
-      default:
-        return { maxRangeDays: 365, intervalName: 'other' };
-    }
-  }
-
-  private validateDates(
-    from: string,
-    to: string,
-  ): { isValid: boolean; error?: string; fromDate?: Date; toDate?: Date } {
-    if (!from || !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
-      return { isValid: false, error: 'From date must be in yyyy-MM-dd format' };
-    }
-
-    if (!to || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
-      return { isValid: false, error: 'To date must be in yyyy-MM-dd format' };
-    }
-
-    const fromDate = new Date(from);
-    const toDate = new Date(to);
-
-    if (Number.isNaN(fromDate.getTime())) {
-      return { isValid: false, error: 'Invalid from date' };
-    }
-
-    if (Number.isNaN(toDate.getTime())) {
-      return { isValid: false, error: 'Invalid to date' };
-    }
-
-    if (fromDate > toDate) {
-      return { isValid: false, error: 'From date must be before or equal to to date' };
-    }
-
-    return { isValid: true, fromDate, toDate };
-  }
-
-  private validateRange(fromDate: Date, toDate: Date, interval?: string): { isValid: boolean; error?: string } {
-    const normalizedInterval = interval === '1w' ? '1wk' : (interval ?? '1d');
-    const rangeDays = (toDate.getTime() - fromDate.getTime()) / (1000 * 60 * 60 * 24);
-    const { maxRangeDays, intervalName } = this.getIntervalLimit(normalizedInterval);
-
-    if (rangeDays > maxRangeDays) {
-      if (intervalName === 'intraday') {
-        return {
-          isValid: false,
-          error: `Date range exceeds maximum of 7 days for intraday interval "${normalizedInterval}"`,
-        };
-      }
-      const maxYears = Math.round(maxRangeDays / 365);
-      return {
-        isValid: false,
-        error: `Date range exceeds maximum of ${maxYears} years for ${intervalName} interval`,
-      };
-    }
-
-    return { isValid: true };
-  }
-
-  validateHistoricalRequest(
-    ticker: string,
-    from: string,
-    to: string,
-    interval?: string,
-    fields?: string[],
-  ): { isValid: boolean; error?: string } {
-    if (!ticker || ticker.trim().length === 0) {
-      return { isValid: false, error: 'Ticker must be provided' };
-    }
-
-    const validIntervals = ['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1h', '1d', '1w', '1wk', '1mo', '3mo'];
-    if (interval && !validIntervals.includes(interval)) {
-      return { isValid: false, error: 'Interval must be one of: ' + validIntervals.join(', ') };
-    }
-
-    if (fields && fields.length > 0) {
-      const invalidFields = fields.filter((f) => !f || f.trim().length === 0);
-      if (invalidFields.length > 0) {
-        return { isValid: false, error: 'Invalid fields provided' };
-      }
-      if (fields.length > 20) {
-        return { isValid: false, error: 'Maximum 20 fields allowed per request' };
-      }
-    }
-
-    const dateValidation = this.validateDates(from, to);
-    if (!dateValidation.isValid) {
-      return { isValid: false, error: dateValidation.error };
-    }
-
-    return this.validateRange(dateValidation.fromDate!, dateValidation.toDate!, interval);
-  }
-
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async getOptions(request: YahooFinanceOptionsRequest, context: InvocationContext): Promise<any> {
     return this.enqueue(async () => {
@@ -440,7 +411,7 @@ export class YahooFinanceService {
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         context.error(`Error fetching options from Yahoo Finance: ${errorMessage}`, error);
-        throw error;
+        throw toUpstreamError(error, 'Yahoo Finance');
       }
     });
   }
@@ -521,104 +492,4 @@ export class YahooFinanceService {
 
     return response;
   }
-
-  private validateOptionsTicker(ticker: string): string | undefined {
-    if (!ticker || ticker.trim().length === 0) {
-      return 'Ticker must be provided';
-    }
-    return undefined;
-  }
-
-  private validateOptionsExpirationDate(expirationDate?: string): string | undefined {
-    if (!expirationDate) {
-      return undefined;
-    }
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(expirationDate)) {
-      return 'Expiration date must be in yyyy-MM-dd format';
-    }
-    if (Number.isNaN(new Date(expirationDate).getTime())) {
-      return 'Invalid expiration date';
-    }
-    return undefined;
-  }
-
-  private validateOptionsExpirationDatesCount(expirationDatesCount?: number): string | undefined {
-    if (expirationDatesCount === undefined) {
-      return undefined;
-    }
-    if (!Number.isInteger(expirationDatesCount) || expirationDatesCount < 1 || expirationDatesCount > 24) {
-      return 'expirationDatesCount must be an integer between 1 and 24';
-    }
-    return undefined;
-  }
-
-  private validateOptionsExpirationConflict(
-    expirationDate?: string,
-    expirationDatesCount?: number,
-  ): string | undefined {
-    if (expirationDate && expirationDatesCount) {
-      return 'Cannot specify both expirationDate and expirationDatesCount';
-    }
-    return undefined;
-  }
-
-  private validateOptionsFilter(filter?: string[]): string | undefined {
-    if (!filter || filter.length === 0) {
-      return undefined;
-    }
-    const validFilters = new Set(['calls', 'puts']);
-    const invalidFilters = filter.filter((f) => !validFilters.has(f));
-    if (invalidFilters.length > 0) {
-      return `Invalid filter values: ${invalidFilters.join(', ')}. Valid values are: calls, puts`;
-    }
-    return undefined;
-  }
-
-  private validateOptionsLimit(limit?: number): string | undefined {
-    if (limit === undefined) {
-      return undefined;
-    }
-    if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
-      return 'Limit must be an integer between 1 and 50';
-    }
-    return undefined;
-  }
-
-  validateOptionsRequest(
-    ticker: string,
-    expirationDate?: string,
-    expirationDatesCount?: number,
-    filter?: string[],
-    limit?: number,
-  ): { isValid: boolean; error?: string } {
-    const error =
-      this.validateOptionsTicker(ticker) ??
-      this.validateOptionsExpirationDate(expirationDate) ??
-      this.validateOptionsExpirationDatesCount(expirationDatesCount) ??
-      this.validateOptionsExpirationConflict(expirationDate, expirationDatesCount) ??
-      this.validateOptionsFilter(filter) ??
-      this.validateOptionsLimit(limit);
-
-    return error ? { isValid: false, error } : { isValid: true };
-  }
-
-  validateSummaryRequest(ticker: string, modules?: string[]): { isValid: boolean; error?: string } {
-    if (!ticker || ticker.trim().length === 0) {
-      return { isValid: false, error: 'Ticker must be provided' };
-    }
-
-    if (modules && modules.length > 0) {
-      const invalidModules = modules.filter(
-        (m) => !m || !SUMMARY_MODULES.includes(m as (typeof SUMMARY_MODULES)[number]),
-      );
-      if (invalidModules.length > 0) {
-        return { isValid: false, error: `Invalid modules: ${invalidModules.join(', ')}` };
-      }
-      if (modules.length > 20) {
-        return { isValid: false, error: 'Maximum 20 modules allowed per request' };
-      }
-    }
-
-    return { isValid: true };
-  }
 }
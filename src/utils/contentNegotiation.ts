@@ -0,0 +1,66 @@
+interface MediaRange {
+  type: string;
+  quality: number;
+}
+
+function parseAccept(accept: string): MediaRange[] {
+  return accept
+    .split(',')
+    .map((part) => {
+      const [type, ...params] = part.trim().toLowerCase().split(';');
+      const qParam = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+      const quality = qParam ? Number.parseFloat(qParam.slice(2)) : 1;
+      return { type: type.trim(), quality: Number.isNaN(quality) ? 0 : quality };
+    })
+    .filter((range) => range.type.length > 0);
+}
+
+function matches(range: string, mediaType: string): boolean {
+  if (range === '*/*' || range === mediaType) {
+    return true;
+  }
+  return range.endsWith('/*') && mediaType.startsWith(range.slice(0, -1));
+}
+
+// Pick the supported media type the client prefers. Exact matches beat wildcards at equal quality,
+// and the first supported type is the default when the header is missing or nothing matches.
+export function negotiateMediaType(accept: string | null, supported: string[]): string {
+  if (!accept) {
+    return supported[0];
+  }
+
+  let best: { mediaType: string; quality: number; exact: boolean } | undefined;
+  for (const range of parseAccept(accept).filter((candidate) => candidate.quality > 0)) {
+    for (const mediaType of supported) {
+      if (!matches(range.type, mediaType)) {
+        continue;
+      }
+      const exact = range.type === mediaType;
+      if (!best || range.quality > best.quality || (range.quality === best.quality && exact && !best.exact)) {
+        best = { mediaType, quality: range.quality, exact };
+      }
+    }
+  }
+
+  return best?.mediaType ?? supported[0];
+}
+
+// Pick the content coding for Accept-Encoding among `supported`, listed in server preference order
+// (which breaks ties). An explicit `q=0` refuses a coding even when `*` accepts everything else;
+// without a header, or when nothing supported is acceptable, the body is sent as `identity`.
+export function negotiateEncoding(acceptEncoding: string | null, supported: string[]): string {
+  if (!acceptEncoding) {
+    return 'identity';
+  }
+
+  const ranges = parseAccept(acceptEncoding);
+  let best: { coding: string; quality: number } | undefined;
+  for (const coding of supported) {
+    const range = ranges.find((candidate) => candidate.type === coding) ?? ranges.find(({ type }) => type === '*');
+    if (range && range.quality > 0 && (!best || range.quality > best.quality)) {
+      best = { coding, quality: range.quality };
+    }
+  }
+
+  return best?.coding ?? 'identity';
+}
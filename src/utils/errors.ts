@@ -0,0 +1,154 @@
+// Typed errors thrown by services and handlers, rendered as RFC 9457 problem details.
+// `message` is for the logs and may contain upstream text; `detail` is safe to send to clients.
+export abstract class ApiError extends Error {
+  abstract readonly status: number;
+  abstract readonly type: string;
+  abstract readonly title: string;
+  readonly detail: string;
+
+  protected constructor(message: string, detail: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+    this.detail = detail;
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly status = 400;
+  readonly type = 'urn:stockquotes:problem:validation-error';
+  readonly title = 'Invalid request';
+
+  constructor(detail: string) {
+    super(detail, detail);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  readonly status = 404;
+  readonly type = 'urn:stockquotes:problem:not-found';
+  readonly title = 'Not found';
+
+  constructor(detail: string) {
+    super(detail, detail);
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  readonly status = 401;
+  readonly type = 'urn:stockquotes:problem:unauthorized';
+  readonly title = 'Unauthorized';
+
+  constructor(detail: string) {
+    super(detail, detail);
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  readonly status = 403;
+  readonly type = 'urn:stockquotes:problem:forbidden';
+  readonly title = 'Forbidden';
+
+  constructor(message: string, detail: string) {
+    super(message, detail);
+  }
+}
+
+export class UpstreamError extends ApiError {
+  readonly status: number = 502;
+  readonly type: string = 'urn:stockquotes:problem:upstream-error';
+  readonly title: string = 'Upstream service error';
+  readonly upstream: string;
+
+  constructor(upstream: string, message: string, options?: { cause?: unknown; detail?: string }) {
+    super(message, options?.detail ?? `${upstream} returned an invalid response`, options);
+    this.upstream = upstream;
+  }
+}
+
+export class UpstreamTimeout extends UpstreamError {
+  readonly status = 504;
+  readonly type = 'urn:stockquotes:problem:upstream-timeout';
+  readonly title = 'Upstream service timeout';
+
+  constructor(upstream: string, message: string, options?: { cause?: unknown }) {
+    super(upstream, message, { ...options, detail: `${upstream} is not responding` });
+  }
+}
+
+export class UpstreamRateLimited extends UpstreamError {
+  readonly status = 429;
+  readonly type = 'urn:stockquotes:problem:upstream-rate-limited';
+  readonly title = 'Upstream rate limit exceeded';
+
+  constructor(upstream: string, message: string, options?: { cause?: unknown }) {
+    super(upstream, message, { ...options, detail: `${upstream} rate limit exceeded. Please try again later.` });
+  }
+}
+
+export class ConfigurationError extends ApiError {
+  readonly status = 500;
+  readonly type = 'urn:stockquotes:problem:configuration-error';
+  readonly title = 'Configuration error';
+
+  constructor(message: string) {
+    super(message, 'The service is not configured to handle this request');
+  }
+}
+
+export class RateLimitExceeded extends ApiError {
+  readonly status = 429;
+  readonly type = 'urn:stockquotes:problem:rate-limit-exceeded';
+  readonly title = 'Too many requests';
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super('Rate limit exceeded', 'Rate limit exceeded. Please try again later.');
+    this.retryAfter = retryAfter;
+  }
+}
+
+// An API key has used up its daily or monthly request quota
+export class QuotaExceeded extends ApiError {
+  readonly status = 429;
+  readonly type = 'urn:stockquotes:problem:quota-exceeded';
+  readonly title = 'Quota exceeded';
+  readonly retryAfter: number;
+
+  constructor(period: 'daily' | 'monthly', retryAfter: number) {
+    super(`${period} quota exceeded`, `The ${period} request quota of this API key is used up.`);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The rate limit store is unreachable and the limiter is configured to fail closed
+export class RateLimitUnavailable extends ApiError {
+  readonly status = 503;
+  readonly type = 'urn:stockquotes:problem:rate-limit-unavailable';
+  readonly title = 'Service unavailable';
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, 'Rate limiting is temporarily unavailable. Please try again later.', options);
+  }
+}
+
+// Convert an error raised while calling an upstream API (axios, yahoo-finance2) into a typed error
+export function toUpstreamError(error: unknown, upstream: string): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error && typeof error === 'object') {
+    const errObj = error as Record<string, unknown>;
+    if (errObj.code === 'ECONNABORTED' || errObj.code === 'ETIMEDOUT') {
+      return new UpstreamTimeout(upstream, message, { cause: error });
+    }
+    const response = errObj.response as { status?: number } | undefined;
+    if (errObj.code === 429 || response?.status === 429) {
+      return new UpstreamRateLimited(upstream, message, { cause: error });
+    }
+  }
+
+  return new UpstreamError(upstream, message, { cause: error });
+}
@@ -5,6 +5,22 @@ export function computeETag(payload: unknown): string {
   return `"${digest.slice(0, 32)}"`;
 }
 
+// Compressed representations of a payload are tagged `"<digest>-<coding>"`, as each encoding
+// needs its own strong ETag; they still match the payload they were compressed from
+export function withEncodingSuffix(etag: string, coding: string): string {
+  return `${etag.slice(0, -1)}-${coding}"`;
+}
+
+// The entity tags of an If-None-Match header, e.g. `"a", W/"b"`; `*` is kept as it is. If-None-Match
+// uses the weak comparison, so the W/ prefix is dropped.
+export function parseETags(header: string | null): string[] {
+  return (header ?? '')
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .filter((tag) => tag.length > 0);
+}
+
 export function matchesETag(incomingEtag: string | null, payload: unknown): boolean {
-  return incomingEtag !== null && incomingEtag === computeETag(payload);
+  const etag = computeETag(payload);
+  return parseETags(incomingEtag).some((tag) => tag === '*' || tag.replace(/-(?:br|gzip)"$/, '"') === etag);
 }
@@ -0,0 +1,59 @@
+import { BlockList, isIP } from 'node:net';
+
+// Parse one X-Forwarded-For hop into a bare address. Proxies may append a port (`1.2.3.4:5678`,
+// `[2001:db8::1]:443`), and IPv4 clients reaching a dual-stack socket show up as `::ffff:1.2.3.4`.
+// Returns null for anything that is not an IP address.
+export function parseAddress(value: string): string | null {
+  let address = value.trim();
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(address);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    address = mapped[1];
+  }
+  return isIP(address) === 0 ? null : address.toLowerCase();
+}
+
+function expandIpv6(address: string): number[] {
+  const [head, tail] = address.includes('::') ? address.split('::') : [address, undefined];
+  const parse = (part: string | undefined) => (part ? part.split(':').map((group) => Number.parseInt(group, 16)) : []);
+  const left = parse(head);
+  const right = parse(tail);
+  return [...left, ...new Array<number>(8 - left.length - right.length).fill(0), ...right];
+}
+
+// A single IPv6 host usually controls a whole /64, so rotating addresses inside it must not
+// reset its limits. Returns e.g. `2001:db8:0:1::/64`.
+export function toIpv6Prefix64(address: string): string {
+  return `${expandIpv6(address)
+    .slice(0, 4)
+    .map((group) => group.toString(16))
+    .join(':')}::/64`;
+}
+
+// TRUSTED_PROXIES style list: comma-separated CIDRs or single addresses
+export function createTrustedProxyList(value: string | undefined): BlockList {
+  const list = new BlockList();
+  for (const entry of (value ?? '').split(',').map((part) => part.trim())) {
+    if (!entry) {
+      continue;
+    }
+    const [network, prefixText] = entry.split('/');
+    const family = isIP(network);
+    const prefix = prefixText === undefined ? (family === 6 ? 128 : 32) : Number(prefixText);
+    if (family === 0 || !Number.isInteger(prefix) || prefix < 0 || prefix > (family === 6 ? 128 : 32)) {
+      throw new Error(`Invalid trusted proxy "${entry}". Expected an IP address or CIDR range.`);
+    }
+    list.addSubnet(network, prefix, family === 6 ? 'ipv6' : 'ipv4');
+  }
+  return list;
+}
+
+export function isTrusted(list: BlockList, address: string): boolean {
+  return list.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
@@ -0,0 +1,10 @@
+// FX rates derived from ECB reference rates carry 4-5 significant digits, so anything
+// beyond 10 significant digits in a converted value is floating point noise
+export function roundSignificant(value: number): number {
+  return Number(value.toPrecision(10));
+}
+
+// Rounds to a number of decimals; undefined leaves the value untouched
+export function roundDecimals(value: number, decimals: number | undefined): number {
+  return decimals === undefined ? value : Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
@@ -0,0 +1,71 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getApiKeyRegistry } from '../../src/services/apiKeys';
+import { getRateLimiter } from '../../src/services/rateLimiter';
+
+jest.mock('../../src/services/apiKeys');
+jest.mock('../../src/services/rateLimiter');
+
+const mockRegistry = { getUsage: jest.fn() };
+(getApiKeyRegistry as jest.Mock).mockReturnValue(mockRegistry);
+const mockApiRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockApiRateLimiter);
+
+import { apiKeyUsageHandler } from '../../src/functions/api-key-admin';
+
+describe('apiKeyUsageHandler', () => {
+  const originalEnv = process.env;
+  let mockContext: InvocationContext;
+
+  const mockRequest = (
+    query: Record<string, string> = {},
+    headers: Record<string, string> = { 'x-admin-key': 'secret' },
+  ): HttpRequest =>
+    ({
+      query: {
+        get: (key: string) => query[key] ?? null,
+      },
+      headers: {
+        get: (key: string) => headers[key] || null,
+      },
+    }) as unknown as HttpRequest;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, ADMIN_API_KEY: 'secret' };
+    mockContext = { log: jest.fn(), error: jest.fn() } as unknown as InvocationContext;
+
+    mockApiRateLimiter.getLimit.mockReturnValue(10);
+    mockApiRateLimiter.isAllowed.mockResolvedValue({ allowed: true, remaining: 9, resetTime: Date.now() + 1000 });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should return the usage of every key', async () => {
+    const usage = [{ name: 'frontend', routes: ['*'], usage: {} }];
+    mockRegistry.getUsage.mockResolvedValue(usage);
+
+    const response = await apiKeyUsageHandler(mockRequest(), mockContext);
+
+    expect(mockRegistry.getUsage).toHaveBeenCalledWith(undefined);
+    expect(response.jsonBody).toEqual({ keys: usage });
+    expect(response.headers).toMatchObject({ 'Cache-Control': 'no-store' });
+  });
+
+  it('should return 404 for an unknown key name', async () => {
+    mockRegistry.getUsage.mockResolvedValue([]);
+
+    const response = await apiKeyUsageHandler(mockRequest({ name: 'missing' }), mockContext);
+
+    expect(mockRegistry.getUsage).toHaveBeenCalledWith('missing');
+    expect(response.status).toBe(404);
+  });
+
+  it('should require the admin key', async () => {
+    const response = await apiKeyUsageHandler(mockRequest({}, {}), mockContext);
+
+    expect(response.status).toBe(401);
+    expect(mockRegistry.getUsage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,232 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getServiceContainer } from '../../src/di/container';
+import { encodeSnapshot } from '../../src/services/cache/cacheSnapshot';
+import { getRateLimiter } from '../../src/services/rateLimiter';
+
+jest.mock('../../src/di/container');
+jest.mock('../../src/services/rateLimiter');
+
+const mockGetServiceContainer = getServiceContainer as jest.Mock;
+const mockApiRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockApiRateLimiter);
+
+import {
+  cacheKeysHandler,
+  cachePurgeHandler,
+  cacheSnapshotExportHandler,
+  cacheSnapshotImportHandler,
+  cacheStatsHandler,
+} from '../../src/functions/cache-admin';
+
+describe('cache admin handlers', () => {
+  const originalEnv = process.env;
+  let mockContext: InvocationContext;
+  let mockCacheService: {
+    getStats: jest.Mock;
+    listKeys: jest.Mock;
+    delete: jest.Mock;
+    deleteByPrefix: jest.Mock;
+    deleteNamespace: jest.Mock;
+    exportSnapshot: jest.Mock;
+    importSnapshot: jest.Mock;
+  };
+
+  const mockRequest = (
+    query: Record<string, string> = {},
+    headers: Record<string, string> = { 'x-admin-key': 'secret' },
+    body: Buffer = Buffer.alloc(0),
+  ): HttpRequest => {
+    return {
+      arrayBuffer: async () => body,
+      query: {
+        get: (key: string) => query[key] ?? null,
+      },
+      headers: {
+        get: (key: string) => headers[key] || null,
+      },
+    } as unknown as HttpRequest;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, ADMIN_API_KEY: 'secret' };
+
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+    } as unknown as InvocationContext;
+
+    mockCacheService = {
+      getStats: jest.fn(),
+      listKeys: jest.fn(),
+      delete: jest.fn(),
+      deleteByPrefix: jest.fn(),
+      deleteNamespace: jest.fn(),
+      exportSnapshot: jest.fn(),
+      importSnapshot: jest.fn(),
+    };
+    mockGetServiceContainer.mockReturnValue({ cacheService: mockCacheService });
+
+    mockApiRateLimiter.getLimit.mockReturnValue(10);
+    mockApiRateLimiter.isAllowed.mockReturnValue({
+      allowed: true,
+      remaining: 9,
+      resetTime: Date.now() + 1000,
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('authentication', () => {
+    it('should return 401 problem details without a valid admin key', async () => {
+      const response = await cacheStatsHandler(mockRequest({}, { 'x-admin-key': 'wrong' }), mockContext);
+
+      expect(response.status).toBe(401);
+      expect(response.headers).toMatchObject({ 'Content-Type': 'application/problem+json' });
+      expect(response.jsonBody).toMatchObject({ type: 'urn:stockquotes:problem:unauthorized' });
+      expect(mockCacheService.getStats).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when no admin key is configured', async () => {
+      delete process.env.ADMIN_API_KEY;
+
+      const response = await cachePurgeHandler(mockRequest({ key: 'quotes:AAPL:all' }), mockContext);
+
+      expect(response.status).toBe(500);
+      expect(mockCacheService.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cacheStatsHandler', () => {
+    it('should return the cache statistics', async () => {
+      const stats = { namespaces: { quotes: { hits: 3 } }, inFlight: { inFlight: 0 } };
+      mockCacheService.getStats.mockResolvedValue(stats);
+
+      const response = await cacheStatsHandler(mockRequest(), mockContext);
+
+      expect(response.jsonBody).toEqual(stats);
+      expect(response.headers).toMatchObject({ 'Cache-Control': 'no-store' });
+    });
+  });
+
+  describe('cacheKeysHandler', () => {
+    it('should list keys under the given prefix', async () => {
+      mockCacheService.listKeys.mockResolvedValue([{ key: 'quotes:AAPL:all' }]);
+
+      const response = await cacheKeysHandler(mockRequest({ prefix: 'quotes:', limit: '10' }), mockContext);
+
+      expect(mockCacheService.listKeys).toHaveBeenCalledWith('quotes:', 10);
+      expect(response.jsonBody).toEqual({ keys: [{ key: 'quotes:AAPL:all' }] });
+    });
+
+    it('should default to every key with a limit of 100', async () => {
+      mockCacheService.listKeys.mockResolvedValue([]);
+
+      await cacheKeysHandler(mockRequest(), mockContext);
+
+      expect(mockCacheService.listKeys).toHaveBeenCalledWith('', 100);
+    });
+
+    it('should reject an invalid limit', async () => {
+      const response = await cacheKeysHandler(mockRequest({ limit: '0' }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(mockCacheService.listKeys).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cachePurgeHandler', () => {
+    it('should purge a single key', async () => {
+      mockCacheService.delete.mockResolvedValue(true);
+
+      const response = await cachePurgeHandler(mockRequest({ key: 'quotes:AAPL:all' }), mockContext);
+
+      expect(mockCacheService.delete).toHaveBeenCalledWith('quotes:AAPL:all');
+      expect(response.jsonBody).toEqual({ purged: 1 });
+    });
+
+    it('should purge by wildcard prefix', async () => {
+      mockCacheService.deleteByPrefix.mockResolvedValue(4);
+
+      const response = await cachePurgeHandler(mockRequest({ prefix: 'hist:*:1d:' }), mockContext);
+
+      expect(mockCacheService.deleteByPrefix).toHaveBeenCalledWith('hist:*:1d:');
+      expect(response.jsonBody).toEqual({ purged: 4 });
+    });
+
+    it('should purge a namespace', async () => {
+      mockCacheService.deleteNamespace.mockResolvedValue(12);
+
+      const response = await cachePurgeHandler(mockRequest({ namespace: 'hist' }), mockContext);
+
+      expect(mockCacheService.deleteNamespace).toHaveBeenCalledWith('hist');
+      expect(response.jsonBody).toEqual({ purged: 12 });
+    });
+
+    it('should reject an unknown namespace', async () => {
+      const response = await cachePurgeHandler(mockRequest({ namespace: 'bogus' }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(response.jsonBody.detail).toContain('Unknown namespace: bogus');
+    });
+
+    it('should require exactly one selector', async () => {
+      const none = await cachePurgeHandler(mockRequest(), mockContext);
+      const both = await cachePurgeHandler(mockRequest({ key: 'a', prefix: 'b' }), mockContext);
+
+      expect(none.status).toBe(400);
+      expect(both.status).toBe(400);
+      expect(mockCacheService.delete).not.toHaveBeenCalled();
+      expect(mockCacheService.deleteByPrefix).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cache snapshots', () => {
+    const snapshot = {
+      format: 'stockquotes-cache-snapshot' as const,
+      version: 1,
+      createdAt: '2024-01-15T12:00:00.000Z',
+      entries: [],
+    };
+
+    it('should export the cache as a gzip download', async () => {
+      mockCacheService.exportSnapshot.mockResolvedValue(snapshot);
+
+      const response = await cacheSnapshotExportHandler(mockRequest(), mockContext);
+
+      expect(response.body).toEqual(await encodeSnapshot(snapshot));
+      expect(response.headers).toMatchObject({
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': 'attachment; filename="cache-snapshot-2024-01-15.json.gz"',
+      });
+    });
+
+    it('should import an uploaded snapshot', async () => {
+      mockCacheService.importSnapshot.mockResolvedValue({ imported: 3, skipped: 1 });
+      const body = await encodeSnapshot(snapshot);
+
+      const response = await cacheSnapshotImportHandler(
+        mockRequest({}, { 'x-admin-key': 'secret' }, body),
+        mockContext,
+      );
+
+      expect(mockCacheService.importSnapshot).toHaveBeenCalledWith(snapshot);
+      expect(response.jsonBody).toEqual({ imported: 3, skipped: 1 });
+    });
+
+    it('should reject a body that is not a snapshot', async () => {
+      const body = Buffer.from('not a snapshot');
+
+      const response = await cacheSnapshotImportHandler(
+        mockRequest({}, { 'x-admin-key': 'secret' }, body),
+        mockContext,
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.jsonBody.detail).toBe('Cache snapshot is not gzipped JSON');
+      expect(mockCacheService.importSnapshot).not.toHaveBeenCalled();
+    });
+  });
+});
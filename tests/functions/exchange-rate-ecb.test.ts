@@ -0,0 +1,179 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getServiceContainer } from '../../src/di/container';
+import { CachePolicies } from '../../src/services/cache/cachePolicy';
+import { getRateLimiter } from '../../src/services/rateLimiter';
+import { NotFoundError, UpstreamTimeout } from '../../src/utils/errors';
+
+// Mock the dependencies
+jest.mock('../../src/di/container');
+jest.mock('../../src/services/rateLimiter');
+
+const mockGetServiceContainer = getServiceContainer as jest.Mock;
+const mockApiRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockApiRateLimiter);
+
+const mockExchangeRateService = {
+  getDailyRates: jest.fn(),
+  getDailyReferenceRates: jest.fn(),
+  getRateSeries: jest.fn(),
+};
+
+mockGetServiceContainer.mockReturnValue({
+  exchangeRateService: mockExchangeRateService,
+  cachePolicies: new CachePolicies(),
+});
+
+import {
+  exchangeRateEcbHandler,
+  exchangeRateEcbHistoryHandler,
+  exchangeRateEcbLatestHandler,
+} from '../../src/functions/exchange-rate-ecb';
+
+describe('exchangeRateEcbHandler', () => {
+  let mockContext: InvocationContext;
+
+  const xml =
+    '<gesmes:Envelope><Cube><Cube time="2023-01-20"><Cube currency="USD" rate="1.0851"/></Cube></Cube></gesmes:Envelope>';
+  const rates = { date: '2023-01-20', base: 'EUR', rates: { USD: 1.0851 } };
+
+  const mockRequest = (headers: Record<string, string> = {}, query: Record<string, string> = {}): HttpRequest => {
+    return {
+      query: {
+        get: (key: string) => query[key] || null,
+      },
+      headers: {
+        get: (key: string) => headers[key] || null,
+      },
+    } as unknown as HttpRequest;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+    } as unknown as InvocationContext;
+
+    mockApiRateLimiter.getLimit.mockReturnValue(10);
+    mockApiRateLimiter.isAllowed.mockReturnValue({
+      allowed: true,
+      remaining: 9,
+      resetTime: Date.now() + 1000,
+    });
+
+    mockExchangeRateService.getDailyRates.mockResolvedValue({ data: xml, contentType: 'application/xml' });
+    mockExchangeRateService.getDailyReferenceRates.mockResolvedValue(rates);
+  });
+
+  it('should return the ECB XML when no Accept header is sent', async () => {
+    const response = await exchangeRateEcbHandler(mockRequest(), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toBe(xml);
+    expect(response.headers).toMatchObject({
+      'Content-Type': 'application/xml',
+      'Access-Control-Allow-Origin': '*',
+      Vary: 'Accept, Accept-Encoding',
+    });
+    expect(mockExchangeRateService.getDailyReferenceRates).not.toHaveBeenCalled();
+  });
+
+  it('should return the ECB XML when XML is requested', async () => {
+    const response = await exchangeRateEcbHandler(
+      mockRequest({ Accept: 'application/json;q=0.5, application/xml' }),
+      mockContext,
+    );
+
+    expect(response.body).toBe(xml);
+  });
+
+  it('should return parsed rates when JSON is requested', async () => {
+    const response = await exchangeRateEcbHandler(mockRequest({ Accept: 'application/json' }), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual(rates);
+    expect(response.headers).toMatchObject({ 'Content-Type': 'application/json', Vary: 'Accept, Accept-Encoding' });
+    expect(mockExchangeRateService.getDailyRates).not.toHaveBeenCalled();
+  });
+
+  it('should render upstream failures as problem details', async () => {
+    mockExchangeRateService.getDailyRates.mockRejectedValue(new UpstreamTimeout('ECB', 'timeout'));
+
+    const response = await exchangeRateEcbHandler(mockRequest(), mockContext);
+
+    expect(response.status).toBe(504);
+    expect(response.headers).toMatchObject({ 'Content-Type': 'application/problem+json' });
+    expect(response.jsonBody).toMatchObject({ detail: 'ECB is not responding' });
+  });
+
+  describe('exchangeRateEcbLatestHandler', () => {
+    it('should always return parsed rates', async () => {
+      const response = await exchangeRateEcbLatestHandler(mockRequest({ Accept: 'application/xml' }), mockContext);
+
+      expect(response.jsonBody).toEqual(rates);
+      expect(response.headers).toMatchObject({ 'Content-Type': 'application/json' });
+    });
+  });
+
+  describe('exchangeRateEcbHistoryHandler', () => {
+    const series = [
+      { date: '2024-03-30', rateDate: '2024-03-28', currency: 'USD', rate: 1.0811, carriedForward: true },
+    ];
+
+    beforeEach(() => {
+      mockExchangeRateService.getRateSeries.mockResolvedValue(series);
+    });
+
+    it('should return the rate series', async () => {
+      const response = await exchangeRateEcbHistoryHandler(
+        mockRequest({}, { currency: 'usd', from: '2024-03-30', to: '2024-03-30' }),
+        mockContext,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.jsonBody).toEqual({
+        base: 'EUR',
+        currency: 'USD',
+        from: '2024-03-30',
+        to: '2024-03-30',
+        rates: series,
+      });
+      expect(mockExchangeRateService.getRateSeries).toHaveBeenCalledWith(
+        'USD',
+        '2024-03-30',
+        '2024-03-30',
+        expect.anything(),
+      );
+    });
+
+    it('should return 400 when currency is missing', async () => {
+      const response = await exchangeRateEcbHistoryHandler(
+        mockRequest({}, { from: '2024-03-30', to: '2024-03-30' }),
+        mockContext,
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.jsonBody).toMatchObject({ detail: 'Missing required parameter: currency' });
+    });
+
+    it('should return 400 when validation fails', async () => {
+      const response = await exchangeRateEcbHistoryHandler(mockRequest({}, { currency: 'USD' }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(response.jsonBody).toMatchObject({ detail: 'Missing required parameter: from' });
+      expect(mockExchangeRateService.getRateSeries).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when no rates are known', async () => {
+      mockExchangeRateService.getRateSeries.mockRejectedValue(new NotFoundError('No ECB reference rates'));
+
+      const response = await exchangeRateEcbHistoryHandler(
+        mockRequest({}, { currency: 'XXX', from: '2024-03-30', to: '2024-03-30' }),
+        mockContext,
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getServiceContainer } from '../../src/di/container';
+import { CachePolicies } from '../../src/services/cache/cachePolicy';
+import type { ExchangeRateService } from '../../src/services/exchangeRateService';
+import { getRateLimiter } from '../../src/services/rateLimiter';
+import { NotFoundError } from '../../src/utils/errors';
+
+// Mock the dependencies
+jest.mock('../../src/di/container');
+jest.mock('../../src/services/rateLimiter');
+
+const mockGetServiceContainer = getServiceContainer as jest.Mock;
+const mockApiRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockApiRateLimiter);
+
+import { exchangeRateHandler } from '../../src/functions/exchange-rate';
+
+describe('exchangeRateHandler', () => {
+  let mockContext: InvocationContext;
+  let mockExchangeRateService: jest.Mocked<ExchangeRateService>;
+
+  const conversion = {
+    from: 'USD',
+    to: 'CHF',
+    amount: 1000,
+    rate: 0.8822,
+    inverseRate: 1.133530945,
+    convertedAmount: 882.2,
+    date: '2024-03-16',
+    rateDate: '2024-03-15',
+    carriedForward: true,
+  };
+
+  const mockRequest = (query: Record<string, string>): HttpRequest => {
+    return {
+      query: {
+        get: (key: string) => query[key] || null,
+      },
+      headers: {
+        get: () => null,
+      },
+    } as unknown as HttpRequest;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockContext = {
+      log: jest.fn(),
+      error: jest.fn(),
+    } as unknown as InvocationContext;
+
+    mockExchangeRateService = {
+      convert: jest.fn().mockResolvedValue(conversion),
+    } as unknown as jest.Mocked<ExchangeRateService>;
+
+    mockGetServiceContainer.mockReturnValue({
+      exchangeRateService: mockExchangeRateService,
+      cachePolicies: new CachePolicies(),
+    });
+
+    mockApiRateLimiter.getLimit.mockReturnValue(10);
+    mockApiRateLimiter.isAllowed.mockReturnValue({
+      allowed: true,
+      remaining: 9,
+      resetTime: Date.now() + 1000,
+    });
+  });
+
+  it('should return the conversion', async () => {
+    const response = await exchangeRateHandler(
+      mockRequest({ from: 'usd', to: 'chf', date: '2024-03-16', amount: '1000' }),
+      mockContext,
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual(conversion);
+    expect(response.headers).toMatchObject({ 'Content-Type': 'application/json', 'Cache-Control': 'max-age=3600' });
+    expect(mockExchangeRateService.convert).toHaveBeenCalledWith('USD', 'CHF', 1000, '2024-03-16', expect.anything());
+  });
+
+  it('should default to an amount of 1 and the latest rates', async () => {
+    await exchangeRateHandler(mockRequest({ from: 'USD', to: 'CHF' }), mockContext);
+
+    expect(mockExchangeRateService.convert).toHaveBeenCalledWith('USD', 'CHF', 1, undefined, expect.anything());
+  });
+
+  it('should return 400 when from or to is missing', async () => {
+    const response = await exchangeRateHandler(mockRequest({ from: 'USD' }), mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody).toMatchObject({ detail: 'Missing required parameter: to' });
+  });
+
+  it.each(['abc', '-5', 'Infinity'])('should return 400 for amount %p', async (amount) => {
+    const response = await exchangeRateHandler(mockRequest({ from: 'USD', to: 'CHF', amount }), mockContext);
+
+    expect(response.status).toBe(400);
+    expect(mockExchangeRateService.convert).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when validation fails', async () => {
+    const response = await exchangeRateHandler(mockRequest({ from: 'USD', to: 'CHF', date: 'x' }), mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody).toMatchObject({
+      detail: 'Invalid parameter: date must be a date in yyyy-MM-dd format, not in the future',
+    });
+  });
+
+  it('should return 404 for currencies the ECB does not publish', async () => {
+    mockExchangeRateService.convert.mockRejectedValue(new NotFoundError('No ECB reference rate for XXX'));
+
+    const response = await exchangeRateHandler(mockRequest({ from: 'USD', to: 'XXX' }), mockContext);
+
+    expect(response.status).toBe(404);
+    expect(response.headers).toMatchObject({ 'Content-Type': 'application/problem+json' });
+  });
+});
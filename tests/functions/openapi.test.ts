@@ -0,0 +1,44 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getRateLimiter } from '../../src/services/rateLimiter';
+
+jest.mock('../../src/services/rateLimiter');
+
+const mockApiRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockApiRateLimiter);
+
+import { openApiHandler } from '../../src/functions/openapi';
+
+describe('openApiHandler', () => {
+  const mockContext = { log: jest.fn(), error: jest.fn() } as unknown as InvocationContext;
+
+  const mockRequest = (headers: Record<string, string> = {}): HttpRequest => {
+    return {
+      method: 'GET',
+      query: { get: () => null },
+      headers: { get: (key: string) => headers[key.toLowerCase()] || null },
+    } as unknown as HttpRequest;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockApiRateLimiter.isAllowed.mockReturnValue({ allowed: true, remaining: 59, resetTime: Date.now() + 60000 });
+    mockApiRateLimiter.getLimit.mockReturnValue(60);
+  });
+
+  it('should serve the OpenAPI document', async () => {
+    const response = await openApiHandler(mockRequest(), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ openapi: '3.1.0' });
+    expect(response.headers).toMatchObject({ 'Cache-Control': 'public, max-age=3600' });
+  });
+
+  it('should answer 304 when the ETag matches', async () => {
+    const first = await openApiHandler(mockRequest(), mockContext);
+    const etag = (first.headers as Record<string, string>)['ETag'];
+
+    const response = await openApiHandler(mockRequest({ 'if-none-match': etag }), mockContext);
+
+    expect(response.status).toBe(304);
+  });
+});
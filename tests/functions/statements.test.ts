@@ -1,16 +1,20 @@
-import { statementsHandler } from '../../src/functions/statements';
 import type { HttpRequest, InvocationContext } from '@azure/functions';
 import { getServiceContainer } from '../../src/di/container';
+import { CachePolicies } from '../../src/services/cache/cachePolicy';
 import type { AlphaVantageService } from '../../src/services/alphaVantageService';
 import type { CacheService } from '../../src/services/cacheService';
-import { apiRateLimiter } from '../../src/services/rateLimiter';
+import { getRateLimiter } from '../../src/services/rateLimiter';
+import { ConfigurationError, UpstreamError, UpstreamRateLimited, UpstreamTimeout } from '../../src/utils/errors';
 
 // Mock the dependencies
 jest.mock('../../src/di/container');
 jest.mock('../../src/services/rateLimiter');
 
 const mockGetServiceContainer = getServiceContainer as jest.Mock;
-const mockApiRateLimiter = apiRateLimiter as unknown as { isAllowed: jest.Mock; getMaxRequests: jest.Mock };
+const mockApiRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockApiRateLimiter);
+
+import { statementsHandler } from '../../src/functions/statements';
 
 describe('statementsHandler', () => {
   let mockContext: InvocationContext;
@@ -38,7 +42,6 @@ describe('statementsHandler', () => {
 
     mockAlphaVantageService = {
       getFinancialStatements: jest.fn(),
-      validateTicker: jest.fn(),
     } as unknown as jest.Mocked<AlphaVantageService>;
 
     mockCacheService = {
@@ -52,9 +55,10 @@ describe('statementsHandler', () => {
     mockGetServiceContainer.mockReturnValue({
       alphaVantageService: mockAlphaVantageService,
       cacheService: mockCacheService,
+      cachePolicies: new CachePolicies(),
     });
 
-    mockApiRateLimiter.getMaxRequests.mockReturnValue(10);
+    mockApiRateLimiter.getLimit.mockReturnValue(10);
     mockApiRateLimiter.isAllowed.mockReturnValue({
       allowed: true,
       remaining: 9,
@@ -87,7 +91,6 @@ describe('statementsHandler', () => {
     };
 
     it('should return financial statements for valid ticker', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue(mockFinancialStatements);
 
       const request = mockRequest({ ticker: 'IBM' }, { 'x-forwarded-for': '127.0.0.1' });
@@ -107,7 +110,6 @@ describe('statementsHandler', () => {
 
     it('should return cache hit status when data is cached', async () => {
       const cachedResponse = { ...mockFinancialStatements, cacheStatus: 'HIT' as const };
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue(cachedResponse);
 
       const request = mockRequest({ ticker: 'IBM' });
@@ -120,7 +122,6 @@ describe('statementsHandler', () => {
     });
 
     it('should include rate limit headers in response', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue(mockFinancialStatements);
 
       mockApiRateLimiter.isAllowed.mockReturnValue({
@@ -140,7 +141,6 @@ describe('statementsHandler', () => {
     });
 
     it('should set appropriate cache headers', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue(mockFinancialStatements);
 
       const request = mockRequest({ ticker: 'IBM' });
@@ -159,6 +159,7 @@ describe('statementsHandler', () => {
         allowed: false,
         remaining: 0,
         resetTime: Date.now() + 60000,
+        retryAfterMs: 60000,
       });
 
       const request = mockRequest({ ticker: 'IBM' }, { 'x-forwarded-for': '127.0.0.1' });
@@ -166,20 +167,19 @@ describe('statementsHandler', () => {
 
       expect(response.status).toBe(429);
       expect(response.jsonBody).toMatchObject({
-        error: 'Too many requests',
-        message: 'Rate limit exceeded. Please try again later.',
+        title: 'Too many requests',
+        detail: 'Rate limit exceeded. Please try again later.',
       });
       expect(response.headers).toHaveProperty('Retry-After');
     });
 
-    it('should use x-real-ip header when x-forwarded-for is not present', async () => {
+    it('should not trust an x-real-ip header sent without a trusted proxy', async () => {
       mockApiRateLimiter.isAllowed.mockReturnValue({
         allowed: true,
         remaining: 99,
         resetTime: Date.now() + 60000,
       });
 
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -190,17 +190,16 @@ describe('statementsHandler', () => {
       const request = mockRequest({ ticker: 'IBM' }, { 'x-real-ip': '192.168.1.1' });
       await statementsHandler(request, mockContext);
 
-      expect(mockApiRateLimiter.isAllowed).toHaveBeenCalledWith('192.168.1.1');
+      expect(mockApiRateLimiter.isAllowed).toHaveBeenCalledWith('unidentified', expect.anything(), 1);
     });
 
-    it('should use "unknown" when no IP headers are present', async () => {
+    it('should use the unidentified bucket when no IP headers are present', async () => {
       mockApiRateLimiter.isAllowed.mockReturnValue({
         allowed: true,
         remaining: 99,
         resetTime: Date.now() + 60000,
       });
 
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -211,7 +210,7 @@ describe('statementsHandler', () => {
       const request = mockRequest({ ticker: 'IBM' }, {});
       await statementsHandler(request, mockContext);
 
-      expect(mockApiRateLimiter.isAllowed).toHaveBeenCalledWith('unknown');
+      expect(mockApiRateLimiter.isAllowed).toHaveBeenCalledWith('unidentified', expect.anything(), 1);
     });
   });
 
@@ -222,23 +221,19 @@ describe('statementsHandler', () => {
 
       expect(response.status).toBe(400);
       expect(response.jsonBody).toMatchObject({
-        error: 'Missing required parameter: ticker',
+        status: 400,
+        detail: expect.stringContaining('Missing required parameter: ticker'),
       });
     });
 
     it('should return 400 when ticker is invalid', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({
-        isValid: false,
-        error: 'Invalid ticker format',
-      });
-
       const request = mockRequest({ ticker: 'INVALID@TICKER' });
       const response = await statementsHandler(request, mockContext);
 
       expect(response.status).toBe(400);
       expect(response.jsonBody).toMatchObject({
-        error: 'Invalid ticker parameter',
-        message: 'Invalid ticker format',
+        status: 400,
+        detail: 'Invalid parameter: ticker must be 1-10 letters, digits or dots',
       });
     });
 
@@ -254,9 +249,8 @@ describe('statementsHandler', () => {
 
   describe('error handling', () => {
     it('should handle Alpha Vantage rate limit errors', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockRejectedValue(
-        new Error('Alpha Vantage API rate limit reached'),
+        new UpstreamRateLimited('Alpha Vantage', 'Alpha Vantage API rate limit reached'),
       );
 
       const request = mockRequest({ ticker: 'IBM' });
@@ -264,14 +258,13 @@ describe('statementsHandler', () => {
 
       expect(response.status).toBe(429);
       expect(response.jsonBody).toMatchObject({
-        error: 'API rate limit exceeded',
+        title: 'Upstream rate limit exceeded',
       });
     });
 
     it('should handle missing API key configuration', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockRejectedValue(
-        new Error('ALPHAVANTAGE_API_KEY environment variable is not set'),
+        new ConfigurationError('ALPHAVANTAGE_API_KEY environment variable is not set'),
       );
 
       const request = mockRequest({ ticker: 'IBM' });
@@ -279,48 +272,27 @@ describe('statementsHandler', () => {
 
       expect(response.status).toBe(500);
       expect(response.jsonBody).toMatchObject({
-        error: 'Configuration error',
+        title: 'Configuration error',
       });
+      expect(JSON.stringify(response.jsonBody)).not.toContain('ALPHAVANTAGE_API_KEY');
     });
 
     it('should handle timeout errors', async () => {
-      const error = new Error('Timeout') as Error & { code: string };
-      error.code = 'ETIMEDOUT';
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
+      const error = new UpstreamTimeout('Alpha Vantage', 'Timeout fetching INCOME_STATEMENT for IBM');
       mockAlphaVantageService.getFinancialStatements.mockRejectedValue(error);
 
       const request = mockRequest({ ticker: 'IBM' });
       const response = await statementsHandler(request, mockContext);
 
-      expect(response.status).toBe(408);
+      expect(response.status).toBe(504);
       expect(response.jsonBody).toMatchObject({
-        error: 'Request timeout',
+        title: 'Upstream service timeout',
+        detail: 'Alpha Vantage is not responding',
       });
     });
 
-    it('should handle ECONNABORTED timeout errors', async () => {
-      const error = new Error('Connection aborted') as Error & { code: string };
-      error.code = 'ECONNABORTED';
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
-      mockAlphaVantageService.getFinancialStatements.mockRejectedValue(error);
-
-      const request = mockRequest({ ticker: 'IBM' });
-      const response = await statementsHandler(request, mockContext);
-
-      expect(response.status).toBe(408);
-      expect(response.jsonBody).toMatchObject({
-        error: 'Request timeout',
-      });
-    });
-
-    it('should handle generic errors with response property', async () => {
-      const error = {
-        response: {
-          status: 502,
-          statusText: 'Bad Gateway',
-        },
-      };
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
+    it('should not leak upstream error messages', async () => {
+      const error = new UpstreamError('Alpha Vantage', 'Alpha Vantage API error: Invalid API key abc123');
       mockAlphaVantageService.getFinancialStatements.mockRejectedValue(error);
 
       const request = mockRequest({ ticker: 'IBM' });
@@ -328,12 +300,13 @@ describe('statementsHandler', () => {
 
       expect(response.status).toBe(502);
       expect(response.jsonBody).toMatchObject({
-        error: 'External API error',
+        title: 'Upstream service error',
+        detail: 'Alpha Vantage returned an invalid response',
       });
+      expect(JSON.stringify(response.jsonBody)).not.toContain('abc123');
     });
 
     it('should handle unexpected errors', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockRejectedValue(new Error('Unexpected error'));
 
       const request = mockRequest({ ticker: 'IBM' });
@@ -341,12 +314,11 @@ describe('statementsHandler', () => {
 
       expect(response.status).toBe(500);
       expect(response.jsonBody).toMatchObject({
-        error: 'Internal server error',
+        title: 'Internal server error',
       });
     });
 
     it('should handle non-Error exceptions', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockRejectedValue('String error');
 
       const request = mockRequest({ ticker: 'IBM' });
@@ -354,25 +326,26 @@ describe('statementsHandler', () => {
 
       expect(response.status).toBe(500);
       expect(response.jsonBody).toMatchObject({
-        error: 'Internal server error',
+        title: 'Internal server error',
       });
     });
 
     it('should log errors', async () => {
       const error = new Error('Test error');
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockRejectedValue(error);
 
       const request = mockRequest({ ticker: 'IBM' });
       await statementsHandler(request, mockContext);
 
-      expect(mockContext.error).toHaveBeenCalledWith('Error in statementsHandler:', error);
+      expect(mockContext.error).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[[0-9a-f-]{36}\] Error in statementsHandler:$/),
+        error,
+      );
     });
   });
 
   describe('ticker normalization', () => {
     it('should handle lowercase ticker', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -386,10 +359,10 @@ describe('statementsHandler', () => {
       // The service should receive the ticker (normalization happens in service)
       expect(mockAlphaVantageService.getFinancialStatements).toHaveBeenCalledWith(
         'ibm',
-        null,
         undefined,
         undefined,
-        mockContext,
+        undefined,
+        expect.anything(),
       );
     });
   });
@@ -401,19 +374,16 @@ describe('statementsHandler', () => {
       ['too large', '101'],
       ['non-numeric', 'abc'],
     ])('should return 400 for invalid limitStatements (%s)', async (_description, limitStatements) => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
-
       const request = mockRequest({ ticker: 'IBM', limitStatements });
       const response = await statementsHandler(request, mockContext);
 
       expect(response.status).toBe(400);
       expect(response.jsonBody).toMatchObject({
-        error: 'Invalid parameter: limitStatements',
+        detail: expect.stringContaining('Invalid parameter: limitStatements'),
       });
     });
 
     it('should pass limitStatements to service when valid', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -426,15 +396,14 @@ describe('statementsHandler', () => {
 
       expect(mockAlphaVantageService.getFinancialStatements).toHaveBeenCalledWith(
         'IBM',
-        null,
+        undefined,
         4,
         undefined,
-        mockContext,
+        expect.anything(),
       );
     });
 
     it('should work with both period and limitStatements', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -450,14 +419,13 @@ describe('statementsHandler', () => {
         'yearly',
         4,
         undefined,
-        mockContext,
+        expect.anything(),
       );
     });
   });
 
   describe('fields parameter', () => {
     it('should pass fields to service when provided', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -470,15 +438,14 @@ describe('statementsHandler', () => {
 
       expect(mockAlphaVantageService.getFinancialStatements).toHaveBeenCalledWith(
         'IBM',
-        null,
+        undefined,
         undefined,
         ['incomeStatement.grossProfit', 'balanceSheet.totalAssets'],
-        mockContext,
+        expect.anything(),
       );
     });
 
     it('should pass empty fields array when fields param is empty string', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -491,15 +458,14 @@ describe('statementsHandler', () => {
 
       expect(mockAlphaVantageService.getFinancialStatements).toHaveBeenCalledWith(
         'IBM',
-        null,
         undefined,
         undefined,
-        mockContext,
+        undefined,
+        expect.anything(),
       );
     });
 
     it('should work with fields and other parameters together', async () => {
-      mockAlphaVantageService.validateTicker.mockReturnValue({ isValid: true });
       mockAlphaVantageService.getFinancialStatements.mockResolvedValue({
         symbol: 'IBM',
         annualReports: [],
@@ -520,7 +486,7 @@ describe('statementsHandler', () => {
         'yearly',
         5,
         ['incomeStatement.totalRevenue', 'balanceSheet.totalAssets', 'cashFlow.operatingCashflow'],
-        mockContext,
+        expect.anything(),
       );
     });
   });
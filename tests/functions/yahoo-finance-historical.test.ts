@@ -1,10 +1,11 @@
-import { yahooFinanceHistoricalHandler } from '../../src/functions/yahoo-finance-historical';
 import type { HttpRequest, InvocationContext } from '@azure/functions';
 import { getServiceContainer } from '../../src/di/container';
+import { CachePolicies } from '../../src/services/cache/cachePolicy';
 import type { YahooFinanceService } from '../../src/services/yahooFinanceService';
-import { strictRateLimiter } from '../../src/services/rateLimiter';
+import { getRateLimiter } from '../../src/services/rateLimiter';
 import { cacheService } from '../../src/services/cacheService';
 import { computeETag } from '../../src/utils/etag';
+import { UpstreamRateLimited } from '../../src/utils/errors';
 
 // Mock the dependencies
 jest.mock('../../src/di/container');
@@ -12,12 +13,16 @@ jest.mock('../../src/services/rateLimiter');
 jest.mock('../../src/services/cacheService');
 
 const mockGetServiceContainer = getServiceContainer as jest.Mock;
-const mockStrictRateLimiter = strictRateLimiter as unknown as { isAllowed: jest.Mock; getMaxRequests: jest.Mock };
-const mockCacheService = cacheService as unknown as { get: jest.Mock; set: jest.Mock };
+const mockStrictRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockStrictRateLimiter);
+const mockCacheService = cacheService as unknown as { getOrLoad: jest.Mock };
+
+import { yahooFinanceHistoricalHandler } from '../../src/functions/yahoo-finance-historical';
 
 describe('yahooFinanceHistoricalHandler', () => {
   let mockContext: InvocationContext;
   let mockYahooFinanceService: jest.Mocked<YahooFinanceService>;
+  let mockCurrencyConversionService: { convertHistorical: jest.Mock };
 
   const mockRequest = (query: Record<string, string>, headers: Record<string, string> = {}): HttpRequest => {
     return {
@@ -40,27 +45,34 @@ describe('yahooFinanceHistoricalHandler', () => {
 
     mockYahooFinanceService = {
       getHistoricalData: jest.fn(),
-      validateHistoricalRequest: jest.fn(),
     } as unknown as jest.Mocked<YahooFinanceService>;
 
+    mockCurrencyConversionService = {
+      convertHistorical: jest.fn(),
+    };
+
     mockGetServiceContainer.mockReturnValue({
       yahooFinanceService: mockYahooFinanceService,
+      currencyConversionService: mockCurrencyConversionService,
+      cacheService: mockCacheService,
+      cachePolicies: new CachePolicies(),
     });
 
-    mockStrictRateLimiter.getMaxRequests.mockReturnValue(2);
+    mockStrictRateLimiter.getLimit.mockReturnValue(2);
     mockStrictRateLimiter.isAllowed.mockReturnValue({
       allowed: true,
       remaining: 1,
       resetTime: Date.now() + 1000,
     });
 
-    mockCacheService.get.mockReturnValue(null);
-    mockCacheService.set.mockImplementation(() => {});
+    mockCacheService.getOrLoad.mockImplementation(async (_key: string, loader: () => Promise<unknown>) => ({
+      data: await loader(),
+      status: 'MISS',
+    }));
   });
 
   it('should return historical data for valid parameters', async () => {
     const expectedData = { quotes: [{ date: '2024-01-01', close: 100 }] };
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getHistoricalData.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02', interval: '1w' });
@@ -69,17 +81,16 @@ describe('yahooFinanceHistoricalHandler', () => {
     expect(response.status).toBeUndefined(); // defaults to 200
     expect(response.jsonBody).toEqual(expectedData);
     expect(mockYahooFinanceService.getHistoricalData).toHaveBeenCalledWith(
-      { ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02', interval: '1w' },
-      mockContext,
+      { ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02', interval: '1w', precision: 2 },
+      expect.anything(),
     );
-    expect(mockCacheService.set).toHaveBeenCalled();
+    expect(mockCacheService.getOrLoad).toHaveBeenCalled();
     expect(response.headers).toMatchObject({ 'X-Cache': 'MISS' });
   });
 
   it('should return cached data when available', async () => {
     const cachedData = { quotes: [{ date: '2024-01-01', close: 100 }] };
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
-    mockCacheService.get.mockReturnValue(cachedData);
+    mockCacheService.getOrLoad.mockResolvedValue({ data: cachedData, status: 'HIT' });
 
     const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02' });
     const response = await yahooFinanceHistoricalHandler(request, mockContext);
@@ -91,7 +102,6 @@ describe('yahooFinanceHistoricalHandler', () => {
   });
 
   it('should pass fields to the service if provided', async () => {
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getHistoricalData.mockResolvedValue({ quotes: [] });
 
     const request = mockRequest({
@@ -106,12 +116,11 @@ describe('yahooFinanceHistoricalHandler', () => {
       expect.objectContaining({
         fields: ['close', 'volume'],
       }),
-      mockContext,
+      expect.anything(),
     );
   });
 
   it('should support pipe delimiter for fields', async () => {
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getHistoricalData.mockResolvedValue({ quotes: [] });
 
     const request = mockRequest({
@@ -126,7 +135,7 @@ describe('yahooFinanceHistoricalHandler', () => {
       expect.objectContaining({
         fields: ['open', 'close'],
       }),
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -135,20 +144,29 @@ describe('yahooFinanceHistoricalHandler', () => {
     const response = await yahooFinanceHistoricalHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Missing required parameter: ticker' });
+    expect(response.jsonBody).toMatchObject({ status: 400, detail: 'Missing required parameter: ticker' });
   });
 
   it('should return 400 if validation fails', async () => {
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({
-      isValid: false,
-      error: 'Invalid date format',
+    const request = mockRequest({ ticker: 'AAPL', from: 'invalid', to: '2024-01-02' });
+    const response = await yahooFinanceHistoricalHandler(request, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: 'Invalid parameter: from must be a date in yyyy-MM-dd format',
     });
+    expect(mockYahooFinanceService.getHistoricalData).not.toHaveBeenCalled();
+  });
 
-    const request = mockRequest({ ticker: 'AAPL', from: 'invalid', to: '2024-01-02' });
+  it('should return 400 if the range is too long for the interval', async () => {
+    const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-09', interval: '1m' });
     const response = await yahooFinanceHistoricalHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Invalid date format' });
+    expect(response.jsonBody).toMatchObject({
+      detail: 'Date range exceeds maximum of 7 days for intraday interval "1m"',
+    });
   });
 
   it('should return 429 if rate limit exceeded', async () => {
@@ -156,41 +174,39 @@ describe('yahooFinanceHistoricalHandler', () => {
       allowed: false,
       remaining: 0,
       resetTime: Date.now() + 10000,
+      retryAfterMs: 10000,
     });
 
     const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02' });
     const response = await yahooFinanceHistoricalHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too many requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Too many requests' });
   });
 
   it('should handle service errors', async () => {
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getHistoricalData.mockRejectedValue(new Error('Service failure'));
 
     const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02' });
     const response = await yahooFinanceHistoricalHandler(request, mockContext);
 
     expect(response.status).toBe(500);
-    expect(response.jsonBody).toMatchObject({ error: 'Internal server error' });
+    expect(response.jsonBody).toMatchObject({ title: 'Internal server error' });
   });
 
   it('should return 429 when Yahoo Finance returns Too Many Requests', async () => {
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
-    const tooManyRequestsError = Object.assign(new Error('Too Many Requests'), { code: 429 });
+    const tooManyRequestsError = new UpstreamRateLimited('Yahoo Finance', 'Too Many Requests');
     mockYahooFinanceService.getHistoricalData.mockRejectedValue(tooManyRequestsError);
 
     const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02' });
     const response = await yahooFinanceHistoricalHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too Many Requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream rate limit exceeded' });
   });
 
   it('should return ETag header in response', async () => {
     const expectedData = { quotes: [{ date: '2024-01-01', close: 100 }] };
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getHistoricalData.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02' });
@@ -202,7 +218,6 @@ describe('yahooFinanceHistoricalHandler', () => {
 
   it('should return 304 Not Modified when If-None-Match matches ETag', async () => {
     const expectedData = { quotes: [{ date: '2024-01-01', close: 100 }] };
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getHistoricalData.mockResolvedValue(expectedData);
 
     // Calculate expected ETag from the payload
@@ -222,7 +237,6 @@ describe('yahooFinanceHistoricalHandler', () => {
 
   it('should return fresh data when If-None-Match does not match ETag', async () => {
     const expectedData = { quotes: [{ date: '2024-01-01', close: 100 }] };
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getHistoricalData.mockResolvedValue(expectedData);
 
     const request = mockRequest(
@@ -238,8 +252,7 @@ describe('yahooFinanceHistoricalHandler', () => {
 
   it('should return cached data with ETag when cache hit occurs', async () => {
     const cachedData = { quotes: [{ date: '2024-01-01', close: 100 }] };
-    mockYahooFinanceService.validateHistoricalRequest.mockReturnValue({ isValid: true });
-    mockCacheService.get.mockReturnValue(cachedData);
+    mockCacheService.getOrLoad.mockResolvedValue({ data: cachedData, status: 'HIT' });
 
     const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02' });
     const response = await yahooFinanceHistoricalHandler(request, mockContext);
@@ -249,4 +262,72 @@ describe('yahooFinanceHistoricalHandler', () => {
     expect(response.headers).toHaveProperty('ETag');
     expect((response.headers as Record<string, string>)['ETag']).toMatch(/^"[A-Za-z0-9+/]+={0,2}"$/);
   });
+
+  it('should convert bars into the requested baseCurrency', async () => {
+    const data = { meta: { currency: 'USD' }, quotes: [{ date: '2024-01-02', close: 110 }] };
+    const converted = { ...data, currency: 'EUR', originalCurrency: 'USD', quotes: [{ close: 100, fxRate: 0.909 }] };
+    mockYahooFinanceService.getHistoricalData.mockResolvedValue(data);
+    mockCurrencyConversionService.convertHistorical.mockResolvedValue(converted);
+
+    const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02', baseCurrency: 'EUR' });
+    const response = await yahooFinanceHistoricalHandler(request, mockContext);
+
+    expect(response.jsonBody).toEqual(converted);
+    expect(mockCurrencyConversionService.convertHistorical).toHaveBeenCalledWith(data, 'EUR', 2, expect.anything());
+    expect(mockCacheService.getOrLoad).toHaveBeenCalledWith(expect.any(String), expect.any(Function));
+  });
+
+  it('should convert with the precision resolved for the chart', async () => {
+    const data = { meta: { currency: 'USD', instrumentType: 'CURRENCY' }, quotes: [] };
+    mockYahooFinanceService.getHistoricalData.mockResolvedValue(data);
+    mockCurrencyConversionService.convertHistorical.mockResolvedValue(data);
+
+    const request = mockRequest({
+      ticker: 'EURUSD=X',
+      from: '2024-01-01',
+      to: '2024-01-02',
+      precision: 'auto',
+      baseCurrency: 'EUR',
+    });
+    await yahooFinanceHistoricalHandler(request, mockContext);
+
+    expect(mockCurrencyConversionService.convertHistorical).toHaveBeenCalledWith(data, 'EUR', 4, expect.anything());
+  });
+
+  it('should return 400 for an invalid baseCurrency', async () => {
+    const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02', baseCurrency: 'E1' });
+    const response = await yahooFinanceHistoricalHandler(request, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(mockYahooFinanceService.getHistoricalData).not.toHaveBeenCalled();
+  });
+
+  it('should pass events to the service and include them in the cache key', async () => {
+    mockYahooFinanceService.getHistoricalData.mockResolvedValue({ quotes: [], dividends: [], splits: [] });
+
+    const request = mockRequest({ ticker: 'AAPL', from: '2024-01-01', to: '2024-01-02', events: 'splits,dividends' });
+    await yahooFinanceHistoricalHandler(request, mockContext);
+
+    expect(mockYahooFinanceService.getHistoricalData).toHaveBeenCalledWith(
+      expect.objectContaining({ events: ['splits', 'dividends'] }),
+      expect.anything(),
+    );
+    expect(mockCacheService.getOrLoad).toHaveBeenCalledWith(
+      'hist:AAPL:2024-01-01:2024-01-02:1d:all:dividends,splits:p2',
+      expect.any(Function),
+    );
+  });
+
+  it('should pass precision to the service and include it in the cache key', async () => {
+    mockYahooFinanceService.getHistoricalData.mockResolvedValue({ quotes: [] });
+
+    const request = mockRequest({ ticker: 'EURUSD=X', from: '2024-01-01', to: '2024-01-02', precision: 'raw' });
+    await yahooFinanceHistoricalHandler(request, mockContext);
+
+    expect(mockYahooFinanceService.getHistoricalData).toHaveBeenCalledWith(
+      expect.objectContaining({ precision: 'raw' }),
+      expect.anything(),
+    );
+    expect(mockCacheService.getOrLoad).toHaveBeenCalledWith(expect.stringMatching(/:praw$/), expect.any(Function));
+  });
 });
@@ -1,16 +1,19 @@
 import type { HttpRequest, InvocationContext } from '@azure/functions';
 import { getServiceContainer } from '../../src/di/container';
-import { strictRateLimiter } from '../../src/services/rateLimiter';
+import { CachePolicies } from '../../src/services/cache/cachePolicy';
+import { getRateLimiter } from '../../src/services/rateLimiter';
 import { cacheService } from '../../src/services/cacheService';
 import { computeETag } from '../../src/utils/etag';
+import { UpstreamError, UpstreamRateLimited, UpstreamTimeout } from '../../src/utils/errors';
 
 jest.mock('../../src/di/container');
 jest.mock('../../src/services/rateLimiter');
 jest.mock('../../src/services/cacheService');
 
 const mockGetServiceContainer = getServiceContainer as jest.Mock;
-const mockStrictRateLimiter = strictRateLimiter as unknown as { isAllowed: jest.Mock; getMaxRequests: jest.Mock };
-const mockCacheService = cacheService as unknown as { get: jest.Mock; set: jest.Mock };
+const mockStrictRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockStrictRateLimiter);
+const mockCacheService = cacheService as unknown as { getOrLoad: jest.Mock };
 
 import { yahooFinanceOptionsHandler } from '../../src/functions/yahoo-finance-stock-options';
 
@@ -18,7 +21,6 @@ describe('yahooFinanceOptionsHandler', () => {
   let mockContext: InvocationContext;
   let mockYahooFinanceService: {
     getOptions: jest.Mock;
-    validateOptionsRequest: jest.Mock;
   };
 
   const mockRequest = (query: Record<string, string>, headers: Record<string, string> = {}): HttpRequest => {
@@ -42,22 +44,25 @@ describe('yahooFinanceOptionsHandler', () => {
 
     mockYahooFinanceService = {
       getOptions: jest.fn(),
-      validateOptionsRequest: jest.fn(),
     };
 
     mockGetServiceContainer.mockReturnValue({
       yahooFinanceService: mockYahooFinanceService,
+      cacheService: mockCacheService,
+      cachePolicies: new CachePolicies(),
     });
 
-    mockStrictRateLimiter.getMaxRequests.mockReturnValue(2);
+    mockStrictRateLimiter.getLimit.mockReturnValue(2);
     mockStrictRateLimiter.isAllowed.mockReturnValue({
       allowed: true,
       remaining: 1,
       resetTime: Date.now() + 1000,
     });
 
-    mockCacheService.get.mockReturnValue(null);
-    mockCacheService.set.mockImplementation(() => {});
+    mockCacheService.getOrLoad.mockImplementation(async (_key: string, loader: () => Promise<unknown>) => ({
+      data: await loader(),
+      status: 'MISS',
+    }));
   });
 
   it('should return options data for valid ticker', async () => {
@@ -68,7 +73,6 @@ describe('yahooFinanceOptionsHandler', () => {
       calls: [],
       puts: [],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL' });
@@ -83,7 +87,7 @@ describe('yahooFinanceOptionsHandler', () => {
         filter: undefined,
         limit: undefined,
       },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -97,23 +101,15 @@ describe('yahooFinanceOptionsHandler', () => {
         { expirationDate: new Date('2025-03-28'), calls: [], puts: [] },
       ],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', expirationDatesCount: '2' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateOptionsRequest).toHaveBeenCalledWith(
-      'AAPL',
-      undefined,
-      2,
-      undefined,
-      undefined,
-    );
     expect(mockYahooFinanceService.getOptions).toHaveBeenCalledWith(
       { ticker: 'AAPL', expirationDate: undefined, expirationDatesCount: 2, filter: undefined, limit: undefined },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -124,20 +120,12 @@ describe('yahooFinanceOptionsHandler', () => {
       strikes: [150, 155, 160],
       options: [{ expirationDate: new Date('2025-03-21'), calls: [{ strike: 150 }] }],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', filter: 'calls' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateOptionsRequest).toHaveBeenCalledWith(
-      'AAPL',
-      undefined,
-      undefined,
-      ['calls'],
-      undefined,
-    );
     expect(mockYahooFinanceService.getOptions).toHaveBeenCalledWith(
       {
         ticker: 'AAPL',
@@ -146,7 +134,7 @@ describe('yahooFinanceOptionsHandler', () => {
         filter: ['calls'],
         limit: undefined,
       },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -157,20 +145,12 @@ describe('yahooFinanceOptionsHandler', () => {
       strikes: [150, 155, 160],
       options: [{ expirationDate: new Date('2025-03-21'), puts: [{ strike: 150 }] }],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', filter: 'puts' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateOptionsRequest).toHaveBeenCalledWith(
-      'AAPL',
-      undefined,
-      undefined,
-      ['puts'],
-      undefined,
-    );
     expect(mockYahooFinanceService.getOptions).toHaveBeenCalledWith(
       {
         ticker: 'AAPL',
@@ -179,7 +159,7 @@ describe('yahooFinanceOptionsHandler', () => {
         filter: ['puts'],
         limit: undefined,
       },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -190,20 +170,12 @@ describe('yahooFinanceOptionsHandler', () => {
       strikes: [150, 155, 160],
       options: [{ expirationDate: new Date('2025-03-21'), calls: [{ strike: 150 }], puts: [{ strike: 150 }] }],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', filter: 'calls,puts' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateOptionsRequest).toHaveBeenCalledWith(
-      'AAPL',
-      undefined,
-      undefined,
-      ['calls', 'puts'],
-      undefined,
-    );
     expect(mockYahooFinanceService.getOptions).toHaveBeenCalledWith(
       {
         ticker: 'AAPL',
@@ -212,21 +184,19 @@ describe('yahooFinanceOptionsHandler', () => {
         filter: ['calls', 'puts'],
         limit: undefined,
       },
-      mockContext,
+      expect.anything(),
     );
   });
 
   it('should return 400 for invalid filter values', async () => {
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({
-      isValid: false,
-      error: 'Invalid filter values: invalid. Valid values are: calls, puts',
-    });
-
     const request = mockRequest({ ticker: 'AAPL', filter: 'invalid' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Invalid filter values: invalid. Valid values are: calls, puts' });
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: 'Invalid parameter: filter contains "invalid"; each value must be one of: calls, puts',
+    });
   });
 
   it('should return options data with expiration date', async () => {
@@ -237,7 +207,6 @@ describe('yahooFinanceOptionsHandler', () => {
       calls: [],
       puts: [],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', expirationDate: '2025-03-21' });
@@ -252,7 +221,7 @@ describe('yahooFinanceOptionsHandler', () => {
         filter: undefined,
         limit: undefined,
       },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -264,23 +233,15 @@ describe('yahooFinanceOptionsHandler', () => {
       quote: { regularMarketPrice: 155 },
       options: [{ expirationDate: new Date('2025-03-21'), calls: [{ strike: 160 }], puts: [{ strike: 150 }] }],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', limit: '4' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateOptionsRequest).toHaveBeenCalledWith(
-      'AAPL',
-      undefined,
-      undefined,
-      undefined,
-      4,
-    );
     expect(mockYahooFinanceService.getOptions).toHaveBeenCalledWith(
       { ticker: 'AAPL', expirationDate: undefined, expirationDatesCount: undefined, filter: undefined, limit: 4 },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -292,63 +253,49 @@ describe('yahooFinanceOptionsHandler', () => {
       quote: { regularMarketPrice: 158 },
       options: [{ expirationDate: new Date('2025-03-21'), calls: [{ strike: 160 }, { strike: 165 }] }],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', filter: 'calls', limit: '2' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateOptionsRequest).toHaveBeenCalledWith(
-      'AAPL',
-      undefined,
-      undefined,
-      ['calls'],
-      2,
-    );
     expect(mockYahooFinanceService.getOptions).toHaveBeenCalledWith(
       { ticker: 'AAPL', expirationDate: undefined, expirationDatesCount: undefined, filter: ['calls'], limit: 2 },
-      mockContext,
+      expect.anything(),
     );
   });
 
   it('should return 400 for invalid limit value', async () => {
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({
-      isValid: false,
-      error: 'Limit must be an integer between 1 and 50',
-    });
-
     const request = mockRequest({ ticker: 'AAPL', limit: '100' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Limit must be an integer between 1 and 50' });
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: 'Invalid parameter: limit must be an integer between 1 and 50',
+    });
   });
 
   it('should return 400 for invalid expirationDatesCount value', async () => {
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({
-      isValid: false,
-      error: 'expirationDatesCount must be an integer between 1 and 24',
-    });
-
-    const request = mockRequest({ ticker: 'AAPL', expirationDatesCount: '20' });
+    const request = mockRequest({ ticker: 'AAPL', expirationDatesCount: '25' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'expirationDatesCount must be an integer between 1 and 24' });
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: 'Invalid parameter: expirationDatesCount must be an integer between 1 and 24',
+    });
   });
 
   it('should return 400 if both expirationDate and expirationDatesCount are provided', async () => {
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({
-      isValid: false,
-      error: 'Cannot specify both expirationDate and expirationDatesCount',
-    });
-
     const request = mockRequest({ ticker: 'AAPL', expirationDate: '2025-03-21', expirationDatesCount: '2' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Cannot specify both expirationDate and expirationDatesCount' });
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: 'Cannot specify both expirationDate and expirationDatesCount',
+    });
   });
 
   it('should return 400 if ticker is missing', async () => {
@@ -356,20 +303,18 @@ describe('yahooFinanceOptionsHandler', () => {
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Missing required parameter: ticker' });
+    expect(response.jsonBody).toMatchObject({ status: 400, detail: 'Missing required parameter: ticker' });
   });
 
   it('should return 400 if validation fails', async () => {
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({
-      isValid: false,
-      error: 'Invalid expiration date',
-    });
-
     const request = mockRequest({ ticker: 'AAPL', expirationDate: 'invalid-date' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Invalid expiration date' });
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: 'Invalid parameter: expirationDate must be a date in yyyy-MM-dd format',
+    });
   });
 
   it('should return 429 if rate limit exceeded', async () => {
@@ -377,13 +322,24 @@ describe('yahooFinanceOptionsHandler', () => {
       allowed: false,
       remaining: 0,
       resetTime: Date.now() + 10000,
+      retryAfterMs: 10000,
     });
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too many requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Too many requests' });
+  });
+
+  it('should charge one rate limit token per requested expiration date', async () => {
+    mockYahooFinanceService.getOptions.mockResolvedValue({});
+
+    await yahooFinanceOptionsHandler(mockRequest({ ticker: 'AAPL', expirationDatesCount: '24' }), mockContext);
+    await yahooFinanceOptionsHandler(mockRequest({ ticker: 'AAPL' }), mockContext);
+
+    expect(mockStrictRateLimiter.isAllowed).toHaveBeenNthCalledWith(1, 'unidentified', expect.anything(), 24);
+    expect(mockStrictRateLimiter.isAllowed).toHaveBeenNthCalledWith(2, 'unidentified', expect.anything(), 1);
   });
 
   it('should return cached data on cache hit', async () => {
@@ -394,14 +350,13 @@ describe('yahooFinanceOptionsHandler', () => {
       calls: [],
       puts: [],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
-    mockCacheService.get.mockReturnValue(cachedData);
+    mockCacheService.getOrLoad.mockResolvedValue({ data: cachedData, status: 'HIT' });
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(cachedData);
-    expect(mockCacheService.get).toHaveBeenCalled();
+    expect(mockCacheService.getOrLoad).toHaveBeenCalled();
     expect(mockYahooFinanceService.getOptions).not.toHaveBeenCalled();
   });
 
@@ -413,7 +368,6 @@ describe('yahooFinanceOptionsHandler', () => {
       calls: [],
       puts: [],
     };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockResolvedValue(expectedData);
 
     const etag = computeETag(expectedData);
@@ -426,51 +380,45 @@ describe('yahooFinanceOptionsHandler', () => {
   });
 
   it('should handle service errors', async () => {
-    const apiError = new Error('Service failure') as Error & { response?: { status: number; statusText: string } };
-    apiError.response = { status: 502, statusText: 'Bad Gateway' };
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
+    const apiError = new UpstreamError('Yahoo Finance', 'Bad Gateway');
     mockYahooFinanceService.getOptions.mockRejectedValue(apiError);
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(502);
-    expect(response.jsonBody).toMatchObject({ error: 'External API error' });
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream service error' });
   });
 
   it('should handle timeout errors', async () => {
-    const timeoutError = new Error('Timeout') as Error & { code: string };
-    timeoutError.code = 'ECONNABORTED';
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
+    const timeoutError = new UpstreamTimeout('Yahoo Finance', 'Timeout');
     mockYahooFinanceService.getOptions.mockRejectedValue(timeoutError);
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
-    expect(response.status).toBe(408);
-    expect(response.jsonBody).toMatchObject({ error: 'Request timeout' });
+    expect(response.status).toBe(504);
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream service timeout' });
   });
 
   it('should return 429 when Yahoo Finance returns Too Many Requests', async () => {
-    const tooManyRequestsError = Object.assign(new Error('Too Many Requests'), { code: 429 });
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
+    const tooManyRequestsError = new UpstreamRateLimited('Yahoo Finance', 'Too Many Requests');
     mockYahooFinanceService.getOptions.mockRejectedValue(tooManyRequestsError);
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too Many Requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream rate limit exceeded' });
   });
 
   it('should handle generic errors', async () => {
-    mockYahooFinanceService.validateOptionsRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getOptions.mockRejectedValue(new Error('Unknown error'));
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceOptionsHandler(request, mockContext);
 
     expect(response.status).toBe(500);
-    expect(response.jsonBody).toMatchObject({ error: 'Internal server error' });
+    expect(response.jsonBody).toMatchObject({ title: 'Internal server error' });
   });
 });
@@ -1,16 +1,19 @@
 import type { HttpRequest, InvocationContext } from '@azure/functions';
 import { getServiceContainer } from '../../src/di/container';
-import { apiRateLimiter } from '../../src/services/rateLimiter';
+import { CachePolicies } from '../../src/services/cache/cachePolicy';
+import { getRateLimiter } from '../../src/services/rateLimiter';
 import { cacheService } from '../../src/services/cacheService';
 import { computeETag } from '../../src/utils/etag';
+import { UpstreamError, UpstreamRateLimited, UpstreamTimeout } from '../../src/utils/errors';
 
 jest.mock('../../src/di/container');
 jest.mock('../../src/services/rateLimiter');
 jest.mock('../../src/services/cacheService');
 
 const mockGetServiceContainer = getServiceContainer as jest.Mock;
-const mockApiRateLimiter = apiRateLimiter as unknown as { isAllowed: jest.Mock; getMaxRequests: jest.Mock };
-const mockCacheService = cacheService as unknown as { get: jest.Mock; set: jest.Mock };
+const mockApiRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockApiRateLimiter);
+const mockCacheService = cacheService as unknown as { getOrLoad: jest.Mock };
 
 import { yahooFinanceSummaryHandler } from '../../src/functions/yahoo-finance-summary';
 
@@ -18,8 +21,8 @@ describe('yahooFinanceSummaryHandler', () => {
   let mockContext: InvocationContext;
   let mockYahooFinanceService: {
     getQuoteSummary: jest.Mock;
-    validateSummaryRequest: jest.Mock;
   };
+  let mockCurrencyConversionService: { convertSummary: jest.Mock };
 
   const mockRequest = (query: Record<string, string>, headers: Record<string, string> = {}): HttpRequest => {
     return {
@@ -42,22 +45,30 @@ describe('yahooFinanceSummaryHandler', () => {
 
     mockYahooFinanceService = {
       getQuoteSummary: jest.fn(),
-      validateSummaryRequest: jest.fn(),
+    };
+
+    mockCurrencyConversionService = {
+      convertSummary: jest.fn(),
     };
 
     mockGetServiceContainer.mockReturnValue({
       yahooFinanceService: mockYahooFinanceService,
+      currencyConversionService: mockCurrencyConversionService,
+      cacheService: mockCacheService,
+      cachePolicies: new CachePolicies(),
     });
 
-    mockApiRateLimiter.getMaxRequests.mockReturnValue(10);
+    mockApiRateLimiter.getLimit.mockReturnValue(10);
     mockApiRateLimiter.isAllowed.mockReturnValue({
       allowed: true,
       remaining: 9,
       resetTime: Date.now() + 1000,
     });
 
-    mockCacheService.get.mockReturnValue(null);
-    mockCacheService.set.mockImplementation(() => {});
+    mockCacheService.getOrLoad.mockImplementation(async (_key: string, loader: () => Promise<unknown>) => ({
+      data: await loader(),
+      status: 'MISS',
+    }));
   });
 
   it('should return summary data for a valid ticker', async () => {
@@ -66,37 +77,31 @@ describe('yahooFinanceSummaryHandler', () => {
       defaultKeyStatistics: { shortPercentOfFloat: 0.01 },
       recommendationTrend: { trend: [] },
     };
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuoteSummary.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateSummaryRequest).toHaveBeenCalledWith('AAPL', undefined);
     expect(mockYahooFinanceService.getQuoteSummary).toHaveBeenCalledWith(
       { ticker: 'AAPL', modules: undefined },
-      mockContext,
+      expect.anything(),
     );
-    expect(mockCacheService.set).toHaveBeenCalledWith('summary:AAPL:default', expectedData, 300000);
+    expect(mockCacheService.getOrLoad).toHaveBeenCalledWith('summary:AAPL:default', expect.any(Function));
+    expect(response.headers).toMatchObject({ 'Cache-Control': 'max-age=300' });
   });
 
   it('should return summary data with requested modules', async () => {
     const expectedData = { financialData: { targetMeanPrice: 200 } };
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuoteSummary.mockResolvedValue(expectedData);
 
     const request = mockRequest({ ticker: 'AAPL', modules: 'financialData,recommendationTrend' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(expectedData);
-    expect(mockYahooFinanceService.validateSummaryRequest).toHaveBeenCalledWith('AAPL', [
-      'financialData',
-      'recommendationTrend',
-    ]);
     expect(mockYahooFinanceService.getQuoteSummary).toHaveBeenCalledWith(
       { ticker: 'AAPL', modules: ['financialData', 'recommendationTrend'] },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -105,20 +110,18 @@ describe('yahooFinanceSummaryHandler', () => {
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Missing required parameter: ticker' });
+    expect(response.jsonBody).toMatchObject({ status: 400, detail: 'Missing required parameter: ticker' });
   });
 
   it('should return 400 if validation fails', async () => {
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({
-      isValid: false,
-      error: 'Invalid modules: bogus',
-    });
-
     const request = mockRequest({ ticker: 'AAPL', modules: 'bogus' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Invalid modules: bogus' });
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: expect.stringContaining('Invalid parameter: modules contains "bogus"; each value must be one of:'),
+    });
   });
 
   it('should return 429 if rate limit exceeded', async () => {
@@ -126,31 +129,30 @@ describe('yahooFinanceSummaryHandler', () => {
       allowed: false,
       remaining: 0,
       resetTime: Date.now() + 10000,
+      retryAfterMs: 10000,
     });
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too many requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Too many requests' });
   });
 
   it('should return cached data on cache hit', async () => {
     const cachedData = { financialData: { targetMeanPrice: 200 } };
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
-    mockCacheService.get.mockReturnValue(cachedData);
+    mockCacheService.getOrLoad.mockResolvedValue({ data: cachedData, status: 'HIT' });
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.jsonBody).toEqual(cachedData);
-    expect(mockCacheService.get).toHaveBeenCalled();
+    expect(mockCacheService.getOrLoad).toHaveBeenCalled();
     expect(mockYahooFinanceService.getQuoteSummary).not.toHaveBeenCalled();
   });
 
   it('should return 304 on ETag match', async () => {
     const expectedData = { financialData: { targetMeanPrice: 200 } };
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuoteSummary.mockResolvedValue(expectedData);
 
     const etag = computeETag(expectedData);
@@ -163,51 +165,77 @@ describe('yahooFinanceSummaryHandler', () => {
   });
 
   it('should handle service errors', async () => {
-    const apiError = new Error('Service failure') as Error & { response?: { status: number; statusText: string } };
-    apiError.response = { status: 502, statusText: 'Bad Gateway' };
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
+    const apiError = new UpstreamError('Yahoo Finance', 'Bad Gateway');
     mockYahooFinanceService.getQuoteSummary.mockRejectedValue(apiError);
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.status).toBe(502);
-    expect(response.jsonBody).toMatchObject({ error: 'External API error' });
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream service error' });
   });
 
   it('should handle timeout errors', async () => {
-    const timeoutError = new Error('Timeout') as Error & { code: string };
-    timeoutError.code = 'ECONNABORTED';
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
+    const timeoutError = new UpstreamTimeout('Yahoo Finance', 'Timeout');
     mockYahooFinanceService.getQuoteSummary.mockRejectedValue(timeoutError);
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
-    expect(response.status).toBe(408);
-    expect(response.jsonBody).toMatchObject({ error: 'Request timeout' });
+    expect(response.status).toBe(504);
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream service timeout' });
   });
 
   it('should return 429 when Yahoo Finance returns Too Many Requests', async () => {
-    const tooManyRequestsError = Object.assign(new Error('Too Many Requests'), { code: 429 });
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
+    const tooManyRequestsError = new UpstreamRateLimited('Yahoo Finance', 'Too Many Requests');
     mockYahooFinanceService.getQuoteSummary.mockRejectedValue(tooManyRequestsError);
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too Many Requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream rate limit exceeded' });
   });
 
   it('should handle generic errors', async () => {
-    mockYahooFinanceService.validateSummaryRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuoteSummary.mockRejectedValue(new Error('Unknown error'));
 
     const request = mockRequest({ ticker: 'AAPL' });
     const response = await yahooFinanceSummaryHandler(request, mockContext);
 
     expect(response.status).toBe(500);
-    expect(response.jsonBody).toMatchObject({ error: 'Internal server error' });
+    expect(response.jsonBody).toMatchObject({ title: 'Internal server error' });
+  });
+
+  it('should convert the summary into the requested baseCurrency', async () => {
+    const data = { price: { currency: 'USD', regularMarketPrice: 110 } };
+    const converted = { price: { currency: 'EUR', regularMarketPrice: 100 }, currency: 'EUR', fxRate: 0.909 };
+    mockYahooFinanceService.getQuoteSummary.mockResolvedValue(data);
+    mockCurrencyConversionService.convertSummary.mockResolvedValue(converted);
+
+    const request = mockRequest({ ticker: 'AAPL', baseCurrency: 'EUR' });
+    const response = await yahooFinanceSummaryHandler(request, mockContext);
+
+    expect(response.jsonBody).toEqual(converted);
+    expect(mockYahooFinanceService.getQuoteSummary).toHaveBeenCalledWith(
+      { ticker: 'AAPL', modules: ['financialData', 'defaultKeyStatistics', 'recommendationTrend', 'price'] },
+      expect.anything(),
+    );
+    expect(mockCurrencyConversionService.convertSummary).toHaveBeenCalledWith(data, 'EUR', expect.anything());
+  });
+
+  it('should not add the price module twice', async () => {
+    mockYahooFinanceService.getQuoteSummary.mockResolvedValue({});
+    mockCurrencyConversionService.convertSummary.mockResolvedValue({});
+
+    await yahooFinanceSummaryHandler(
+      mockRequest({ ticker: 'AAPL', modules: 'price', baseCurrency: 'EUR' }),
+      mockContext,
+    );
+
+    expect(mockYahooFinanceService.getQuoteSummary).toHaveBeenCalledWith(
+      { ticker: 'AAPL', modules: ['price'] },
+      expect.anything(),
+    );
   });
 });
@@ -1,8 +1,10 @@
 import type { HttpRequest, InvocationContext } from '@azure/functions';
 import { getServiceContainer } from '../../src/di/container';
-import { strictRateLimiter } from '../../src/services/rateLimiter';
+import { CachePolicies } from '../../src/services/cache/cachePolicy';
+import { getRateLimiter } from '../../src/services/rateLimiter';
 import { cacheService } from '../../src/services/cacheService';
 import { computeETag } from '../../src/utils/etag';
+import { UpstreamError, UpstreamRateLimited, UpstreamTimeout } from '../../src/utils/errors';
 
 // Mock the dependencies
 jest.mock('../../src/di/container');
@@ -10,16 +12,23 @@ jest.mock('../../src/services/rateLimiter');
 jest.mock('../../src/services/cacheService');
 
 const mockGetServiceContainer = getServiceContainer as jest.Mock;
-const mockStrictRateLimiter = strictRateLimiter as unknown as { isAllowed: jest.Mock; getMaxRequests: jest.Mock };
+const mockStrictRateLimiter = { isAllowed: jest.fn(), getLimit: jest.fn() };
+(getRateLimiter as jest.Mock).mockReturnValue(mockStrictRateLimiter);
 const mockCacheService = cacheService as jest.Mocked<typeof cacheService>;
 
 const mockYahooFinanceService = {
   getQuotes: jest.fn(),
-  validateQuoteRequest: jest.fn(),
+};
+
+const mockCurrencyConversionService = {
+  convertQuotes: jest.fn(),
 };
 
 mockGetServiceContainer.mockReturnValue({
   yahooFinanceService: mockYahooFinanceService,
+  currencyConversionService: mockCurrencyConversionService,
+  cacheService: mockCacheService,
+  cachePolicies: new CachePolicies(),
 });
 
 import { yahooFinanceHandler } from '../../src/functions/yahoo-finance';
@@ -46,19 +55,21 @@ describe('yahooFinanceHandler', () => {
       error: jest.fn(),
     } as unknown as InvocationContext;
 
-    mockStrictRateLimiter.getMaxRequests.mockReturnValue(2);
+    mockStrictRateLimiter.getLimit.mockReturnValue(2);
     mockStrictRateLimiter.isAllowed.mockReturnValue({
       allowed: true,
       remaining: 1,
       resetTime: Date.now() + 1000,
     });
 
-    mockCacheService.get.mockReturnValue(null);
+    mockCacheService.getOrLoad.mockImplementation(async (_key: string, loader: () => Promise<unknown>) => ({
+      data: await loader(),
+      status: 'MISS',
+    }));
   });
 
   it('should return quotes for valid parameters including fields', async () => {
     const expectedData = { AAPL: { regularMarketPrice: 150 } };
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuotes.mockResolvedValue(expectedData);
 
     const request = mockRequest({ symbols: 'AAPL', fields: 'regularMarketPrice' });
@@ -67,13 +78,12 @@ describe('yahooFinanceHandler', () => {
     expect(response.jsonBody).toEqual(expectedData);
     expect(mockYahooFinanceService.getQuotes).toHaveBeenCalledWith(
       { symbols: ['AAPL'], fields: ['regularMarketPrice'] },
-      mockContext,
+      expect.anything(),
     );
   });
 
   it('should return quotes when fields are missing (optional fields)', async () => {
     const expectedData = { AAPL: { regularMarketPrice: 150, marketCap: 2e12 } };
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuotes.mockResolvedValue(expectedData);
 
     const request = mockRequest({ symbols: 'AAPL' });
@@ -82,7 +92,7 @@ describe('yahooFinanceHandler', () => {
     expect(response.jsonBody).toEqual(expectedData);
     expect(mockYahooFinanceService.getQuotes).toHaveBeenCalledWith(
       { symbols: ['AAPL'], fields: undefined },
-      mockContext,
+      expect.anything(),
     );
   });
 
@@ -91,20 +101,20 @@ describe('yahooFinanceHandler', () => {
     const response = await yahooFinanceHandler(request, mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Missing required parameter: symbols' });
+    expect(response.headers).toMatchObject({ 'Content-Type': 'application/problem+json' });
+    expect(response.jsonBody).toMatchObject({ status: 400, detail: 'Missing required parameter: symbols' });
   });
 
   it('should return 400 if validation fails', async () => {
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({
-      isValid: false,
-      error: 'Invalid symbols provided',
-    });
-
-    const request = mockRequest({ symbols: 'INVALID' });
-    const response = await yahooFinanceHandler(request, mockContext);
+    const symbols = Array.from({ length: 51 }, (_, index) => `S${index}`).join(',');
+    const response = await yahooFinanceHandler(mockRequest({ symbols }), mockContext);
 
     expect(response.status).toBe(400);
-    expect(response.jsonBody).toEqual({ error: 'Invalid symbols provided' });
+    expect(response.jsonBody).toMatchObject({
+      status: 400,
+      detail: 'Invalid parameter: symbols allows at most 50 values',
+    });
+    expect(mockYahooFinanceService.getQuotes).not.toHaveBeenCalled();
   });
 
   it('should return 429 if rate limit exceeded', async () => {
@@ -112,66 +122,74 @@ describe('yahooFinanceHandler', () => {
       allowed: false,
       remaining: 0,
       resetTime: Date.now() + 10000,
+      retryAfterMs: 10000,
     });
 
     const request = mockRequest({ symbols: 'AAPL' });
     const response = await yahooFinanceHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too many requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Too many requests' });
   });
 
-  it('should handle service errors', async () => {
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
+  it('should charge one rate limit token per started block of 10 symbols', async () => {
+    mockYahooFinanceService.getQuotes.mockResolvedValue([]);
+    const symbols = Array.from({ length: 50 }, (_, index) => `SYM${index}`).join(',');
+
+    await yahooFinanceHandler(mockRequest({ symbols: 'AAPL' }), mockContext);
+    await yahooFinanceHandler(mockRequest({ symbols }), mockContext);
+
+    expect(mockStrictRateLimiter.isAllowed).toHaveBeenNthCalledWith(1, 'unidentified', expect.anything(), 1);
+    expect(mockStrictRateLimiter.isAllowed).toHaveBeenNthCalledWith(2, 'unidentified', expect.anything(), 5);
+  });
+
+  it('should handle service errors without leaking the error message', async () => {
     mockYahooFinanceService.getQuotes.mockRejectedValue(new Error('Service failure'));
 
     const request = mockRequest({ symbols: 'AAPL' });
     const response = await yahooFinanceHandler(request, mockContext);
 
     expect(response.status).toBe(500);
-    expect(response.jsonBody).toMatchObject({ error: 'Internal server error' });
+    expect(response.jsonBody).toMatchObject({ title: 'Internal server error', detail: 'An unexpected error occurred' });
+    expect(JSON.stringify(response.jsonBody)).not.toContain('Service failure');
   });
 
   it('should return 429 when Yahoo Finance returns Too Many Requests', async () => {
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
-    const tooManyRequestsError = Object.assign(new Error('Too Many Requests'), { code: 429 });
-    mockYahooFinanceService.getQuotes.mockRejectedValue(tooManyRequestsError);
+    mockYahooFinanceService.getQuotes.mockRejectedValue(new UpstreamRateLimited('Yahoo Finance', 'Too Many Requests'));
 
     const request = mockRequest({ symbols: 'AAPL' });
     const response = await yahooFinanceHandler(request, mockContext);
 
     expect(response.status).toBe(429);
-    expect(response.jsonBody).toMatchObject({ error: 'Too Many Requests' });
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream rate limit exceeded' });
   });
 
-  it('should return the upstream status when the error has an axios-style response', async () => {
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
-    const axiosError = { response: { status: 503, statusText: 'Service Unavailable' } };
-    mockYahooFinanceService.getQuotes.mockRejectedValue(axiosError);
+  it('should return 502 when the upstream service fails', async () => {
+    mockYahooFinanceService.getQuotes.mockRejectedValue(new UpstreamError('Yahoo Finance', 'Service Unavailable'));
 
     const request = mockRequest({ symbols: 'AAPL' });
     const response = await yahooFinanceHandler(request, mockContext);
 
-    expect(response.status).toBe(503);
-    expect(response.jsonBody).toMatchObject({ error: 'External API error', message: 'Service Unavailable' });
+    expect(response.status).toBe(502);
+    expect(response.jsonBody).toMatchObject({
+      title: 'Upstream service error',
+      detail: 'Yahoo Finance returned an invalid response',
+    });
   });
 
-  it('should return 408 when the error is a timeout', async () => {
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
-    const timeoutError = Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' });
-    mockYahooFinanceService.getQuotes.mockRejectedValue(timeoutError);
+  it('should return 504 when the upstream service times out', async () => {
+    mockYahooFinanceService.getQuotes.mockRejectedValue(new UpstreamTimeout('Yahoo Finance', 'timeout'));
 
     const request = mockRequest({ symbols: 'AAPL' });
     const response = await yahooFinanceHandler(request, mockContext);
 
-    expect(response.status).toBe(408);
-    expect(response.jsonBody).toMatchObject({ error: 'Request timeout' });
+    expect(response.status).toBe(504);
+    expect(response.jsonBody).toMatchObject({ title: 'Upstream service timeout' });
   });
 
   it('should return cache hit response when data is cached', async () => {
     const cachedData = { AAPL: { regularMarketPrice: 150 } };
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
-    mockCacheService.get.mockReturnValue(cachedData);
+    mockCacheService.getOrLoad.mockResolvedValue({ data: cachedData, status: 'HIT' });
 
     const request = mockRequest({ symbols: 'AAPL' });
     const response = await yahooFinanceHandler(request, mockContext);
@@ -184,11 +202,20 @@ describe('yahooFinanceHandler', () => {
     expect(mockYahooFinanceService.getQuotes).not.toHaveBeenCalled();
   });
 
-  it('should perform upstream fetch on cache miss and save to cache with 60s TTL', async () => {
+  it('should return stale cached data with X-Cache STALE', async () => {
+    const staleData = { AAPL: { regularMarketPrice: 149 } };
+    mockCacheService.getOrLoad.mockResolvedValue({ data: staleData, status: 'STALE' });
+
+    const response = await yahooFinanceHandler(mockRequest({ symbols: 'AAPL' }), mockContext);
+
+    expect(response.status).toBeUndefined();
+    expect(response.jsonBody).toEqual(staleData);
+    expect(response.headers).toMatchObject({ 'X-Cache': 'STALE' });
+  });
+
+  it('should perform upstream fetch on cache miss and send the quotes Cache-Control', async () => {
     const freshData = { AAPL: { regularMarketPrice: 151 } };
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuotes.mockResolvedValue(freshData);
-    mockCacheService.get.mockReturnValue(null);
 
     const request = mockRequest({ symbols: 'AAPL' });
     const response = await yahooFinanceHandler(request, mockContext);
@@ -199,13 +226,12 @@ describe('yahooFinanceHandler', () => {
       'Cache-Control': 'max-age=60',
     });
     expect(mockYahooFinanceService.getQuotes).toHaveBeenCalled();
-    expect(mockCacheService.set).toHaveBeenCalledWith('quotes:AAPL:all', freshData, 60000);
+    expect(mockCacheService.getOrLoad).toHaveBeenCalledWith('quotes:AAPL:all', expect.any(Function));
   });
 
   it('should return 304 Not Modified when ETag matches cached payload', async () => {
     const expectedData = { AAPL: { regularMarketPrice: 150 } };
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
-    mockCacheService.get.mockReturnValue(expectedData);
+    mockCacheService.getOrLoad.mockResolvedValue({ data: expectedData, status: 'HIT' });
 
     const etag = computeETag(expectedData);
 
@@ -219,9 +245,7 @@ describe('yahooFinanceHandler', () => {
 
   it('should return 304 Not Modified when ETag matches freshly fetched payload', async () => {
     const expectedData = { AAPL: { regularMarketPrice: 150 } };
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuotes.mockResolvedValue(expectedData);
-    mockCacheService.get.mockReturnValue(null);
 
     const etag = computeETag(expectedData);
 
@@ -235,7 +259,6 @@ describe('yahooFinanceHandler', () => {
 
   it('should return fresh data when If-None-Match does not match payload ETag', async () => {
     const expectedData = { AAPL: { regularMarketPrice: 150 } };
-    mockYahooFinanceService.validateQuoteRequest.mockReturnValue({ isValid: true });
     mockYahooFinanceService.getQuotes.mockResolvedValue(expectedData);
 
     const request = mockRequest({ symbols: 'AAPL' }, { 'If-None-Match': '"different-etag"' });
@@ -248,4 +271,58 @@ describe('yahooFinanceHandler', () => {
       'X-Cache': 'MISS',
     });
   });
+
+  describe('baseCurrency', () => {
+    beforeEach(() => {});
+
+    it('should convert quotes into the requested currency', async () => {
+      const quotes = [{ symbol: 'VOD.L', currency: 'GBp', regularMarketPrice: 7050 }];
+      const converted = [{ symbol: 'VOD.L', currency: 'EUR', originalCurrency: 'GBp', fxRate: 0.0117 }];
+      mockYahooFinanceService.getQuotes.mockResolvedValue(quotes);
+      mockCurrencyConversionService.convertQuotes.mockResolvedValue(converted);
+
+      const response = await yahooFinanceHandler(mockRequest({ symbols: 'VOD.L', baseCurrency: 'eur' }), mockContext);
+
+      expect(response.jsonBody).toEqual(converted);
+      expect(mockCurrencyConversionService.convertQuotes).toHaveBeenCalledWith(quotes, 'EUR', expect.anything());
+      expect(mockCacheService.getOrLoad).toHaveBeenCalledWith('quotes:VOD.L:all', expect.any(Function));
+    });
+
+    it('should request the currency field when fields are filtered', async () => {
+      mockYahooFinanceService.getQuotes.mockResolvedValue([]);
+      mockCurrencyConversionService.convertQuotes.mockResolvedValue([]);
+
+      await yahooFinanceHandler(
+        mockRequest({ symbols: 'VOD.L', fields: 'regularMarketPrice', baseCurrency: 'EUR' }),
+        mockContext,
+      );
+
+      expect(mockYahooFinanceService.getQuotes).toHaveBeenCalledWith(
+        { symbols: ['VOD.L'], fields: ['regularMarketPrice', 'currency'] },
+        expect.anything(),
+      );
+    });
+
+    it('should convert cached quotes', async () => {
+      const cached = [{ symbol: 'AAPL', currency: 'USD', regularMarketPrice: 150 }];
+      mockCacheService.getOrLoad.mockResolvedValue({ data: cached, status: 'HIT' });
+      mockCurrencyConversionService.convertQuotes.mockResolvedValue([{ symbol: 'AAPL', currency: 'EUR' }]);
+
+      const response = await yahooFinanceHandler(mockRequest({ symbols: 'AAPL', baseCurrency: 'EUR' }), mockContext);
+
+      expect(response.jsonBody).toEqual([{ symbol: 'AAPL', currency: 'EUR' }]);
+      expect(response.headers).toMatchObject({ 'X-Cache': 'HIT' });
+      expect(mockYahooFinanceService.getQuotes).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid baseCurrency', async () => {
+      const response = await yahooFinanceHandler(mockRequest({ symbols: 'AAPL', baseCurrency: 'EURO' }), mockContext);
+
+      expect(response.status).toBe(400);
+      expect(response.jsonBody).toMatchObject({
+        detail: 'Invalid parameter: baseCurrency must be a 3-letter ISO 4217 currency code',
+      });
+      expect(mockYahooFinanceService.getQuotes).not.toHaveBeenCalled();
+    });
+  });
 });
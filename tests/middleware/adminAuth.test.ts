@@ -0,0 +1,44 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { withAdminAuth } from '../../src/middleware/adminAuth';
+import { ConfigurationError, UnauthorizedError } from '../../src/utils/errors';
+
+describe('withAdminAuth', () => {
+  const context = {} as InvocationContext;
+
+  const mockRequest = (headers: Record<string, string> = {}): HttpRequest =>
+    ({
+      headers: {
+        get: (key: string) => headers[key] || null,
+      },
+    }) as unknown as HttpRequest;
+
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    next = jest.fn().mockResolvedValue({ jsonBody: { ok: true } });
+  });
+
+  it('should call the handler when the admin key matches', async () => {
+    const handler = withAdminAuth({ ADMIN_API_KEY: 'secret' })(next);
+
+    const response = await handler(mockRequest({ 'x-admin-key': 'secret' }), context);
+
+    expect(response.jsonBody).toEqual({ ok: true });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should reject a missing or wrong admin key', async () => {
+    const handler = withAdminAuth({ ADMIN_API_KEY: 'secret' })(next);
+
+    await expect(handler(mockRequest(), context)).rejects.toThrow(UnauthorizedError);
+    await expect(handler(mockRequest({ 'x-admin-key': 'secret2' }), context)).rejects.toThrow(UnauthorizedError);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should refuse every request when no admin key is configured', async () => {
+    const handler = withAdminAuth({})(next);
+
+    await expect(handler(mockRequest({ 'x-admin-key': '' }), context)).rejects.toThrow(ConfigurationError);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,178 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import type { Authenticators } from '../../src/middleware/authentication';
+import { withAuthentication } from '../../src/middleware/authentication';
+import { getPrincipal } from '../../src/middleware/principal';
+import { ApiKeyRegistry, hashApiKey, parseApiKeys } from '../../src/services/apiKeys';
+import { JwksKeySet } from '../../src/services/jwt/jwks';
+import { JwtVerifier } from '../../src/services/jwt/jwtVerifier';
+import { MemoryRateLimitStore } from '../../src/services/rateLimit/memoryRateLimitStore';
+import { RateLimiter } from '../../src/services/rateLimiter';
+import { createSigningKey, signToken } from '../services/jwt/testTokens';
+
+describe('withAuthentication', () => {
+  const signingKey = createSigningKey('ES256', 'key-1');
+
+  const mockRequest = (headers: Record<string, string> = {}): HttpRequest =>
+    ({
+      headers: {
+        get: (key: string) => headers[key] || null,
+      },
+    }) as unknown as HttpRequest;
+
+  const apiKeys = (keys: unknown[] = []) => new ApiKeyRegistry(parseApiKeys(keys), new MemoryRateLimitStore());
+
+  const keyRegistry = () =>
+    apiKeys([
+      {
+        name: 'frontend',
+        sha256: hashApiKey('secret'),
+        routes: ['statements'],
+        rateLimit: { burst: 50 },
+      },
+    ]);
+
+  const jwt = () =>
+    new JwtVerifier(new JwksKeySet(async () => ({ keys: [signingKey.jwk] })), {
+      issuer: 'https://login.example.com/',
+      audiences: ['stockquotes-api'],
+    });
+
+  const token = (claims: Record<string, unknown> = {}) =>
+    signToken(
+      {
+        iss: 'https://login.example.com/',
+        aud: 'stockquotes-api',
+        sub: 'user-42',
+        email: 'ada@example.com',
+        exp: Math.floor(Date.now() / 1000) + 300,
+        ...claims,
+      },
+      signingKey,
+    );
+
+  const run = (authenticators: Authenticators, headers: Record<string, string>, route = 'statements') =>
+    withAuthentication(route, authenticators)(next)(mockRequest(headers), context);
+
+  let context: InvocationContext;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    context = { log: jest.fn(), warn: jest.fn() } as unknown as InvocationContext;
+    next = jest.fn().mockResolvedValue({ jsonBody: { ok: true } });
+  });
+
+  it('should let every request through when no authentication is configured', async () => {
+    expect(await run({ apiKeys: apiKeys() }, {})).toEqual({ jsonBody: { ok: true } });
+    expect(getPrincipal(context)).toBeUndefined();
+  });
+
+  describe('API keys', () => {
+    it('should set the key as principal, with its rate limit policy', async () => {
+      const response = await run({ apiKeys: keyRegistry() }, { 'x-api-key': 'secret' });
+
+      expect(response.jsonBody).toEqual({ ok: true });
+      expect(getPrincipal(context)).toEqual({ type: 'apiKey', id: 'frontend', rateLimit: { burst: 50 } });
+      expect(context.log).toHaveBeenCalledWith('Authenticated apiKey frontend');
+    });
+
+    it.each([
+      ['no key', {}, 'statements', 401, 'unauthorized'],
+      ['an unknown key', { 'x-api-key': 'guess' }, 'statements', 401, 'unauthorized'],
+      ['a key not allowed on the route', { 'x-api-key': 'secret' }, 'yahoo-finance', 403, 'forbidden'],
+    ])('should render a problem response for %s', async (_name, headers, route, status, type) => {
+      const response = await run({ apiKeys: keyRegistry() }, headers, route);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(status);
+      expect(response.headers).toMatchObject({ 'Content-Type': 'application/problem+json' });
+      expect(response.jsonBody).toMatchObject({ type: `urn:stockquotes:problem:${type}` });
+    });
+
+    it('should throttle failed attempts per client address, even for a valid key', async () => {
+      const authenticators = {
+        apiKeys: keyRegistry(),
+        failures: new RateLimiter({ burst: 2, refillPerSecond: 0.001 }),
+      };
+      const attempt = (key: string, ip = '1.2.3.4') =>
+        run(authenticators, { 'x-api-key': key, 'x-forwarded-for': ip }).then((response) => response.status);
+
+      expect(await attempt('guess-1')).toBe(401);
+      expect(await attempt('guess-2')).toBe(401);
+      expect(await attempt('guess-3')).toBe(429);
+      expect(await attempt('secret')).toBe(429);
+      expect(await attempt('secret', '5.6.7.8')).toBeUndefined();
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not charge the failure budget for valid keys', async () => {
+      const failures = new RateLimiter({ burst: 1, refillPerSecond: 0.001 });
+
+      await run({ apiKeys: keyRegistry(), failures }, { 'x-api-key': 'secret', 'x-forwarded-for': '1.2.3.4' });
+      const response = await run(
+        { apiKeys: keyRegistry(), failures },
+        { 'x-api-key': 'guess', 'x-forwarded-for': '1.2.3.4' },
+      );
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('bearer tokens', () => {
+    it('should set the token subject as principal', async () => {
+      const response = await run({ apiKeys: apiKeys(), jwt: jwt() }, { authorization: `Bearer ${token()}` });
+
+      expect(response.jsonBody).toEqual({ ok: true });
+      expect(getPrincipal(context)).toEqual({ type: 'user', id: 'user-42', name: 'ada@example.com', scopes: [] });
+    });
+
+    it('should reject an invalid token with WWW-Authenticate', async () => {
+      const response = await run(
+        { apiKeys: apiKeys(), jwt: jwt() },
+        { authorization: `Bearer ${token({ aud: 'other-api' })}` },
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(401);
+      expect(response.headers).toMatchObject({ 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+      expect(response.jsonBody).toMatchObject({ detail: 'The bearer token is invalid or has expired' });
+      expect(context.warn).toHaveBeenCalledWith(expect.stringContaining('audience'));
+    });
+
+    it('should ask for credentials when none are sent', async () => {
+      const response = await run({ apiKeys: keyRegistry(), jwt: jwt() }, {});
+
+      expect(response.status).toBe(401);
+      expect(response.headers).toMatchObject({ 'WWW-Authenticate': 'Bearer' });
+      expect(response.jsonBody).toMatchObject({
+        detail: 'Authentication required: send an X-API-Key header or a bearer token',
+      });
+    });
+
+    it('should require a token when only bearer tokens are configured', async () => {
+      const response = await run({ apiKeys: apiKeys(), jwt: jwt() }, {});
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(401);
+      expect(response.jsonBody).toMatchObject({ detail: 'Authentication required: send a bearer token' });
+    });
+
+    it('should accept API keys alongside bearer tokens', async () => {
+      await run({ apiKeys: keyRegistry(), jwt: jwt() }, { 'x-api-key': 'secret' });
+
+      expect(getPrincipal(context)).toMatchObject({ type: 'apiKey', id: 'frontend' });
+    });
+
+    it('should return 502 when the signing keys cannot be loaded', async () => {
+      const verifier = new JwtVerifier(
+        new JwksKeySet(async () => {
+          throw new Error('connect ECONNREFUSED');
+        }),
+        { issuer: 'https://login.example.com/', audiences: ['stockquotes-api'] },
+      );
+
+      const response = await run({ apiKeys: apiKeys(), jwt: verifier }, { authorization: `Bearer ${token()}` });
+
+      expect(response.status).toBe(502);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { brotliDecompressSync, gunzipSync } from 'node:zlib';
+import { loadCompressionOptions, withCompression } from '../../src/middleware/compression';
+import { withETag } from '../../src/middleware/etag';
+import { withMiddleware } from '../../src/middleware/pipeline';
+import { computeETag, withEncodingSuffix } from '../../src/utils/etag';
+
+describe('withCompression', () => {
+  const context = { log: jest.fn() } as unknown as InvocationContext;
+  const options = { minBytes: 100, cacheMaxBytes: 1024 * 1024 };
+
+  // A weekly history is highly repetitive JSON
+  const bars = Array.from({ length: 50 }, (_, i) => ({ date: `2024-01-${i}`, open: 100 + i, close: 101 + i }));
+
+  const mockRequest = (headers: Record<string, string> = {}): HttpRequest =>
+    ({
+      method: 'GET',
+      headers: {
+        get: (key: string) => headers[key.toLowerCase()] ?? null,
+      },
+    }) as unknown as HttpRequest;
+
+  const handlerOf = (response: Record<string, unknown>, compression = withCompression(options)) =>
+    withMiddleware(async () => response, compression, withETag());
+
+  it('should gzip JSON bodies when only gzip is accepted', async () => {
+    const handler = handlerOf({ status: 200, jsonBody: bars, headers: { 'Cache-Control': 'max-age=60' } });
+
+    const response = await handler(mockRequest({ 'accept-encoding': 'gzip, deflate' }), context);
+
+    expect(response.jsonBody).toBeUndefined();
+    expect(JSON.parse(gunzipSync(response.body as Buffer).toString())).toEqual(bars);
+    expect(response.headers).toEqual({
+      'Cache-Control': 'max-age=60',
+      'Content-Type': 'application/json',
+      'Content-Encoding': 'gzip',
+      ETag: computeETag(bars).replace(/"$/, '-gzip"'),
+      Vary: 'Accept-Encoding',
+    });
+  });
+
+  it('should prefer brotli', async () => {
+    const handler = handlerOf({ status: 200, jsonBody: bars });
+
+    const response = await handler(mockRequest({ 'accept-encoding': 'gzip, deflate, br' }), context);
+
+    expect(response.headers).toMatchObject({ 'Content-Encoding': 'br' });
+    expect(JSON.parse(brotliDecompressSync(response.body as Buffer).toString())).toEqual(bars);
+  });
+
+  it('should compress string bodies and keep their content type', async () => {
+    const xml = `<Cube>${'<Cube currency="USD" rate="1.0823"/>'.repeat(30)}</Cube>`;
+    const handler = handlerOf({ status: 200, body: xml, headers: { 'Content-Type': 'application/xml' } });
+
+    const response = await handler(mockRequest({ 'accept-encoding': 'gzip' }), context);
+
+    expect(gunzipSync(response.body as Buffer).toString()).toBe(xml);
+    expect(response.headers).toMatchObject({ 'Content-Type': 'application/xml', 'Content-Encoding': 'gzip' });
+  });
+
+  it('should not compress bodies below the threshold, but still vary on Accept-Encoding', async () => {
+    const handler = handlerOf({ status: 200, jsonBody: { AAPL: 150 } });
+
+    const response = await handler(mockRequest({ 'accept-encoding': 'br' }), context);
+
+    expect(response.jsonBody).toEqual({ AAPL: 150 });
+    expect(response.headers).toEqual({ ETag: computeETag({ AAPL: 150 }), Vary: 'Accept-Encoding' });
+  });
+
+  it('should not compress without Accept-Encoding', async () => {
+    const handler = handlerOf({ status: 200, jsonBody: bars });
+
+    const response = await handler(mockRequest(), context);
+
+    expect(response.jsonBody).toEqual(bars);
+    expect(response.headers).not.toHaveProperty('Content-Encoding');
+  });
+
+  it('should keep existing Vary fields', async () => {
+    const handler = handlerOf({ status: 200, jsonBody: bars, headers: { Vary: 'Accept' } });
+
+    const response = await handler(mockRequest({ 'accept-encoding': 'gzip' }), context);
+
+    expect(response.headers).toMatchObject({ Vary: 'Accept, Accept-Encoding' });
+  });
+
+  it('should leave error responses untouched', async () => {
+    const problem = { status: 400, jsonBody: { detail: 'x'.repeat(500) } };
+    const handler = handlerOf(problem);
+
+    expect(await handler(mockRequest({ 'accept-encoding': 'gzip' }), context)).toBe(problem);
+  });
+
+  it('should answer 304 for the compressed representation with its own ETag', async () => {
+    const handler = handlerOf({ status: 200, jsonBody: bars });
+    const first = await handler(mockRequest({ 'accept-encoding': 'br' }), context);
+    const etag = (first.headers as Record<string, string>).ETag;
+
+    const response = await handler(mockRequest({ 'accept-encoding': 'br', 'if-none-match': etag }), context);
+
+    expect(response.status).toBe(304);
+    expect(response.body).toBeUndefined();
+    expect(response.headers).toMatchObject({ ETag: etag, Vary: 'Accept-Encoding' });
+  });
+
+  it.each([
+    ['a list of tags', 'gzip', (etag: string) => `"other", ${withEncodingSuffix(etag, 'gzip')}`, 'gzip'],
+    ['*', 'br', () => '*', 'br'],
+    ['the ETag of an uncompressed body', 'br', (etag: string) => etag, undefined],
+  ])('should name the matched representation in a 304 for %s', async (_name, accept, ifNoneMatch, coding) => {
+    const etag = computeETag(bars);
+    const handler = handlerOf({ status: 200, jsonBody: bars });
+
+    const response = await handler(
+      mockRequest({ 'accept-encoding': accept, 'if-none-match': ifNoneMatch(etag) }),
+      context,
+    );
+
+    expect(response.status).toBe(304);
+    expect(response.headers).toMatchObject({ ETag: coding ? withEncodingSuffix(etag, coding) : etag });
+  });
+
+  it('should reuse the compressed body of a payload it has already compressed', async () => {
+    const compression = withCompression(options);
+    const first = await handlerOf({ status: 200, jsonBody: bars }, compression)(
+      mockRequest({ 'accept-encoding': 'gzip' }),
+      context,
+    );
+
+    const second = await handlerOf({ status: 200, jsonBody: structuredClone(bars) }, compression)(
+      mockRequest({ 'accept-encoding': 'gzip' }),
+      context,
+    );
+
+    expect(second.body).toBe(first.body);
+  });
+
+  it('should compress every time when the cache has no budget', async () => {
+    const compression = withCompression({ ...options, cacheMaxBytes: 0 });
+    const handler = handlerOf({ status: 200, jsonBody: bars }, compression);
+
+    const first = await handler(mockRequest({ 'accept-encoding': 'gzip' }), context);
+    const second = await handler(mockRequest({ 'accept-encoding': 'gzip' }), context);
+
+    expect(second.body).not.toBe(first.body);
+    expect(second.body).toEqual(first.body);
+  });
+});
+
+describe('loadCompressionOptions', () => {
+  it('should default the threshold and cache budget', () => {
+    expect(loadCompressionOptions({})).toEqual({ minBytes: 1024, cacheMaxBytes: 16 * 1024 * 1024 });
+  });
+
+  it('should read them from the environment and ignore invalid values', () => {
+    expect(loadCompressionOptions({ COMPRESSION_MIN_BYTES: '0', COMPRESSION_CACHE_MAX_BYTES: '-1' })).toEqual({
+      minBytes: 0,
+      cacheMaxBytes: 16 * 1024 * 1024,
+    });
+  });
+});
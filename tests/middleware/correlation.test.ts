@@ -0,0 +1,53 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getCorrelationId, withCorrelationId } from '../../src/middleware/correlation';
+
+describe('withCorrelationId', () => {
+  const request = {} as HttpRequest;
+  let context: InvocationContext;
+
+  beforeEach(() => {
+    context = {
+      invocationId: 'invocation-1',
+      log: jest.fn(),
+      error: jest.fn(),
+    } as unknown as InvocationContext;
+  });
+
+  it('should return a different correlation id for each request', async () => {
+    const handler = withCorrelationId()(async () => ({ status: 200 }));
+
+    const first = await handler(request, context);
+    const second = await handler(request, context);
+
+    const firstId = (first.headers as Record<string, string>)['X-Correlation-Id'];
+    const secondId = (second.headers as Record<string, string>)['X-Correlation-Id'];
+    expect(firstId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(secondId).not.toBe(firstId);
+  });
+
+  it('should prefix every log line with the correlation id', async () => {
+    let correlationId: string | undefined;
+    const error = new Error('boom');
+    const handler = withCorrelationId()(async (_request, ctx) => {
+      correlationId = getCorrelationId(ctx);
+      ctx.log('Fetching quotes');
+      ctx.error(error);
+      return { status: 200 };
+    });
+
+    const response = await handler(request, context);
+
+    expect(response.headers).toEqual({ 'X-Correlation-Id': correlationId });
+    expect(context.log).toHaveBeenCalledWith(`[${correlationId}] Fetching quotes`);
+    expect(context.error).toHaveBeenCalledWith(`[${correlationId}]`, error);
+  });
+
+  it('should keep the other context properties', async () => {
+    const handler = withCorrelationId()(async (_request, ctx) => ({ jsonBody: ctx.invocationId }));
+
+    const response = await handler(request, context);
+
+    expect(response.jsonBody).toBe('invocation-1');
+    expect(getCorrelationId(context)).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { loadCorsOptions, withCors } from '../../src/middleware/cors';
+import { withETag } from '../../src/middleware/etag';
+import { withMiddleware } from '../../src/middleware/pipeline';
+
+describe('withCors', () => {
+  const context = { log: jest.fn() } as unknown as InvocationContext;
+
+  const mockRequest = (headers: Record<string, string> = {}, method = 'GET'): HttpRequest =>
+    ({
+      method,
+      headers: {
+        get: (key: string) => headers[key.toLowerCase()] ?? null,
+      },
+    }) as unknown as HttpRequest;
+
+  const allowlist = loadCorsOptions({
+    CORS_ALLOWED_ORIGINS: 'https://app.example.com, https://*.stockquotes.dev',
+  });
+
+  describe('without an allowlist', () => {
+    it('should add the CORS header to successful responses', async () => {
+      const handler = withCors(loadCorsOptions({}))(async () => ({
+        jsonBody: { ok: true },
+        headers: { 'X-Cache': 'HIT' },
+      }));
+
+      const response = await handler(mockRequest(), context);
+
+      expect(response.headers).toEqual({ 'Access-Control-Allow-Origin': '*', 'X-Cache': 'HIT' });
+    });
+
+    it('should add the CORS header to error responses', async () => {
+      const handler = withCors(loadCorsOptions({}))(async () => ({ status: 400, jsonBody: { error: 'Bad request' } }));
+
+      const response = await handler(mockRequest({ origin: 'https://any.example.org' }), context);
+
+      expect(response.status).toBe(400);
+      expect(response.headers).toMatchObject({ 'Access-Control-Allow-Origin': '*' });
+      expect(response.headers).not.toHaveProperty('Vary');
+    });
+  });
+
+  describe('with an allowlist', () => {
+    it.each([
+      ['https://app.example.com', true],
+      ['https://APP.example.com', true],
+      ['https://eu.stockquotes.dev', true],
+      ['https://a.b.stockquotes.dev', true],
+      ['https://stockquotes.dev', false],
+      ['http://eu.stockquotes.dev', false],
+      ['https://evil-stockquotes.dev', false],
+      ['https://app.example.com.evil.org', false],
+    ])('should decide whether %s is allowed', async (origin, allowed) => {
+      const handler = withCors(allowlist)(async () => ({ jsonBody: { ok: true } }));
+
+      const response = await handler(mockRequest({ origin }), context);
+
+      expect((response.headers as Record<string, string>)['Access-Control-Allow-Origin']).toBe(
+        allowed ? origin : undefined,
+      );
+      expect(response.headers).toMatchObject({ Vary: 'Origin' });
+    });
+
+    it('should expose the custom response headers to allowed origins', async () => {
+      const handler = withCors(allowlist)(async () => ({ status: 429, headers: { Vary: 'Accept' } }));
+
+      const response = await handler(mockRequest({ origin: 'https://app.example.com' }), context);
+
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://app.example.com',
+        'Access-Control-Expose-Headers': expect.stringContaining('X-RateLimit-Remaining'),
+        Vary: 'Accept, Origin',
+      });
+    });
+
+    it('should apply to 304 responses', async () => {
+      const handler = withMiddleware(async () => ({ jsonBody: { ok: true } }), withCors(allowlist), withETag());
+      const { headers } = await handler(mockRequest(), context);
+      const etag = (headers as Record<string, string>).ETag;
+
+      const response = await handler(
+        mockRequest({ origin: 'https://app.example.com', 'if-none-match': etag }),
+        context,
+      );
+
+      expect(response.status).toBe(304);
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://app.example.com',
+        Vary: 'Origin',
+      });
+    });
+  });
+
+  describe('preflight', () => {
+    const preflight = (origin: string) =>
+      mockRequest(
+        { origin, 'access-control-request-method': 'GET', 'access-control-request-headers': 'x-api-key' },
+        'OPTIONS',
+      );
+
+    it('should answer allowed origins without calling the handler', async () => {
+      const next = jest.fn();
+
+      const response = await withCors(allowlist)(next)(preflight('https://eu.stockquotes.dev'), context);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(204);
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://eu.stockquotes.dev',
+        'Access-Control-Allow-Methods': 'GET, POST',
+        'Access-Control-Allow-Headers': expect.stringContaining('X-API-Key'),
+        'Access-Control-Max-Age': '600',
+        Vary: 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers',
+      });
+    });
+
+    it('should not grant anything to other origins', async () => {
+      const response = await withCors(allowlist)(jest.fn())(preflight('https://evil.org'), context);
+
+      expect(response.status).toBe(204);
+      expect(response.headers).not.toHaveProperty('Access-Control-Allow-Origin');
+      expect(response.headers).not.toHaveProperty('Access-Control-Allow-Methods');
+    });
+
+    it('should pass plain OPTIONS requests to the handler', async () => {
+      const next = jest.fn().mockResolvedValue({ status: 200 });
+
+      await withCors(allowlist)(next)(mockRequest({ origin: 'https://app.example.com' }, 'OPTIONS'), context);
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('loadCorsOptions', () => {
+    it('should echo the origin when credentials are allowed', async () => {
+      const options = loadCorsOptions({ CORS_ALLOW_CREDENTIALS: 'true' });
+      const handler = withCors(options)(async () => ({ status: 200 }));
+
+      const response = await handler(mockRequest({ origin: 'https://app.example.com' }), context);
+
+      expect(response.headers).toMatchObject({
+        'Access-Control-Allow-Origin': 'https://app.example.com',
+        'Access-Control-Allow-Credentials': 'true',
+        Vary: 'Origin',
+      });
+    });
+
+    it.each([
+      'app.example.com',
+      'https://app.example.com/',
+      'https://*',
+      'https://app.*.com',
+      'https://*.example.com:abc',
+    ])('should reject the invalid origin %s', (origin) => {
+      expect(() => loadCorsOptions({ CORS_ALLOWED_ORIGINS: origin })).toThrow('Invalid CORS origin');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { loadDeprecationOptions, withDeprecation } from '../../src/middleware/deprecation';
+
+describe('withDeprecation', () => {
+  const context = { log: jest.fn() } as unknown as InvocationContext;
+  const request = { method: 'GET', headers: { get: () => null } } as unknown as HttpRequest;
+  const options = { deprecatedAt: '2026-10-18', sunsetAt: '2027-04-30' };
+
+  it('should mark successful responses as deprecated', async () => {
+    const handler = withDeprecation(
+      '/api/v1/statements',
+      options,
+    )(async () => ({ status: 200, jsonBody: { symbol: 'IBM' }, headers: { 'X-Cache': 'HIT' } }));
+
+    const response = await handler(request, context);
+
+    expect(response.jsonBody).toEqual({ symbol: 'IBM' });
+    expect(response.headers).toEqual({
+      'X-Cache': 'HIT',
+      Deprecation: '@1792281600',
+      Sunset: 'Fri, 30 Apr 2027 00:00:00 GMT',
+      Link: '</api/v1/statements>; rel="successor-version"',
+    });
+  });
+
+  it('should mark problem responses as deprecated', async () => {
+    const handler = withDeprecation('/api/v1/statements', options)(async () => ({ status: 400 }));
+
+    const response = await handler(request, context);
+
+    expect(response.status).toBe(400);
+    expect(response.headers).toHaveProperty('Deprecation');
+    expect(response.headers).toHaveProperty('Sunset');
+  });
+});
+
+describe('loadDeprecationOptions', () => {
+  it('should default the sunset date', () => {
+    expect(loadDeprecationOptions({})).toEqual({ deprecatedAt: '2026-10-18', sunsetAt: '2027-04-30' });
+  });
+
+  it('should read the sunset date from LEGACY_ROUTES_SUNSET', () => {
+    expect(loadDeprecationOptions({ LEGACY_ROUTES_SUNSET: '2027-12-31' }).sunsetAt).toBe('2027-12-31');
+  });
+
+  it.each(['next year', '2027-13-01', '2026-01-01'])('should reject LEGACY_ROUTES_SUNSET %p', (sunset) => {
+    expect(() => loadDeprecationOptions({ LEGACY_ROUTES_SUNSET: sunset })).toThrow(/LEGACY_ROUTES_SUNSET/);
+  });
+});
@@ -0,0 +1,96 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { toProblemResponse, withErrorMapping } from '../../src/middleware/errorMapping';
+import { withCorrelationId } from '../../src/middleware/correlation';
+import {
+  ConfigurationError,
+  RateLimitExceeded,
+  UpstreamError,
+  UpstreamRateLimited,
+  UpstreamTimeout,
+  ValidationError,
+} from '../../src/utils/errors';
+
+describe('errorMapping middleware', () => {
+  let context: InvocationContext;
+
+  beforeEach(() => {
+    context = { log: jest.fn(), error: jest.fn() } as unknown as InvocationContext;
+  });
+
+  describe('toProblemResponse', () => {
+    it.each([
+      [new ValidationError('Ticker must be provided'), 400, 'Ticker must be provided'],
+      [new UpstreamError('Yahoo Finance', 'boom'), 502, 'Yahoo Finance returned an invalid response'],
+      [new UpstreamTimeout('ECB', 'socket hang up'), 504, 'ECB is not responding'],
+      [
+        new UpstreamRateLimited('Alpha Vantage', 'Note: API call frequency'),
+        429,
+        'Alpha Vantage rate limit exceeded. Please try again later.',
+      ],
+      [new ConfigurationError('API_KEY is not set'), 500, 'The service is not configured to handle this request'],
+    ])('should render %p as problem details', (error, status, detail) => {
+      const response = toProblemResponse(error, context);
+
+      expect(response.status).toBe(status);
+      expect(response.headers).toEqual({ 'Content-Type': 'application/problem+json' });
+      expect(response.jsonBody).toEqual({ type: error.type, title: error.title, status, detail });
+    });
+
+    it('should not leak the message of unknown errors', () => {
+      const response = toProblemResponse(new Error('connection string=secret'), context);
+
+      expect(response.status).toBe(500);
+      expect(response.jsonBody).toEqual({
+        type: 'about:blank',
+        title: 'Internal server error',
+        status: 500,
+        detail: 'An unexpected error occurred',
+      });
+    });
+
+    it('should add Retry-After for rate limit errors', () => {
+      const response = toProblemResponse(new RateLimitExceeded(3), context);
+
+      expect(response.status).toBe(429);
+      expect(response.headers).toMatchObject({ 'Retry-After': '3' });
+    });
+  });
+
+  describe('withErrorMapping', () => {
+    const request = {} as HttpRequest;
+
+    it('should pass successful responses through', async () => {
+      const handler = withErrorMapping('testHandler')(async () => ({ jsonBody: { ok: true } }));
+
+      expect(await handler(request, context)).toEqual({ jsonBody: { ok: true } });
+      expect(context.error).not.toHaveBeenCalled();
+    });
+
+    it('should log thrown errors and render them as problem details', async () => {
+      const error = new ValidationError('Invalid symbols provided');
+      const handler = withErrorMapping('testHandler')(async () => {
+        throw error;
+      });
+
+      const response = await handler(request, context);
+
+      expect(context.error).toHaveBeenCalledWith('Error in testHandler:', error);
+      expect(response.status).toBe(400);
+      expect(response.jsonBody).toMatchObject({ detail: 'Invalid symbols provided' });
+    });
+
+    it('should include the correlation id in the problem', async () => {
+      const handler = withCorrelationId()(
+        withErrorMapping('testHandler')(async () => {
+          throw new Error('boom');
+        }),
+      );
+
+      const response = await handler(request, context);
+      const correlationId = (response.headers as Record<string, string>)['X-Correlation-Id'];
+
+      expect(correlationId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.jsonBody).toMatchObject({ correlationId, instance: `urn:uuid:${correlationId}` });
+    });
+  });
+});
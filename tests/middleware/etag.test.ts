@@ -0,0 +1,91 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { withETag } from '../../src/middleware/etag';
+import { computeETag, withEncodingSuffix } from '../../src/utils/etag';
+
+describe('withETag', () => {
+  let context: InvocationContext;
+
+  const mockRequest = (headers: Record<string, string> = {}): HttpRequest =>
+    ({
+      headers: {
+        get: (key: string) => headers[key] || null,
+      },
+    }) as unknown as HttpRequest;
+
+  beforeEach(() => {
+    context = { log: jest.fn(), error: jest.fn() } as unknown as InvocationContext;
+  });
+
+  it('should add an ETag to JSON responses', async () => {
+    const payload = { AAPL: 150 };
+    const handler = withETag()(async () => ({ jsonBody: payload, headers: { 'X-Cache': 'MISS' } }));
+
+    const response = await handler(mockRequest(), context);
+
+    expect(response.jsonBody).toEqual(payload);
+    expect(response.headers).toEqual({ 'X-Cache': 'MISS', ETag: computeETag(payload) });
+  });
+
+  it('should add an ETag to string bodies', async () => {
+    const handler = withETag()(async () => ({ status: 200, body: '<xml/>' }));
+
+    const response = await handler(mockRequest(), context);
+
+    expect(response.headers).toEqual({ ETag: computeETag('<xml/>') });
+  });
+
+  it('should return 304 without body when If-None-Match matches', async () => {
+    const payload = { AAPL: 150 };
+    const handler = withETag()(async () => ({
+      jsonBody: payload,
+      headers: { 'Cache-Control': 'max-age=60', 'Content-Type': 'application/json', 'X-Cache': 'HIT' },
+    }));
+
+    const response = await handler(mockRequest({ 'If-None-Match': computeETag(payload) }), context);
+
+    expect(response).toEqual({
+      status: 304,
+      headers: { 'Cache-Control': 'max-age=60', ETag: computeETag(payload) },
+    });
+  });
+
+  it('should return 304 when If-None-Match names a compressed representation of the payload', async () => {
+    const payload = { AAPL: 150 };
+    const handler = withETag()(async () => ({ jsonBody: payload }));
+
+    const response = await handler(
+      mockRequest({ 'If-None-Match': withEncodingSuffix(computeETag(payload), 'br') }),
+      context,
+    );
+
+    expect(response.status).toBe(304);
+  });
+
+  it.each([
+    ['a list of tags', (etag: string) => `"other", ${withEncodingSuffix(etag, 'gzip')}`],
+    ['a weak tag', (etag: string) => `W/${etag}`],
+    ['*', () => '*'],
+  ])('should return 304 when If-None-Match is %s that matches', async (_name, ifNoneMatch) => {
+    const payload = { AAPL: 150 };
+    const handler = withETag()(async () => ({ jsonBody: payload }));
+
+    const response = await handler(mockRequest({ 'If-None-Match': ifNoneMatch(computeETag(payload)) }), context);
+
+    expect(response.status).toBe(304);
+  });
+
+  it('should not match an ETag of another payload', async () => {
+    const handler = withETag()(async () => ({ jsonBody: { AAPL: 150 } }));
+
+    const response = await handler(mockRequest({ 'If-None-Match': computeETag({ AAPL: 151 }) }), context);
+
+    expect(response.status).toBeUndefined();
+  });
+
+  it('should leave error responses untouched', async () => {
+    const errorResponse = { status: 400, jsonBody: { error: 'Bad request' } };
+    const handler = withETag()(async () => errorResponse);
+
+    expect(await handler(mockRequest(), context)).toBe(errorResponse);
+  });
+});
@@ -0,0 +1,68 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import type { HttpMiddleware } from '../../src/middleware/pipeline';
+import { getHeaders, withDefaultHeaders, withMiddleware } from '../../src/middleware/pipeline';
+
+describe('pipeline', () => {
+  const request = {} as HttpRequest;
+  const context = {} as InvocationContext;
+
+  describe('withMiddleware', () => {
+    it('should run middlewares from the outermost to the innermost', async () => {
+      const calls: string[] = [];
+      const trace =
+        (name: string): HttpMiddleware =>
+        (next) =>
+        async (req, ctx) => {
+          calls.push(`${name}:before`);
+          const response = await next(req, ctx);
+          calls.push(`${name}:after`);
+          return response;
+        };
+
+      const handler = withMiddleware(
+        async () => {
+          calls.push('handler');
+          return { status: 200 };
+        },
+        trace('outer'),
+        trace('inner'),
+      );
+
+      const response = await handler(request, context);
+
+      expect(response.status).toBe(200);
+      expect(calls).toEqual(['outer:before', 'inner:before', 'handler', 'inner:after', 'outer:after']);
+    });
+
+    it('should return the handler itself when no middleware is given', async () => {
+      const handler = jest.fn().mockResolvedValue({ status: 204 });
+
+      const response = await withMiddleware(handler)(request, context);
+
+      expect(response.status).toBe(204);
+      expect(handler).toHaveBeenCalledWith(request, context);
+    });
+  });
+
+  describe('getHeaders', () => {
+    it('should return an empty object when the response has no headers', () => {
+      expect(getHeaders({})).toEqual({});
+    });
+
+    it('should convert Headers instances and header tuples to records', () => {
+      expect(getHeaders({ headers: new Headers({ 'x-test': '1' }) })).toEqual({ 'x-test': '1' });
+      expect(getHeaders({ headers: [['x-test', '2']] })).toEqual({ 'x-test': '2' });
+    });
+  });
+
+  describe('withDefaultHeaders', () => {
+    it('should not override headers set by the handler', () => {
+      const response = withDefaultHeaders(
+        { status: 200, headers: { 'Content-Type': 'text/xml' } },
+        { 'Content-Type': 'application/json', 'X-Extra': 'yes' },
+      );
+
+      expect(response).toEqual({ status: 200, headers: { 'Content-Type': 'text/xml', 'X-Extra': 'yes' } });
+    });
+  });
+});
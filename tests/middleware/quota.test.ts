@@ -0,0 +1,75 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { withMiddleware } from '../../src/middleware/pipeline';
+import { setPrincipal } from '../../src/middleware/principal';
+import { withQuota } from '../../src/middleware/quota';
+import { withRateLimit } from '../../src/middleware/rateLimit';
+import { ApiKeyRegistry, hashApiKey, parseApiKeys } from '../../src/services/apiKeys';
+import { MemoryRateLimitStore } from '../../src/services/rateLimit/memoryRateLimitStore';
+import { RateLimiter } from '../../src/services/rateLimiter';
+
+describe('withQuota', () => {
+  const request = { headers: { get: () => null } } as unknown as HttpRequest;
+
+  let context: InvocationContext;
+  let registry: ApiKeyRegistry;
+  let handler: jest.Mock;
+
+  const used = async () => (await registry.getUsage('frontend'))[0].usage.daily.used;
+
+  beforeEach(() => {
+    context = { log: jest.fn(), warn: jest.fn() } as unknown as InvocationContext;
+    registry = new ApiKeyRegistry(
+      parseApiKeys([{ name: 'frontend', sha256: hashApiKey('secret'), quota: { daily: 1 } }]),
+      new MemoryRateLimitStore(),
+    );
+    handler = jest.fn().mockResolvedValue({ jsonBody: { ok: true } });
+  });
+
+  it('should return 429 with Retry-After once the quota is used up', async () => {
+    setPrincipal(context, { type: 'apiKey', id: 'frontend' });
+    const run = withMiddleware(handler, withQuota(registry));
+
+    await run(request, context);
+    const response = await run(request, context);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(429);
+    expect(response.jsonBody).toMatchObject({ type: 'urn:stockquotes:problem:quota-exceeded' });
+    expect(response.headers).toHaveProperty('Retry-After');
+  });
+
+  it('should refund requests the handler rejects with a 4xx', async () => {
+    setPrincipal(context, { type: 'apiKey', id: 'frontend' });
+    handler.mockResolvedValueOnce({ status: 400, jsonBody: { title: 'Invalid request' } });
+    const run = withMiddleware(handler, withQuota(registry));
+
+    expect((await run(request, context)).status).toBe(400);
+    expect(await used()).toBe(0);
+    expect((await run(request, context)).status).toBeUndefined();
+    expect(await used()).toBe(1);
+  });
+
+  it('should not count anonymous or user requests', async () => {
+    const run = withMiddleware(handler, withQuota(registry));
+
+    await run(request, context);
+    setPrincipal(context, { type: 'user', id: 'frontend' });
+    await run(request, context);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await used()).toBe(0);
+  });
+
+  it('should not count requests the rate limiter turns away', async () => {
+    setPrincipal(context, { type: 'apiKey', id: 'frontend' });
+    const limiter = new RateLimiter({ burst: 1, refillPerSecond: 0.001 });
+    const run = withMiddleware(handler, withRateLimit(limiter), withQuota(registry));
+
+    expect((await run(request, context)).status).toBeUndefined();
+    expect((await run(request, context)).jsonBody).toMatchObject({
+      type: 'urn:stockquotes:problem:rate-limit-exceeded',
+    });
+
+    expect(await used()).toBe(1);
+  });
+});
@@ -0,0 +1,232 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { getClientIdentity, getClientIp, withRateLimit } from '../../src/middleware/rateLimit';
+import { setPrincipal } from '../../src/middleware/principal';
+import { createTrustedProxyList } from '../../src/utils/ipAddress';
+import type { RateLimiter } from '../../src/services/rateLimiter';
+import { RateLimitUnavailable } from '../../src/utils/errors';
+
+describe('rateLimit middleware', () => {
+  const context = {} as InvocationContext;
+
+  const mockRequest = (headers: Record<string, string> = {}): HttpRequest =>
+    ({
+      headers: {
+        get: (key: string) => headers[key] || null,
+      },
+    }) as unknown as HttpRequest;
+
+  let limiter: { isAllowed: jest.Mock; getLimit: jest.Mock };
+
+  beforeEach(() => {
+    limiter = {
+      isAllowed: jest.fn(),
+      getLimit: jest.fn().mockReturnValue(10),
+    };
+  });
+
+  describe('getClientIp', () => {
+    it('should prefer x-forwarded-for over x-real-ip', () => {
+      expect(getClientIp(mockRequest({ 'x-forwarded-for': '1.1.1.1', 'x-real-ip': '2.2.2.2' }))).toBe('1.1.1.1');
+    });
+
+    it('should ignore x-real-ip sent by a direct caller', () => {
+      expect(getClientIp(mockRequest({ 'x-real-ip': '2.2.2.2' }))).toBeNull();
+    });
+
+    it('should honour x-real-ip behind trusted proxies', () => {
+      const trusted = createTrustedProxyList('10.0.0.0/8');
+      const request = mockRequest({ 'x-forwarded-for': '10.0.0.1', 'x-real-ip': '2.2.2.2' });
+
+      expect(getClientIp(request, trusted)).toBe('2.2.2.2');
+    });
+
+    it('should return null when no IP headers are present', () => {
+      expect(getClientIp(mockRequest())).toBeNull();
+    });
+
+    it('should not use a right-most untrusted hop that is not an address', () => {
+      const trusted = createTrustedProxyList('10.0.0.0/8');
+
+      expect(getClientIp(mockRequest({ 'x-forwarded-for': 'garbage' }), trusted)).toBeNull();
+      expect(getClientIp(mockRequest({ 'x-forwarded-for': '1.2.3.4, junk, 10.0.0.1' }), trusted)).toBeNull();
+    });
+
+    it('should take the right-most hop when no proxies are trusted', () => {
+      const request = mockRequest({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' });
+
+      expect(getClientIp(request, createTrustedProxyList(''))).toBe('1.2.3.4');
+    });
+
+    it('should skip trusted proxies from the right', () => {
+      const trusted = createTrustedProxyList('10.0.0.0/8, 192.168.1.5');
+      const request = mockRequest({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.1.2.3, 192.168.1.5' });
+
+      expect(getClientIp(request, trusted)).toBe('1.2.3.4');
+    });
+
+    it('should use the left-most hop when every hop is trusted', () => {
+      const trusted = createTrustedProxyList('10.0.0.0/8');
+
+      expect(getClientIp(mockRequest({ 'x-forwarded-for': '10.0.0.1, 10.0.0.2' }), trusted)).toBe('10.0.0.1');
+    });
+
+    it('should strip ports and normalise addresses', () => {
+      const trusted = createTrustedProxyList('');
+
+      expect(getClientIp(mockRequest({ 'x-forwarded-for': '1.2.3.4:51234' }), trusted)).toBe('1.2.3.4');
+      expect(getClientIp(mockRequest({ 'x-forwarded-for': '[2001:DB8::1]:443' }), trusted)).toBe('2001:db8::1');
+      expect(getClientIp(mockRequest({ 'x-forwarded-for': '::ffff:1.2.3.4' }), trusted)).toBe('1.2.3.4');
+    });
+  });
+
+  describe('getClientIdentity', () => {
+    const trusted = createTrustedProxyList('');
+
+    it('should key IPv4 clients on their address', () => {
+      expect(getClientIdentity(mockRequest({ 'x-forwarded-for': '1.2.3.4' }), {} as InvocationContext, trusted)).toBe(
+        'ip:1.2.3.4',
+      );
+    });
+
+    it('should group IPv6 clients by /64', () => {
+      const first = mockRequest({ 'x-forwarded-for': '2001:db8:0:1:aaaa::1' });
+      const second = mockRequest({ 'x-forwarded-for': '2001:0db8:0000:0001:bbbb:cccc:dddd:eeee' });
+
+      expect(getClientIdentity(first, {} as InvocationContext, trusted)).toBe('ip:2001:db8:0:1::/64');
+      expect(getClientIdentity(second, {} as InvocationContext, trusted)).toBe('ip:2001:db8:0:1::/64');
+    });
+
+    it('should be null for callers without a usable address', () => {
+      const request = mockRequest({ 'x-forwarded-for': 'garbage' });
+
+      expect(getClientIdentity(request, {} as InvocationContext, trusted)).toBeNull();
+    });
+
+    it('should prefer the authenticated principal over the address', () => {
+      const principalContext = {} as InvocationContext;
+      setPrincipal(principalContext, { type: 'apiKey', id: 'portfolio-app' });
+
+      expect(getClientIdentity(mockRequest({ 'x-forwarded-for': '1.2.3.4' }), principalContext, trusted)).toBe(
+        'apiKey:portfolio-app',
+      );
+    });
+  });
+
+  describe('withRateLimit', () => {
+    it('should call the handler and add rate limit headers when allowed', async () => {
+      const resetTime = Date.now() + 1000;
+      limiter.isAllowed.mockResolvedValue({ allowed: true, remaining: 9, resetTime });
+      const next = jest.fn().mockResolvedValue({ jsonBody: { ok: true } });
+
+      const response = await withRateLimit(limiter as unknown as RateLimiter)(next)(
+        mockRequest({ 'x-forwarded-for': '1.1.1.1' }),
+        context,
+      );
+
+      expect(limiter.isAllowed).toHaveBeenCalledWith('ip:1.1.1.1', context, 1);
+      expect(next).toHaveBeenCalled();
+      expect(response.jsonBody).toEqual({ ok: true });
+      expect(response.headers).toEqual({
+        'X-RateLimit-Limit': '10',
+        'X-RateLimit-Remaining': '9',
+        'X-RateLimit-Reset': new Date(resetTime).toISOString(),
+      });
+    });
+
+    it('should return 429 without calling the handler when the limit is exceeded', async () => {
+      limiter.isAllowed.mockResolvedValue({
+        allowed: false,
+        remaining: 0,
+        resetTime: Date.now() + 8000,
+        retryAfterMs: 4200,
+      });
+      const next = jest.fn();
+
+      const response = await withRateLimit(limiter as unknown as RateLimiter)(next)(
+        mockRequest({ 'x-forwarded-for': '1.1.1.1' }),
+        context,
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(429);
+      expect(response.jsonBody).toMatchObject({
+        title: 'Too many requests',
+        detail: 'Rate limit exceeded. Please try again later.',
+      });
+      expect(response.headers).toMatchObject({
+        'Content-Type': 'application/problem+json',
+        'X-RateLimit-Remaining': '0',
+        'Retry-After': '5',
+      });
+    });
+
+    it('should charge the cost computed for the request', async () => {
+      limiter.isAllowed.mockResolvedValue({ allowed: true, remaining: 5, resetTime: Date.now(), retryAfterMs: 0 });
+      const cost = jest.fn().mockReturnValue(4);
+      const request = mockRequest({ 'x-forwarded-for': '1.1.1.1' });
+
+      await withRateLimit(limiter as unknown as RateLimiter, cost)(jest.fn().mockResolvedValue({}))(request, context);
+
+      expect(cost).toHaveBeenCalledWith(request);
+      expect(limiter.isAllowed).toHaveBeenCalledWith('ip:1.1.1.1', context, 4);
+    });
+
+    it('should apply the rate limit policy of the principal', async () => {
+      const keyLimiter = {
+        isAllowed: jest.fn().mockResolvedValue({ allowed: true, remaining: 49, resetTime: 0 }),
+        getLimit: () => 50,
+      };
+      const withPolicy = jest.fn().mockReturnValue(keyLimiter);
+      const principalContext = {} as InvocationContext;
+      setPrincipal(principalContext, { type: 'apiKey', id: 'frontend', rateLimit: { burst: 50 } });
+
+      const response = await withRateLimit({ ...limiter, withPolicy } as unknown as RateLimiter)(
+        jest.fn().mockResolvedValue({}),
+      )(mockRequest(), principalContext);
+
+      expect(withPolicy).toHaveBeenCalledWith({ burst: 50 });
+      expect(keyLimiter.isAllowed).toHaveBeenCalledWith('apiKey:frontend', principalContext, 1);
+      expect(response.headers).toMatchObject({ 'X-RateLimit-Limit': '50' });
+    });
+
+    it('should limit callers without an address under the fallback policy', async () => {
+      const fallbackLimiter = {
+        isAllowed: jest.fn().mockResolvedValue({ allowed: true, remaining: 1, resetTime: 0 }),
+        getLimit: () => 2,
+      };
+      const withPolicy = jest.fn().mockReturnValue(fallbackLimiter);
+      const fallback = { burst: 2, refillPerSecond: 0.5 };
+      const next = jest.fn().mockResolvedValue({});
+
+      await withRateLimit({ ...limiter, withPolicy } as unknown as RateLimiter, undefined, fallback)(next)(
+        mockRequest({ 'x-forwarded-for': 'garbage' }),
+        context,
+      );
+      await withRateLimit({ ...limiter, withPolicy } as unknown as RateLimiter, undefined, fallback)(next)(
+        mockRequest({ 'x-forwarded-for': 'other-garbage' }),
+        context,
+      );
+
+      expect(withPolicy).toHaveBeenCalledWith(fallback);
+      expect(fallbackLimiter.isAllowed).toHaveBeenNthCalledWith(1, 'unidentified', context, 1);
+      expect(fallbackLimiter.isAllowed).toHaveBeenNthCalledWith(2, 'unidentified', context, 1);
+      expect(limiter.isAllowed).not.toHaveBeenCalled();
+    });
+
+    it('should return 503 without calling the handler when the limiter fails closed', async () => {
+      limiter.isAllowed.mockRejectedValue(new RateLimitUnavailable('store down'));
+      const next = jest.fn();
+      const failingContext = { error: jest.fn() } as unknown as InvocationContext;
+
+      const response = await withRateLimit(limiter as unknown as RateLimiter)(next)(
+        mockRequest({ 'x-forwarded-for': '1.1.1.1' }),
+        failingContext,
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(503);
+      expect(response.jsonBody).toMatchObject({ type: 'urn:stockquotes:problem:rate-limit-unavailable' });
+      expect(failingContext.error).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import type { HttpRequest, InvocationContext } from '@azure/functions';
+import { app } from '@azure/functions';
+import { registerVersionedRoute } from '../../src/routing/versions';
+
+jest.mock('@azure/functions', () => ({ app: { http: jest.fn() } }));
+
+const mockHttp = app.http as jest.Mock;
+
+describe('registerVersionedRoute', () => {
+  const context = { log: jest.fn() } as unknown as InvocationContext;
+  const request = { method: 'GET', headers: { get: () => null } } as unknown as HttpRequest;
+  const handler = jest.fn(async () => ({ status: 200, jsonBody: { ok: true } }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registerVersionedRoute('statements', {
+      route: 'statements',
+      methods: ['GET', 'OPTIONS'],
+      handlers: { v1: handler },
+      legacy: true,
+    });
+  });
+
+  it('should register the route under the version prefix', () => {
+    expect(mockHttp).toHaveBeenCalledWith('statements-v1', {
+      methods: ['GET', 'OPTIONS'],
+      authLevel: 'anonymous',
+      route: 'v1/statements',
+      handler,
+    });
+  });
+
+  it('should keep the unversioned route of a legacy route as a deprecated alias of v1', async () => {
+    const [, legacy] = mockHttp.mock.calls.find(([name]) => name === 'statements');
+
+    expect(legacy).toMatchObject({ route: 'statements', methods: ['GET', 'OPTIONS'] });
+
+    const response = await legacy.handler(request, context);
+
+    expect(handler).toHaveBeenCalledWith(request, context);
+    expect(response.jsonBody).toEqual({ ok: true });
+    expect(response.headers).toMatchObject({
+      Deprecation: expect.stringMatching(/^@\d+$/),
+      Sunset: expect.stringMatching(/GMT$/),
+      Link: '</api/v1/statements>; rel="successor-version"',
+    });
+  });
+
+  it('should register every route once per version plus the alias', () => {
+    expect(mockHttp.mock.calls.map(([name]) => name)).toEqual(['statements-v1', 'statements']);
+  });
+
+  it('should give routes added with versioning no unversioned alias', () => {
+    mockHttp.mockClear();
+
+    registerVersionedRoute('exchange-rate-ecb-history', {
+      route: 'exchange-rate-ecb/history',
+      methods: ['GET', 'OPTIONS'],
+      handlers: { v1: handler },
+    });
+
+    expect(mockHttp.mock.calls.map(([name]) => name)).toEqual(['exchange-rate-ecb-history-v1']);
+  });
+});
@@ -0,0 +1,66 @@
+import { buildOpenApiDocument } from '../../src/schemas/openapi';
+
+type Operation = {
+  parameters: Array<{ name: string; required: boolean }>;
+  responses: Record<string, { content?: Record<string, { schema: unknown }> }>;
+};
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument() as {
+    openapi: string;
+    paths: Record<string, { get: Operation }>;
+    components: { schemas: Record<string, unknown> };
+  };
+
+  it('should be an OpenAPI 3.1 document of every public route', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths).sort()).toEqual([
+      '/exchange-rate',
+      '/exchange-rate-ecb',
+      '/exchange-rate-ecb/history',
+      '/exchange-rate-ecb/latest',
+      '/statements',
+      '/yahoo-finance',
+      '/yahoo-finance-historical',
+      '/yahoo-finance-stock-options',
+      '/yahoo-finance-summary',
+    ]);
+  });
+
+  it('should describe the query parameters of the request schemas', () => {
+    const parameters = document.paths['/yahoo-finance-historical'].get.parameters;
+
+    expect(parameters.map((parameter) => parameter.name)).toEqual([
+      'ticker',
+      'from',
+      'to',
+      'interval',
+      'fields',
+      'events',
+      'precision',
+      'baseCurrency',
+    ]);
+    expect(parameters.find((parameter) => parameter.name === 'ticker')).toMatchObject({ required: true });
+  });
+
+  it('should document problem responses', () => {
+    const { responses } = document.paths['/exchange-rate'].get;
+
+    expect(Object.keys(responses)).toEqual(
+      expect.arrayContaining(['200', '304', '400', '404', '401', '403', '429', '502', '503', '504']),
+    );
+    expect(responses['400'].content).toEqual({
+      'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } },
+    });
+    expect(document.paths['/exchange-rate-ecb/latest'].get.responses).not.toHaveProperty('400');
+  });
+
+  it('should only reference schemas that exist', () => {
+    const references = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) ?? [];
+
+    expect(references.length).toBeGreaterThan(0);
+    for (const reference of new Set(references)) {
+      expect(document.components.schemas).toHaveProperty(reference.split('/').pop() as string);
+    }
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  conversionQuery,
+  historicalQuery,
+  optionsQuery,
+  quoteQuery,
+  rateHistoryQuery,
+  statementsQuery,
+  summaryQuery,
+} from '../../src/schemas/requests';
+import { DEFAULT_HISTORICAL_PRECISION } from '../../src/services/yahooFinanceService';
+
+const queryOf = (values: Record<string, string>) => ({ get: (name: string) => values[name] ?? null });
+
+describe('quoteQuery', () => {
+  it('should parse symbols and fields', () => {
+    expect(
+      quoteQuery.parse(queryOf({ symbols: 'MSFT,AAPL', fields: 'regularMarketPrice', baseCurrency: 'eur' })),
+    ).toEqual({ symbols: ['MSFT', 'AAPL'], fields: ['regularMarketPrice'], baseCurrency: 'EUR' });
+  });
+
+  it('should skip empty symbols between separators', () => {
+    expect(quoteQuery.parse(queryOf({ symbols: 'MSFT,,AAPL,' })).symbols).toEqual(['MSFT', 'AAPL']);
+  });
+
+  it('should require at least one symbol', () => {
+    expect(() => quoteQuery.parse(queryOf({ symbols: ',' }))).toThrow('Missing required parameter: symbols');
+  });
+
+  it('should allow at most 50 symbols and 20 fields', () => {
+    const many = (count: number) => Array.from({ length: count }, (_, i) => `S${i}`).join(',');
+
+    expect(() => quoteQuery.parse(queryOf({ symbols: many(51) }))).toThrow(
+      'Invalid parameter: symbols allows at most 50 values',
+    );
+    expect(() => quoteQuery.parse(queryOf({ symbols: 'MSFT', fields: many(21) }))).toThrow(
+      'Invalid parameter: fields allows at most 20 values',
+    );
+  });
+
+  it('should reject a base currency that is not an ISO 4217 code', () => {
+    expect(() => quoteQuery.parse(queryOf({ symbols: 'MSFT', baseCurrency: 'EURO' }))).toThrow(
+      'Invalid parameter: baseCurrency must be a 3-letter ISO 4217 currency code',
+    );
+  });
+});
+
+describe('historicalQuery', () => {
+  const valid = { ticker: 'AAPL', from: '2024-01-01', to: '2024-01-31' };
+
+  it('should apply the defaults', () => {
+    expect(historicalQuery.parse(queryOf(valid))).toEqual({
+      ...valid,
+      interval: '1d',
+      fields: undefined,
+      events: undefined,
+      precision: DEFAULT_HISTORICAL_PRECISION,
+      baseCurrency: undefined,
+    });
+  });
+
+  it('should split fields and events on commas and pipes', () => {
+    const query = historicalQuery.parse(queryOf({ ...valid, fields: 'open|close', events: 'dividends,splits' }));
+
+    expect(query.fields).toEqual(['open', 'close']);
+    expect(query.events).toEqual(['dividends', 'splits']);
+  });
+
+  it.each([
+    ['raw', 'raw'],
+    ['auto', 'auto'],
+    ['0', 0],
+    ['10', 10],
+  ])('should accept precision %p', (precision, expected) => {
+    expect(historicalQuery.parse(queryOf({ ...valid, precision })).precision).toBe(expected);
+  });
+
+  it.each([
+    [{ ticker: '' }, 'Missing required parameter: ticker'],
+    [{ from: '2024/01/01' }, 'Invalid parameter: from must be a date in yyyy-MM-dd format'],
+    [{ from: '2024-02-30' }, 'Invalid parameter: from must be a date in yyyy-MM-dd format'],
+    [{ to: 'tomorrow' }, 'Invalid parameter: to must be a date in yyyy-MM-dd format'],
+    [{ from: '2024-02-01' }, 'From date must be before or equal to to date'],
+    [
+      { interval: '2d' },
+      'Invalid parameter: interval must be one of: 1m, 2m, 5m, 15m, 30m, 60m, 90m, 1h, 1d, 1w, 1wk, 1mo, 3mo',
+    ],
+    [
+      { events: 'earnings' },
+      'Invalid parameter: events contains "earnings"; each value must be one of: dividends, splits',
+    ],
+    [{ precision: '11' }, 'Invalid parameter: precision must be one of: raw, auto or an integer between 0 and 10'],
+    [
+      { fields: Array.from({ length: 21 }, (_, i) => `f${i}`).join(',') },
+      'Invalid parameter: fields allows at most 20 values',
+    ],
+  ])('should reject %p', (override, error) => {
+    expect(() => historicalQuery.parse(queryOf({ ...valid, ...override }))).toThrow(error);
+  });
+
+  it.each([
+    ['1m', '2024-01-01', '2024-01-08', undefined],
+    ['1m', '2024-01-01', '2024-01-09', 'Date range exceeds maximum of 7 days for intraday interval "1m"'],
+    ['1h', '2024-01-01', '2024-01-08', undefined],
+    ['1d', '2019-01-02', '2024-01-01', undefined],
+    ['1d', '2000-01-01', '2024-01-01', 'Date range exceeds maximum of 5 years for daily interval'],
+    ['1w', '1960-01-01', '2024-01-01', 'Date range exceeds maximum of 50 years for weekly interval'],
+    ['1wk', '1960-01-01', '2024-01-01', 'Date range exceeds maximum of 50 years for weekly interval'],
+    ['1wk', '1980-01-01', '2024-01-01', undefined],
+    ['1mo', '1980-01-01', '2024-01-01', undefined],
+    ['3mo', '1960-01-01', '2024-01-01', 'Date range exceeds maximum of 50 years for monthly interval'],
+  ])('should limit a %s range from %s to %s', (interval, from, to, error) => {
+    const parse = () => historicalQuery.parse(queryOf({ ticker: 'AAPL', interval, from, to }));
+
+    if (error) {
+      expect(parse).toThrow(error);
+    } else {
+      expect(parse).not.toThrow();
+    }
+  });
+});
+
+describe('optionsQuery', () => {
+  it('should parse a valid request', () => {
+    expect(
+      optionsQuery.parse(queryOf({ ticker: 'AAPL', expirationDatesCount: '3', filter: 'calls,puts', limit: '10' })),
+    ).toEqual({
+      ticker: 'AAPL',
+      expirationDate: undefined,
+      expirationDatesCount: 3,
+      filter: ['calls', 'puts'],
+      limit: 10,
+    });
+  });
+
+  it.each([
+    [{ ticker: '' }, 'Missing required parameter: ticker'],
+    [{ expirationDate: '2024-1-1' }, 'Invalid parameter: expirationDate must be a date in yyyy-MM-dd format'],
+    [{ expirationDate: '2024-02-30' }, 'Invalid parameter: expirationDate must be a date in yyyy-MM-dd format'],
+    [{ expirationDatesCount: 'two' }, 'Invalid parameter: expirationDatesCount must be an integer between 1 and 24'],
+    [{ expirationDatesCount: '25' }, 'Invalid parameter: expirationDatesCount must be an integer between 1 and 24'],
+    [
+      { expirationDate: '2024-06-21', expirationDatesCount: '2' },
+      'Cannot specify both expirationDate and expirationDatesCount',
+    ],
+    [{ filter: 'invalid' }, 'Invalid parameter: filter contains "invalid"; each value must be one of: calls, puts'],
+    [{ limit: '1.5' }, 'Invalid parameter: limit must be an integer between 1 and 50'],
+    [{ limit: '0' }, 'Invalid parameter: limit must be an integer between 1 and 50'],
+  ])('should reject %p', (override, error) => {
+    expect(() => optionsQuery.parse(queryOf({ ticker: 'AAPL', ...override }))).toThrow(error);
+  });
+});
+
+describe('summaryQuery', () => {
+  it('should accept known modules', () => {
+    expect(summaryQuery.parse(queryOf({ ticker: 'AAPL', modules: 'price,summaryDetail' })).modules).toEqual([
+      'price',
+      'summaryDetail',
+    ]);
+  });
+
+  it('should reject unknown modules', () => {
+    expect(() => summaryQuery.parse(queryOf({ ticker: 'AAPL', modules: 'price,bogus' }))).toThrow(
+      'Invalid parameter: modules contains "bogus"',
+    );
+  });
+});
+
+describe('statementsQuery', () => {
+  it.each(['IBM', 'BRK.B', 'ibm', 'A1'])('should accept ticker %p', (ticker) => {
+    expect(statementsQuery.parse(queryOf({ ticker })).ticker).toBe(ticker);
+  });
+
+  it.each(['INVALID@TICKER', 'ABC DEF', 'ABCDEFGHIJK'])('should reject ticker %p', (ticker) => {
+    expect(() => statementsQuery.parse(queryOf({ ticker }))).toThrow(
+      'Invalid parameter: ticker must be 1-10 letters, digits or dots',
+    );
+  });
+
+  it('should split fields on pipes only', () => {
+    expect(statementsQuery.parse(queryOf({ ticker: 'IBM', fields: 'a.b|c' })).fields).toEqual(['a.b', 'c']);
+  });
+
+  it.each([
+    [{ period: 'monthly' }, 'Invalid parameter: period must be one of: yearly, quarterly'],
+    [{ limitStatements: '0' }, 'Invalid parameter: limitStatements must be an integer between 1 and 100'],
+  ])('should reject %p', (override, error) => {
+    expect(() => statementsQuery.parse(queryOf({ ticker: 'IBM', ...override }))).toThrow(error);
+  });
+});
+
+describe('conversionQuery', () => {
+  it('should default to an amount of 1', () => {
+    expect(conversionQuery.parse(queryOf({ from: 'usd', to: 'CHF' }))).toEqual({
+      from: 'USD',
+      to: 'CHF',
+      date: undefined,
+      amount: 1,
+    });
+  });
+
+  it.each([
+    [{ from: '' }, 'Missing required parameter: from'],
+    [{ to: 'CHFX' }, 'Invalid parameter: to must be a 3-letter ISO 4217 currency code'],
+    [{ date: '2999-01-01' }, 'Invalid parameter: date must be a date in yyyy-MM-dd format, not in the future'],
+    [{ amount: '-5' }, 'Invalid parameter: amount must be a number of at least 0'],
+  ])('should reject %p', (override, error) => {
+    expect(() => conversionQuery.parse(queryOf({ from: 'USD', to: 'CHF', ...override }))).toThrow(error);
+  });
+});
+
+describe('rateHistoryQuery', () => {
+  it.each([
+    [{ currency: 'US' }, 'Invalid parameter: currency must be a 3-letter ISO 4217 currency code'],
+    [{ from: '2024-03-31' }, 'From date must be before or equal to to date'],
+    [{ to: '2999-01-01' }, 'Invalid parameter: to must be a date in yyyy-MM-dd format, not in the future'],
+  ])('should reject %p', (override, error) => {
+    const query = { currency: 'USD', from: '2024-03-01', to: '2024-03-30', ...override };
+
+    expect(() => rateHistoryQuery.parse(queryOf(query))).toThrow(error);
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  anyOf,
+  currencyCode,
+  date,
+  enumeration,
+  integer,
+  list,
+  number,
+  param,
+  querySchema,
+  string,
+} from '../../src/schemas/schema';
+import { ValidationError } from '../../src/utils/errors';
+
+const queryOf = (values: Record<string, string>) => ({ get: (name: string) => values[name] ?? null });
+
+describe('value types', () => {
+  it.each([
+    ['0', 0],
+    ['10', 10],
+    ['-1', undefined],
+    ['11', undefined],
+    ['1.5', undefined],
+    ['1e1', undefined],
+    ['abc', undefined],
+  ])('integer 0..10 should parse %p as %p', (text, expected) => {
+    expect(integer({ minimum: 0, maximum: 10 }).parse(text)).toBe(expected);
+  });
+
+  it.each([
+    ['0', 0],
+    ['12.5', 12.5],
+    ['-5', undefined],
+    ['Infinity', undefined],
+    [' ', undefined],
+  ])('number >= 0 should parse %p as %p', (text, expected) => {
+    expect(number({ minimum: 0 }).parse(text)).toBe(expected);
+  });
+
+  it.each([
+    ['2024-02-29', '2024-02-29'],
+    ['2023-02-29', undefined],
+    ['2024-13-01', undefined],
+    ['2024-1-01', undefined],
+    ['01/01/2024', undefined],
+  ])('date should parse %p as %p', (text, expected) => {
+    expect(date().parse(text)).toBe(expected);
+  });
+
+  it('should reject future days only when asked to', () => {
+    expect(date().parse('2999-01-01')).toBe('2999-01-01');
+    expect(date({ notInFuture: true }).parse('2999-01-01')).toBeUndefined();
+    expect(date({ notInFuture: true }).parse('2024-01-01')).toBe('2024-01-01');
+  });
+
+  it('should upper-case currency codes and reject anything else', () => {
+    expect(currencyCode().parse('eur')).toBe('EUR');
+    expect(currencyCode().parse('EURO')).toBeUndefined();
+    expect(currencyCode().parse('E1R')).toBeUndefined();
+  });
+
+  it('should apply the pattern and maximum length of strings', () => {
+    const ticker = string({ pattern: /^[A-Z]+$/, maxLength: 4 });
+
+    expect(ticker.parse('IBM')).toBe('IBM');
+    expect(ticker.parse('ibm')).toBeUndefined();
+    expect(ticker.parse('ABCDE')).toBeUndefined();
+  });
+
+  it('should try each alternative of anyOf in turn', () => {
+    const precision = anyOf(enumeration(['raw', 'auto'] as const), integer({ minimum: 0, maximum: 10 }));
+
+    expect(precision.parse('raw')).toBe('raw');
+    expect(precision.parse('4')).toBe(4);
+    expect(precision.parse('11')).toBeUndefined();
+    expect(precision.expected).toBe('one of: raw, auto or an integer between 0 and 10');
+  });
+});
+
+describe('Parameter', () => {
+  it('should return undefined for a missing optional parameter', () => {
+    expect(param(integer({ minimum: 1, maximum: 5 })).parse('limit', null)).toBeUndefined();
+  });
+
+  it('should fall back to the default when missing or empty', () => {
+    const interval = param(enumeration(['1d', '1wk'])).default('1d');
+
+    expect(interval.parse('interval', null)).toBe('1d');
+    expect(interval.parse('interval', '')).toBe('1d');
+    expect(interval.parse('interval', '1wk')).toBe('1wk');
+  });
+
+  it('should reject a missing or empty required parameter', () => {
+    const ticker = param(string()).required();
+
+    expect(() => ticker.parse('ticker', null)).toThrow(new ValidationError('Missing required parameter: ticker'));
+    expect(() => ticker.parse('ticker', '')).toThrow('Missing required parameter: ticker');
+  });
+
+  it('should name the parameter and the expected value when invalid', () => {
+    expect(() => param(integer({ minimum: 1, maximum: 50 })).parse('limit', '100')).toThrow(
+      'Invalid parameter: limit must be an integer between 1 and 50',
+    );
+  });
+
+  it('should describe itself as an OpenAPI parameter', () => {
+    const parameter = param(enumeration(['1d', '1wk']))
+      .default('1d')
+      .describe('Bar interval', '1wk');
+
+    expect(parameter.toOpenApi('interval')).toEqual({
+      name: 'interval',
+      in: 'query',
+      required: false,
+      description: 'Bar interval',
+      schema: { type: 'string', enum: ['1d', '1wk'], default: '1d' },
+      example: '1wk',
+    });
+  });
+});
+
+describe('list', () => {
+  it('should split, trim and drop empty values', () => {
+    expect(list(string()).parse('symbols', ' MSFT, ,AAPL ')).toEqual(['MSFT', 'AAPL']);
+  });
+
+  it('should accept every listed separator', () => {
+    expect(list(string(), { separators: ',|' }).parse('fields', 'open|close,volume')).toEqual([
+      'open',
+      'close',
+      'volume',
+    ]);
+    expect(list(string(), { separators: '|' }).parse('fields', 'a,b|c')).toEqual(['a,b', 'c']);
+  });
+
+  it('should treat a list of separators only as missing', () => {
+    expect(list(string()).parse('fields', ',,')).toBeUndefined();
+    expect(() => list(string()).required().parse('symbols', ' , ')).toThrow('Missing required parameter: symbols');
+  });
+
+  it('should limit the number of values', () => {
+    expect(() => list(string(), { maxItems: 2 }).parse('symbols', 'A,B,C')).toThrow(
+      'Invalid parameter: symbols allows at most 2 values',
+    );
+  });
+
+  it('should name the first invalid value', () => {
+    expect(() => list(enumeration(['calls', 'puts'])).parse('filter', 'calls,straddles')).toThrow(
+      'Invalid parameter: filter contains "straddles"; each value must be one of: calls, puts',
+    );
+  });
+
+  it('should document the delimiter as the OpenAPI style', () => {
+    expect(list(string(), { maxItems: 5 }).toOpenApi('symbols')).toMatchObject({
+      schema: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 5 },
+      style: 'form',
+      explode: false,
+    });
+    expect(list(string(), { separators: '|' }).toOpenApi('fields')).toMatchObject({ style: 'pipeDelimited' });
+  });
+});
+
+describe('QuerySchema', () => {
+  const range = querySchema(
+    {
+      from: param(date()).required(),
+      to: param(date()).required(),
+      limit: param(integer({ minimum: 1, maximum: 10 })).default(5),
+    },
+    ({ from, to }) => (from > to ? 'From date must be before or equal to to date' : undefined),
+  );
+
+  it('should parse every parameter', () => {
+    expect(range.parse(queryOf({ from: '2024-01-01', to: '2024-01-31' }))).toEqual({
+      from: '2024-01-01',
+      to: '2024-01-31',
+      limit: 5,
+    });
+  });
+
+  it('should report the first invalid parameter before applying the rules', () => {
+    expect(() => range.parse(queryOf({ from: '2024-02-01', to: 'x' }))).toThrow(
+      'Invalid parameter: to must be a date in yyyy-MM-dd format',
+    );
+  });
+
+  it('should reject a query that breaks a rule', () => {
+    expect(() => range.parse(queryOf({ from: '2024-02-01', to: '2024-01-01' }))).toThrow(
+      new ValidationError('From date must be before or equal to to date'),
+    );
+  });
+
+  it('should describe its parameters in declaration order', () => {
+    expect(range.toOpenApi().map(({ name, required }) => [name, required])).toEqual([
+      ['from', true],
+      ['to', true],
+      ['limit', false],
+    ]);
+  });
+});
@@ -2,6 +2,7 @@ import { AlphaVantageService } from '../../src/services/alphaVantageService';
 import { CacheService } from '../../src/services/cacheService';
 import type { InvocationContext } from '@azure/functions';
 import axios from 'axios';
+import { ConfigurationError } from '../../src/utils/errors';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -391,13 +392,7 @@ describe('AlphaVantageService', () => {
       service = new AlphaVantageService(mockCache);
 
       await expect(service.getFinancialStatements('IBM', undefined, undefined, undefined, mockContext)).rejects.toThrow(
-        'ALPHAVANTAGE_API_KEY environment variable is not set',
-      );
-    });
-
-    it('should throw error on invalid ticker', async () => {
-      await expect(service.getFinancialStatements('', undefined, undefined, undefined, mockContext)).rejects.toThrow(
-        'Ticker symbol is required',
+        new ConfigurationError('ALPHAVANTAGE_API_KEY environment variable is not set'),
       );
     });
 
@@ -406,9 +401,9 @@ describe('AlphaVantageService', () => {
         data: { Note: 'API call frequency exceeded' },
       });
 
-      await expect(service.getFinancialStatements('IBM', undefined, undefined, undefined, mockContext)).rejects.toThrow(
-        'Alpha Vantage API rate limit reached',
-      );
+      await expect(
+        service.getFinancialStatements('IBM', undefined, undefined, undefined, mockContext),
+      ).rejects.toMatchObject({ name: 'UpstreamRateLimited', message: 'Alpha Vantage API rate limit reached' });
     });
 
     it('should throw error on API information message', async () => {
@@ -416,9 +411,13 @@ describe('AlphaVantageService', () => {
         data: { Information: 'Invalid API call' },
       });
 
-      await expect(service.getFinancialStatements('IBM', undefined, undefined, undefined, mockContext)).rejects.toThrow(
-        'Alpha Vantage API error: Invalid API call',
-      );
+      await expect(
+        service.getFinancialStatements('IBM', undefined, undefined, undefined, mockContext),
+      ).rejects.toMatchObject({
+        name: 'UpstreamError',
+        message: 'Alpha Vantage API error: Invalid API call',
+        detail: 'Alpha Vantage returned an invalid response',
+      });
     });
 
     it('should throw timeout error on ECONNABORTED', async () => {
@@ -766,41 +765,4 @@ describe('AlphaVantageService', () => {
       });
     });
   });
-
-  describe('validateTicker', () => {
-    it('should validate valid ticker symbols', () => {
-      const validTickers = ['AAPL', 'GOOG', 'MSFT', 'BRK.B', '123', 'A'];
-
-      for (const ticker of validTickers) {
-        const result = service.validateTicker(ticker);
-        expect(result.isValid).toBe(true);
-      }
-    });
-
-    it('should invalidate empty ticker', () => {
-      const result = service.validateTicker('');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Ticker symbol is required');
-    });
-
-    it('should invalidate null/undefined ticker', () => {
-      const result = service.validateTicker(null as unknown as string);
-      expect(result.isValid).toBe(false);
-    });
-
-    it('should invalidate ticker with invalid characters', () => {
-      const invalidTickers = ['AAPL@', 'GOOG!', 'MSFT#', 'TOO-LONG-SYMBOL'];
-
-      for (const ticker of invalidTickers) {
-        const result = service.validateTicker(ticker);
-        expect(result.isValid).toBe(false);
-        expect(result.error).toContain('Invalid ticker symbol format');
-      }
-    });
-
-    it('should invalidate ticker longer than 10 characters', () => {
-      const result = service.validateTicker('VERYLONGTICKER');
-      expect(result.isValid).toBe(false);
-    });
-  });
 });
@@ -0,0 +1,134 @@
+import type { InvocationContext } from '@azure/functions';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ApiKey } from '../../src/services/apiKeys';
+import { ApiKeyRegistry, hashApiKey, loadApiKeys, parseApiKeys } from '../../src/services/apiKeys';
+import { MemoryRateLimitStore } from '../../src/services/rateLimit/memoryRateLimitStore';
+import { QuotaExceeded, RateLimitUnavailable } from '../../src/utils/errors';
+
+describe('apiKeys', () => {
+  const frontend = { name: 'frontend', sha256: hashApiKey('front-secret') };
+
+  describe('parseApiKeys', () => {
+    it('should default to all routes and no quota', () => {
+      expect(parseApiKeys([frontend])).toEqual([{ ...frontend, routes: ['*'], rateLimit: undefined, quota: {} }]);
+    });
+
+    it.each([
+      [{}, 'expected an array'],
+      [[{ sha256: frontend.sha256 }], 'key 0 has no name'],
+      [[frontend, frontend], 'duplicate key name "frontend"'],
+      [[{ name: 'plain', sha256: 'front-secret' }], 'plain.sha256'],
+      [[{ ...frontend, routes: 'statements' }], 'frontend.routes'],
+      [[{ ...frontend, rateLimit: { burst: 0 } }], 'frontend.burst'],
+      [[{ ...frontend, quota: { daily: 1.5 } }], 'frontend.quota.daily'],
+    ])('should reject %j', (config, message) => {
+      expect(() => parseApiKeys(config)).toThrow(message);
+    });
+  });
+
+  describe('loadApiKeys', () => {
+    it('should have no keys without configuration', () => {
+      expect(loadApiKeys({})).toEqual([]);
+    });
+
+    it('should read inline JSON from API_KEYS', () => {
+      expect(loadApiKeys({ API_KEYS: JSON.stringify([frontend]) })[0].name).toBe('frontend');
+    });
+
+    it('should read a key file from API_KEYS_FILE', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stockquotes-keys-'));
+      const file = path.join(dir, 'keys.json');
+      fs.writeFileSync(file, JSON.stringify([{ ...frontend, routes: ['statements'] }]));
+
+      try {
+        expect(loadApiKeys({ API_KEYS_FILE: file })[0].routes).toEqual(['statements']);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => loadApiKeys({ API_KEYS: '[' })).toThrow('not valid JSON');
+    });
+  });
+
+  describe('ApiKeyRegistry', () => {
+    // Monday 15 January 2024, 22:00 UTC
+    const now = Date.UTC(2024, 0, 15, 22);
+    const context = { warn: jest.fn() } as unknown as InvocationContext;
+    let key: ApiKey;
+    let registry: ApiKeyRegistry;
+
+    beforeEach(() => {
+      [key] = parseApiKeys([{ ...frontend, routes: ['statements'], quota: { daily: 2, monthly: 10 } }]);
+      registry = new ApiKeyRegistry([key], new MemoryRateLimitStore());
+    });
+
+    it('should authenticate keys by their digest', () => {
+      expect(registry.enabled).toBe(true);
+      expect(registry.authenticate('front-secret')).toBe(key);
+      expect(registry.authenticate('wrong')).toBeUndefined();
+      expect(registry.authenticate(null)).toBeUndefined();
+      expect(new ApiKeyRegistry([], new MemoryRateLimitStore()).enabled).toBe(false);
+    });
+
+    it('should find keys by name', () => {
+      expect(registry.findByName('frontend')).toBe(key);
+      expect(registry.findByName('unknown')).toBeUndefined();
+    });
+
+    it('should check the allowed routes', () => {
+      expect(registry.isRouteAllowed(key, 'statements')).toBe(true);
+      expect(registry.isRouteAllowed(key, 'yahoo-finance')).toBe(false);
+    });
+
+    it('should enforce the daily quota until the next UTC day', async () => {
+      await registry.consume(key, context, now);
+      await registry.consume(key, context, now);
+
+      const error = await registry.consume(key, context, now).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(QuotaExceeded);
+      expect(error).toMatchObject({ retryAfter: 7200, detail: 'The daily request quota of this API key is used up.' });
+
+      await expect(registry.consume(key, context, now + 2 * 3600 * 1000)).resolves.toBeUndefined();
+    });
+
+    it('should report usage per period without counting rejected requests', async () => {
+      await registry.consume(key, context, now);
+      await registry.consume(key, context, now);
+      await registry.consume(key, context, now).catch(() => undefined);
+
+      expect(await registry.getUsage('frontend', now)).toEqual([
+        {
+          name: 'frontend',
+          routes: ['statements'],
+          rateLimit: undefined,
+          usage: {
+            daily: { period: '2024-01-15', used: 2, limit: 2, resetAt: '2024-01-16T00:00:00.000Z' },
+            monthly: { period: '2024-01', used: 2, limit: 10, resetAt: '2024-02-01T00:00:00.000Z' },
+          },
+        },
+      ]);
+      expect(await registry.getUsage('unknown', now)).toEqual([]);
+    });
+
+    it('should follow the failure mode when the store is unreachable', async () => {
+      const store = {
+        get: jest.fn(),
+        increment: jest.fn().mockRejectedValue(new Error('down')),
+        compareAndSet: jest.fn(),
+      };
+
+      await expect(new ApiKeyRegistry([key], store, 'open').consume(key, context, now)).resolves.toBeUndefined();
+      await expect(new ApiKeyRegistry([key], store, 'closed').consume(key, context, now)).rejects.toBeInstanceOf(
+        RateLimitUnavailable,
+      );
+      expect(context.warn).toHaveBeenCalledWith(
+        'Quota store failed for API key frontend, allowing request',
+        expect.any(Error),
+      );
+    });
+  });
+});
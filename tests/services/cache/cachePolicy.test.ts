@@ -0,0 +1,128 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  CachePolicies,
+  createCachePolicies,
+  createDefaultPolicyTable,
+  DEFAULT_MARKET_HOURS,
+  loadCachePolicies,
+} from '../../../src/services/cache/cachePolicy';
+
+describe('cachePolicy', () => {
+  // Monday 15 January 2024; New York is UTC-5
+  const at = (iso: string) => () => new Date(iso);
+
+  describe('createDefaultPolicyTable', () => {
+    it('should keep the TTLs the handlers used before', () => {
+      const table = createDefaultPolicyTable({});
+
+      expect(table.quotes).toEqual({ ttlSeconds: 60, staleSeconds: 86400, cacheControl: 'max-age=60' });
+      expect(table.summary).toMatchObject({ ttlSeconds: 300, cacheControl: 'max-age=300' });
+      expect(table.hist).toMatchObject({ ttlSeconds: 86400, cacheControl: 'max-age=3600' });
+      expect(table.statements).toMatchObject({ ttlSeconds: 86400, cacheControl: 'max-age=86400' });
+    });
+
+    it('should take the global TTL and stale window from the environment', () => {
+      const table = createDefaultPolicyTable({ CACHE_TTL_SECONDS: '120', CACHE_STALE_SECONDS: '0' });
+
+      expect(table.ecb).toMatchObject({ ttlSeconds: 120, staleSeconds: 0 });
+      expect(table.quotes).toMatchObject({ ttlSeconds: 60, staleSeconds: 0 });
+    });
+  });
+
+  describe('CachePolicies', () => {
+    it('should resolve policies by namespace and by key', () => {
+      const policies = new CachePolicies(createDefaultPolicyTable({}));
+
+      expect(policies.resolve('quotes')).toEqual({ ttlMs: 60000, staleMs: 86400000, cacheControl: 'max-age=60' });
+      expect(policies.resolveKey('summary:AAPL:default').ttlMs).toBe(300000);
+      expect(policies.resolveKey('unknown-key').cacheControl).toBe('no-cache');
+    });
+
+    it.each([
+      ['2024-01-15T15:00:00Z', true],
+      ['2024-01-15T14:30:00Z', true],
+      ['2024-01-15T14:29:00Z', false],
+      ['2024-01-15T21:00:00Z', false],
+      ['2024-01-13T15:00:00Z', false],
+    ])('should report whether the market is open at %s', (iso, open) => {
+      const policies = new CachePolicies(createDefaultPolicyTable({}), DEFAULT_MARKET_HOURS, at(iso));
+
+      expect(policies.isMarketOpen()).toBe(open);
+    });
+
+    it('should apply the market-closed overrides outside trading hours', () => {
+      const table = createDefaultPolicyTable({});
+      table.quotes.marketClosed = { ttlSeconds: 900, cacheControl: 'max-age=900' };
+
+      const open = new CachePolicies(table, DEFAULT_MARKET_HOURS, at('2024-01-15T15:00:00Z'));
+      const closed = new CachePolicies(table, DEFAULT_MARKET_HOURS, at('2024-01-15T23:00:00Z'));
+
+      expect(open.resolve('quotes')).toEqual({ ttlMs: 60000, staleMs: 86400000, cacheControl: 'max-age=60' });
+      expect(closed.resolve('quotes')).toEqual({ ttlMs: 900000, staleMs: 86400000, cacheControl: 'max-age=900' });
+      expect(closed.resolve('summary').ttlMs).toBe(300000);
+    });
+  });
+
+  describe('createCachePolicies', () => {
+    it('should overlay configured namespaces onto the defaults', () => {
+      const policies = createCachePolicies(
+        { namespaces: { hist: { ttlSeconds: 600, cacheControl: 'public, max-age=600' } } },
+        {},
+      );
+
+      expect(policies.resolve('hist')).toEqual({
+        ttlMs: 600000,
+        staleMs: 86400000,
+        cacheControl: 'public, max-age=600',
+      });
+      expect(policies.resolve('quotes').ttlMs).toBe(60000);
+    });
+
+    it('should use the configured market hours', () => {
+      const policies = createCachePolicies({ marketHours: { timeZone: 'Europe/London', open: '08:00' } }, {});
+
+      expect(policies.isMarketOpen(new Date('2024-01-15T08:30:00Z'))).toBe(true);
+      expect(policies.isMarketOpen(new Date('2024-01-15T07:30:00Z'))).toBe(false);
+    });
+
+    it.each([
+      [{ namespaces: { bogus: {} } }, 'unknown namespace "bogus"'],
+      [{ namespaces: { quotes: { ttlSeconds: -1 } } }, 'quotes.ttlSeconds'],
+      [{ namespaces: { quotes: { marketClosed: { staleSeconds: '60' } } } }, 'quotes.marketClosed.staleSeconds'],
+      [{ marketHours: { open: '9:30' } }, 'HH:MM'],
+      [{ marketHours: { timeZone: 'Mars/Olympus' } }, 'unknown time zone'],
+    ])('should reject invalid configuration %j', (config, message) => {
+      expect(() => createCachePolicies(config as never, {})).toThrow(message);
+    });
+  });
+
+  describe('loadCachePolicies', () => {
+    it('should use the defaults without configuration', () => {
+      expect(loadCachePolicies({}).resolve('summary').ttlMs).toBe(300000);
+    });
+
+    it('should read inline JSON from CACHE_POLICIES', () => {
+      const policies = loadCachePolicies({ CACHE_POLICIES: '{"namespaces":{"summary":{"ttlSeconds":30}}}' });
+
+      expect(policies.resolve('summary').ttlMs).toBe(30000);
+    });
+
+    it('should read a policy file from CACHE_POLICY_FILE', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stockquotes-policy-'));
+      const file = path.join(dir, 'policies.json');
+      fs.writeFileSync(file, JSON.stringify({ namespaces: { options: { cacheControl: 'max-age=30' } } }));
+
+      try {
+        expect(loadCachePolicies({ CACHE_POLICY_FILE: file }).resolve('options').cacheControl).toBe('max-age=30');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => loadCachePolicies({ CACHE_POLICIES: '{' })).toThrow('not valid JSON');
+    });
+  });
+});
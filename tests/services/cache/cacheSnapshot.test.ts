@@ -0,0 +1,81 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import type { CacheSnapshot } from '../../../src/services/cache/cacheSnapshot';
+import {
+  decodeSnapshot,
+  encodeSnapshot,
+  readSnapshotFile,
+  restoreSnapshot,
+  saveSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  SnapshotFormatError,
+  writeSnapshotFile,
+} from '../../../src/services/cache/cacheSnapshot';
+import { CacheService } from '../../../src/services/cacheService';
+
+describe('cacheSnapshot', () => {
+  let dir: string;
+
+  const snapshot: CacheSnapshot = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: '2024-01-15T12:00:00.000Z',
+    entries: [{ key: 'quotes:AAPL:all', data: { price: 150 }, freshUntil: 1, staleUntil: 2 }],
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stockquotes-snapshot-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a snapshot through gzip', async () => {
+    const encoded = await encodeSnapshot(snapshot);
+
+    expect(encoded.subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+    expect(await decodeSnapshot(encoded)).toEqual(snapshot);
+  });
+
+  it.each([
+    ['uncompressed data', Buffer.from(JSON.stringify(snapshot)), 'not gzipped JSON'],
+    ['another document', gzipSync(JSON.stringify({ entries: [] })), 'Not a cache snapshot'],
+    ['a newer version', gzipSync(JSON.stringify({ ...snapshot, version: 2 })), 'Unsupported cache snapshot version 2'],
+    ['missing entries', gzipSync(JSON.stringify({ ...snapshot, entries: undefined })), 'no entries'],
+  ])('should reject %s', async (_name, buffer, message) => {
+    const decoding = decodeSnapshot(buffer);
+
+    await expect(decoding).rejects.toThrow(SnapshotFormatError);
+    await expect(decoding).rejects.toThrow(message);
+  });
+
+  it('should write and read snapshot files', async () => {
+    const file = path.join(dir, 'nested', 'cache.json.gz');
+
+    await writeSnapshotFile(file, snapshot);
+
+    expect(await readSnapshotFile(file)).toEqual(snapshot);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['cache.json.gz']);
+  });
+
+  it('should carry the cache contents from one service to another', async () => {
+    const file = path.join(dir, 'cache.json.gz');
+    const previous = new CacheService();
+    await previous.set('quotes:AAPL:all', { price: 150 });
+    await previous.set('hist:AAPL', [1, 2, 3]);
+
+    expect(await saveSnapshot(previous, file)).toBe(2);
+
+    const next = new CacheService();
+    expect(await restoreSnapshot(next, file)).toEqual({ imported: 2, skipped: 0 });
+    expect(await next.get('quotes:AAPL:all')).toEqual({ price: 150 });
+  });
+
+  it('should treat a missing snapshot file as nothing to restore', async () => {
+    expect(await restoreSnapshot(new CacheService(), path.join(dir, 'missing.json.gz'))).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { CompressedBodyCache } from '../../../src/services/cache/compressedBodyCache';
+
+describe('CompressedBodyCache', () => {
+  const body = (size: number) => Buffer.alloc(size, 1);
+
+  it('should keep bodies per coding and digest', () => {
+    const cache = new CompressedBodyCache(1000);
+    const brotli = body(10);
+    cache.set('br', '"abc"', brotli);
+
+    expect(cache.get('br', '"abc"')).toBe(brotli);
+    expect(cache.get('gzip', '"abc"')).toBeUndefined();
+    expect(cache.get('br', '"def"')).toBeUndefined();
+  });
+
+  it('should evict the least recently used bodies beyond its budget', () => {
+    const cache = new CompressedBodyCache(100);
+    cache.set('br', '"a"', body(40));
+    cache.set('br', '"b"', body(40));
+    cache.get('br', '"a"');
+    cache.set('br', '"c"', body(40));
+
+    expect(cache.get('br', '"a"')).toBeDefined();
+    expect(cache.get('br', '"b"')).toBeUndefined();
+    expect(cache.get('br', '"c"')).toBeDefined();
+    expect(cache.size).toBe(80);
+  });
+
+  it('should replace a body stored under the same key', () => {
+    const cache = new CompressedBodyCache(100);
+    cache.set('gzip', '"a"', body(40));
+    cache.set('gzip', '"a"', body(30));
+
+    expect(cache.size).toBe(30);
+  });
+
+  it('should not store bodies larger than its budget', () => {
+    const cache = new CompressedBodyCache(100);
+    cache.set('br', '"a"', body(40));
+    cache.set('br', '"b"', body(101));
+
+    expect(cache.get('br', '"a"')).toBeDefined();
+    expect(cache.get('br', '"b"')).toBeUndefined();
+    expect(cache.size).toBe(40);
+  });
+});
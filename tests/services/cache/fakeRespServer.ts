@@ -0,0 +1,177 @@
+import * as net from 'node:net';
+import type { RespValue } from '../../../src/services/cache/respClient';
+import { parseReply } from '../../../src/services/cache/respClient';
+import { COMPARE_AND_SET_SCRIPT } from '../../../src/services/rateLimit/redisRateLimitStore';
+
+// In-process stand-in for redis-server implementing the handful of commands the cache and rate limiter use
+export interface FakeRespServer {
+  url: string;
+  commands: string[][];
+  data: Map<string, { value: string; expiresAt?: number }>;
+  // Commands listed here are swallowed without a reply, to exercise client timeouts
+  silent: Set<string>;
+  close(): Promise<void>;
+}
+
+function encodeReply(value: RespValue | Error): string {
+  if (value instanceof Error) {
+    return `-${value.message}\r\n`;
+  }
+  if (value === null) {
+    return '$-1\r\n';
+  }
+  if (typeof value === 'number') {
+    return `:${value}\r\n`;
+  }
+  if (Array.isArray(value)) {
+    return `*${value.length}\r\n${value.map(encodeReply).join('')}`;
+  }
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replaceAll(/\\(.)|([*?])|([.+^${}()|[\]])/g, (_match, escaped, glob, special) => {
+    if (escaped) {
+      return `\\${escaped}`;
+    }
+    if (glob) {
+      return glob === '*' ? '.*' : '.';
+    }
+    return `\\${special}`;
+  });
+  return new RegExp(`^${source}$`);
+}
+
+function execute(server: FakeRespServer, args: string[]): RespValue | Error {
+  const [name, ...rest] = args;
+  const live = (key: string) => {
+    const entry = server.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      server.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  switch (name.toUpperCase()) {
+    case 'AUTH':
+      return rest.at(-1) === 'secret' ? 'OK' : new Error('WRONGPASS invalid username-password pair');
+    case 'SELECT':
+    case 'PING':
+      return 'OK';
+    case 'GET':
+      return live(rest[0])?.value ?? null;
+    case 'SET': {
+      const px = rest.findIndex((arg) => arg.toUpperCase() === 'PX');
+      if (rest.some((arg) => arg.toUpperCase() === 'NX') && live(rest[0])) {
+        return null;
+      }
+      server.data.set(rest[0], {
+        value: rest[1],
+        expiresAt: px === -1 ? undefined : Date.now() + Number(rest[px + 1]),
+      });
+      return 'OK';
+    }
+    case 'INCRBYFLOAT': {
+      const entry = live(rest[0]);
+      const value = String(Number(entry?.value ?? 0) + Number(rest[1]));
+      server.data.set(rest[0], { value, expiresAt: entry?.expiresAt });
+      return value;
+    }
+    case 'DEL':
+      return rest.filter((key) => live(key) && server.data.delete(key)).length;
+    case 'EXISTS':
+      return rest.filter((key) => live(key)).length;
+    case 'PTTL': {
+      const entry = live(rest[0]);
+      if (!entry) {
+        return -2;
+      }
+      return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+    }
+    case 'STRLEN':
+      return Buffer.byteLength(live(rest[0])?.value ?? '');
+    // Only the scripts the app sends are known, each emulated in JS
+    case 'EVAL': {
+      const [script, , key, expected, value, ttlMs] = rest;
+      if (script !== COMPARE_AND_SET_SCRIPT) {
+        return new Error('NOSCRIPT unknown script');
+      }
+      if ((live(key)?.value ?? '0') !== expected) {
+        return 0;
+      }
+      server.data.set(key, { value, expiresAt: Date.now() + Number(ttlMs) });
+      return 1;
+    }
+    case 'SCAN': {
+      const match = rest.findIndex((arg) => arg.toUpperCase() === 'MATCH');
+      const pattern = globToRegExp(match === -1 ? '*' : rest[match + 1]);
+      return ['0', [...server.data.keys()].filter((key) => pattern.test(key))];
+    }
+    default:
+      return new Error(`ERR unknown command '${name}'`);
+  }
+}
+
+export async function startFakeRespServer(): Promise<FakeRespServer> {
+  const sockets = new Set<net.Socket>();
+  const tcp = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let buffer = Buffer.alloc(0);
+    // Commands received after MULTI, run together on EXEC
+    let queued: string[][] | undefined;
+    const reply = (args: string[]): RespValue | Error => {
+      switch (args[0].toUpperCase()) {
+        case 'MULTI':
+          queued = [];
+          return 'OK';
+        case 'EXEC': {
+          const replies = queued?.map((command) => execute(server, command));
+          queued = undefined;
+          return (replies as RespValue[] | undefined) ?? new Error('ERR EXEC without MULTI');
+        }
+        default:
+          if (queued) {
+            queued.push(args);
+            return 'QUEUED';
+          }
+          return execute(server, args);
+      }
+    };
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        const request = parseReply(buffer);
+        if (!request) {
+          break;
+        }
+        buffer = buffer.subarray(request.offset);
+        const args = request.value as string[];
+        server.commands.push(args);
+        if (!server.silent.has(args[0].toUpperCase())) {
+          socket.write(encodeReply(reply(args)));
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => tcp.listen(0, '127.0.0.1', resolve));
+  const { port } = tcp.address() as net.AddressInfo;
+
+  const server: FakeRespServer = {
+    url: `redis://127.0.0.1:${port}`,
+    commands: [],
+    data: new Map(),
+    silent: new Set(),
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        tcp.close(() => resolve());
+      }),
+  };
+  return server;
+}
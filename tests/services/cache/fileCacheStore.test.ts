@@ -0,0 +1,149 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { FileCacheStore } from '../../../src/services/cache/fileCacheStore';
+
+describe('FileCacheStore', () => {
+  let cacheDir: string;
+  let stores: FileCacheStore[];
+
+  // Tracked so pending index flushes are settled before the directory is removed
+  const createStore = (options: { maxEntries?: number } = {}) => {
+    const store = new FileCacheStore({ cacheDir, ...options });
+    stores.push(store);
+    return store;
+  };
+
+  const entryFiles = () =>
+    fs
+      .readdirSync(cacheDir, { recursive: true, encoding: 'utf8' })
+      .filter((file) => file.endsWith('.json') && file !== 'index.json');
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stockquotes-cache-'));
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map((store) => store.flush()));
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should persist values across instances', async () => {
+    await createStore().set('quotes:AAPL', { price: 150 }, 60000);
+
+    const store = createStore();
+
+    expect(await store.get('quotes:AAPL')).toEqual({ price: 150 });
+    expect(await store.has('quotes:AAPL')).toBe(true);
+  });
+
+  it('should store entries under hashed, sharded filenames with the key inside', async () => {
+    const key = `quotes:${Array.from({ length: 50 }, (_, index) => `SYM${index}`).join(',')}:all`;
+    const store = createStore();
+
+    await store.set(key, 'value', 60000);
+
+    const [file] = entryFiles();
+    expect(file).toMatch(/^[0-9a-f]{2}[/\\][0-9a-f]{64}\.json$/);
+    expect(path.basename(file).startsWith(path.dirname(file))).toBe(true);
+    expect(JSON.parse(fs.readFileSync(path.join(cacheDir, file), 'utf8'))).toMatchObject({ key, data: 'value' });
+  });
+
+  it('should remove expired entries on read', async () => {
+    const store = createStore();
+
+    await store.set('key', 'value', 0);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await store.get('key')).toBeNull();
+    expect(entryFiles()).toHaveLength(0);
+  });
+
+  it('should delete and clear entries', async () => {
+    const store = createStore();
+    await store.set('a', 1, 60000);
+    await store.set('b', 2, 60000);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).toBe(2);
+
+    await store.clear();
+    expect(fs.readdirSync(cacheDir)).toHaveLength(0);
+  });
+
+  it('should list live keys from the index', async () => {
+    const store = createStore();
+    await store.set('quotes:AAPL', 1, 60000);
+    await store.set('quotes:MSFT', 2, 0);
+    await store.set('hist:AAPL', 3, 60000);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(await store.keys('quotes:')).toEqual([
+      { key: 'quotes:AAPL', expiry: expect.any(Number), size: expect.any(Number) },
+    ]);
+    expect((await store.keys()).map(({ key }) => key)).toEqual(['quotes:AAPL', 'hist:AAPL']);
+  });
+
+  it('should evict the oldest writes beyond maxEntries', async () => {
+    const store = createStore({ maxEntries: 2 });
+
+    await store.set('a', 1, 60000);
+    await store.set('b', 2, 60000);
+    await store.set('a', 1, 60000);
+    await store.set('c', 3, 60000);
+
+    expect(entryFiles()).toHaveLength(2);
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('should persist the eviction order in the index', async () => {
+    const first = createStore({ maxEntries: 2 });
+    await first.set('a', 1, 60000);
+    await first.set('b', 2, 60000);
+    await first.flush();
+
+    const second = createStore({ maxEntries: 2 });
+    await second.set('c', 3, 60000);
+
+    expect(await second.get('a')).toBeNull();
+    expect(await second.get('b')).toBe(2);
+  });
+
+  it('should rebuild a missing index from the entry files', async () => {
+    const first = createStore({ maxEntries: 2 });
+    await first.set('a', 1, 60000);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await first.set('b', 2, 60000);
+    fs.rmSync(path.join(cacheDir, 'index.json'), { force: true });
+
+    const second = createStore({ maxEntries: 2 });
+    await second.set('c', 3, 60000);
+
+    expect(await second.get('a')).toBeNull();
+    expect(await second.get('b')).toBe(2);
+  });
+
+  it('should remove files from the previous flat layout when rebuilding', async () => {
+    fs.writeFileSync(path.join(cacheDir, 'quotes-AAPL-all.json'), '{"data":1,"timestamp":0}');
+
+    const store = createStore();
+    await store.get('anything');
+
+    expect(fs.existsSync(path.join(cacheDir, 'quotes-AAPL-all.json'))).toBe(false);
+  });
+
+  it('should keep other files in the cache directory when rebuilding', async () => {
+    fs.writeFileSync(path.join(cacheDir, 'snapshot.json'), '{"format":"stockquotes-cache-snapshot","entries":[]}');
+    fs.writeFileSync(path.join(cacheDir, 'snapshot.json.gz'), 'gzipped');
+
+    const store = createStore();
+    await store.get('anything');
+
+    expect(fs.existsSync(path.join(cacheDir, 'snapshot.json'))).toBe(true);
+    expect(fs.existsSync(path.join(cacheDir, 'snapshot.json.gz'))).toBe(true);
+  });
+});
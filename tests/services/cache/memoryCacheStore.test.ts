@@ -0,0 +1,135 @@
+import { MemoryCacheStore } from '../../../src/services/cache/memoryCacheStore';
+
+describe('MemoryCacheStore', () => {
+  it('should store and retrieve values', async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set('key', { foo: 'bar' }, 60000);
+
+    expect(await store.get('key')).toEqual({ foo: 'bar' });
+    expect(await store.has('key')).toBe(true);
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const store = new MemoryCacheStore();
+
+    await store.set('key', 'value', 0);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await store.get('key')).toBeNull();
+    expect(await store.has('key')).toBe(false);
+  });
+
+  it('should delete and clear entries', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', 1, 60000);
+    await store.set('b', 2, 60000);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).toBe(2);
+
+    await store.clear();
+    expect(await store.get('b')).toBeNull();
+  });
+
+  it('should evict the oldest entries beyond maxEntries', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+
+    await store.set('a', 1, 60000);
+    await store.set('b', 2, 60000);
+    await store.set('c', 3, 60000);
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).toBe(2);
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('should refresh recency on reads', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+
+    await store.set('ecb-daily-rates', 'rates', 60000);
+    await store.set('hist:a', 1, 60000);
+    await store.get('ecb-daily-rates');
+    await store.set('hist:b', 2, 60000);
+
+    expect(await store.get('ecb-daily-rates')).toBe('rates');
+    expect(await store.get('hist:a')).toBeNull();
+  });
+
+  it('should not refresh recency on peeks', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+
+    await store.set('ecb-daily-rates', 'rates', 60000);
+    await store.set('hist:a', 1, 60000);
+    expect(await store.peek('ecb-daily-rates')).toBe('rates');
+    await store.set('hist:b', 2, 60000);
+
+    expect(await store.get('ecb-daily-rates')).toBeNull();
+    expect(await store.get('hist:a')).toBe(1);
+  });
+
+  it('should evict least recently used entries beyond maxBytes', async () => {
+    const payload = 'x'.repeat(98); // 100 bytes once serialized
+    const store = new MemoryCacheStore({ maxBytes: 250 });
+
+    await store.set('quotes:a', payload, 60000);
+    await store.set('quotes:b', payload, 60000);
+    await store.get('quotes:a');
+    await store.set('quotes:c', payload, 60000);
+
+    expect(await store.has('quotes:a')).toBe(true);
+    expect(await store.has('quotes:b')).toBe(false);
+    expect(await store.has('quotes:c')).toBe(true);
+  });
+
+  it('should keep a namespace within its quota without evicting other namespaces', async () => {
+    const payload = 'x'.repeat(98);
+    const store = new MemoryCacheStore({ maxBytes: 1000, namespaceQuotas: { hist: 200 } });
+
+    await store.set('quotes:AAPL', payload, 60000);
+    await store.set('statements-IBM', payload, 60000);
+    for (const ticker of ['A', 'B', 'C', 'D']) {
+      await store.set(`hist:${ticker}`, payload, 60000);
+    }
+
+    expect(await store.has('quotes:AAPL')).toBe(true);
+    expect(await store.has('statements-IBM')).toBe(true);
+    expect(await store.has('hist:A')).toBe(false);
+    expect(await store.has('hist:B')).toBe(false);
+    expect(await store.has('hist:C')).toBe(true);
+    expect(await store.has('hist:D')).toBe(true);
+  });
+
+  it('should not store a payload larger than the budget', async () => {
+    const store = new MemoryCacheStore({ maxBytes: 50 });
+    await store.set('quotes:small', 'ok', 60000);
+
+    await store.set('quotes:large', 'x'.repeat(100), 60000);
+
+    expect(await store.has('quotes:large')).toBe(false);
+    expect(await store.get('quotes:small')).toBe('ok');
+  });
+
+  it('should release the size of replaced entries', async () => {
+    const store = new MemoryCacheStore({ maxBytes: 150 });
+
+    await store.set('quotes:a', 'x'.repeat(98), 60000);
+    await store.set('quotes:a', 'x'.repeat(98), 60000);
+    await store.set('quotes:b', 'y'.repeat(8), 60000);
+
+    expect(await store.has('quotes:a')).toBe(true);
+    expect(await store.has('quotes:b')).toBe(true);
+  });
+
+  it('should list live keys under a prefix with their size', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('quotes:a', 'x', 60000);
+    await store.set('quotes:b', 'y', 0);
+    await store.set('hist:a', 'z', 60000);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(await store.keys('quotes:')).toEqual([{ key: 'quotes:a', expiry: expect.any(Number), size: 3 }]);
+    expect(await store.keys()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,16 @@
+import { getNamespace } from '../../../src/services/cache/namespaces';
+
+describe('getNamespace', () => {
+  it.each([
+    ['quotes:AAPL,MSFT:all', 'quotes'],
+    ['hist:AAPL:2023-01-01:2023-12-31:1d:all:none:p2', 'hist'],
+    ['options:AAPL:all:all:all:all', 'options'],
+    ['summary:AAPL:default', 'summary'],
+    ['statements-IBM', 'statements'],
+    ['ecb-daily-rates', 'ecb'],
+    ['ecb-hist-90d-rates', 'ecb'],
+    ['something-else', 'other'],
+  ])('should map %s to %s', (key, namespace) => {
+    expect(getNamespace(key)).toBe(namespace);
+  });
+});
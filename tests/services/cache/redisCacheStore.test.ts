@@ -0,0 +1,84 @@
+import type { FakeRespServer } from './fakeRespServer';
+import { startFakeRespServer } from './fakeRespServer';
+import { RedisCacheStore } from '../../../src/services/cache/redisCacheStore';
+import { RespClient } from '../../../src/services/cache/respClient';
+
+describe('RedisCacheStore', () => {
+  let server: FakeRespServer;
+  let client: RespClient;
+  let store: RedisCacheStore;
+
+  beforeEach(async () => {
+    server = await startFakeRespServer();
+    client = new RespClient(server.url);
+    store = new RedisCacheStore(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should store JSON values under the key prefix with a PX expiry', async () => {
+    await store.set('quotes:AAPL', { price: 150 }, 60000);
+
+    expect(server.commands).toContainEqual(['SET', 'stockquotes:quotes:AAPL', '{"price":150}', 'PX', '60000']);
+    expect(await store.get('quotes:AAPL')).toEqual({ price: 150 });
+    expect(await store.has('quotes:AAPL')).toBe(true);
+  });
+
+  it('should return null for missing and expired keys', async () => {
+    await store.set('short', 'value', 20);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(await store.get('short')).toBeNull();
+    expect(await store.get('missing')).toBeNull();
+    expect(await store.has('missing')).toBe(false);
+  });
+
+  it('should delete instead of writing when the TTL is not positive', async () => {
+    await store.set('key', 'value', 60000);
+    await store.set('key', 'value', 0);
+
+    expect(await store.get('key')).toBeNull();
+    expect(server.commands.filter(([name]) => name === 'SET')).toHaveLength(1);
+  });
+
+  it('should delete a single key', async () => {
+    await store.set('a', 1, 60000);
+
+    await store.delete('a');
+
+    expect(await store.has('a')).toBe(false);
+  });
+
+  it('should only clear keys under its own prefix', async () => {
+    server.data.set('other-app:key', { value: '"keep"' });
+    await store.set('a', 1, 60000);
+    await store.set('b', 2, 60000);
+
+    await store.clear();
+
+    expect([...server.data.keys()]).toEqual(['other-app:key']);
+  });
+
+  it('should list its own keys with expiry and size', async () => {
+    server.data.set('other-app:key', { value: '"skip"' });
+    server.data.set('stockquotes:persistent', { value: '"forever"' });
+    await store.set('quotes:AAPL', { price: 150 }, 60000);
+
+    const keys = await store.keys('quotes:');
+    const all = await store.keys();
+
+    expect(keys).toEqual([{ key: 'quotes:AAPL', expiry: expect.any(Number), size: 13 }]);
+    expect(keys[0].expiry).toBeGreaterThan(Date.now());
+    expect(all.map(({ key }) => key).sort()).toEqual(['persistent', 'quotes:AAPL']);
+    expect(all.find(({ key }) => key === 'persistent')?.expiry).toBe(Infinity);
+  });
+
+  it('should propagate connection errors to the caller', async () => {
+    await server.close();
+
+    await expect(store.get('key')).rejects.toThrow();
+  });
+});
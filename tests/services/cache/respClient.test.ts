@@ -0,0 +1,125 @@
+import type { FakeRespServer } from './fakeRespServer';
+import { startFakeRespServer } from './fakeRespServer';
+import { encodeCommand, parseReply, RespClient, RespError } from '../../../src/services/cache/respClient';
+
+describe('RESP encoding', () => {
+  it('should encode commands as arrays of bulk strings', () => {
+    expect(encodeCommand(['SET', 'k', 'é', 'PX', 100])).toBe(
+      '*5\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n$2\r\nPX\r\n$3\r\n100\r\n',
+    );
+  });
+
+  it('should parse every reply type', () => {
+    const parse = (reply: string) => parseReply(Buffer.from(reply))?.value;
+
+    expect(parse('+OK\r\n')).toBe('OK');
+    expect(parse(':42\r\n')).toBe(42);
+    expect(parse('$5\r\nhello\r\n')).toBe('hello');
+    expect(parse('$-1\r\n')).toBeNull();
+    expect(parse('*2\r\n$1\r\n0\r\n*1\r\n$1\r\na\r\n')).toEqual(['0', ['a']]);
+    expect(parse('-ERR wrong type\r\n')).toEqual(new RespError('ERR wrong type'));
+  });
+
+  it('should consume the whole array when an element is an error', () => {
+    const buffer = Buffer.from('*3\r\n+OK\r\n-ERR wrong type\r\n$1\r\na\r\n+NEXT\r\n');
+
+    const reply = parseReply(buffer);
+
+    expect(reply?.value).toEqual(new RespError('ERR wrong type'));
+    expect(parseReply(buffer, reply?.offset)?.value).toBe('NEXT');
+  });
+
+  it('should return undefined for incomplete replies', () => {
+    expect(parseReply(Buffer.from('$5\r\nhel'))).toBeUndefined();
+    expect(parseReply(Buffer.from('*2\r\n:1\r\n'))).toBeUndefined();
+    expect(parseReply(Buffer.from('+OK'))).toBeUndefined();
+  });
+
+  it('should reject unknown reply types', () => {
+    expect(() => parseReply(Buffer.from('?what\r\n'))).toThrow(RespError);
+  });
+});
+
+describe('RespClient', () => {
+  let server: FakeRespServer;
+  let client: RespClient;
+
+  beforeEach(async () => {
+    server = await startFakeRespServer();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should pipeline commands and match replies in order', async () => {
+    client = new RespClient(server.url);
+
+    const replies = await Promise.all([
+      client.command(['SET', 'a', '1']),
+      client.command(['GET', 'a']),
+      client.command(['GET', 'missing']),
+    ]);
+
+    expect(replies).toEqual(['OK', '1', null]);
+  });
+
+  it('should run transactions without interleaving concurrent commands', async () => {
+    client = new RespClient(server.url);
+
+    const [replies] = await Promise.all([
+      client.transaction([
+        ['SET', 'a', '1'],
+        ['GET', 'a'],
+      ]),
+      client.command(['SET', 'b', '2']),
+    ]);
+
+    expect(replies).toEqual(['OK', '1']);
+    expect(server.commands).toEqual([['MULTI'], ['SET', 'a', '1'], ['GET', 'a'], ['EXEC'], ['SET', 'b', '2']]);
+  });
+
+  it('should authenticate and select the database from the URL', async () => {
+    client = new RespClient(server.url.replace('redis://', 'redis://default:secret@') + '/2');
+
+    await client.command(['PING']);
+
+    expect(server.commands).toEqual([['AUTH', 'default', 'secret'], ['SELECT', '2'], ['PING']]);
+  });
+
+  it('should reject with the server error message', async () => {
+    client = new RespClient(server.url);
+
+    await expect(client.command(['BOGUS'])).rejects.toThrow("ERR unknown command 'BOGUS'");
+  });
+
+  it('should keep matching replies after a transaction with a failed command', async () => {
+    client = new RespClient(server.url);
+
+    const [transaction, next] = await Promise.allSettled([
+      client.transaction([['SET', 'a', '1'], ['BOGUS'], ['GET', 'a']]),
+      client.command(['GET', 'missing']),
+    ]);
+
+    expect(transaction).toEqual({ status: 'rejected', reason: new RespError("ERR unknown command 'BOGUS'") });
+    expect(next).toEqual({ status: 'fulfilled', value: null });
+  });
+
+  it('should time out and reconnect on the next command', async () => {
+    client = new RespClient(server.url, { timeoutMs: 50 });
+    server.silent.add('GET');
+
+    await expect(client.command(['GET', 'a'])).rejects.toThrow('Command GET timed out after 50ms');
+
+    server.silent.clear();
+    await expect(client.command(['SET', 'a', '1'])).resolves.toBe('OK');
+  });
+
+  it('should reject when the server is unreachable', async () => {
+    await server.close();
+    client = new RespClient(server.url);
+
+    await expect(client.command(['PING'])).rejects.toThrow();
+  });
+});
@@ -0,0 +1,60 @@
+import { SingleFlight } from '../../../src/services/cache/singleFlight';
+
+describe('SingleFlight', () => {
+  it('should share one call between concurrent callers of the same key', async () => {
+    const flights = new SingleFlight();
+    let resolveTask: (value: string) => void = () => {};
+    const task = jest.fn(() => new Promise<string>((resolve) => (resolveTask = resolve)));
+
+    const first = flights.run('quotes:AAPL', task);
+    const second = flights.run('quotes:AAPL', task);
+    await Promise.resolve();
+    resolveTask('result');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['result', 'result']);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(flights.getMetrics()).toEqual({ inFlight: 0, executions: 1, coalesced: 1 });
+  });
+
+  it('should run different keys independently', async () => {
+    const flights = new SingleFlight();
+    const task = jest.fn().mockResolvedValue('result');
+
+    await Promise.all([flights.run('a', task), flights.run('b', task)]);
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(flights.getMetrics().coalesced).toBe(0);
+  });
+
+  it('should reject every waiter and retry on the next call after a failure', async () => {
+    const flights = new SingleFlight();
+    const task = jest.fn().mockRejectedValueOnce(new Error('upstream down')).mockResolvedValueOnce('recovered');
+
+    const waiters = [flights.run('key', task), flights.run('key', task), flights.run('key', task)];
+
+    for (const waiter of waiters) {
+      await expect(waiter).rejects.toThrow('upstream down');
+    }
+    await expect(flights.run('key', task)).resolves.toBe('recovered');
+    expect(flights.getMetrics()).toEqual({ inFlight: 0, executions: 2, coalesced: 2 });
+  });
+
+  it('should release the key when the task throws synchronously', async () => {
+    const flights = new SingleFlight();
+
+    await expect(
+      flights.run('key', () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(flights.getMetrics().inFlight).toBe(0);
+  });
+
+  it('should report keys that are still running', () => {
+    const flights = new SingleFlight();
+
+    void flights.run('key', () => new Promise(() => {}));
+
+    expect(flights.getMetrics().inFlight).toBe(1);
+  });
+});
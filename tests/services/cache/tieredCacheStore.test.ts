@@ -0,0 +1,65 @@
+import { MemoryCacheStore } from '../../../src/services/cache/memoryCacheStore';
+import { TieredCacheStore } from '../../../src/services/cache/tieredCacheStore';
+
+describe('TieredCacheStore', () => {
+  let l1: MemoryCacheStore;
+  let l2: MemoryCacheStore;
+  let store: TieredCacheStore;
+
+  beforeEach(() => {
+    l1 = new MemoryCacheStore();
+    l2 = new MemoryCacheStore();
+    store = new TieredCacheStore(l1, l2, { l1TtlMs: 30000 });
+  });
+
+  it('should write to both tiers', async () => {
+    await store.set('key', 'value', 60000);
+
+    expect(await l1.get('key')).toBe('value');
+    expect(await l2.get('key')).toBe('value');
+  });
+
+  it('should cap the L1 lifetime', async () => {
+    const setSpy = jest.spyOn(l1, 'set');
+
+    await store.set('key', 'value', 60000);
+    await store.set('short', 'value', 1000);
+
+    expect(setSpy).toHaveBeenCalledWith('key', 'value', 30000);
+    expect(setSpy).toHaveBeenCalledWith('short', 'value', 1000);
+  });
+
+  it('should serve from L1 without reading L2', async () => {
+    await store.set('key', 'value', 60000);
+    const getSpy = jest.spyOn(l2, 'get');
+
+    expect(await store.get('key')).toBe('value');
+    expect(getSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fall through to L2 and repopulate L1', async () => {
+    await l2.set('key', 'shared', 60000);
+
+    expect(await store.get('key')).toBe('shared');
+    expect(await l1.get('key')).toBe('shared');
+  });
+
+  it('should peek at L2 without repopulating L1', async () => {
+    await l2.set('key', 'shared', 60000);
+
+    expect(await store.peek('key')).toBe('shared');
+    expect(await l1.has('key')).toBe(false);
+  });
+
+  it('should delete and clear both tiers', async () => {
+    await store.set('a', 1, 60000);
+    await store.set('b', 2, 60000);
+
+    await store.delete('a');
+    expect(await l1.has('a')).toBe(false);
+    expect(await l2.has('a')).toBe(false);
+
+    await store.clear();
+    expect(await store.has('b')).toBe(false);
+  });
+});
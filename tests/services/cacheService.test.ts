@@ -1,3 +1,7 @@
+import { CachePolicies, createDefaultPolicyTable } from '../../src/services/cache/cachePolicy';
+import type { CacheStore } from '../../src/services/cache/cacheStore';
+import { MemoryCacheStore } from '../../src/services/cache/memoryCacheStore';
+import { TieredCacheStore } from '../../src/services/cache/tieredCacheStore';
 import { CacheService } from '../../src/services/cacheService';
 
 describe('CacheService', () => {
@@ -18,46 +22,46 @@ describe('CacheService', () => {
   });
 
   describe('get and set operations', () => {
-    it('should store and retrieve data', () => {
+    it('should store and retrieve data', async () => {
       const key = 'test-key';
       const data = { foo: 'bar', num: 123 };
 
-      cacheService.set(key, data);
-      const result = cacheService.get(key);
+      await cacheService.set(key, data);
+      const result = await cacheService.get(key);
 
       expect(result).toEqual(data);
     });
 
-    it('should return null for non-existent key', () => {
-      const result = cacheService.get('non-existent-key');
+    it('should return null for non-existent key', async () => {
+      const result = await cacheService.get('non-existent-key');
       expect(result).toBeNull();
     });
 
-    it('should handle multiple keys independently', () => {
-      cacheService.set('independent-key-1', 'value1');
-      cacheService.set('independent-key-2', 'value2');
+    it('should handle multiple keys independently', async () => {
+      await cacheService.set('independent-key-1', 'value1');
+      await cacheService.set('independent-key-2', 'value2');
 
-      expect(cacheService.get('independent-key-1')).toBe('value1');
-      expect(cacheService.get('independent-key-2')).toBe('value2');
+      expect(await cacheService.get('independent-key-1')).toBe('value1');
+      expect(await cacheService.get('independent-key-2')).toBe('value2');
     });
 
-    it('should overwrite existing key', () => {
+    it('should overwrite existing key', async () => {
       const key = 'test-key';
-      cacheService.set(key, 'initial-value');
-      cacheService.set(key, 'updated-value');
+      await cacheService.set(key, 'initial-value');
+      await cacheService.set(key, 'updated-value');
 
-      expect(cacheService.get(key)).toBe('updated-value');
+      expect(await cacheService.get(key)).toBe('updated-value');
     });
   });
 
   describe('has operation', () => {
-    it('should return true for existing key', () => {
-      cacheService.set('test-key', 'value');
-      expect(cacheService.has('test-key')).toBe(true);
+    it('should return true for existing key', async () => {
+      await cacheService.set('test-key', 'value');
+      expect(await cacheService.has('test-key')).toBe(true);
     });
 
-    it('should return false for non-existent key', () => {
-      expect(cacheService.has('non-existent')).toBe(false);
+    it('should return false for non-existent key', async () => {
+      expect(await cacheService.has('non-existent')).toBe(false);
     });
 
     it('should return false for expired key', async () => {
@@ -65,12 +69,12 @@ describe('CacheService', () => {
       process.env.CACHE_TTL_SECONDS = '0';
       cacheService = new CacheService();
 
-      cacheService.set('expiring-key', 'value');
+      await cacheService.set('expiring-key', 'value');
 
       // Wait a bit for expiration
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      expect(cacheService.has('expiring-key')).toBe(false);
+      expect(await cacheService.has('expiring-key')).toBe(false);
     });
   });
 
@@ -80,123 +84,123 @@ describe('CacheService', () => {
       process.env.CACHE_TTL_SECONDS = '0';
       cacheService = new CacheService();
 
-      cacheService.set('expiring-key', 'value');
+      await cacheService.set('expiring-key', 'value');
 
       // Wait a bit for expiration
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      const result = cacheService.get('expiring-key');
+      const result = await cacheService.get('expiring-key');
       expect(result).toBeNull();
     });
 
-    it('should respect custom TTL from environment', () => {
+    it('should respect custom TTL from environment', async () => {
       process.env.CACHE_TTL_SECONDS = '3600'; // 1 hour
       cacheService = new CacheService();
 
-      cacheService.set('key', 'value');
+      await cacheService.set('key', 'value');
 
       // Should not be expired immediately
-      expect(cacheService.isExpired('key')).toBe(false);
-      expect(cacheService.has('key')).toBe(true);
+      expect(await cacheService.isExpired('key')).toBe(false);
+      expect(await cacheService.has('key')).toBe(true);
     });
 
-    it('should use default TTL of 24 hours when not specified', () => {
+    it('should use default TTL of 24 hours when not specified', async () => {
       delete process.env.CACHE_TTL_SECONDS;
       cacheService = new CacheService();
 
-      cacheService.set('key', 'value');
+      await cacheService.set('key', 'value');
 
       // Should not be expired immediately
-      expect(cacheService.isExpired('key')).toBe(false);
+      expect(await cacheService.isExpired('key')).toBe(false);
     });
   });
 
   describe('clear operation', () => {
-    it('should remove all entries', () => {
-      cacheService.set('key1', 'value1');
-      cacheService.set('key2', 'value2');
-      cacheService.set('key3', 'value3');
+    it('should remove all entries', async () => {
+      await cacheService.set('key1', 'value1');
+      await cacheService.set('key2', 'value2');
+      await cacheService.set('key3', 'value3');
 
-      cacheService.clear();
+      await cacheService.clear();
 
-      expect(cacheService.get('key1')).toBeNull();
-      expect(cacheService.get('key2')).toBeNull();
-      expect(cacheService.get('key3')).toBeNull();
-      expect(cacheService.has('key1')).toBe(false);
+      expect(await cacheService.get('key1')).toBeNull();
+      expect(await cacheService.get('key2')).toBeNull();
+      expect(await cacheService.get('key3')).toBeNull();
+      expect(await cacheService.has('key1')).toBe(false);
     });
 
-    it('should work on empty cache', () => {
-      expect(() => cacheService.clear()).not.toThrow();
+    it('should work on empty cache', async () => {
+      await expect(cacheService.clear()).resolves.toBeUndefined();
     });
   });
 
   describe('isExpired operation', () => {
-    it('should return true for non-existent key', () => {
-      expect(cacheService.isExpired('non-existent')).toBe(true);
+    it('should return true for non-existent key', async () => {
+      expect(await cacheService.isExpired('non-existent')).toBe(true);
     });
 
-    it('should return false for fresh entries', () => {
-      cacheService.set('fresh-key', 'value');
-      expect(cacheService.isExpired('fresh-key')).toBe(false);
+    it('should return false for fresh entries', async () => {
+      await cacheService.set('fresh-key', 'value');
+      expect(await cacheService.isExpired('fresh-key')).toBe(false);
     });
   });
 
   describe('disabled cache', () => {
-    it('should not store data when disabled', () => {
+    it('should not store data when disabled', async () => {
       process.env.CACHE_ENABLED = 'false';
       cacheService = new CacheService();
 
-      cacheService.set('key', 'value');
+      await cacheService.set('key', 'value');
 
-      expect(cacheService.get('key')).toBeNull();
-      expect(cacheService.has('key')).toBe(false);
+      expect(await cacheService.get('key')).toBeNull();
+      expect(await cacheService.has('key')).toBe(false);
     });
 
-    it('should return null on get when disabled', () => {
+    it('should return null on get when disabled', async () => {
       process.env.CACHE_ENABLED = 'false';
       cacheService = new CacheService();
 
-      expect(cacheService.get('any-key')).toBeNull();
+      expect(await cacheService.get('any-key')).toBeNull();
     });
 
-    it('should return false on has when disabled', () => {
+    it('should return false on has when disabled', async () => {
       process.env.CACHE_ENABLED = 'false';
       cacheService = new CacheService();
 
-      expect(cacheService.has('any-key')).toBe(false);
+      expect(await cacheService.has('any-key')).toBe(false);
     });
   });
 
   describe('complex data types', () => {
-    it('should handle objects', () => {
+    it('should handle objects', async () => {
       const complexObject = {
         nested: { array: [1, 2, 3], object: { a: 'b' } },
         date: new Date('2024-01-01'),
         number: 123.45,
       };
 
-      cacheService.set('complex', complexObject);
-      const result = cacheService.get('complex');
+      await cacheService.set('complex', complexObject);
+      const result = await cacheService.get('complex');
 
       expect(result).toEqual(complexObject);
     });
 
-    it('should handle arrays', () => {
+    it('should handle arrays', async () => {
       const array = [{ id: 1 }, { id: 2 }, { id: 3 }];
 
-      cacheService.set('array-key', array);
-      const result = cacheService.get('array-key');
+      await cacheService.set('array-key', array);
+      const result = await cacheService.get('array-key');
 
       expect(result).toEqual(array);
       expect(Array.isArray(result)).toBe(true);
     });
 
-    it('should handle null and undefined values', () => {
-      cacheService.set('null-key', null);
-      cacheService.set('undefined-key', undefined);
+    it('should handle null and undefined values', async () => {
+      await cacheService.set('null-key', null);
+      await cacheService.set('undefined-key', undefined);
 
-      expect(cacheService.get('null-key')).toBeNull();
-      expect(cacheService.get('undefined-key')).toBeUndefined();
+      expect(await cacheService.get('null-key')).toBeNull();
+      expect(await cacheService.get('undefined-key')).toBeUndefined();
     });
   });
 
@@ -206,16 +210,12 @@ describe('CacheService', () => {
 
       // Concurrent writes
       for (let i = 0; i < 100; i++) {
-        operations.push(Promise.resolve(cacheService.set(`key-${i}`, `value-${i}`)));
+        operations.push(cacheService.set(`key-${i}`, `value-${i}`));
       }
 
       // Concurrent reads
       for (let i = 0; i < 100; i++) {
-        operations.push(
-          Promise.resolve().then(() => {
-            cacheService.get(`key-${i}`);
-          }),
-        );
+        operations.push(cacheService.get(`key-${i}`).then(() => undefined));
       }
 
       await expect(Promise.all(operations)).resolves.not.toThrow();
@@ -226,16 +226,332 @@ describe('CacheService', () => {
 
       // Write different values concurrently
       const writePromises = [
-        Promise.resolve(cacheService.set(key, 'value-1')),
-        Promise.resolve(cacheService.set(key, 'value-2')),
-        Promise.resolve(cacheService.set(key, 'value-3')),
+        cacheService.set(key, 'value-1'),
+        cacheService.set(key, 'value-2'),
+        cacheService.set(key, 'value-3'),
       ];
 
       await Promise.all(writePromises);
 
       // Read should return one of the values (last write wins)
-      const result = cacheService.get(key);
+      const result = await cacheService.get(key);
       expect(['value-1', 'value-2', 'value-3']).toContain(result);
     });
   });
+
+  describe('store backend', () => {
+    const createStore = (): jest.Mocked<CacheStore> => ({
+      get: jest.fn().mockResolvedValue(null),
+      peek: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+      has: jest.fn().mockResolvedValue(false),
+      clear: jest.fn().mockResolvedValue(undefined),
+      keys: jest.fn().mockResolvedValue([]),
+    });
+
+    it('should keep entries in the store for the TTL plus the stale window', async () => {
+      process.env.CACHE_TTL_SECONDS = '60';
+      process.env.CACHE_STALE_SECONDS = '30';
+      const store = createStore();
+      cacheService = new CacheService(store);
+
+      await cacheService.set('key', 'value');
+      await cacheService.set('custom', 'value', 5000, 0);
+
+      expect(store.set).toHaveBeenCalledWith(
+        'key',
+        { data: 'value', freshUntil: expect.any(Number), staleUntil: expect.any(Number) },
+        90000,
+      );
+      expect(store.set).toHaveBeenCalledWith('custom', expect.objectContaining({ data: 'value' }), 5000);
+    });
+
+    it('should take the TTL and stale window from the namespace policy', async () => {
+      const store = createStore();
+      const table = createDefaultPolicyTable({ CACHE_STALE_SECONDS: '30' });
+      cacheService = new CacheService(store, new CachePolicies(table));
+
+      await cacheService.set('quotes:AAPL:all', 'value');
+      await cacheService.getOrLoad('summary:AAPL:default', jest.fn().mockResolvedValue('loaded'));
+
+      expect(store.set).toHaveBeenCalledWith('quotes:AAPL:all', expect.anything(), 90000);
+      expect(store.set).toHaveBeenCalledWith('summary:AAPL:default', expect.anything(), 330000);
+    });
+
+    it('should list and export entries without promoting them into L1', async () => {
+      const l1 = new MemoryCacheStore();
+      const l2 = new MemoryCacheStore();
+      const shared = new CacheService(new TieredCacheStore(l1, l2, { l1TtlMs: 30000 }));
+      await shared.set('quotes:AAPL:all', { price: 150 });
+      await l1.clear();
+
+      expect(await shared.listKeys()).toEqual([expect.objectContaining({ key: 'quotes:AAPL:all' })]);
+      expect((await shared.exportSnapshot()).entries).toHaveLength(1);
+      expect(await l1.has('quotes:AAPL:all')).toBe(false);
+    });
+
+    it('should treat entries without freshness metadata as a miss', async () => {
+      const store = createStore();
+      store.get.mockResolvedValue({ legacy: true });
+      cacheService = new CacheService(store);
+
+      expect(await cacheService.get('key')).toBeNull();
+    });
+
+    it('should treat store failures as a cache miss', async () => {
+      const store = createStore();
+      store.get.mockRejectedValue(new Error('connection refused'));
+      store.set.mockRejectedValue(new Error('connection refused'));
+      store.has.mockRejectedValue(new Error('connection refused'));
+      cacheService = new CacheService(store);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(cacheService.set('key', 'value')).resolves.toBeUndefined();
+      expect(await cacheService.get('key')).toBeNull();
+      expect(await cacheService.has('key')).toBe(false);
+      expect(consoleSpy).toHaveBeenCalledTimes(3);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should not touch the store when disabled', async () => {
+      process.env.CACHE_ENABLED = 'false';
+      const store = createStore();
+      cacheService = new CacheService(store);
+
+      await cacheService.set('key', 'value');
+      await cacheService.get('key');
+
+      expect(store.set).not.toHaveBeenCalled();
+      expect(store.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getOrLoad', () => {
+    const flushBackgroundRefresh = () => new Promise((resolve) => setImmediate(resolve));
+
+    it('should load and store the value on a miss', async () => {
+      const loader = jest.fn().mockResolvedValue('loaded');
+
+      const result = await cacheService.getOrLoad('key', loader, { ttlMs: 60000 });
+
+      expect(result).toEqual({ data: 'loaded', status: 'MISS' });
+      expect(await cacheService.get('key')).toBe('loaded');
+    });
+
+    it('should return fresh values without calling the loader', async () => {
+      await cacheService.set('key', 'cached');
+      const loader = jest.fn();
+
+      const result = await cacheService.getOrLoad('key', loader);
+
+      expect(result).toEqual({ data: 'cached', status: 'HIT' });
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('should serve stale values immediately and refresh them in the background', async () => {
+      await cacheService.set('key', 'old', 0, 60000);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const loader = jest.fn().mockResolvedValue('new');
+
+      const result = await cacheService.getOrLoad('key', loader, { ttlMs: 60000 });
+      await flushBackgroundRefresh();
+
+      expect(result).toEqual({ data: 'old', status: 'STALE' });
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(await cacheService.getOrLoad('key', loader)).toEqual({ data: 'new', status: 'HIT' });
+    });
+
+    it('should run a single background refresh per key', async () => {
+      await cacheService.set('key', 'old', 0, 60000);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const loader = jest.fn().mockReturnValue(new Promise(() => {}));
+
+      await cacheService.getOrLoad('key', loader);
+      await cacheService.getOrLoad('key', loader);
+
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep serving the last good value when the refresh fails', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      await cacheService.set('key', 'last-good', 0, 60000);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const loader = jest.fn().mockRejectedValue(new Error('upstream down'));
+
+      const first = await cacheService.getOrLoad('key', loader);
+      await flushBackgroundRefresh();
+      const second = await cacheService.getOrLoad('key', loader);
+      await flushBackgroundRefresh();
+
+      expect(first).toEqual({ data: 'last-good', status: 'STALE' });
+      expect(second).toEqual({ data: 'last-good', status: 'STALE' });
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('key'), expect.any(Error));
+      warnSpy.mockRestore();
+    });
+
+    it('should propagate loader errors on a miss without caching anything', async () => {
+      const loader = jest.fn().mockRejectedValue(new Error('upstream down'));
+
+      await expect(cacheService.getOrLoad('key', loader)).rejects.toThrow('upstream down');
+      expect(await cacheService.has('key')).toBe(false);
+    });
+
+    it('should coalesce concurrent misses into one loader call', async () => {
+      const loader = jest.fn().mockResolvedValue('loaded');
+
+      const results = await Promise.all([
+        cacheService.getOrLoad('key', loader),
+        cacheService.getOrLoad('key', loader),
+        cacheService.getOrLoad('key', loader),
+      ]);
+
+      expect(results.map((result) => result.data)).toEqual(['loaded', 'loaded', 'loaded']);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(cacheService.getInFlightMetrics()).toMatchObject({ executions: 1, coalesced: 2, inFlight: 0 });
+    });
+
+    it('should reject every coalesced caller when the loader fails', async () => {
+      const loader = jest.fn().mockRejectedValue(new Error('upstream down'));
+
+      const results = await Promise.allSettled([
+        cacheService.getOrLoad('key', loader),
+        cacheService.getOrLoad('key', loader),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(await cacheService.get('key')).toBeNull();
+    });
+
+    it('should not return values past the stale window', async () => {
+      await cacheService.set('key', 'expired', 0, 0);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      const result = await cacheService.getOrLoad('key', jest.fn().mockResolvedValue('reloaded'));
+
+      expect(result).toEqual({ data: 'reloaded', status: 'MISS' });
+    });
+  });
+
+  describe('administration', () => {
+    beforeEach(async () => {
+      await cacheService.set('quotes:AAPL:all', { price: 150 });
+      await cacheService.set('statements-MSFT', { revenue: 1 });
+      await cacheService.set('statements-IBM', { revenue: 2 });
+      await cacheService.set('statements-AAPL', { revenue: 3 });
+    });
+
+    it('should report hits, misses and stale serves per namespace with entry counts', async () => {
+      await cacheService.get('quotes:AAPL:all');
+      await cacheService.get('quotes:MSFT:all');
+      await cacheService.getOrLoad('hist:AAPL', jest.fn().mockResolvedValue([]));
+
+      const stats = await cacheService.getStats();
+
+      expect(stats.namespaces.quotes).toEqual({ hits: 1, misses: 1, stale: 0, entries: 1, bytes: expect.any(Number) });
+      expect(stats.namespaces.statements).toMatchObject({ hits: 0, entries: 3 });
+      expect(stats.namespaces.hist).toMatchObject({ misses: 1, entries: 1 });
+      expect(stats.namespaces.ecb).toEqual({ hits: 0, misses: 0, stale: 0, entries: 0, bytes: 0 });
+      expect(stats.inFlight).toEqual({ inFlight: 0, executions: 1, coalesced: 0 });
+    });
+
+    it('should list keys with their freshness windows', async () => {
+      const keys = await cacheService.listKeys('statements-', 2);
+
+      expect(keys).toEqual([
+        {
+          key: 'statements-AAPL',
+          namespace: 'statements',
+          size: expect.any(Number),
+          freshUntil: expect.any(String),
+          staleUntil: expect.any(String),
+        },
+        expect.objectContaining({ key: 'statements-IBM' }),
+      ]);
+      expect(new Date(keys[0].staleUntil).getTime()).toBeGreaterThan(new Date(keys[0].freshUntil).getTime());
+    });
+
+    it('should delete a single key and report whether it existed', async () => {
+      expect(await cacheService.delete('quotes:AAPL:all')).toBe(true);
+      expect(await cacheService.delete('quotes:AAPL:all')).toBe(false);
+    });
+
+    it('should purge keys matching a wildcard prefix', async () => {
+      await cacheService.set('hist:AAPL:2024-01-01:2024-01-31:1d:all:none:p2', []);
+      await cacheService.set('hist:MSFT:2024-01-01:2024-01-31:1d:all:none:p2', []);
+      await cacheService.set('hist:MSFT:2024-01-01:2024-01-31:1wk:all:none:p2', []);
+
+      expect(await cacheService.deleteByPrefix('hist:*:1d:')).toBe(2);
+
+      expect(await cacheService.has('hist:MSFT:2024-01-01:2024-01-31:1wk:all:none:p2')).toBe(true);
+      expect(await cacheService.has('hist:MSFT:2024-01-01:2024-01-31:1d:all:none:p2')).toBe(false);
+    });
+
+    it('should treat regex characters in the prefix literally', async () => {
+      expect(await cacheService.deleteByPrefix('quotes:AAPL.')).toBe(0);
+      expect(await cacheService.deleteByPrefix('quotes:AAPL:')).toBe(1);
+    });
+
+    it('should purge a whole namespace', async () => {
+      expect(await cacheService.deleteNamespace('statements')).toBe(3);
+
+      expect(await cacheService.has('quotes:AAPL:all')).toBe(true);
+      expect((await cacheService.getStats()).namespaces.statements.entries).toBe(0);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should export entries with their freshness metadata', async () => {
+      await cacheService.set('quotes:AAPL:all', { price: 150 });
+
+      const snapshot = await cacheService.exportSnapshot();
+
+      expect(snapshot).toMatchObject({ format: 'stockquotes-cache-snapshot', version: 1 });
+      expect(snapshot.entries).toEqual([
+        {
+          key: 'quotes:AAPL:all',
+          data: { price: 150 },
+          freshUntil: expect.any(Number),
+          staleUntil: expect.any(Number),
+        },
+      ]);
+    });
+
+    it('should import live entries, keep stale ones stale and skip expired ones', async () => {
+      const now = Date.now();
+      const snapshot = {
+        format: 'stockquotes-cache-snapshot' as const,
+        version: 1,
+        createdAt: new Date(now).toISOString(),
+        entries: [
+          { key: 'fresh', data: 'f', freshUntil: now + 60000, staleUntil: now + 120000 },
+          { key: 'stale', data: 's', freshUntil: now - 1000, staleUntil: now + 60000 },
+          { key: 'expired', data: 'e', freshUntil: now - 2000, staleUntil: now - 1000 },
+        ],
+      };
+
+      expect(await cacheService.importSnapshot(snapshot)).toEqual({ imported: 2, skipped: 1 });
+
+      expect(await cacheService.get('fresh')).toBe('f');
+      expect(await cacheService.get('stale')).toBeNull();
+      expect(await cacheService.getOrLoad('stale', jest.fn().mockResolvedValue('s2'))).toEqual({
+        data: 's',
+        status: 'STALE',
+      });
+      expect(await cacheService.has('expired')).toBe(false);
+    });
+
+    it('should skip malformed entries', async () => {
+      const snapshot = {
+        format: 'stockquotes-cache-snapshot' as const,
+        version: 1,
+        createdAt: new Date().toISOString(),
+        entries: [{ key: 'broken', data: 'x' }] as never,
+      };
+
+      expect(await cacheService.importSnapshot(snapshot)).toEqual({ imported: 0, skipped: 1 });
+    });
+  });
 });
@@ -0,0 +1,285 @@
+import type { InvocationContext } from '@azure/functions';
+import { CurrencyConversionService } from '../../src/services/currencyConversionService';
+import { toRateHistory } from '../../src/services/ecbRateHistory';
+import type { ExchangeRateService } from '../../src/services/exchangeRateService';
+import { ValidationError } from '../../src/utils/errors';
+
+const mockContext = {
+  log: jest.fn(),
+  error: jest.fn(),
+} as unknown as InvocationContext;
+
+describe('CurrencyConversionService', () => {
+  let service: CurrencyConversionService;
+  let mockExchangeRateService: { getDailyReferenceRates: jest.Mock; getRateHistory: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExchangeRateService = {
+      getDailyReferenceRates: jest.fn().mockResolvedValue({
+        date: '2024-03-15',
+        base: 'EUR',
+        rates: { USD: 1.08, GBP: 0.8, CHF: 0.96 },
+      }),
+      getRateHistory: jest.fn().mockResolvedValue(
+        toRateHistory([
+          { date: '2024-03-14', base: 'EUR', rates: { USD: 1.1, GBP: 0.8 } },
+          { date: '2024-03-15', base: 'EUR', rates: { USD: 1.2, GBP: 0.8 } },
+        ]),
+      ),
+    };
+    service = new CurrencyConversionService(mockExchangeRateService as unknown as ExchangeRateService);
+  });
+
+  describe('convertQuotes', () => {
+    it('should convert monetary fields and annotate each quote', async () => {
+      const result = await service.convertQuotes(
+        [
+          { symbol: 'AAPL', currency: 'USD', regularMarketPrice: 108, marketCap: 1080, regularMarketVolume: 5 },
+          { symbol: 'SAP.DE', currency: 'EUR', regularMarketPrice: 100 },
+        ],
+        'EUR',
+        mockContext,
+      );
+
+      expect(result).toEqual([
+        {
+          symbol: 'AAPL',
+          currency: 'EUR',
+          originalCurrency: 'USD',
+          fxRate: 0.9259259259,
+          regularMarketPrice: 100,
+          marketCap: 1000,
+          regularMarketVolume: 5,
+        },
+        { symbol: 'SAP.DE', currency: 'EUR', originalCurrency: 'EUR', fxRate: 1, regularMarketPrice: 100 },
+      ]);
+    });
+
+    it('should normalise pence-quoted listings', async () => {
+      const result = await service.convertQuotes(
+        { symbol: 'VOD.L', currency: 'GBp', regularMarketPrice: 7050 },
+        'GBP',
+        mockContext,
+      );
+
+      expect(result).toEqual({
+        symbol: 'VOD.L',
+        currency: 'GBP',
+        originalCurrency: 'GBp',
+        fxRate: 0.01,
+        regularMarketPrice: 70.5,
+      });
+      expect(mockExchangeRateService.getDailyReferenceRates).not.toHaveBeenCalled();
+    });
+
+    it('should convert pence into another currency', async () => {
+      const result = await service.convertQuotes(
+        { symbol: 'VOD.L', currency: 'GBp', regularMarketPrice: 8000 },
+        'CHF',
+        mockContext,
+      );
+
+      expect(result).toMatchObject({ fxRate: 0.012, regularMarketPrice: 96 });
+    });
+
+    it('should leave quotes without an ECB rate unconverted', async () => {
+      const result = await service.convertQuotes(
+        { symbol: 'BTC-USD', currency: 'XBT', regularMarketPrice: 60000 },
+        'EUR',
+        mockContext,
+      );
+
+      expect(result).toEqual({
+        symbol: 'BTC-USD',
+        currency: 'XBT',
+        originalCurrency: 'XBT',
+        fxRate: null,
+        regularMarketPrice: 60000,
+      });
+    });
+
+    it('should reject a base currency without ECB rates', async () => {
+      await expect(
+        service.convertQuotes({ symbol: 'AAPL', currency: 'USD', regularMarketPrice: 108 }, 'XYZ', mockContext),
+      ).rejects.toThrow('baseCurrency must be a currency with ECB reference rates');
+    });
+
+    it('should not mutate the input', async () => {
+      const quote = { symbol: 'AAPL', currency: 'USD', regularMarketPrice: 108 };
+
+      await service.convertQuotes(quote, 'EUR', mockContext);
+
+      expect(quote).toEqual({ symbol: 'AAPL', currency: 'USD', regularMarketPrice: 108 });
+    });
+  });
+
+  describe('convertHistorical', () => {
+    it('should convert each bar with the rate of its date', async () => {
+      const result = await service.convertHistorical(
+        {
+          meta: { currency: 'USD' },
+          quotes: [
+            { date: new Date('2024-03-14T13:30:00Z'), open: 11, close: 22, volume: 100 },
+            { date: '2024-03-16T13:30:00.000Z', open: 12, close: 24, volume: 100 },
+          ],
+        },
+        'EUR',
+        2,
+        mockContext,
+      );
+
+      expect(mockExchangeRateService.getRateHistory).toHaveBeenCalledWith('2024-03-14', mockContext);
+      expect(result).toMatchObject({
+        currency: 'EUR',
+        originalCurrency: 'USD',
+        meta: { currency: 'USD' },
+        quotes: [
+          { open: 10, close: 20, volume: 100, fxRate: 0.9090909091 },
+          { open: 10, close: 20, volume: 100, fxRate: 0.8333333333 },
+        ],
+      });
+    });
+
+    it('should convert adjclose and dividends', async () => {
+      const result = await service.convertHistorical(
+        {
+          meta: { currency: 'USD' },
+          quotes: [{ date: '2024-03-15', close: 12, adjclose: 6 }],
+          dividends: [{ date: '2024-03-14', amount: 1.1 }],
+          splits: [{ date: '2024-03-15', numerator: 2, denominator: 1, splitRatio: '2:1' }],
+        },
+        'EUR',
+        2,
+        mockContext,
+      );
+
+      expect(mockExchangeRateService.getRateHistory).toHaveBeenCalledWith('2024-03-14', mockContext);
+      expect(result.quotes).toEqual([{ date: '2024-03-15', close: 10, adjclose: 5, fxRate: 0.8333333333 }]);
+      expect(result.dividends).toEqual([{ date: '2024-03-14', amount: 1, fxRate: 0.9090909091 }]);
+      expect(result.splits).toEqual([{ date: '2024-03-15', numerator: 2, denominator: 1, splitRatio: '2:1' }]);
+    });
+
+    it('should not load the history when the series is already in the base currency', async () => {
+      const result = await service.convertHistorical(
+        { meta: { currency: 'EUR' }, quotes: [{ date: '2024-03-14', close: 10 }] },
+        'EUR',
+        2,
+        mockContext,
+      );
+
+      expect(mockExchangeRateService.getRateHistory).not.toHaveBeenCalled();
+      expect(result.quotes).toEqual([{ date: '2024-03-14', close: 10, fxRate: 1 }]);
+    });
+
+    it('should flag bars before the first ECB rate', async () => {
+      const result = await service.convertHistorical(
+        { meta: { currency: 'USD' }, quotes: [{ date: '2024-03-01', close: 10 }] },
+        'EUR',
+        2,
+        mockContext,
+      );
+
+      expect(result.quotes).toEqual([{ date: '2024-03-01', close: 10, fxRate: null }]);
+    });
+
+    it('should name the currency of bars left unconverted in a converted series', async () => {
+      const result = await service.convertHistorical(
+        {
+          meta: { currency: 'USD' },
+          quotes: [
+            { date: '2024-03-01', close: 10 },
+            { date: '2024-03-15', close: 12 },
+          ],
+        },
+        'EUR',
+        2,
+        mockContext,
+      );
+
+      expect(result.currency).toBe('EUR');
+      expect(result.quotes).toEqual([
+        { date: '2024-03-01', close: 10, fxRate: null, currency: 'USD' },
+        { date: '2024-03-15', close: 10, fxRate: 0.8333333333 },
+      ]);
+    });
+
+    it('should reject a base currency without ECB rates', async () => {
+      await expect(
+        service.convertHistorical(
+          { meta: { currency: 'USD' }, quotes: [{ date: '2024-03-15', close: 12 }] },
+          'XYZ',
+          2,
+          mockContext,
+        ),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should keep the original currency when no bar could be converted', async () => {
+      mockExchangeRateService.getRateHistory.mockResolvedValue(
+        toRateHistory([{ date: '2024-03-14', base: 'EUR', rates: { USD: 1.1 } }]),
+      );
+
+      const result = await service.convertHistorical(
+        { meta: { currency: 'ISK' }, quotes: [{ date: '2024-03-14', close: 10 }] },
+        'EUR',
+        2,
+        mockContext,
+      );
+
+      expect(result).toMatchObject({ currency: 'ISK', originalCurrency: 'ISK' });
+      expect(result.quotes).toEqual([{ date: '2024-03-14', close: 10, fxRate: null }]);
+    });
+
+    it('should round converted prices to the requested precision', async () => {
+      const history = { meta: { currency: 'USD' }, quotes: [{ date: '2024-03-15', close: 10, adjclose: 10 }] };
+
+      const fourDecimals = await service.convertHistorical(history, 'EUR', 4, mockContext);
+      const raw = await service.convertHistorical(history, 'EUR', undefined, mockContext);
+
+      expect(fourDecimals.quotes).toEqual([
+        { date: '2024-03-15', close: 8.3333, adjclose: 8.3333, fxRate: 0.8333333333 },
+      ]);
+      expect(raw.quotes[0].close).toBe(10 * 0.8333333333);
+    });
+  });
+
+  describe('convertSummary', () => {
+    it('should convert listing and financial currency values separately', async () => {
+      const result = await service.convertSummary(
+        {
+          price: { currency: 'GBp', regularMarketPrice: 8000 },
+          financialData: { financialCurrency: 'USD', currentPrice: 8000, totalCash: 1080, recommendationKey: 'buy' },
+          defaultKeyStatistics: { bookValue: 10.8, sharesOutstanding: 1000 },
+        },
+        'EUR',
+        mockContext,
+      );
+
+      expect(result).toEqual({
+        price: { currency: 'EUR', regularMarketPrice: 100 },
+        financialData: { financialCurrency: 'EUR', currentPrice: 100, totalCash: 1000, recommendationKey: 'buy' },
+        defaultKeyStatistics: { bookValue: 10, sharesOutstanding: 1000 },
+        currency: 'EUR',
+        originalCurrency: 'GBp',
+        fxRate: 0.0125,
+        originalFinancialCurrency: 'USD',
+        financialFxRate: 0.9259259259,
+      });
+    });
+
+    it('should assume statements are reported in the major unit of the listing currency', async () => {
+      const result = await service.convertSummary(
+        { price: { currency: 'GBp' }, defaultKeyStatistics: { trailingEps: 0.8 } },
+        'EUR',
+        mockContext,
+      );
+
+      expect(result).toMatchObject({
+        defaultKeyStatistics: { trailingEps: 1 },
+        originalFinancialCurrency: 'GBP',
+        financialFxRate: 1.25,
+      });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { lookupRate, lookupRateSeries, toRateHistory } from '../../src/services/ecbRateHistory';
+
+describe('ecbRateHistory', () => {
+  // Friday 2024-03-29 and Monday 2024-04-01 are TARGET holidays (Easter)
+  const history = toRateHistory([
+    { date: '2024-04-02', base: 'EUR', rates: { USD: 1.0749 } },
+    { date: '2024-03-28', base: 'EUR', rates: { USD: 1.0811, GBP: 0.8551 } },
+    { date: '2024-03-27', base: 'EUR', rates: { USD: 1.0826, GBP: 0.8576 } },
+  ]);
+
+  describe('toRateHistory', () => {
+    it('should index days by date in ascending order', () => {
+      expect(history.dates).toEqual(['2024-03-27', '2024-03-28', '2024-04-02']);
+      expect(history.rates['2024-03-28']).toEqual({ USD: 1.0811, GBP: 0.8551 });
+    });
+  });
+
+  describe('lookupRate', () => {
+    it('should return the rate published for a business day', () => {
+      expect(lookupRate(history, 'USD', '2024-03-27')).toEqual({
+        date: '2024-03-27',
+        rateDate: '2024-03-27',
+        currency: 'USD',
+        rate: 1.0826,
+        carriedForward: false,
+      });
+    });
+
+    it('should carry the last known rate forward over holidays and weekends', () => {
+      expect(lookupRate(history, 'USD', '2024-04-01')).toEqual({
+        date: '2024-04-01',
+        rateDate: '2024-03-28',
+        currency: 'USD',
+        rate: 1.0811,
+        carriedForward: true,
+      });
+    });
+
+    it('should carry the latest rate forward past the end of the series', () => {
+      expect(lookupRate(history, 'USD', '2024-04-05')).toMatchObject({ rateDate: '2024-04-02', carriedForward: true });
+    });
+
+    it('should return 1 for the base currency', () => {
+      expect(lookupRate(history, 'EUR', '2024-03-30')).toMatchObject({ rate: 1, rateDate: '2024-03-28' });
+    });
+
+    it('should return undefined before the first known day', () => {
+      expect(lookupRate(history, 'USD', '2024-03-26')).toBeUndefined();
+    });
+
+    it('should return undefined when the currency is not quoted on the reference day', () => {
+      expect(lookupRate(history, 'GBP', '2024-04-02')).toBeUndefined();
+    });
+  });
+
+  describe('lookupRateSeries', () => {
+    it('should return one entry per calendar day', () => {
+      const series = lookupRateSeries(history, 'USD', '2024-03-28', '2024-04-02');
+
+      expect(series.map((entry) => [entry.date, entry.rateDate, entry.carriedForward])).toEqual([
+        ['2024-03-28', '2024-03-28', false],
+        ['2024-03-29', '2024-03-28', true],
+        ['2024-03-30', '2024-03-28', true],
+        ['2024-03-31', '2024-03-28', true],
+        ['2024-04-01', '2024-03-28', true],
+        ['2024-04-02', '2024-04-02', false],
+      ]);
+    });
+
+    it('should skip days without a known rate', () => {
+      expect(lookupRateSeries(history, 'USD', '2024-03-25', '2024-03-27').map((entry) => entry.date)).toEqual([
+        '2024-03-27',
+      ]);
+    });
+
+    it('should start at the first day of the history however early the range starts', () => {
+      const series = lookupRateSeries(history, 'USD', '0001-01-01', '2024-03-28');
+
+      expect(series.map((entry) => entry.date)).toEqual(['2024-03-27', '2024-03-28']);
+    });
+
+    it('should return nothing for an empty history', () => {
+      expect(lookupRateSeries(toRateHistory([]), 'USD', '0001-01-01', '2024-03-28')).toEqual([]);
+    });
+  });
+});
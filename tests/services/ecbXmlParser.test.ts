@@ -0,0 +1,66 @@
+import { parseEcbXml } from '../../src/services/ecbXmlParser';
+import { UpstreamError } from '../../src/utils/errors';
+
+const envelope = (cubes: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <gesmes:Sender>
+    <gesmes:name>European Central Bank</gesmes:name>
+  </gesmes:Sender>
+  ${cubes}
+</gesmes:Envelope>
+`;
+
+describe('parseEcbXml', () => {
+  it('should parse the daily reference rates', () => {
+    const xml = envelope(`
+      <Cube>
+        <Cube time='2023-01-20'>
+          <Cube currency='USD' rate='1.0851'/>
+          <Cube currency='JPY' rate='141.27'/>
+        </Cube>
+      </Cube>`);
+
+    expect(parseEcbXml(xml)).toEqual([{ date: '2023-01-20', base: 'EUR', rates: { USD: 1.0851, JPY: 141.27 } }]);
+  });
+
+  it('should parse several days in document order', () => {
+    const xml = envelope(`
+      <Cube>
+        <Cube time="2023-01-20"><Cube currency="USD" rate="1.0851"/></Cube>
+        <Cube time="2023-01-19"><Cube currency="USD" rate="1.0802"/></Cube>
+      </Cube>`);
+
+    expect(parseEcbXml(xml).map((day) => day.date)).toEqual(['2023-01-20', '2023-01-19']);
+  });
+
+  it.each([
+    ['an empty document', ''],
+    ['a non ECB document', '<html><body>Service unavailable</body></html>'],
+    [
+      'a truncated document',
+      envelope('<Cube><Cube time="2023-01-20"><Cube currency="USD" rate="1.0851"/></Cube></Cube>').slice(0, 300),
+    ],
+    ['unbalanced Cube elements', envelope('<Cube><Cube time="2023-01-20"><Cube currency="USD" rate="1.08"/></Cube>')],
+    ['a day without rates', envelope('<Cube><Cube time="2023-01-20"></Cube></Cube>')],
+    ['no days', envelope('<Cube></Cube>')],
+    ['an invalid date', envelope('<Cube><Cube time="2023-13-45"><Cube currency="USD" rate="1.08"/></Cube></Cube>')],
+    ['an invalid rate', envelope('<Cube><Cube time="2023-01-20"><Cube currency="USD" rate="N/A"/></Cube></Cube>')],
+    ['a missing rate', envelope('<Cube><Cube time="2023-01-20"><Cube currency="USD"/></Cube></Cube>')],
+    ['an invalid currency', envelope('<Cube><Cube time="2023-01-20"><Cube currency="usd" rate="1.08"/></Cube></Cube>')],
+    [
+      'a duplicate currency',
+      envelope(
+        '<Cube><Cube time="2023-01-20"><Cube currency="USD" rate="1.08"/><Cube currency="USD" rate="1.09"/></Cube></Cube>',
+      ),
+    ],
+    [
+      'a duplicate day',
+      envelope(
+        '<Cube><Cube time="2023-01-20"><Cube currency="USD" rate="1.08"/></Cube><Cube time="2023-01-20"><Cube currency="USD" rate="1.08"/></Cube></Cube>',
+      ),
+    ],
+  ])('should reject %s', (_description, xml) => {
+    expect(() => parseEcbXml(xml)).toThrow(UpstreamError);
+  });
+});
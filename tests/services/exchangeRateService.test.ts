@@ -3,10 +3,27 @@ import type { InvocationContext } from '@azure/functions';
 import { ExchangeRateService } from '../../src/services/exchangeRateService';
 
 import type { CacheService } from '../../src/services/cacheService';
+import { NotFoundError, UpstreamError } from '../../src/utils/errors';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+const validXml = `<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <Cube>
+    <Cube time="2023-01-20">
+      <Cube currency="USD" rate="1.0851"/>
+      <Cube currency="JPY" rate="141.27"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+const historyXml = `<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <Cube>
+    <Cube time="2024-04-02"><Cube currency="USD" rate="1.0749"/></Cube>
+    <Cube time="2024-03-28"><Cube currency="USD" rate="1.0811"/></Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
 const mockContext = {
   log: jest.fn(),
   error: jest.fn(),
@@ -96,7 +113,7 @@ describe('ExchangeRateService', () => {
     it('should fetch daily rates from ECB on cache miss and save to cache', async () => {
       mockCache.get.mockReturnValue(null);
 
-      const mockXmlResponse = '<fresh>xml</fresh>';
+      const mockXmlResponse = validXml;
       mockedAxios.get.mockResolvedValue({
         data: mockXmlResponse,
         status: 200,
@@ -113,13 +130,203 @@ describe('ExchangeRateService', () => {
       });
       expect(result.data).toBe(mockXmlResponse);
     });
+
+    it('should reject malformed documents without caching them', async () => {
+      mockCache.get.mockReturnValue(null);
+      mockedAxios.get.mockResolvedValue({
+        data: validXml.slice(0, 200),
+        status: 200,
+        headers: { 'content-type': 'application/xml' },
+      });
+
+      await expect(service.getDailyRates(mockContext)).rejects.toBeInstanceOf(UpstreamError);
+      expect(mockCache.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDailyReferenceRates', () => {
+    it('should return the parsed daily rates', async () => {
+      mockCache.get.mockReturnValue({ data: validXml, contentType: 'application/xml' });
+
+      const result = await service.getDailyReferenceRates(mockContext);
+
+      expect(result).toEqual({ date: '2023-01-20', base: 'EUR', rates: { USD: 1.0851, JPY: 141.27 } });
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRateHistory', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-04-05T12:00:00Z') });
+      mockCache.get.mockReturnValue(null);
+      mockedAxios.get.mockResolvedValue({ data: historyXml, status: 200, headers: {} });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should load the 90-day file for recent dates and cache the series', async () => {
+      const history = await service.getRateHistory('2024-03-28', mockContext);
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist-90d.xml',
+        expect.objectContaining({ timeout: 30000 }),
+      );
+      expect(history.dates).toEqual(['2024-03-28', '2024-04-02']);
+      expect(mockCache.set).toHaveBeenCalledWith('ecb-hist-90d-rates', history);
+    });
+
+    it('should fall back to the full history when the 90-day file does not cover the start date', async () => {
+      await service.getRateHistory('2024-03-27', mockContext);
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+      expect(mockedAxios.get).toHaveBeenLastCalledWith(
+        'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.xml',
+        expect.anything(),
+      );
+      expect(mockCache.set).toHaveBeenCalledWith('ecb-hist-rates', expect.anything());
+    });
+
+    it('should load the full history directly for older dates', async () => {
+      await service.getRateHistory('2020-01-01', mockContext);
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.xml',
+        expect.anything(),
+      );
+    });
+
+    it('should use the cached series', async () => {
+      const cached = { base: 'EUR', dates: ['2024-03-28'], rates: { '2024-03-28': { USD: 1.0811 } } };
+      mockCache.get.mockReturnValue(cached);
+
+      await expect(service.getRateHistory('2024-03-28', mockContext)).resolves.toBe(cached);
+      expect(mockCache.get).toHaveBeenCalledWith('ecb-hist-90d-rates');
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should not cache malformed history files', async () => {
+      mockedAxios.get.mockResolvedValue({ data: historyXml.slice(0, 150), status: 200, headers: {} });
+
+      await expect(service.getRateHistory('2020-01-01', mockContext)).rejects.toBeInstanceOf(UpstreamError);
+      expect(mockCache.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRateOnDate', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-04-05T12:00:00Z') });
+      mockCache.get.mockReturnValue(null);
+      mockedAxios.get.mockResolvedValue({ data: historyXml, status: 200, headers: {} });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should flag carried forward rates', async () => {
+      await expect(service.getRateOnDate('USD', '2024-03-30', mockContext)).resolves.toEqual({
+        date: '2024-03-30',
+        rateDate: '2024-03-28',
+        currency: 'USD',
+        rate: 1.0811,
+        carriedForward: true,
+      });
+    });
+
+    it('should throw NotFoundError for unknown currencies', async () => {
+      await expect(service.getRateOnDate('XXX', '2024-04-02', mockContext)).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('getRateSeries', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-04-05T12:00:00Z') });
+      mockCache.get.mockReturnValue(null);
+      mockedAxios.get.mockResolvedValue({ data: historyXml, status: 200, headers: {} });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should return the daily series', async () => {
+      const series = await service.getRateSeries('USD', '2024-03-31', '2024-04-02', mockContext);
+
+      expect(series.map((entry) => [entry.date, entry.rate, entry.carriedForward])).toEqual([
+        ['2024-03-31', 1.0811, true],
+        ['2024-04-01', 1.0811, true],
+        ['2024-04-02', 1.0749, false],
+      ]);
+    });
+
+    it('should throw NotFoundError when no rate is known in the range', async () => {
+      await expect(service.getRateSeries('GBP', '2024-03-31', '2024-04-02', mockContext)).rejects.toBeInstanceOf(
+        NotFoundError,
+      );
+    });
   });
 
-  describe('validateRequest', () => {
-    it('should always return isValid: true', () => {
-      const result = service.validateRequest();
-      expect(result.isValid).toBe(true);
-      expect(result.error).toBeUndefined();
+  describe('convert', () => {
+    const latestXml = `<gesmes:Envelope>
+  <Cube>
+    <Cube time="2024-03-15"><Cube currency="USD" rate="1.0887"/><Cube currency="CHF" rate="0.9613"/></Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+    it('should triangulate the latest rates through EUR', async () => {
+      mockCache.get.mockReturnValue({ data: latestXml, contentType: 'application/xml' });
+
+      const result = await service.convert('USD', 'CHF', 1000, undefined, mockContext);
+
+      expect(result).toEqual({
+        from: 'USD',
+        to: 'CHF',
+        amount: 1000,
+        rate: 0.8829797006,
+        inverseRate: 1.132528867,
+        convertedAmount: 882.9797006,
+        date: '2024-03-15',
+        rateDate: '2024-03-15',
+        carriedForward: false,
+      });
+    });
+
+    it('should convert from and to EUR', async () => {
+      mockCache.get.mockReturnValue({ data: latestXml, contentType: 'application/xml' });
+
+      await expect(service.convert('EUR', 'USD', 10, undefined, mockContext)).resolves.toMatchObject({
+        rate: 1.0887,
+        convertedAmount: 10.887,
+      });
+      await expect(service.convert('USD', 'EUR', 1, undefined, mockContext)).resolves.toMatchObject({
+        inverseRate: 1.0887,
+      });
+    });
+
+    it('should throw NotFoundError for currencies missing from the latest rates', async () => {
+      mockCache.get.mockReturnValue({ data: latestXml, contentType: 'application/xml' });
+
+      await expect(service.convert('USD', 'GBP', 1, undefined, mockContext)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should use the rates in force on a historical date', async () => {
+      jest.useFakeTimers({ now: new Date('2024-04-05T12:00:00Z') });
+      mockCache.get.mockReturnValue(null);
+      mockedAxios.get.mockResolvedValue({ data: historyXml, status: 200, headers: {} });
+
+      const result = await service.convert('USD', 'EUR', 100, '2024-03-30', mockContext);
+      jest.useRealTimers();
+
+      expect(result).toMatchObject({
+        rate: 0.9249838128,
+        date: '2024-03-30',
+        rateDate: '2024-03-28',
+        carriedForward: true,
+      });
     });
   });
 });
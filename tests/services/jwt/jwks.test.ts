@@ -0,0 +1,104 @@
+import type { InvocationContext } from '@azure/functions';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { JwksDocument } from '../../../src/services/jwt/jwks';
+import { JwksKeySet, loadJwksFromUrl } from '../../../src/services/jwt/jwks';
+import { createSigningKey } from './testTokens';
+
+describe('JwksKeySet', () => {
+  const first = createSigningKey('ES256', 'key-1');
+  const second = createSigningKey('ES256', 'key-2');
+  const context = { warn: jest.fn() } as unknown as InvocationContext;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load keys once and look them up by kid', async () => {
+    const load = jest.fn().mockResolvedValue({ keys: [first.jwk, { ...second.jwk, use: 'enc' }] });
+    const keySet = new JwksKeySet(load);
+
+    const [keys] = await Promise.all([keySet.getKeys('key-1', context), keySet.getKeys('key-1', context)]);
+
+    expect(keys.map((key) => key.kid)).toEqual(['key-1']);
+    expect(await keySet.getKeys(undefined, context)).toHaveLength(1);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload for an unknown kid, at most once per cooldown', async () => {
+    const load = jest
+      .fn<Promise<JwksDocument>, []>()
+      .mockResolvedValueOnce({ keys: [first.jwk] })
+      .mockResolvedValue({ keys: [first.jwk, second.jwk] });
+    const keySet = new JwksKeySet(load, { cooldownMs: 30000 });
+    await keySet.getKeys('key-1', context);
+
+    now += 1000;
+    expect(await keySet.getKeys('key-2', context)).toEqual([]);
+
+    now += 30000;
+    expect(await keySet.getKeys('key-2', context)).toHaveLength(1);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the previous keys when a reload fails', async () => {
+    const load = jest
+      .fn<Promise<JwksDocument>, []>()
+      .mockResolvedValueOnce({ keys: [first.jwk] })
+      .mockRejectedValue(new Error('provider down'));
+    const keySet = new JwksKeySet(load, { maxAgeMs: 1000 });
+    await keySet.getKeys('key-1', context);
+
+    now += 2000;
+    expect(await keySet.getKeys('key-1', context)).toHaveLength(1);
+    expect(context.warn).toHaveBeenCalled();
+  });
+
+  it('should fail when the first load fails', async () => {
+    const keySet = new JwksKeySet(async () => ({}) as JwksDocument);
+
+    await expect(keySet.getKeys('key-1', context)).rejects.toThrow('no keys array');
+  });
+
+  it('should keep failing with the load error during the cooldown when no keys were ever loaded', async () => {
+    const load = jest
+      .fn<Promise<JwksDocument>, []>()
+      .mockRejectedValueOnce(new Error('provider down'))
+      .mockResolvedValue({ keys: [first.jwk] });
+    const keySet = new JwksKeySet(load, { cooldownMs: 30000 });
+    await expect(keySet.getKeys('key-1', context)).rejects.toThrow('provider down');
+
+    now += 1000;
+    await expect(keySet.getKeys('key-1', context)).rejects.toThrow('provider down');
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now += 30000;
+    expect(await keySet.getKeys('key-1', context)).toHaveLength(1);
+  });
+});
+
+describe('loadJwksFromUrl', () => {
+  it('should fetch the JWKS document', async () => {
+    const key = createSigningKey('ES256', 'remote');
+    const server = http.createServer((_request, response) => {
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify({ keys: [key.jwk] }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const document = await loadJwksFromUrl(`http://127.0.0.1:${port}/jwks`)();
+
+      expect(document.keys[0].kid).toBe('remote');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
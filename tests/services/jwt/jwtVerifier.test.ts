@@ -0,0 +1,150 @@
+import type { InvocationContext } from '@azure/functions';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { JwksKeySet } from '../../../src/services/jwt/jwks';
+import { createJwtVerifier, JwtVerificationError, JwtVerifier } from '../../../src/services/jwt/jwtVerifier';
+import type { TestSigningKey } from './testTokens';
+import { createSigningKey, signToken } from './testTokens';
+
+const context = { warn: jest.fn() } as unknown as InvocationContext;
+
+describe('JwtVerifier', () => {
+  const issuer = 'https://login.example.com/';
+  const rsa = createSigningKey('RS256', 'rsa-1');
+  const ec = createSigningKey('ES256', 'ec-1');
+  const pss = createSigningKey('PS256', 'pss-1');
+  const ed = createSigningKey('EdDSA', 'ed-1');
+  const other = createSigningKey('RS256', 'rsa-1');
+
+  const now = () => Math.floor(Date.now() / 1000);
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    iss: issuer,
+    aud: 'stockquotes-api',
+    sub: 'user-42',
+    exp: now() + 300,
+    ...overrides,
+  });
+
+  const createVerifier = (keys: TestSigningKey[] = [rsa, ec, pss, ed], options = {}) =>
+    new JwtVerifier(new JwksKeySet(async () => ({ keys: keys.map((key) => key.jwk) })), {
+      issuer,
+      audiences: ['stockquotes-api'],
+      ...options,
+    });
+
+  const rejection = async (verifier: JwtVerifier, token: string) => {
+    const error = await verifier.verify(token, context).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(JwtVerificationError);
+    return (error as Error).message;
+  };
+
+  it.each([rsa, ec, pss, ed])('should verify $alg tokens and map the claims', async (key) => {
+    const token = signToken(claims({ name: 'Ada', scope: 'quotes:read history:read' }), key);
+
+    await expect(createVerifier().verify(token, context)).resolves.toMatchObject({
+      subject: 'user-42',
+      name: 'Ada',
+      scopes: ['quotes:read', 'history:read'],
+    });
+  });
+
+  it('should accept any configured audience in an audience array', async () => {
+    const token = signToken(claims({ aud: ['other-api', 'stockquotes-api'], scp: ['quotes'] }), rsa);
+
+    await expect(createVerifier().verify(token, context)).resolves.toMatchObject({ scopes: ['quotes'] });
+  });
+
+  it.each([
+    ['issuer', { iss: 'https://evil.example.com/' }, 'issuer'],
+    ['audience', { aud: 'other-api' }, 'audience'],
+    ['expiry', { exp: now() - 120 }, 'expired'],
+    ['missing expiry', { exp: undefined }, 'no expiry'],
+    ['not-before', { nbf: now() + 600 }, 'not valid yet'],
+    ['subject', { sub: undefined }, 'no sub claim'],
+  ])('should reject a token with a wrong %s', async (_name, overrides, message) => {
+    expect(await rejection(createVerifier(), signToken(claims(overrides), rsa))).toContain(message);
+  });
+
+  it('should tolerate small clock skew', async () => {
+    await expect(createVerifier().verify(signToken(claims({ exp: now() - 30 }), rsa), context)).resolves.toBeDefined();
+  });
+
+  it('should reject forged, unsigned and malformed tokens', async () => {
+    const verifier = createVerifier();
+    const [header, payload] = signToken(claims(), rsa).split('.');
+
+    expect(await rejection(verifier, signToken(claims(), other))).toContain('signature is invalid');
+    expect(
+      await rejection(verifier, `${signToken(claims(), rsa, { alg: 'none' }).split('.').slice(0, 2).join('.')}.`),
+    ).toContain('algorithm none');
+    expect(await rejection(verifier, `${header}.${payload}`)).toContain('compact JWS');
+    expect(await rejection(verifier, `${header}.bm90IGpzb24.sig`)).toContain('payload');
+  });
+
+  it('should not accept a key for another algorithm', async () => {
+    // The ES256 key answers to the kid, but the token claims RS256
+    const token = signToken(claims(), rsa, { kid: 'ec-1' });
+
+    expect(await rejection(createVerifier([rsa, { ...ec, jwk: { ...ec.jwk, alg: undefined } }]), token)).toContain(
+      'signature is invalid',
+    );
+  });
+
+  it('should only accept the configured algorithms', async () => {
+    const verifier = createVerifier(undefined, { algorithms: ['ES256'] });
+
+    expect(await rejection(verifier, signToken(claims(), rsa))).toContain('RS256 is not accepted');
+  });
+
+  it('should ignore configured names that are not algorithms', async () => {
+    const verifier = createVerifier(undefined, { algorithms: ['toString', 'ES256'] });
+    const token = signToken(claims(), ec).replace(/^[^.]+/, () =>
+      Buffer.from(JSON.stringify({ alg: 'toString', kid: 'ec-1' })).toString('base64url'),
+    );
+
+    expect(await rejection(verifier, token)).toContain('toString is not accepted');
+  });
+});
+
+describe('createJwtVerifier', () => {
+  it('should be disabled without JWT_ISSUER', () => {
+    expect(createJwtVerifier({})).toBeUndefined();
+  });
+
+  it('should verify tokens against a JWKS file', async () => {
+    const key = createSigningKey('ES256', 'file-key');
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stockquotes-jwks-'));
+    const file = path.join(dir, 'jwks.json');
+    fs.writeFileSync(file, JSON.stringify({ keys: [key.jwk] }));
+
+    try {
+      const verifier = createJwtVerifier({
+        JWT_ISSUER: 'https://login.example.com/',
+        JWT_AUDIENCE: 'web, stockquotes-api',
+        JWT_JWKS_FILE: file,
+        JWT_SUBJECT_CLAIM: 'oid',
+      });
+      const token = signToken(
+        { iss: 'https://login.example.com/', aud: 'stockquotes-api', oid: 'object-1', exp: Date.now() / 1000 + 60 },
+        key,
+      );
+
+      await expect(verifier!.verify(token, context)).resolves.toMatchObject({ subject: 'object-1' });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it.each([
+    [{ JWT_ISSUER: 'x', JWT_JWKS_URL: 'http://idp/jwks' }, 'JWT_AUDIENCE is required'],
+    [{ JWT_ISSUER: 'x', JWT_AUDIENCE: 'api' }, 'JWT_JWKS_URL or JWT_JWKS_FILE'],
+    [{ JWT_ISSUER: 'x', JWT_AUDIENCE: 'api', JWT_JWKS_URL: 'http://idp/jwks', JWT_ALGORITHMS: 'HS256' }, 'HS256'],
+    [
+      { JWT_ISSUER: 'x', JWT_AUDIENCE: 'api', JWT_JWKS_URL: 'http://idp/jwks', JWT_ALGORITHMS: 'constructor' },
+      'constructor',
+    ],
+  ])('should reject incomplete configuration %j', (env, message) => {
+    expect(() => createJwtVerifier(env)).toThrow(message);
+  });
+});
@@ -0,0 +1,44 @@
+import type { KeyObject } from 'node:crypto';
+import { constants, generateKeyPairSync, sign } from 'node:crypto';
+import type { Jwk } from '../../../src/services/jwt/jwks';
+
+// Signing keys and tokens for the JWT tests, so they run without an identity provider
+export interface TestSigningKey {
+  alg: 'RS256' | 'PS256' | 'ES256' | 'EdDSA';
+  kid: string;
+  privateKey: KeyObject;
+  jwk: Jwk;
+}
+
+export function createSigningKey(alg: TestSigningKey['alg'], kid: string): TestSigningKey {
+  const { privateKey, publicKey } =
+    alg === 'ES256'
+      ? generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      : alg === 'EdDSA'
+        ? generateKeyPairSync('ed25519')
+        : generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { alg, kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg, use: 'sig' } };
+}
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+export function signToken(
+  claims: Record<string, unknown>,
+  key: TestSigningKey,
+  header: Record<string, unknown> = {},
+): string {
+  const data = `${encode({ alg: key.alg, kid: key.kid, typ: 'JWT', ...header })}.${encode(claims)}`;
+  let signature: Buffer;
+  if (key.alg === 'ES256') {
+    signature = sign('sha256', Buffer.from(data), { key: key.privateKey, dsaEncoding: 'ieee-p1363' });
+  } else if (key.alg === 'PS256') {
+    signature = sign('sha256', Buffer.from(data), {
+      key: key.privateKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    });
+  } else {
+    signature = sign(key.alg === 'EdDSA' ? null : 'sha256', Buffer.from(data), key.privateKey);
+  }
+  return `${data}.${signature.toString('base64url')}`;
+}
@@ -0,0 +1,48 @@
+import { MemoryRateLimitStore } from '../../../src/services/rateLimit/memoryRateLimitStore';
+
+describe('MemoryRateLimitStore', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should add to counters and read them back', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.increment('a', 2, 1000)).toBe(2);
+    expect(await store.increment('a', 3, 1000)).toBe(5);
+    expect(await store.increment('a', -1, 1000)).toBe(4);
+    expect(await store.get('a')).toBe(4);
+    expect(await store.get('missing')).toBe(0);
+  });
+
+  it('should expire counters ttlMs after they were created', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment('a', 1, 1000);
+
+    now += 600;
+    await store.increment('a', 1, 1000);
+    now += 400;
+
+    expect(await store.get('a')).toBe(0);
+    expect(await store.increment('a', 1, 1000)).toBe(1);
+  });
+
+  it('should only replace values that still hold the expected value', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.compareAndSet('tat', 0, 1500, 1000)).toBe(true);
+    expect(await store.compareAndSet('tat', 0, 2000, 1000)).toBe(false);
+    expect(await store.compareAndSet('tat', 1500, 2000, 1000)).toBe(true);
+    expect(await store.get('tat')).toBe(2000);
+
+    now += 1000;
+    expect(await store.compareAndSet('tat', 0, 3000, 1000)).toBe(true);
+  });
+});
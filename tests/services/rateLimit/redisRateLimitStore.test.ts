@@ -0,0 +1,78 @@
+import type { FakeRespServer } from '../cache/fakeRespServer';
+import { startFakeRespServer } from '../cache/fakeRespServer';
+import { RespClient } from '../../../src/services/cache/respClient';
+import { COMPARE_AND_SET_SCRIPT, RedisRateLimitStore } from '../../../src/services/rateLimit/redisRateLimitStore';
+
+describe('RedisRateLimitStore', () => {
+  let server: FakeRespServer;
+  let client: RespClient;
+  let store: RedisRateLimitStore;
+
+  beforeEach(async () => {
+    server = await startFakeRespServer();
+    client = new RespClient(server.url);
+    store = new RedisRateLimitStore(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should create the counter with its expiry and increment it in one transaction', async () => {
+    expect(await store.increment('quotes:ip:1.2.3.4:7', 2, 1500)).toBe(2);
+
+    expect(server.commands).toEqual([
+      ['MULTI'],
+      ['SET', 'stockquotes:ratelimit:quotes:ip:1.2.3.4:7', '0', 'PX', '1500', 'NX'],
+      ['INCRBYFLOAT', 'stockquotes:ratelimit:quotes:ip:1.2.3.4:7', '2'],
+      ['EXEC'],
+    ]);
+  });
+
+  it('should keep the first expiry on later increments', async () => {
+    await store.increment('a', 1, 60000);
+    const { expiresAt } = server.data.get('stockquotes:ratelimit:a')!;
+
+    expect(await store.increment('a', 2.5, 1)).toBe(3.5);
+    expect(server.data.get('stockquotes:ratelimit:a')?.expiresAt).toBe(expiresAt);
+  });
+
+  it('should count concurrent increments exactly once each', async () => {
+    await Promise.all(Array.from({ length: 20 }, () => store.increment('a', 1, 60000)));
+
+    expect(await store.get('a')).toBe(20);
+    expect(await store.get('missing')).toBe(0);
+  });
+
+  it('should start over once the counter has expired', async () => {
+    await store.increment('a', 5, 20);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(await store.increment('a', 1, 1000)).toBe(1);
+  });
+
+  it('should compare and set in a server-side script', async () => {
+    expect(await store.compareAndSet('quotes:ip:1.2.3.4', 0, 1700000000250.5, 250.5)).toBe(true);
+
+    expect(server.commands).toEqual([
+      ['EVAL', COMPARE_AND_SET_SCRIPT, '1', 'stockquotes:ratelimit:quotes:ip:1.2.3.4', '0', '1700000000250.5', '251'],
+    ]);
+    expect(await store.get('quotes:ip:1.2.3.4')).toBe(1700000000250.5);
+  });
+
+  it('should let only one of concurrent writers of the same value win', async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, (_, i) => store.compareAndSet('tat', 0, i + 1, 60000)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await store.compareAndSet('tat', await store.get('tat'), 10, 60000)).toBe(true);
+  });
+
+  it('should reject when the server does not answer', async () => {
+    client = new RespClient(server.url, { timeoutMs: 50 });
+    store = new RedisRateLimitStore(client);
+    server.silent.add('EXEC');
+
+    await expect(store.increment('a', 1, 1000)).rejects.toThrow('timed out');
+  });
+});
@@ -0,0 +1,229 @@
+import type { InvocationContext } from '@azure/functions';
+import { MemoryRateLimitStore } from '../../src/services/rateLimit/memoryRateLimitStore';
+import { RedisRateLimitStore } from '../../src/services/rateLimit/redisRateLimitStore';
+import {
+  createRateLimitStore,
+  getRateLimiter,
+  loadRateLimitFailureMode,
+  loadRateLimitPolicies,
+  RateLimiter,
+} from '../../src/services/rateLimiter';
+import { RateLimitUnavailable } from '../../src/utils/errors';
+
+describe('RateLimiter', () => {
+  const context = { warn: jest.fn() } as unknown as InvocationContext;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const allowed = async (limiter: RateLimiter, count: number, identifier = 'client') => {
+    const results: boolean[] = [];
+    for (let i = 0; i < count; i++) {
+      results.push((await limiter.isAllowed(identifier, context)).allowed);
+    }
+    return results;
+  };
+
+  it('should allow a burst and then refill at the configured rate', async () => {
+    const limiter = new RateLimiter({ burst: 3, refillPerSecond: 2 });
+
+    expect(await allowed(limiter, 4)).toEqual([true, true, true, false]);
+
+    now += 500;
+    expect(await allowed(limiter, 2)).toEqual([true, false]);
+  });
+
+  it('should not allow double bursts across a window boundary', async () => {
+    const limiter = new RateLimiter({ burst: 4, refillPerSecond: 4 });
+    await allowed(limiter, 4);
+
+    now += 250;
+
+    expect(await allowed(limiter, 4)).toEqual([true, false, false, false]);
+  });
+
+  it('should report remaining tokens, reset time and retry delay', async () => {
+    const limiter = new RateLimiter({ burst: 10, refillPerSecond: 5 });
+
+    expect(await limiter.isAllowed('client', context, 4)).toEqual({
+      allowed: true,
+      remaining: 6,
+      resetTime: now + 800,
+      retryAfterMs: 0,
+    });
+
+    await limiter.isAllowed('client', context, 6);
+    expect(await limiter.isAllowed('client', context, 2)).toEqual({
+      allowed: false,
+      remaining: 0,
+      resetTime: now + 2000,
+      retryAfterMs: 400,
+    });
+  });
+
+  it('should charge weighted costs and cap them at the burst', async () => {
+    const limiter = new RateLimiter({ burst: 5, refillPerSecond: 1 });
+
+    expect((await limiter.isAllowed('heavy', context, 50)).allowed).toBe(true);
+    expect((await limiter.isAllowed('heavy', context)).allowed).toBe(false);
+    expect((await limiter.isAllowed('light', context, 2)).remaining).toBe(3);
+  });
+
+  it('should track identifiers independently', async () => {
+    const limiter = new RateLimiter({ burst: 1, refillPerSecond: 1 });
+
+    expect(await allowed(limiter, 1, 'a')).toEqual([true]);
+    expect(await allowed(limiter, 1, 'b')).toEqual([true]);
+    expect(await allowed(limiter, 1, 'a')).toEqual([false]);
+  });
+
+  it('should share budgets between limiters using the same store and name', async () => {
+    const store = new MemoryRateLimitStore();
+    const first = new RateLimiter({ burst: 2, refillPerSecond: 1 }, { store, name: 'quotes' });
+    const second = new RateLimiter({ burst: 2, refillPerSecond: 1 }, { store, name: 'quotes' });
+    const other = new RateLimiter({ burst: 2, refillPerSecond: 1 }, { store, name: 'history' });
+
+    expect(await allowed(first, 1)).toEqual([true]);
+    expect(await allowed(second, 2)).toEqual([true, false]);
+    expect(await allowed(other, 1)).toEqual([true]);
+  });
+
+  it('should charge every one of concurrent requests', async () => {
+    const limiter = new RateLimiter({ burst: 3, refillPerSecond: 1 });
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => limiter.isAllowed('client', context)));
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(3);
+  });
+
+  it('should only write the TAT it read', async () => {
+    const store = new MemoryRateLimitStore();
+    const compareAndSet = jest.spyOn(store, 'compareAndSet');
+    const limiter = new RateLimiter({ burst: 2, refillPerSecond: 1 }, { store, name: 'quotes' });
+
+    await limiter.isAllowed('client', context);
+    await limiter.isAllowed('client', context);
+
+    expect(compareAndSet.mock.calls).toEqual([
+      ['quotes:client', 0, now + 1000, 1000],
+      ['quotes:client', now + 1000, now + 2000, 2000],
+    ]);
+  });
+
+  it('should deny a request whose TAT keeps moving under it', async () => {
+    const store = { get: jest.fn().mockResolvedValue(0), increment: jest.fn(), compareAndSet: jest.fn() };
+    store.compareAndSet.mockResolvedValue(false);
+    const limiter = new RateLimiter({ burst: 2, refillPerSecond: 1 }, { store });
+
+    expect(await limiter.isAllowed('client', context)).toMatchObject({ allowed: false, retryAfterMs: 1000 });
+    expect(store.compareAndSet).toHaveBeenCalledTimes(5);
+  });
+
+  it('should peek at a bucket without charging it', async () => {
+    const limiter = new RateLimiter({ burst: 2, refillPerSecond: 1 });
+
+    expect(await limiter.peek('client', context)).toMatchObject({ allowed: true, remaining: 2 });
+    expect(await allowed(limiter, 2)).toEqual([true, true]);
+    expect(await limiter.peek('client', context)).toMatchObject({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  it('should let requests through when the store fails open', async () => {
+    const store = {
+      get: jest.fn().mockRejectedValue(new Error('down')),
+      increment: jest.fn(),
+      compareAndSet: jest.fn(),
+    };
+    const limiter = new RateLimiter({ burst: 2, refillPerSecond: 1 }, { store });
+
+    expect(await limiter.isAllowed('client', context)).toMatchObject({ allowed: true, remaining: 2 });
+    expect(context.warn).toHaveBeenCalled();
+  });
+
+  it('should reject requests when the store fails closed', async () => {
+    const store = {
+      get: jest.fn().mockRejectedValue(new Error('down')),
+      increment: jest.fn(),
+      compareAndSet: jest.fn(),
+    };
+    const limiter = new RateLimiter({ burst: 2, refillPerSecond: 1 }, { store, failureMode: 'closed' });
+
+    await expect(limiter.isAllowed('client', context)).rejects.toBeInstanceOf(RateLimitUnavailable);
+  });
+
+  it('should share buckets with limiters derived for another policy', async () => {
+    const limiter = new RateLimiter({ burst: 2, refillPerSecond: 1 });
+    const generous = limiter.withPolicy({ burst: 4, refillPerSecond: 2 });
+
+    expect(generous.getLimit()).toBe(4);
+    // A second of the TAT is half of the small bucket, but only two of the four tokens of the larger one
+    expect(await allowed(limiter, 1)).toEqual([true]);
+    expect(await allowed(generous, 3)).toEqual([true, true, false]);
+  });
+
+  it('should expose the burst as the limit', () => {
+    expect(new RateLimiter({ burst: 7, refillPerSecond: 1 }).getLimit()).toBe(7);
+  });
+});
+
+describe('loadRateLimitPolicies', () => {
+  it('should provide defaults per route', () => {
+    const policies = loadRateLimitPolicies({});
+
+    expect(policies.default).toEqual({ burst: 10, refillPerSecond: 10 });
+    expect(policies['yahoo-finance']).toEqual({ burst: 10, refillPerSecond: 4 });
+    expect(policies.unidentified).toEqual({ burst: 5, refillPerSecond: 1 });
+  });
+
+  it('should apply overrides from RATE_LIMIT_POLICIES', () => {
+    const policies = loadRateLimitPolicies({
+      RATE_LIMIT_POLICIES: JSON.stringify({
+        statements: { burst: 2 },
+        default: { refillPerSecond: 1 },
+        'yahoo-finance': { burst: 20 },
+      }),
+    });
+
+    expect(policies.statements).toEqual({ burst: 2, refillPerSecond: 1 });
+    expect(policies['yahoo-finance']).toEqual({ burst: 20, refillPerSecond: 4 });
+    expect(policies.default).toEqual({ burst: 10, refillPerSecond: 1 });
+  });
+
+  it.each([
+    ['{', 'not valid JSON'],
+    ['{"statements":{"burst":0}}', 'statements.burst must be a positive number'],
+    ['{"default":{"refillPerSecond":"fast"}}', 'default.refillPerSecond must be a positive number'],
+  ])('should reject %s', (value, message) => {
+    expect(() => loadRateLimitPolicies({ RATE_LIMIT_POLICIES: value })).toThrow(message);
+  });
+});
+
+describe('createRateLimitStore', () => {
+  it('should select the store from RATE_LIMIT_STORE', () => {
+    expect(createRateLimitStore({})).toBeInstanceOf(MemoryRateLimitStore);
+    expect(createRateLimitStore({ RATE_LIMIT_STORE: 'redis' })).toBeInstanceOf(RedisRateLimitStore);
+    expect(() => createRateLimitStore({ RATE_LIMIT_STORE: 'etcd' })).toThrow('Unknown RATE_LIMIT_STORE "etcd"');
+  });
+});
+
+describe('loadRateLimitFailureMode', () => {
+  it('should fail open by default', () => {
+    expect(loadRateLimitFailureMode({})).toBe('open');
+    expect(loadRateLimitFailureMode({ RATE_LIMIT_FAILURE_MODE: 'closed' })).toBe('closed');
+    expect(() => loadRateLimitFailureMode({ RATE_LIMIT_FAILURE_MODE: 'ajar' })).toThrow('RATE_LIMIT_FAILURE_MODE');
+  });
+});
+
+describe('getRateLimiter', () => {
+  it('should return one limiter per route', () => {
+    expect(getRateLimiter('statements')).toBe(getRateLimiter('statements'));
+    expect(getRateLimiter('statements')).not.toBe(getRateLimiter('yahoo-finance'));
+    expect(getRateLimiter('yahoo-finance-historical').getLimit()).toBe(4);
+  });
+});
@@ -97,7 +97,11 @@ describe('YahooFinanceService', () => {
       const error = new Error('Failed to fetch');
       mockYahooFinance.quote.mockRejectedValue(error);
 
-      await expect(service.getQuotes(request, mockContext)).rejects.toThrow(error);
+      await expect(service.getQuotes(request, mockContext)).rejects.toMatchObject({
+        name: 'UpstreamError',
+        message: error.message,
+        cause: error,
+      });
 
       expect(mockContext.error).toHaveBeenCalledWith(
         `Error fetching quotes from Yahoo Finance: ${error.message}`,
@@ -214,6 +218,141 @@ describe('YahooFinanceService', () => {
       expect(response.quotes[0]).not.toHaveProperty('volume');
     });
 
+    describe('precision', () => {
+      const quote = { date: new Date('2024-01-01'), open: 1.0876543, high: 1.09, low: 1.08, close: 0.123456789 };
+
+      it('should leave prices untouched in raw mode', async () => {
+        mockYahooFinance.chart.mockResolvedValue({ meta: {}, quotes: [{ ...quote }] });
+
+        const response = await service.getHistoricalData(
+          { ticker: 'EURUSD=X', from: '2024-01-01', to: '2024-01-02', precision: 'raw' },
+          mockContext,
+        );
+
+        expect(response.quotes[0].open).toBe(1.0876543);
+        expect(response.quotes[0].close).toBe(0.123456789);
+      });
+
+      it('should round to the requested number of decimals', async () => {
+        mockYahooFinance.chart.mockResolvedValue({ meta: {}, quotes: [{ ...quote }] });
+
+        const response = await service.getHistoricalData(
+          { ticker: 'EURUSD=X', from: '2024-01-01', to: '2024-01-02', precision: 5 },
+          mockContext,
+        );
+
+        expect(response.quotes[0].open).toBe(1.08765);
+        expect(response.quotes[0].close).toBe(0.12346);
+      });
+
+      it('should use the priceHint in auto mode', async () => {
+        mockYahooFinance.chart.mockResolvedValue({ meta: { priceHint: 4 }, quotes: [{ ...quote }] });
+
+        const response = await service.getHistoricalData(
+          { ticker: 'EURUSD=X', from: '2024-01-01', to: '2024-01-02', precision: 'auto' },
+          mockContext,
+        );
+
+        expect(response.quotes[0].open).toBe(1.0877);
+      });
+
+      it('should fall back to the instrument type in auto mode', async () => {
+        mockYahooFinance.chart.mockResolvedValue({
+          meta: { instrumentType: 'CRYPTOCURRENCY' },
+          quotes: [{ ...quote }],
+        });
+
+        const response = await service.getHistoricalData(
+          { ticker: 'SHIB-USD', from: '2024-01-01', to: '2024-01-02', precision: 'auto' },
+          mockContext,
+        );
+
+        expect(response.quotes[0].close).toBe(0.12345679);
+      });
+    });
+
+    it('should return adjclose when selected through fields', async () => {
+      const request = {
+        ticker: 'AAPL',
+        from: '2024-01-01',
+        to: '2024-01-02',
+        fields: ['close', 'adjclose'],
+      };
+      mockYahooFinance.chart.mockResolvedValue({
+        meta: {},
+        quotes: [{ date: new Date('2024-01-01'), open: 150, close: 152.5, adjclose: 151.2345, volume: 1000 }],
+      });
+
+      const response = await service.getHistoricalData(request, mockContext);
+
+      expect(response.quotes[0]).toEqual({ date: new Date('2024-01-01'), close: 152.5, adjclose: 151.23 });
+    });
+
+    it('should request and normalise dividends and splits', async () => {
+      const request = {
+        ticker: 'AAPL',
+        from: '2020-01-01',
+        to: '2020-12-31',
+        events: ['dividends' as const, 'splits' as const],
+      };
+      mockYahooFinance.chart.mockResolvedValue({
+        meta: {},
+        quotes: [],
+        events: {
+          dividends: [
+            { date: new Date('2020-11-06'), amount: 0.205 },
+            { date: new Date('2020-08-07'), amount: 0.82 },
+          ],
+          splits: [{ date: new Date('2020-08-31'), numerator: 4, denominator: 1, splitRatio: '4:1', extra: true }],
+        },
+      });
+
+      const response = await service.getHistoricalData(request, mockContext);
+
+      expect(mockYahooFinance.chart).toHaveBeenCalledWith('AAPL', expect.objectContaining({ events: 'div|split' }));
+      expect(response).not.toHaveProperty('events');
+      expect(response.dividends).toEqual([
+        { date: new Date('2020-08-07'), amount: 0.82 },
+        { date: new Date('2020-11-06'), amount: 0.205 },
+      ]);
+      expect(response.splits).toEqual([
+        { date: new Date('2020-08-31'), numerator: 4, denominator: 1, splitRatio: '4:1' },
+      ]);
+    });
+
+    it('should accept events keyed by timestamp', async () => {
+      const request = { ticker: 'AAPL', from: '2020-01-01', to: '2020-12-31', events: ['dividends' as const] };
+      mockYahooFinance.chart.mockResolvedValue({
+        meta: {},
+        quotes: [],
+        events: { dividends: { '1596787200': { date: new Date('2020-08-07'), amount: 0.82 } } },
+      });
+
+      const response = await service.getHistoricalData(request, mockContext);
+
+      expect(mockYahooFinance.chart).toHaveBeenCalledWith('AAPL', expect.objectContaining({ events: 'div' }));
+      expect(response.dividends).toEqual([{ date: new Date('2020-08-07'), amount: 0.82 }]);
+      expect(response).not.toHaveProperty('splits');
+    });
+
+    it('should return empty event arrays when nothing happened in the range', async () => {
+      const request = { ticker: 'AAPL', from: '2020-01-01', to: '2020-01-31', events: ['splits' as const] };
+      mockYahooFinance.chart.mockResolvedValue({ meta: {}, quotes: [] });
+
+      const response = await service.getHistoricalData(request, mockContext);
+
+      expect(response.splits).toEqual([]);
+    });
+
+    it('should drop the raw events block when no events are requested', async () => {
+      const request = { ticker: 'AAPL', from: '2020-01-01', to: '2020-12-31' };
+      mockYahooFinance.chart.mockResolvedValue({ meta: {}, quotes: [], events: { dividends: [] } });
+
+      const response = await service.getHistoricalData(request, mockContext);
+
+      expect(response).toEqual({ meta: {}, quotes: [] });
+    });
+
     it('should throw an error and log it when yahoo.chart fails', async () => {
       const request = {
         ticker: 'FAIL',
@@ -223,7 +362,11 @@ describe('YahooFinanceService', () => {
       const error = new Error('Failed to fetch historical');
       mockYahooFinance.chart.mockRejectedValue(error);
 
-      await expect(service.getHistoricalData(request, mockContext)).rejects.toThrow(error);
+      await expect(service.getHistoricalData(request, mockContext)).rejects.toMatchObject({
+        name: 'UpstreamError',
+        message: error.message,
+        cause: error,
+      });
 
       expect(mockContext.error).toHaveBeenCalledWith(
         `Error fetching historical data from Yahoo Finance: ${error.message}`,
@@ -271,7 +414,11 @@ describe('YahooFinanceService', () => {
       const error = new Error('Failed to fetch summary');
       mockYahooFinance.quoteSummary.mockRejectedValue(error);
 
-      await expect(service.getQuoteSummary(request, mockContext)).rejects.toThrow(error);
+      await expect(service.getQuoteSummary(request, mockContext)).rejects.toMatchObject({
+        name: 'UpstreamError',
+        message: error.message,
+        cause: error,
+      });
 
       expect(mockContext.error).toHaveBeenCalledWith(
         `Error fetching quote summary from Yahoo Finance: ${error.message}`,
@@ -280,170 +427,6 @@ describe('YahooFinanceService', () => {
     });
   });
 
-  describe('validateQuoteRequest', () => {
-    it('should return isValid: true for valid input', () => {
-      const result = service.validateQuoteRequest(['AAPL'], ['regularMarketPrice']);
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if no symbols are provided', () => {
-      const result = service.validateQuoteRequest([], ['regularMarketPrice']);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('At least one symbol must be provided');
-    });
-
-    it('should return isValid: true if no fields are provided', () => {
-      const result = service.validateQuoteRequest(['AAPL'], []);
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: true if fields are undefined', () => {
-      const result = service.validateQuoteRequest(['AAPL']);
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false for invalid symbols', () => {
-      const result = service.validateQuoteRequest(['AAPL', ''], ['regularMarketPrice']);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Invalid symbols provided');
-    });
-
-    it('should return isValid: false for invalid fields', () => {
-      const result = service.validateQuoteRequest(['AAPL'], ['regularMarketPrice', '']);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Invalid fields provided');
-    });
-
-    it('should return isValid: false if more than 50 symbols are provided', () => {
-      const symbols = new Array(51).fill('AAPL');
-      const result = service.validateQuoteRequest(symbols, ['regularMarketPrice']);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Maximum 50 symbols allowed per request');
-    });
-
-    it('should return isValid: false if more than 20 fields are provided', () => {
-      const fields = new Array(21).fill('regularMarketPrice');
-      const result = service.validateQuoteRequest(['AAPL'], fields);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Maximum 20 fields allowed per request');
-    });
-  });
-
-  describe('validateHistoricalRequest', () => {
-    it('should return isValid: true for valid input', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-10', '1w');
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false for invalid interval', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-10', 'invalid');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Interval must be one of: 1m, 2m, 5m, 15m, 30m, 60m, 90m, 1h, 1d, 1w, 1wk, 1mo, 3mo');
-    });
-
-    it('should return isValid: false for invalid fields', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-10', '1d', ['']);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Invalid fields provided');
-    });
-
-    it('should return isValid: false if more than 20 fields are provided', () => {
-      const fields = new Array(21).fill('close');
-      const result = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-10', '1d', fields);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Maximum 20 fields allowed per request');
-    });
-
-    it('should return isValid: false if ticker is missing', () => {
-      const result = service.validateHistoricalRequest('', '2024-01-01', '2024-01-10');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Ticker must be provided');
-    });
-
-    it('should return isValid: false if from date is invalid format', () => {
-      const result = service.validateHistoricalRequest('AAPL', '01-01-2024', '2024-01-10');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('From date must be in yyyy-MM-dd format');
-    });
-
-    it('should return isValid: false if to date is invalid format', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024/01/10');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('To date must be in yyyy-MM-dd format');
-    });
-
-    it('should return isValid: false if from date is after to date', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2024-01-10', '2024-01-01');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('From date must be before or equal to to date');
-    });
-
-    it('should return isValid: false for nonsensical dates', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2024-13-45', '2024-01-10');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Invalid from date');
-    });
-
-    it('should return isValid: false if daily date range exceeds 5 years', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2019-01-01', '2024-01-02', '1d');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Date range exceeds maximum of 5 years for daily interval');
-    });
-
-    it('should return isValid: true if daily date range is within 5 years', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2020-01-01', '2024-12-30', '1d');
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if weekly date range exceeds 50 years', () => {
-      const result = service.validateHistoricalRequest('AAPL', '1974-01-01', '2024-01-02', '1w');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Date range exceeds maximum of 50 years for weekly interval');
-    });
-
-    it('should return isValid: true if weekly date range is within 50 years', () => {
-      const result = service.validateHistoricalRequest('AAPL', '1975-01-01', '2024-12-01', '1wk');
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should treat 1w and 1wk as weekly interval', () => {
-      const result1w = service.validateHistoricalRequest('AAPL', '1974-01-01', '2024-01-02', '1w');
-      const result1wk = service.validateHistoricalRequest('AAPL', '1974-01-01', '2024-01-02', '1wk');
-      expect(result1w.isValid).toBe(false);
-      expect(result1wk.isValid).toBe(false);
-      expect(result1w.error).toBe('Date range exceeds maximum of 50 years for weekly interval');
-      expect(result1wk.error).toBe('Date range exceeds maximum of 50 years for weekly interval');
-    });
-
-    it('should return isValid: true for intraday intervals like 1m, 5m, 1h', () => {
-      const result1m = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-07', '1m');
-      const result5m = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-07', '5m');
-      const result1h = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-07', '1h');
-      expect(result1m.isValid).toBe(true);
-      expect(result5m.isValid).toBe(true);
-      expect(result1h.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if intraday interval exceeds 7 days', () => {
-      const result = service.validateHistoricalRequest('AAPL', '2024-01-01', '2024-01-09', '1m');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Date range exceeds maximum of 7 days for intraday interval "1m"');
-    });
-
-    it('should return isValid: true for monthly intervals 1mo and 3mo', () => {
-      const result1mo = service.validateHistoricalRequest('AAPL', '2000-01-01', '2024-01-01', '1mo');
-      const result3mo = service.validateHistoricalRequest('AAPL', '2000-01-01', '2024-01-01', '3mo');
-      expect(result1mo.isValid).toBe(true);
-      expect(result3mo.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if monthly interval exceeds 50 years', () => {
-      const result = service.validateHistoricalRequest('AAPL', '1970-01-01', '2024-01-01', '1mo');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Date range exceeds maximum of 50 years for monthly interval');
-    });
-  });
-
   describe('getOptions', () => {
     it('should call yahoo.options with the correct parameters and return the result', async () => {
       const request = { ticker: 'AAPL' };
@@ -498,7 +481,11 @@ describe('YahooFinanceService', () => {
       const error = new Error('Failed to fetch options');
       mockYahooFinance.options.mockRejectedValue(error);
 
-      await expect(service.getOptions(request, mockContext)).rejects.toThrow(error);
+      await expect(service.getOptions(request, mockContext)).rejects.toMatchObject({
+        name: 'UpstreamError',
+        message: error.message,
+        cause: error,
+      });
 
       expect(mockContext.error).toHaveBeenCalledWith(
         `Error fetching options from Yahoo Finance: ${error.message}`,
@@ -506,117 +493,4 @@ describe('YahooFinanceService', () => {
       );
     });
   });
-
-  describe('validateOptionsRequest', () => {
-    it('should return isValid: true for valid input', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, undefined, undefined, undefined);
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if ticker is missing', () => {
-      const result = service.validateOptionsRequest('');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Ticker must be provided');
-    });
-
-    it('should return isValid: false if ticker is blank', () => {
-      const result = service.validateOptionsRequest('   ');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Ticker must be provided');
-    });
-
-    it('should return isValid: false if expirationDate has an invalid format', () => {
-      const result = service.validateOptionsRequest('AAPL', '01-01-2024');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Expiration date must be in yyyy-MM-dd format');
-    });
-
-    it('should return isValid: false if expirationDate is not a real date', () => {
-      const result = service.validateOptionsRequest('AAPL', '2024-13-45');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Invalid expiration date');
-    });
-
-    it('should return isValid: true for a valid expirationDate', () => {
-      const result = service.validateOptionsRequest('AAPL', '2024-01-01');
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if expirationDatesCount is not an integer', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, 1.5);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('expirationDatesCount must be an integer between 1 and 24');
-    });
-
-    it('should return isValid: false if expirationDatesCount is out of range', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, 25);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('expirationDatesCount must be an integer between 1 and 24');
-    });
-
-    it('should return isValid: false if both expirationDate and expirationDatesCount are provided', () => {
-      const result = service.validateOptionsRequest('AAPL', '2024-01-01', 2);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Cannot specify both expirationDate and expirationDatesCount');
-    });
-
-    it('should return isValid: false for invalid filter values', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, undefined, ['invalid']);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Invalid filter values: invalid. Valid values are: calls, puts');
-    });
-
-    it('should return isValid: true for valid filter values', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, undefined, ['calls', 'puts']);
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if limit is not an integer', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, undefined, undefined, 1.5);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Limit must be an integer between 1 and 50');
-    });
-
-    it('should return isValid: false if limit is out of range', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, undefined, undefined, 51);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Limit must be an integer between 1 and 50');
-    });
-
-    it('should return isValid: true for a valid limit', () => {
-      const result = service.validateOptionsRequest('AAPL', undefined, undefined, undefined, 10);
-      expect(result.isValid).toBe(true);
-    });
-  });
-
-  describe('validateSummaryRequest', () => {
-    it('should return isValid: true for valid input', () => {
-      const result = service.validateSummaryRequest('AAPL', ['financialData', 'recommendationTrend']);
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: true when modules are undefined', () => {
-      const result = service.validateSummaryRequest('AAPL');
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should return isValid: false if ticker is missing', () => {
-      const result = service.validateSummaryRequest('');
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Ticker must be provided');
-    });
-
-    it('should return isValid: false for an invalid module', () => {
-      const result = service.validateSummaryRequest('AAPL', ['notAModule']);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Invalid modules: notAModule');
-    });
-
-    it('should return isValid: false if more than 20 modules are provided', () => {
-      const modules = new Array(21).fill('financialData');
-      const result = service.validateSummaryRequest('AAPL', modules);
-      expect(result.isValid).toBe(false);
-      expect(result.error).toBe('Maximum 20 modules allowed per request');
-    });
-  });
 });
@@ -0,0 +1,39 @@
+import { negotiateEncoding, negotiateMediaType } from '../../src/utils/contentNegotiation';
+
+describe('negotiateMediaType', () => {
+  const supported = ['application/xml', 'text/xml', 'application/json'];
+
+  it.each([
+    [null, 'application/xml'],
+    ['*/*', 'application/xml'],
+    ['application/json', 'application/json'],
+    ['application/json, */*;q=0.8', 'application/json'],
+    ['text/*', 'text/xml'],
+    ['application/xml;q=0.2, application/json;q=0.9', 'application/json'],
+    ['application/*;q=0.5, application/json', 'application/json'],
+    ['application/json;q=0', 'application/xml'],
+    ['text/html', 'application/xml'],
+  ])('should pick the preferred type for Accept %p', (accept, expected) => {
+    expect(negotiateMediaType(accept, supported)).toBe(expected);
+  });
+});
+
+describe('negotiateEncoding', () => {
+  const supported = ['br', 'gzip'];
+
+  it.each([
+    [null, 'identity'],
+    ['', 'identity'],
+    ['gzip', 'gzip'],
+    ['gzip, deflate, br', 'br'],
+    ['br;q=0.5, gzip', 'gzip'],
+    ['GZIP', 'gzip'],
+    ['*', 'br'],
+    ['br;q=0, *', 'gzip'],
+    ['deflate', 'identity'],
+    ['identity', 'identity'],
+    ['gzip;q=0, br;q=0', 'identity'],
+  ])('should pick the coding for Accept-Encoding %p', (acceptEncoding, expected) => {
+    expect(negotiateEncoding(acceptEncoding, supported)).toBe(expected);
+  });
+});
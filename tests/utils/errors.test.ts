@@ -0,0 +1,50 @@
+import {
+  ApiError,
+  UpstreamError,
+  UpstreamRateLimited,
+  UpstreamTimeout,
+  ValidationError,
+  toUpstreamError,
+} from '../../src/utils/errors';
+
+describe('errors', () => {
+  it('should keep the internal message separate from the client detail', () => {
+    const error = new UpstreamError('Alpha Vantage', 'Alpha Vantage API error: Invalid API key abc123');
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.name).toBe('UpstreamError');
+    expect(error.message).toBe('Alpha Vantage API error: Invalid API key abc123');
+    expect(error.detail).toBe('Alpha Vantage returned an invalid response');
+  });
+
+  describe('toUpstreamError', () => {
+    it('should return ApiError instances unchanged', () => {
+      const error = new ValidationError('Ticker must be provided');
+      expect(toUpstreamError(error, 'Yahoo Finance')).toBe(error);
+    });
+
+    it.each(['ETIMEDOUT', 'ECONNABORTED'])('should map %s to UpstreamTimeout', (code) => {
+      const cause = Object.assign(new Error('timeout'), { code });
+      const error = toUpstreamError(cause, 'ECB');
+
+      expect(error).toBeInstanceOf(UpstreamTimeout);
+      expect(error.status).toBe(504);
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should map upstream 429 responses to UpstreamRateLimited', () => {
+      expect(
+        toUpstreamError(Object.assign(new Error('Too Many Requests'), { code: 429 }), 'Yahoo Finance'),
+      ).toBeInstanceOf(UpstreamRateLimited);
+      expect(toUpstreamError({ response: { status: 429 } }, 'ECB')).toBeInstanceOf(UpstreamRateLimited);
+    });
+
+    it('should map anything else to UpstreamError and keep the original message', () => {
+      const error = toUpstreamError(new Error('Network Error'), 'ECB');
+
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error.status).toBe(502);
+      expect(error.message).toBe('Network Error');
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { createTrustedProxyList, isTrusted, parseAddress, toIpv6Prefix64 } from '../../src/utils/ipAddress';
+
+describe('ipAddress', () => {
+  describe('parseAddress', () => {
+    it.each([
+      ['1.2.3.4', '1.2.3.4'],
+      [' 1.2.3.4:8080 ', '1.2.3.4'],
+      ['2001:DB8::1', '2001:db8::1'],
+      ['[2001:db8::1]', '2001:db8::1'],
+      ['[2001:db8::1]:443', '2001:db8::1'],
+      ['::ffff:10.0.0.1', '10.0.0.1'],
+      ['unknown', null],
+      ['1.2.3', null],
+      ['', null],
+    ])('should parse %j as %j', (value, expected) => {
+      expect(parseAddress(value)).toBe(expected);
+    });
+  });
+
+  describe('toIpv6Prefix64', () => {
+    it.each([
+      ['2001:db8:0:1:2:3:4:5', '2001:db8:0:1::/64'],
+      ['2001:db8::1', '2001:db8:0:0::/64'],
+      ['::1', '0:0:0:0::/64'],
+      ['fe80::', 'fe80:0:0:0::/64'],
+    ])('should group %s as %s', (address, prefix) => {
+      expect(toIpv6Prefix64(address)).toBe(prefix);
+    });
+  });
+
+  describe('createTrustedProxyList', () => {
+    it('should match addresses inside the configured ranges', () => {
+      const list = createTrustedProxyList('10.0.0.0/8, 192.168.1.5, fd00::/8');
+
+      expect(isTrusted(list, '10.20.30.40')).toBe(true);
+      expect(isTrusted(list, '192.168.1.5')).toBe(true);
+      expect(isTrusted(list, '192.168.1.6')).toBe(false);
+      expect(isTrusted(list, 'fd12:3456::1')).toBe(true);
+      expect(isTrusted(list, '2001:db8::1')).toBe(false);
+    });
+
+    it('should trust nothing when empty', () => {
+      expect(isTrusted(createTrustedProxyList(undefined), '127.0.0.1')).toBe(false);
+    });
+
+    it.each(['10.0.0.0/33', 'not-an-ip', '10.0.0.0/abc'])('should reject %s', (entry) => {
+      expect(() => createTrustedProxyList(entry)).toThrow(`Invalid trusted proxy "${entry}"`);
+    });
+  });
+});